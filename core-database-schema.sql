@@ -6,6 +6,9 @@
 -- 开启UUID扩展
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- 开启三元组扩展（中文等无分词语言的搜索回退）
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- ===================================================================
 -- 核心用户系统
 -- ===================================================================
@@ -16,6 +19,10 @@ CREATE TABLE IF NOT EXISTS users (
     email VARCHAR(255) NOT NULL UNIQUE,
     full_name VARCHAR(255),
     avatar_url TEXT,
+    review_scheduler VARCHAR(10) NOT NULL DEFAULT 'sm2' CHECK (review_scheduler IN ('sm2', 'fsrs')), -- 闪卡排程算法
+    learning_steps INTEGER[] NOT NULL DEFAULT '{1,10}', -- 新卡学习步长（分钟）
+    relearning_steps INTEGER[] NOT NULL DEFAULT '{10}', -- 遗忘后重学步长（分钟）
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- IANA时区，学习连续天数和热力图按当地日期统计
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -24,6 +31,7 @@ CREATE TABLE IF NOT EXISTS users (
 CREATE TABLE IF NOT EXISTS folders (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES folders(id) ON DELETE CASCADE, -- 嵌套文件夹
     name VARCHAR(255) NOT NULL,
     color VARCHAR(20),
     icon VARCHAR(50),
@@ -40,14 +48,24 @@ CREATE TABLE IF NOT EXISTS notes (
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     folder_id UUID REFERENCES folders(id) ON DELETE SET NULL,
     title VARCHAR(500) NOT NULL,
-    source_type VARCHAR(50) NOT NULL, -- 'pdf', 'audio', 'text', 'youtube'
+    source_type VARCHAR(50) NOT NULL, -- 'pdf', 'audio', 'text', 'youtube', 'web', 'import'
     content_status VARCHAR(50) DEFAULT 'completed', -- 'processing', 'completed', 'failed'
+    failure_reason TEXT, -- 处理失败时展示给用户的原因
     
     -- 内容字段
     markdown TEXT,
     transcription TEXT,
     url TEXT,
     image_url TEXT,
+    source_hash TEXT, -- 来源指纹：文件内容的 SHA-256 或 'youtube:<videoId>'，用于识别重复导入
+    tags TEXT[] NOT NULL DEFAULT '{}', -- 标签（不含 #），随 Obsidian 仓库导入导出
+    
+    -- 全文搜索（'simple' 配置不做词干提取，适用于所有界面语言）
+    search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+        setweight(to_tsvector('simple', COALESCE(transcription, '')), 'B') ||
+        setweight(to_tsvector('simple', COALESCE(markdown, '')), 'B')
+    ) STORED,
     
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
@@ -57,10 +75,84 @@ CREATE TABLE IF NOT EXISTS notes (
 CREATE TABLE IF NOT EXISTS content_blocks (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
-    type VARCHAR(50) NOT NULL, -- 'summary', 'key_points', 'questions'
+    type VARCHAR(50) NOT NULL, -- 'summary', 'key_points', 'questions', 'text', 'personal_notes' (用户自己的笔记，重新分析时保留)
     title VARCHAR(200) NOT NULL,
+    icon VARCHAR(50),
+    icon_color VARCHAR(20),
     content JSONB NOT NULL,
-    sort_order INTEGER DEFAULT 0
+    sort_order INTEGER DEFAULT 0,
+    
+    -- 全文搜索：标题 + JSON 中的所有字符串值
+    search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+        setweight(jsonb_to_tsvector('simple', content, '["string"]'), 'C')
+    ) STORED,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ===================================================================
+-- 后台任务系统
+-- ===================================================================
+
+-- 任务队列（内容导入等耗时处理）
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL, -- 'ingest'
+    status VARCHAR(50) NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'completed', 'failed'
+    payload JSONB NOT NULL DEFAULT '{}',
+    state JSONB NOT NULL DEFAULT '{}', -- 已完成阶段的输出，重试时从失败的阶段继续
+    stage VARCHAR(50), -- 当前阶段
+    progress INTEGER NOT NULL DEFAULT 0, -- 0-100，供处理页面实时展示
+    message TEXT, -- 当前进度说明
+    attempts INTEGER NOT NULL DEFAULT 0, -- 当前阶段已失败次数
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    last_error TEXT,
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- AI 响应缓存（相同提示词、模型和参数直接复用结果）
+CREATE TABLE IF NOT EXISTS ai_response_cache (
+    cache_key CHAR(64) PRIMARY KEY, -- SHA-256(提供方 + 模型 + 参数 + 提示词)
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(255) NOT NULL,
+    response TEXT NOT NULL,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_hit_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- AI 用量台账（每次模型或转录调用一条）
+CREATE TABLE IF NOT EXISTS usage_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    note_id UUID REFERENCES notes(id) ON DELETE SET NULL, -- 笔记删除后保留用量记录
+    task VARCHAR(50) NOT NULL, -- 'analysis', 'flashcards', 'mindmap', 'quiz', 'transcription'
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(255) NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    audio_seconds NUMERIC(10,2) NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12,6), -- 提供方未报告费用时为空
+    cached BOOLEAN NOT NULL DEFAULT FALSE, -- 命中响应缓存，未实际调用模型
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 用户月度额度（未设置的字段使用环境变量中的默认值）
+CREATE TABLE IF NOT EXISTS usage_quotas (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    monthly_token_limit INTEGER, -- NULL 表示使用默认值
+    monthly_audio_minutes_limit INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
 -- ===================================================================
@@ -72,12 +164,23 @@ CREATE TABLE IF NOT EXISTS flashcards (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    question TEXT NOT NULL,
-    answer TEXT NOT NULL,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    card_type VARCHAR(20) NOT NULL DEFAULT 'basic' CHECK (card_type IN ('basic', 'cloze', 'image_occlusion')),
+    question TEXT NOT NULL, -- 填空卡为含 {{c1::...}} 的原文；遮挡卡为提示语
+    answer TEXT NOT NULL, -- 填空卡为背面补充说明（可为空）；遮挡卡为该遮罩的标签
+    sibling_group UUID, -- 同一段填空原文或同一张图生成的兄弟卡共享
+    ordinal INTEGER, -- 填空编号或遮罩序号（从 1 开始），问答卡为空
+    media JSONB, -- 遮挡卡: {"image_url": "...", "masks": [{"x", "y", "width", "height"}]}，坐标为图片宽高的比例
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    
+    -- 全文搜索
+    search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', COALESCE(question, '')), 'A') ||
+        setweight(to_tsvector('simple', COALESCE(answer, '')), 'B')
+    ) STORED
 );
 
--- SM-2间隔重复核心表
+-- 间隔重复核心表（SM-2 / FSRS）
 CREATE TABLE IF NOT EXISTS spaced_repetition (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     flashcard_id UUID NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
@@ -87,10 +190,20 @@ CREATE TABLE IF NOT EXISTS spaced_repetition (
     repetitions INTEGER NOT NULL DEFAULT 0,
     easiness_factor DECIMAL(3,2) NOT NULL DEFAULT 2.50,
     interval_days INTEGER NOT NULL DEFAULT 1,
-    next_review_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    next_review_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP, -- 精确到分钟，学习步长内的卡当天再次到期
     last_quality INTEGER CHECK (last_quality >= 0 AND last_quality <= 5),
+    last_reviewed_at TIMESTAMP WITH TIME ZONE,
     is_new BOOLEAN NOT NULL DEFAULT TRUE,
     
+    -- 学习阶段：新卡和遗忘的卡在当天按分钟级步长复习，毕业后才进入按天排程
+    card_state VARCHAR(20) NOT NULL DEFAULT 'new' CHECK (card_state IN ('new', 'learning', 'review', 'relearning')),
+    learning_step INTEGER, -- 当前所在步长的下标，不在学习阶段时为空
+    reset_at TIMESTAMP WITH TIME ZONE, -- 手动重置学习进度的时间，切换算法重放历史时忽略此前的复习记录
+    
+    -- FSRS算法参数（首次在FSRS下复习前为空）
+    stability DECIMAL(10,4), -- 记忆稳定性：回忆概率降到90%所需天数
+    difficulty DECIMAL(4,2), -- 难度 1-10
+    
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
     
@@ -102,7 +215,7 @@ CREATE TABLE IF NOT EXISTS review_sessions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     flashcard_id UUID NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    quality INTEGER NOT NULL CHECK (quality >= 0 AND quality <= 5),
+    quality INTEGER NOT NULL CHECK (quality >= 0 AND quality <= 5), -- 评分按钮：Again=1, Hard=3, Good=4, Easy=5
     response_time_ms INTEGER,
     reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -128,6 +241,7 @@ CREATE TABLE IF NOT EXISTS quiz_questions (
     question TEXT NOT NULL,
     options JSONB NOT NULL,
     correct_answer_index INTEGER NOT NULL,
+    explanation TEXT, -- 答题后展示的解析
     sort_order INTEGER DEFAULT 0
 );
 
@@ -172,6 +286,98 @@ CREATE TABLE IF NOT EXISTS mind_maps (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- ===================================================================
+-- 笔记版本历史
+-- ===================================================================
+
+-- 笔记版本（每次保存前的快照：正文、内容块、思维导图）
+CREATE TABLE IF NOT EXISTS note_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reason VARCHAR(50) NOT NULL, -- 'markdown', 'content_blocks', 'mind_map', 'regenerate', 'restore'
+    
+    -- 快照内容
+    markdown TEXT,
+    content_blocks JSONB NOT NULL DEFAULT '[]', -- [{id, type, title, content, icon, icon_color}]，按显示顺序
+    mind_maps JSONB NOT NULL DEFAULT '[]', -- [{id, title, nodes, edges}]
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ===================================================================
+-- 已有数据库升级（上面的 CREATE TABLE IF NOT EXISTS 不会给旧表加列，重复执行无副作用）
+-- ===================================================================
+
+-- 用户：排程算法、学习步长、时区
+ALTER TABLE users ADD COLUMN IF NOT EXISTS review_scheduler VARCHAR(10) NOT NULL DEFAULT 'sm2' CHECK (review_scheduler IN ('sm2', 'fsrs'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS learning_steps INTEGER[] NOT NULL DEFAULT '{1,10}';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS relearning_steps INTEGER[] NOT NULL DEFAULT '{10}';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- 嵌套文件夹
+ALTER TABLE folders ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES folders(id) ON DELETE CASCADE;
+
+-- 笔记：失败原因、来源指纹、标签、全文搜索
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS source_hash TEXT;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(transcription, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(markdown, '')), 'B')
+) STORED;
+
+-- 内容块：图标、时间戳、全文搜索（旧块的时间戳取所属笔记的时间）
+ALTER TABLE content_blocks ADD COLUMN IF NOT EXISTS icon VARCHAR(50);
+ALTER TABLE content_blocks ADD COLUMN IF NOT EXISTS icon_color VARCHAR(20);
+ALTER TABLE content_blocks ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE content_blocks ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+UPDATE content_blocks cb
+SET created_at = COALESCE(cb.created_at, n.created_at),
+    updated_at = COALESCE(cb.updated_at, n.updated_at)
+FROM notes n
+WHERE n.id = cb.note_id AND (cb.created_at IS NULL OR cb.updated_at IS NULL);
+ALTER TABLE content_blocks ALTER COLUMN created_at SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE content_blocks ALTER COLUMN updated_at SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE content_blocks ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+    setweight(jsonb_to_tsvector('simple', content, '["string"]'), 'C')
+) STORED;
+
+-- 闪卡：卡片类型、兄弟卡、遮挡图片、更新时间、全文搜索（旧卡均为问答卡）
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS card_type VARCHAR(20) NOT NULL DEFAULT 'basic' CHECK (card_type IN ('basic', 'cloze', 'image_occlusion'));
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS sibling_group UUID;
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS ordinal INTEGER;
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS media JSONB;
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+UPDATE flashcards SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE flashcards ALTER COLUMN updated_at SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', COALESCE(question, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(answer, '')), 'B')
+) STORED;
+
+-- 间隔重复：学习阶段与 FSRS 参数（复习过的旧卡直接进入按天排程）
+ALTER TABLE spaced_repetition ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE spaced_repetition ADD COLUMN IF NOT EXISTS card_state VARCHAR(20) NOT NULL DEFAULT 'new' CHECK (card_state IN ('new', 'learning', 'review', 'relearning'));
+ALTER TABLE spaced_repetition ADD COLUMN IF NOT EXISTS learning_step INTEGER;
+ALTER TABLE spaced_repetition ADD COLUMN IF NOT EXISTS reset_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE spaced_repetition ADD COLUMN IF NOT EXISTS stability DECIMAL(10,4);
+ALTER TABLE spaced_repetition ADD COLUMN IF NOT EXISTS difficulty DECIMAL(4,2);
+UPDATE spaced_repetition SET card_state = 'review' WHERE card_state = 'new' AND is_new = FALSE;
+UPDATE spaced_repetition sr
+SET last_reviewed_at = r.last_reviewed
+FROM (
+    SELECT flashcard_id, user_id, MAX(reviewed_at) as last_reviewed
+    FROM review_sessions
+    GROUP BY flashcard_id, user_id
+) r
+WHERE sr.last_reviewed_at IS NULL AND r.flashcard_id = sr.flashcard_id AND r.user_id = sr.user_id;
+
+-- 测验解析
+ALTER TABLE quiz_questions ADD COLUMN IF NOT EXISTS explanation TEXT;
+
 -- ===================================================================
 -- 核心索引
 -- ===================================================================
@@ -179,14 +385,19 @@ CREATE TABLE IF NOT EXISTS mind_maps (
 -- 用户相关
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_folders_user ON folders(user_id);
+CREATE INDEX IF NOT EXISTS idx_folders_parent ON folders(parent_id);
 
 -- 笔记相关
 CREATE INDEX IF NOT EXISTS idx_notes_user_created ON notes(user_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_notes_folder ON notes(folder_id);
+CREATE INDEX IF NOT EXISTS idx_notes_user_source_hash ON notes(user_id, source_hash) WHERE source_hash IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_content_blocks_note ON content_blocks(note_id, sort_order);
+-- 每篇笔记最多一个个人笔记块
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_blocks_personal_notes ON content_blocks(note_id) WHERE type = 'personal_notes';
 
 -- 闪卡和学习
 CREATE INDEX IF NOT EXISTS idx_flashcards_note_user ON flashcards(note_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_flashcards_sibling_group ON flashcards(sibling_group) WHERE sibling_group IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_spaced_repetition_user_next_review 
     ON spaced_repetition(user_id, next_review_date);
 CREATE INDEX IF NOT EXISTS idx_spaced_repetition_flashcard ON spaced_repetition(flashcard_id);
@@ -196,11 +407,35 @@ CREATE INDEX IF NOT EXISTS idx_review_sessions_user_date ON review_sessions(user
 CREATE INDEX IF NOT EXISTS idx_quizzes_note ON quizzes(note_id);
 CREATE INDEX IF NOT EXISTS idx_quiz_questions_quiz ON quiz_questions(quiz_id, sort_order);
 CREATE INDEX IF NOT EXISTS idx_quiz_answers_session ON quiz_answers(study_session_id);
+CREATE INDEX IF NOT EXISTS idx_study_sessions_content ON study_sessions(content_type, content_id);
 CREATE INDEX IF NOT EXISTS idx_study_sessions_user ON study_sessions(user_id, started_at DESC);
 
 -- 思维导图
 CREATE INDEX IF NOT EXISTS idx_mind_maps_note_user ON mind_maps(note_id, user_id);
 
+-- 笔记版本
+CREATE INDEX IF NOT EXISTS idx_note_versions_note_created ON note_versions(note_id, created_at DESC);
+
+-- 后台任务
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_after ON jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_jobs_note ON jobs(note_id);
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires ON ai_response_cache(expires_at);
+
+-- AI 用量
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON usage_events(user_id, created_at);
+
+-- 全文搜索
+CREATE INDEX IF NOT EXISTS idx_notes_search ON notes USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_content_blocks_search ON content_blocks USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_flashcards_search ON flashcards USING GIN(search_vector);
+
+-- 三元组索引（加速 ILIKE，用于中文搜索回退）
+CREATE INDEX IF NOT EXISTS idx_notes_title_trgm ON notes USING GIN(title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_notes_transcription_trgm ON notes USING GIN(transcription gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_content_blocks_content_trgm ON content_blocks USING GIN((content::text) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_flashcards_question_trgm ON flashcards USING GIN(question gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_flashcards_answer_trgm ON flashcards USING GIN(answer gin_trgm_ops);
+
 -- ===================================================================
 -- 核心触发器
 -- ===================================================================
@@ -221,18 +456,32 @@ CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
 CREATE TRIGGER update_notes_updated_at BEFORE UPDATE ON notes 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_content_blocks_updated_at BEFORE UPDATE ON content_blocks 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_flashcards_updated_at BEFORE UPDATE ON flashcards 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_spaced_repetition_updated_at BEFORE UPDATE ON spaced_repetition 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_mind_maps_updated_at BEFORE UPDATE ON mind_maps 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_jobs_updated_at BEFORE UPDATE ON jobs 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_usage_quotas_updated_at BEFORE UPDATE ON usage_quotas 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- ===================================================================
 -- 核心视图
 -- ===================================================================
 
--- 到期闪卡视图（SM-2算法核心）
-CREATE OR REPLACE VIEW due_flashcards AS
+-- 到期闪卡视图（与排程算法无关，只看 next_review_date）
+-- 先删除再创建：CREATE OR REPLACE VIEW 不能在已有视图的列中间插入新列
+DROP VIEW IF EXISTS due_flashcards;
+CREATE VIEW due_flashcards AS
 SELECT 
     sr.flashcard_id,
     sr.user_id,
@@ -241,8 +490,17 @@ SELECT
     sr.easiness_factor,
     sr.interval_days,
     sr.is_new,
+    sr.card_state,
+    sr.last_reviewed_at,
+    sr.stability,
+    sr.difficulty,
+    f.card_type,
     f.question,
     f.answer,
+    f.sibling_group,
+    f.ordinal,
+    f.media,
+    f.created_at,
     f.note_id,
     n.title as note_title,
     CASE 
@@ -257,12 +515,14 @@ WHERE sr.next_review_date <= CURRENT_TIMESTAMP
 ORDER BY sr.next_review_date ASC;
 
 -- 用户学习统计视图
-CREATE OR REPLACE VIEW user_learning_stats AS
+DROP VIEW IF EXISTS user_learning_stats;
+CREATE VIEW user_learning_stats AS
 SELECT 
     sr.user_id,
     COUNT(*) as total_cards,
     COUNT(*) FILTER (WHERE sr.is_new = TRUE) as new_cards,
     COUNT(*) FILTER (WHERE sr.repetitions >= 2) as review_cards,
+    COUNT(*) FILTER (WHERE sr.card_state IN ('learning', 'relearning')) as learning_cards,
     COUNT(*) FILTER (WHERE sr.next_review_date <= CURRENT_TIMESTAMP) as cards_due_now
 FROM spaced_repetition sr
 GROUP BY sr.user_id;
@@ -312,8 +572,13 @@ $$ LANGUAGE plpgsql;
 COMMENT ON TABLE users IS '用户基础信息';
 COMMENT ON TABLE notes IS '笔记主表，支持PDF、音频、文本等多种来源';
 COMMENT ON TABLE flashcards IS '从笔记生成的学习卡片';
-COMMENT ON TABLE spaced_repetition IS 'SM-2间隔重复算法核心数据';
+COMMENT ON TABLE spaced_repetition IS '间隔重复核心数据，SM-2 与 FSRS 共用';
 COMMENT ON TABLE mind_maps IS 'AI生成的思维导图';
+COMMENT ON TABLE note_versions IS '笔记版本历史，每次保存前自动快照，可对比与恢复';
+COMMENT ON TABLE jobs IS '后台任务队列，按阶段执行并支持重试';
+COMMENT ON TABLE ai_response_cache IS 'AI 响应缓存，按过期时间定期清理';
+COMMENT ON TABLE usage_events IS 'AI 调用用量台账，用于统计与月度额度';
+COMMENT ON TABLE usage_quotas IS '按用户覆盖的月度 AI 额度';
 COMMENT ON VIEW due_flashcards IS '到期需要复习的闪卡';
 
 -- 架构版本：核心简化版 v1.0
@@ -7,7 +7,10 @@ const withNextIntl = require('next-intl/plugin')(
 const nextConfig = {
   experimental: {
     // Enable webpack build worker to avoid module resolution issues
-    webpackBuildWorker: true
+    webpackBuildWorker: true,
+    // sql.js loads its wasm from node_modules at runtime (Anki package import/export);
+    // pdfkit reads its font metrics from its own data directory (note PDF export)
+    serverComponentsExternalPackages: ['sql.js', 'pdfkit']
   },
   webpack: (config, { isServer }) => {
     if (isServer) {
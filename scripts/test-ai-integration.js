@@ -40,9 +40,9 @@ The field continues to evolve rapidly with advances in deep learning, neural net
     
     // Test 2: Service initialization
     console.log('\n2️⃣ Testing service initialization...')
-    const { OpenRouterService } = require('../src/lib/openrouter-service.ts')
-    const openRouter = new OpenRouterService()
-    console.log('✅ OpenRouterService initialized successfully')
+    const { LLMService } = require('../src/lib/llm-service.ts')
+    const openRouter = new LLMService()
+    console.log('✅ LLMService initialized successfully')
     
     // Test 3: Health check
     console.log('\n3️⃣ Testing API connectivity...')
@@ -1,9 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import Sidebar from '@/components/Sidebar'
 import Link from 'next/link'
+import { NOTE_DRAG_TYPE } from '@/lib/folder-client-service'
 // NoteSummary interface
 interface NoteSummary {
   id: string
@@ -18,9 +19,18 @@ import RecordAudioModal from '@/components/modals/RecordAudioModal'
 import UploadAudioModal from '@/components/modals/UploadAudioModal'
 import UploadPDFModal from '@/components/modals/UploadPDFModal'
 import YoutubeVideoModal from '@/components/modals/YoutubeVideoModal'
+import TextNoteModal from '@/components/modals/TextNoteModal'
+import WebArticleModal from '@/components/modals/WebArticleModal'
+import ImportFlashcardsModal from '@/components/modals/ImportFlashcardsModal'
+import ImportVaultModal from '@/components/modals/ImportVaultModal'
 
 export default function DashboardPage() {
   const router = useRouter()
+  const folderId = useSearchParams().get('folder')
+  // A selected folder shows all of its notes instead of the recent list
+  const notesEndpoint = folderId
+    ? `/api/notes?folderId=${encodeURIComponent(folderId)}`
+    : '/api/notes/recent?limit=6'
   const [activeModal, setActiveModal] = useState<string | null>(null)
   const [recentNotes, setRecentNotes] = useState<NoteSummary[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -42,8 +52,8 @@ export default function DashboardPage() {
     },
     {
       icon: '📄',
-      title: 'Upload PDF',
-      description: 'Upload PDF document',
+      title: 'Upload document',
+      description: 'PDF, Word, slides or EPUB',
       modalType: 'upload-pdf',
       color: 'text-orange-400'
     },
@@ -53,6 +63,34 @@ export default function DashboardPage() {
       description: 'Paste YouTube URL',
       modalType: 'youtube-video',
       color: 'text-yellow-400'
+    },
+    {
+      icon: '📝',
+      title: 'Paste text',
+      description: 'Text or Markdown',
+      modalType: 'text-note',
+      color: 'text-blue-400'
+    },
+    {
+      icon: '🌐',
+      title: 'Web article',
+      description: 'Paste article URL',
+      modalType: 'web-article',
+      color: 'text-cyan-400'
+    },
+    {
+      icon: '🗂️',
+      title: 'Import flashcards',
+      description: 'Anki deck or CSV',
+      modalType: 'import-flashcards',
+      color: 'text-green-400'
+    },
+    {
+      icon: '💎',
+      title: 'Import vault',
+      description: 'Obsidian vault (.zip)',
+      modalType: 'import-vault',
+      color: 'text-purple-400'
     }
   ]
 
@@ -61,7 +99,7 @@ export default function DashboardPage() {
     const loadRecentNotes = async () => {
       setIsLoading(true)
       try {
-        const response = await fetch('/api/notes/recent?limit=6')
+        const response = await fetch(notesEndpoint)
         if (response.ok) {
           const result = await response.json()
           if (result.success) {
@@ -81,13 +119,13 @@ export default function DashboardPage() {
     }
 
     loadRecentNotes()
-  }, [])
+  }, [notesEndpoint])
 
   const handleFileGenerate = (fileOrNoteId: File | Blob | string) => {
-    // For PDF uploads and YouTube videos, this will be a noteId, for others it's still a file
+    // For PDF, text, web and YouTube imports, this will be a noteId, for others it's still a file
     if (typeof fileOrNoteId === 'string') {
-      // Navigate directly to the created note
-      router.push(`/notes/${fileOrNoteId}`)
+      // Follow the note while it is processed in the background
+      router.push(`/processing?noteId=${fileOrNoteId}`)
       // Refresh notes list
       loadRecentNotes()
     } else {
@@ -99,7 +137,7 @@ export default function DashboardPage() {
 
   const loadRecentNotes = async () => {
     try {
-      const response = await fetch('/api/notes/recent?limit=6')
+      const response = await fetch(notesEndpoint)
       if (response.ok) {
         const result = await response.json()
         if (result.success) {
@@ -124,7 +162,7 @@ export default function DashboardPage() {
 
   return (
     <div className="min-h-screen bg-gradient-surface flex">
-      <Sidebar className="w-80 shrink-0" />
+      <Sidebar className="w-80 shrink-0" onNoteMoved={loadRecentNotes} />
       
       <main className="flex-1 overflow-hidden">
         {/* Header */}
@@ -189,6 +227,8 @@ export default function DashboardPage() {
                   <Link
                     key={note.id}
                     href={`/notes/${note.id}`}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id)}
                     className="block card card-interactive p-8 group relative overflow-hidden"
                   >
                     <div className="flex items-center justify-between relative z-10">
@@ -232,7 +272,7 @@ export default function DashboardPage() {
                 <div className="text-6xl mb-6 opacity-30">📝</div>
                 <h3 className="text-xl text-text-secondary mb-4">No notes yet</h3>
                 <p className="text-text-muted mb-6">
-                  Upload a PDF, record audio, or create your first note to get started.
+                  Upload a document, record audio, or create your first note to get started.
                 </p>
                 <button
                   onClick={() => setActiveModal('upload-pdf')}
@@ -267,6 +307,30 @@ export default function DashboardPage() {
         onClose={() => setActiveModal(null)}
         onGenerate={handleFileGenerate}
       />
+      <TextNoteModal
+        isOpen={activeModal === 'text-note'}
+        onClose={() => setActiveModal(null)}
+        onGenerate={handleFileGenerate}
+        folderId={folderId}
+      />
+      <WebArticleModal
+        isOpen={activeModal === 'web-article'}
+        onClose={() => setActiveModal(null)}
+        onGenerate={handleFileGenerate}
+        folderId={folderId}
+      />
+      <ImportFlashcardsModal
+        isOpen={activeModal === 'import-flashcards'}
+        onClose={() => setActiveModal(null)}
+        onImported={loadRecentNotes}
+        folderId={folderId}
+      />
+      <ImportVaultModal
+        isOpen={activeModal === 'import-vault'}
+        onClose={() => setActiveModal(null)}
+        onImported={loadRecentNotes}
+        folderId={folderId}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,12 +1,16 @@
 'use client'
 
-import { useRouter, useParams } from 'next/navigation'
+import { useState } from 'react'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
 import FlashcardReview from '@/components/FlashcardReview'
+import FlashcardEditor from '@/components/FlashcardEditor'
 
 export default function NoteFlashcardsPage() {
   const router = useRouter()
   const params = useParams()
+  const searchParams = useSearchParams()
   const noteId = params.id as string
+  const [isReviewing, setIsReviewing] = useState(searchParams.get('mode') === 'review')
 
   const handleExit = () => {
     router.push(`/notes/${noteId}`)
@@ -19,11 +23,22 @@ export default function NoteFlashcardsPage() {
     }, 3000)
   }
 
+  if (isReviewing) {
+    return (
+      <FlashcardReview
+        noteId={noteId}
+        onExit={handleExit}
+        onComplete={handleComplete}
+      />
+    )
+  }
+
   return (
-    <FlashcardReview 
-      noteId={noteId}
-      onExit={handleExit}
-      onComplete={handleComplete}
-    />
+    <div className="min-h-screen bg-dark-primary p-8">
+      <button onClick={handleExit} className="text-gray-400 hover:text-white text-sm mb-6">
+        ← Back to note
+      </button>
+      <FlashcardEditor noteId={noteId} onStartReview={() => setIsReviewing(true)} />
+    </div>
   )
 }
\ No newline at end of file
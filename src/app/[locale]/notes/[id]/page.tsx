@@ -1,41 +1,46 @@
 'use client'
 
 import Sidebar from '@/components/Sidebar'
-import { useState } from 'react'
+import QuizRunner from '@/components/QuizRunner'
+import ContentBlockList from '@/components/ContentBlockList'
+import NoteBody from '@/components/NoteBody'
+import NoteHistoryDrawer from '@/components/NoteHistoryDrawer'
+import NoteExportMenu from '@/components/NoteExportMenu'
+import { NoteClientService, NoteDetail } from '@/lib/note-client-service'
+import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 
 export default function NoteDetailPage() {
   const params = useParams()
   const router = useRouter()
-  const [activeTab, setActiveTab] = useState('summary')
+  const [activeTab, setActiveTab] = useState('body')
+  const [note, setNote] = useState<NoteDetail | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  // Bumped after a restore so the editors reload the restored content
+  const [revision, setRevision] = useState(0)
   const noteId = params.id as string
 
   const tabs = [
+    { id: 'body', name: 'Note', active: activeTab === 'body' },
     { id: 'summary', name: 'Summary & Notes', active: activeTab === 'summary' },
     { id: 'mindmap', name: 'Mind Map', active: activeTab === 'mindmap' },
     { id: 'flashcards', name: 'Flashcards', active: activeTab === 'flashcards' },
     { id: 'quiz', name: 'Quiz', active: activeTab === 'quiz' }
   ]
 
-  const summaryContent = {
-    title: 'The Future of Work',
-    summary: 'The future of work is being shaped by rapid technological advancements, shifting demographics, and evolving societal expectations. Automation and artificial intelligence are transforming job roles, requiring workers to adapt and acquire new skills. The rise of the gig economy and remote work is blurring traditional employment boundaries, offering flexibility but also presenting challenges in terms of job security and benefits. As organizations embrace digital transformation, they must prioritize employee well-being, foster inclusive cultures, and invest in continuous learning and development to thrive in the changing landscape.',
-    notes: [
-      {
-        title: 'Key takeaway 1:',
-        content: 'Lifelong learning is no longer a choice but a necessity.'
-      },
-      {
-        title: 'Key takeaway 2:',
-        content: 'Soft skills like emotional intelligence and creativity are becoming more valuable.'
-      },
-      {
-        title: 'Question for further research:',
-        content: 'How can companies ensure fair compensation and benefits for gig workers?'
-      }
-    ],
-    personalNote: 'This reminds me of the industrial revolution and how society had to adapt to new technologies. The pace of change seems much faster now.'
+  const loadNote = async () => {
+    const noteService = new NoteClientService()
+    setNote(await noteService.getNote(noteId))
+  }
+
+  useEffect(() => {
+    loadNote()
+  }, [noteId])
+
+  const handleRestored = async () => {
+    await loadNote()
+    setRevision(current => current + 1)
   }
 
   return (
@@ -47,15 +52,16 @@ export default function NoteDetailPage() {
         <div className="bg-dark-secondary border-b border-gray-700 px-8 py-6">
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-3xl font-bold text-white">{summaryContent.title}</h1>
+              <h1 className="text-3xl font-bold text-white">{note?.title || ''}</h1>
             </div>
             
             <div className="flex items-center gap-4">
-              <button className="btn-primary flex items-center gap-2">
+              <NoteExportMenu noteId={noteId} />
+              <button onClick={() => setShowHistory(true)} className="btn-secondary flex items-center gap-2">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                Export
+                History
               </button>
               <button className="btn-secondary flex items-center gap-2">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -95,30 +101,12 @@ export default function NoteDetailPage() {
           </div>
 
           {/* Tab content */}
-          {activeTab === 'summary' && (
-            <div className="space-y-8">
-              <div>
-                <h2 className="text-xl font-semibold text-white mb-4">Summary</h2>
-                <p className="text-gray-300 leading-relaxed">
-                  {summaryContent.summary}
-                </p>
-              </div>
+          {activeTab === 'body' && note && (
+            <NoteBody key={`${note.id}-${revision}`} noteId={noteId} initialMarkdown={note.markdown} />
+          )}
 
-              <div>
-                <h2 className="text-xl font-semibold text-white mb-6">My Notes</h2>
-                <div className="space-y-4">
-                  {summaryContent.notes.map((note, index) => (
-                    <div key={index} className="bg-dark-tertiary p-4 rounded-lg">
-                      <p className="text-mango-500 font-medium mb-2">{note.title}</p>
-                      <p className="text-gray-300">{note.content}</p>
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-6 bg-dark-tertiary p-4 rounded-lg">
-                  <p className="text-gray-300 italic">"{summaryContent.personalNote}"</p>
-                </div>
-              </div>
-            </div>
+          {activeTab === 'summary' && (
+            <ContentBlockList key={revision} noteId={noteId} />
           )}
 
           {activeTab === 'mindmap' && (
@@ -146,26 +134,40 @@ export default function NoteDetailPage() {
                 <div className="text-6xl mb-6">🎴</div>
                 <h3 className="text-xl font-bold text-white mb-4">Study Flashcards</h3>
                 <p className="text-gray-400 mb-6">
-                  Review and practice with AI-generated flashcards from your note content.
+                  Review and practice with flashcards from your note content, or write your own.
                 </p>
-                <Link
-                  href={`/notes/${noteId}/flashcards`}
-                  className="btn-primary inline-flex items-center gap-2"
-                >
-                  <span>🎴</span>
-                  Start Review
-                </Link>
+                <div className="flex gap-3 justify-center">
+                  <Link
+                    href={`/notes/${noteId}/flashcards?mode=review`}
+                    className="btn-primary inline-flex items-center gap-2"
+                  >
+                    <span>🎴</span>
+                    Start Review
+                  </Link>
+                  <Link
+                    href={`/notes/${noteId}/flashcards`}
+                    className="btn-secondary inline-flex items-center gap-2"
+                  >
+                    <span>✏️</span>
+                    Edit Cards
+                  </Link>
+                </div>
               </div>
             </div>
           )}
 
           {activeTab === 'quiz' && (
-            <div className="text-center py-12">
-              <div className="text-gray-400 text-lg">Quiz functionality coming soon...</div>
-            </div>
+            <QuizRunner noteId={noteId} />
           )}
         </div>
       </main>
+
+      <NoteHistoryDrawer
+        noteId={noteId}
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        onRestored={handleRestored}
+      />
     </div>
   )
 }
\ No newline at end of file
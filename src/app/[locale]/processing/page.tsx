@@ -1,61 +1,152 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
+
+type StepStatus = 'completed' | 'progress' | 'pending' | 'failed'
+type IngestStage = 'extract' | 'analyze' | 'flashcards'
+
+// Mirrors IngestProgress from the progress stream
+interface ProcessingProgress {
+  noteId: string
+  jobId: string | null
+  source: 'pdf' | 'document' | 'youtube' | 'audio' | 'text' | 'web' | null
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  stage: IngestStage | null
+  completedStages: IngestStage[]
+  progress: number
+  message: string | null
+  error: string | null
+  attempts: number
+  maxAttempts: number
+}
+
+interface ProcessStep {
+  id: number
+  title: string
+  description: string
+  status: StepStatus
+}
+
+const EXTRACT_TITLES: Record<string, string> = {
+  pdf: 'PDF is being read',
+  document: 'Document is being read',
+  youtube: 'Video transcript is loading',
+  audio: 'Audio is transcribing',
+  text: 'Text is being read',
+  web: 'Article is loading'
+}
+
+const INGEST_STAGES: IngestStage[] = ['extract', 'analyze', 'flashcards']
 
 export default function ProcessingPage() {
   const router = useRouter()
-  const [currentStep, setCurrentStep] = useState(1)
-  
-  const steps = [
+  const noteId = useSearchParams().get('noteId')
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null)
+  const [connectionError, setConnectionError] = useState<string | null>(null)
+  const [isRetrying, setIsRetrying] = useState(false)
+  // Bumped to reopen the stream after a retry
+  const [streamKey, setStreamKey] = useState(0)
+
+  useEffect(() => {
+    if (!noteId) return
+
+    setConnectionError(null)
+    const source = new EventSource(`/api/notes/${noteId}/progress`)
+
+    source.addEventListener('progress', (event) => {
+      const data: ProcessingProgress = JSON.parse((event as MessageEvent).data)
+      setProgress(data)
+      setConnectionError(null)
+
+      if (data.status === 'completed' || data.status === 'failed') {
+        source.close()
+      }
+    })
+
+    source.addEventListener('error', (event) => {
+      // Errors sent by the server carry a payload; plain connection drops reconnect automatically
+      if (event instanceof MessageEvent && event.data) {
+        setConnectionError(JSON.parse(event.data).error)
+        source.close()
+      } else if (source.readyState === EventSource.CLOSED) {
+        setConnectionError('Lost connection to the server. Please refresh the page.')
+      }
+    })
+
+    return () => source.close()
+  }, [noteId, streamKey])
+
+  const handleRetry = async () => {
+    if (!noteId) return
+
+    setIsRetrying(true)
+    try {
+      const response = await fetch(`/api/notes/${noteId}/retry`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to retry processing')
+      }
+
+      setProgress(null)
+      setStreamKey(key => key + 1)
+    } catch (error) {
+      setConnectionError(error instanceof Error ? error.message : 'Failed to retry processing')
+    } finally {
+      setIsRetrying(false)
+    }
+  }
+
+  const getStageStatus = (stage: IngestStage): StepStatus => {
+    if (!progress) return 'pending'
+    if (progress.status === 'completed' || progress.completedStages.includes(stage)) return 'completed'
+
+    // The first unfinished stage is the one running, waiting for a retry, or the one that failed
+    const currentStage = INGEST_STAGES.find(s => !progress.completedStages.includes(s))
+    if (stage !== currentStage) return 'pending'
+    return progress.status === 'failed' ? 'failed' : 'progress'
+  }
+
+  const isComplete = progress?.status === 'completed'
+  const isFailed = progress?.status === 'failed'
+
+  const processSteps: ProcessStep[] = [
     {
       id: 1,
       title: 'Note is creating',
       description: '',
-      status: 'completed' as const
+      status: 'completed'
     },
     {
       id: 2,
-      title: 'PDF is uploading',
-      description: '00:01:99',
-      status: 'progress' as const
+      title: (progress?.source && EXTRACT_TITLES[progress.source]) || 'Content is uploading',
+      description: getStageStatus('extract') === 'progress' ? progress?.message || '' : '',
+      status: getStageStatus('extract')
     },
     {
       id: 3,
       title: 'AI is generating note',
-      description: 'This process may take few seconds to few minutes',
-      status: 'pending' as const
+      description: getStageStatus('analyze') === 'progress'
+        ? progress?.message || 'This process may take few seconds to few minutes'
+        : 'This process may take few seconds to few minutes',
+      status: getStageStatus('analyze')
     },
     {
       id: 4,
+      title: 'Flashcards are generating',
+      description: getStageStatus('flashcards') === 'progress' ? progress?.message || '' : '',
+      status: getStageStatus('flashcards')
+    },
+    {
+      id: 5,
       title: 'Note is ready',
       description: '',
-      status: 'pending' as const
+      status: isComplete ? 'completed' : 'pending'
     }
   ]
 
-  const [processSteps, setProcessSteps] = useState(steps)
-
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      if (currentStep < 4) {
-        const newSteps = [...processSteps]
-        if (currentStep === 2) {
-          newSteps[1].status = 'completed'
-          newSteps[2].status = 'progress'
-        } else if (currentStep === 3) {
-          newSteps[2].status = 'completed'
-          newSteps[3].status = 'progress'
-        }
-        setProcessSteps(newSteps)
-        setCurrentStep(currentStep + 1)
-      }
-    }, 3000)
-
-    return () => clearTimeout(timer)
-  }, [currentStep])
-
-  const getStepIcon = (step: typeof steps[0], index: number) => {
+  const getStepIcon = (step: ProcessStep) => {
     if (step.status === 'completed') {
       return (
         <div className="w-12 h-12 bg-black rounded-full flex items-center justify-center">
@@ -70,6 +161,14 @@ export default function ProcessingPage() {
           <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
         </div>
       )
+    } else if (step.status === 'failed') {
+      return (
+        <div className="w-12 h-12 bg-red-600 rounded-full flex items-center justify-center">
+          <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </div>
+      )
     } else {
       return (
         <div className="w-12 h-12 bg-black rounded-full flex items-center justify-center">
@@ -79,7 +178,7 @@ export default function ProcessingPage() {
     }
   }
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: StepStatus) => {
     if (status === 'completed') {
       return (
         <div className="flex items-center gap-2 text-green-400">
@@ -98,6 +197,15 @@ export default function ProcessingPage() {
           <span className="text-sm font-medium">Progress</span>
         </div>
       )
+    } else if (status === 'failed') {
+      return (
+        <div className="flex items-center gap-2 text-red-500">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+          <span className="text-sm font-medium">Failed</span>
+        </div>
+      )
     } else {
       return (
         <div className="flex items-center gap-2 text-yellow-400">
@@ -133,10 +241,35 @@ export default function ProcessingPage() {
           </div>
         </div>
 
+        {!noteId ? (
+          <div className="mb-12 text-center text-gray-600">
+            <p className="mb-4">There is no note being processed.</p>
+            <button
+              className="text-black font-medium underline"
+              onClick={() => router.push('/dashboard')}
+            >
+              Back to dashboard
+            </button>
+          </div>
+        ) : (
+          <div className="mb-12">
+            <div className="flex justify-between text-sm text-gray-600 mb-2">
+              <span>{isFailed ? 'Processing failed' : progress?.message || 'Connecting...'}</span>
+              <span className="font-medium text-black">{progress?.progress ?? 0}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all duration-500 ${isFailed ? 'bg-red-500' : 'bg-black'}`}
+                style={{ width: `${progress?.progress ?? 0}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
         <div className="space-y-8">
-          {processSteps.map((step, index) => (
+          {processSteps.map((step) => (
             <div key={step.id} className="flex items-start gap-6">
-              {getStepIcon(step, index)}
+              {getStepIcon(step)}
               
               <div className="flex-1 min-h-[48px] flex items-center justify-between">
                 <div>
@@ -158,12 +291,31 @@ export default function ProcessingPage() {
           ))}
         </div>
 
+        {/* Failure reason and retry */}
+        {(isFailed || connectionError) && (
+          <div className="mt-12 bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+            <p className="text-red-700 font-medium mb-1">
+              {isFailed ? 'We couldn\'t finish this note' : 'Progress updates unavailable'}
+            </p>
+            <p className="text-red-600 text-sm mb-4">{progress?.error || connectionError}</p>
+            {isFailed && (
+              <button
+                className="bg-black hover:bg-gray-800 text-white px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
+                onClick={handleRetry}
+                disabled={isRetrying}
+              >
+                {isRetrying ? 'Retrying...' : 'Try again'}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* View note button - only show when all steps are completed */}
-        {currentStep >= 4 && (
+        {isComplete && (
           <div className="mt-12 text-center">
             <button 
               className="bg-gray-600 hover:bg-gray-700 text-white px-8 py-4 rounded-lg font-medium flex items-center gap-3 mx-auto transition-colors"
-              onClick={() => router.push('/notes/1')}
+              onClick={() => router.push(`/notes/${noteId}`)}
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
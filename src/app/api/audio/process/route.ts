@@ -1,53 +1,80 @@
 /**
  * Advanced Audio Processing API Route
- * 高级音频处理：转录 + AI内容分析 + 学习材料生成
+ * 高级音频处理：上传音频并加入后台任务队列（转录 + AI内容分析 + 学习材料生成）
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { whisperService } from '@/lib/whisper-service';
-import { openRouterService } from '@/lib/openrouter-service';
+import { transaction } from '@/lib/database';
 import { notesService } from '@/lib/notes-service';
-import { flashcardService } from '@/lib/flashcard-service';
+import { jobQueue } from '@/lib/job-queue';
+import { ingestWorker, IngestPayload } from '@/lib/ingest-worker';
+import { foldersService } from '@/lib/folders-service';
+import { fileFingerprint, parseDuplicateAction, resolveDuplicateSource, duplicateSourceBody } from '@/lib/source-fingerprint';
+import { getCurrentUserId } from '@/lib/supabase-server';
 import { put } from '@vercel/blob';
 
 export const runtime = 'nodejs';
-export const maxDuration = 600; // 10 minutes for complex processing
+export const maxDuration = 60; // processing happens in the background job
 
 interface ProcessAudioRequest {
-  userId: string;
   folderId?: string;
   title: string;
   language?: string;
   generateLearningMaterials?: boolean;
 }
 
-interface ProcessingProgress {
-  stage: 'uploading' | 'preprocessing' | 'transcribing' | 'analyzing' | 'generating_materials' | 'complete' | 'error';
-  progress: number;
-  message: string;
-  error?: string;
-}
-
 export async function POST(request: NextRequest) {
   try {
+    // 当前登录用户
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     // 解析请求数据
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
-    const userId = formData.get('userId') as string;
     const folderId = formData.get('folderId') as string;
     const title = formData.get('title') as string;
     const language = formData.get('language') as string;
     const generateLearningMaterials = formData.get('generateLearningMaterials') === 'true';
 
     // 验证必需参数
-    if (!audioFile || !userId || !title) {
+    if (!audioFile || !title) {
       return NextResponse.json(
-        { error: 'Missing required parameters: audio, userId, title' },
+        { error: 'Missing required parameters: audio, title' },
         { status: 400 }
       );
     }
 
-    console.log('Starting advanced audio processing:', {
+    if (folderId && !(await foldersService.getFolderById(userId, folderId))) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 403 }
+      );
+    }
+
+    // 先校验文件，避免任务入队后才失败
+    whisperService.validateAudioFile(audioFile);
+
+    const sourceHash = await fileFingerprint(audioFile);
+    // 之前导入过的相同来源可直接复制已有笔记，无需重新处理
+    const duplicate = await resolveDuplicateSource(userId, sourceHash, parseDuplicateAction(formData.get('duplicateAction')), folderId || null);
+    if (duplicate.status === 'duplicate') {
+      return NextResponse.json(duplicateSourceBody(duplicate.existingNote), { status: 409 });
+    }
+    if (duplicate.status === 'cloned') {
+      return NextResponse.json({
+        success: true,
+        data: { note: duplicate.note, cloned_from: duplicate.sourceNoteId }
+      }, { status: 201 });
+    }
+
+    console.log('Queueing audio processing:', {
       filename: audioFile.name,
       size: `${(audioFile.size / 1024 / 1024).toFixed(2)}MB`,
       userId,
@@ -56,165 +83,63 @@ export async function POST(request: NextRequest) {
       generateLearningMaterials
     });
 
-    // 创建处理进度跟踪
-    const progressCallback = (progress: ProcessingProgress) => {
-      console.log('Processing progress:', progress);
-      // TODO: 实现WebSocket或SSE实时进度推送
-    };
+    // 上传音频文件，后台任务从 Blob 存储读取
+    const timestamp = Date.now();
+    const filename = `audio/${userId}/${timestamp}-${audioFile.name}`;
 
-    let audioUrl: string | null = null;
-    
-    // 阶段1：上传音频文件
-    progressCallback({
-      stage: 'uploading',
-      progress: 10,
-      message: 'Uploading and validating audio file...'
+    const blob = await put(filename, audioFile, {
+      access: 'public',
+      token: process.env.BLOB_READ_WRITE_TOKEN,
     });
 
-    if (process.env.BLOB_READ_WRITE_TOKEN) {
-      const timestamp = Date.now();
-      const filename = `audio/${userId}/${timestamp}-${audioFile.name}`;
-      
-      const blob = await put(filename, audioFile, {
-        access: 'public',
-      });
-      
-      audioUrl = blob.url;
-    }
-
-    // 阶段2：音频转录
-    progressCallback({
-      stage: 'transcribing',
-      progress: 30,
-      message: 'Transcribing audio with Whisper...'
-    });
-
-    const transcriptionResult = await whisperService.processAudioAdvanced(
-      audioFile,
-      { 
-        language: language || undefined,
-        response_format: 'verbose_json'
-      },
-      progressCallback
-    );
-
-    // 阶段3：AI内容分析
-    progressCallback({
-      stage: 'analyzing',
-      progress: 60,
-      message: 'Analyzing content with AI...'
-    });
-
-    // 阶段3：AI内容分析
-    const aiAnalysisResult = await openRouterService.analyzeContent(
-      transcriptionResult.transcription.text
-    );
-
-    // 创建笔记记录
-    const note = await notesService.createNote({
-      title,
-      userId,
-      folderId: folderId || null,
-      sourceType: 'audio',
-      transcription: transcriptionResult.transcription.text,
-      audioUrl,
-      contentStatus: 'completed'
-    });
-
-    // 保存AI分析结果作为内容块
-    const contentBlocks = [];
-    
-    // Create summary block
-    const summaryBlock = await notesService.createContentBlock({
-      noteId: note.id,
-      type: 'summary',
-      title: 'AI Summary',
-      content: { text: aiAnalysisResult },
-      icon: '📄',
-      iconColor: '#3B82F6',
-      sortOrder: 1
-    });
-    contentBlocks.push(summaryBlock);
-
-    let flashcards = [];
-    
-    // 阶段4：生成学习材料（可选）
-    if (generateLearningMaterials) {
-      progressCallback({
-        stage: 'generating_materials',
-        progress: 80,
-        message: 'Generating flashcards and study materials...'
-      });
-
-      try {
-        // 简化的闪卡生成（基于转录内容）
-        const sentences = transcriptionResult.transcription.text
-          .split(/[.!?]+/)
-          .filter(s => s.trim().length > 20)
-          .slice(0, 5); // 最多5张卡片
-
-        for (let i = 0; i < sentences.length; i++) {
-          const sentence = sentences[i].trim();
-          if (sentence) {
-            const card = await flashcardService.createFlashcard({
-              noteId: note.id,
-              userId,
-              question: `What was mentioned about: ${sentence.substring(0, 50)}...?`,
-              answer: sentence
-            });
-            
-            // 初始化间隔重复跟踪
-            await flashcardService.initializeSpacedRepetition(card.id, userId);
-            flashcards.push(card);
-          }
+    const audioUrl = blob.url;
+
+    // 创建笔记记录，转录和 AI 分析由后台任务完成
+    const { note, job } = await transaction(async (client) => {
+      const note = await notesService.createNote({
+        title,
+        userId,
+        folderId: folderId || null,
+        sourceType: 'audio',
+        url: audioUrl,
+        sourceHash,
+        contentStatus: 'processing'
+      }, client);
+
+      const job = await jobQueue.enqueue<IngestPayload>({
+        userId,
+        noteId: note.id,
+        type: 'ingest',
+        payload: {
+          source: 'audio',
+          fileUrl: audioUrl,
+          fileName: audioFile.name,
+          mimeType: audioFile.type,
+          language: language || undefined,
+          title,
+          generateFlashcards: generateLearningMaterials
         }
-      } catch (flashcardError) {
-        console.warn('Flashcard generation failed:', flashcardError);
-        // 继续处理，不中断主流程
-      }
-    }
+      }, client);
 
-    // 完成处理
-    progressCallback({
-      stage: 'complete',
-      progress: 100,
-      message: 'Audio processing completed successfully!'
+      return { note, job };
     });
+    ingestWorker.kick();
 
-    // 返回完整处理结果
     return NextResponse.json({
       success: true,
       data: {
         note: {
           id: note.id,
           title: note.title,
-          transcription: transcriptionResult.transcription.text,
-          audioUrl,
-          contentBlocks: contentBlocks.length,
-          flashcards: flashcards.length
+          contentStatus: note.content_status,
+          audioUrl
         },
-        transcription: {
-          text: transcriptionResult.transcription.text,
-          language: transcriptionResult.transcription.language,
-          duration: transcriptionResult.transcription.duration,
-          segments: transcriptionResult.transcription.segments?.length || 0,
-          confidence: transcriptionResult.analysis.averageConfidence
+        job: {
+          id: job.id,
+          status: job.status
         },
-        aiAnalysis: {
-          contentBlocks: contentBlocks.length,
-          wordCount: transcriptionResult.analysis.wordCount,
-          preview: transcriptionResult.analysis.preview
-        },
-        learningMaterials: generateLearningMaterials ? {
-          flashcardsGenerated: flashcards.length,
-          flashcards: flashcards.map(card => ({
-            id: card.id,
-            question: card.question,
-            answer: card.answer
-          }))
-        } : null,
         metadata: {
-          processedAt: new Date().toISOString(),
+          queuedAt: new Date().toISOString(),
           audioFile: {
             name: audioFile.name,
             size: audioFile.size,
@@ -222,7 +147,7 @@ export async function POST(request: NextRequest) {
           }
         }
       }
-    });
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Advanced audio processing error:', error);
@@ -5,6 +5,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { whisperService } from '@/lib/whisper-service';
+import { getCurrentUserId } from '@/lib/supabase-server';
+import { ErrorHandler } from '@/lib/error-handler';
 import { put } from '@vercel/blob';
 
 export const runtime = 'nodejs';
@@ -19,6 +21,15 @@ interface TranscribeRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    // 转录按用户计入用量
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     // 检查API密钥
     if (!process.env.OPENAI_API_KEY) {
       return NextResponse.json(
@@ -56,6 +67,7 @@ export async function POST(request: NextRequest) {
       prompt: prompt || undefined,
       temperature: temperature ? parseFloat(temperature) : 0,
       response_format: includeTimestamps ? 'verbose_json' as const : 'json' as const,
+      usage: { userId },
     };
 
     console.log('Starting audio transcription:', {
@@ -106,6 +118,10 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Audio transcription error:', error);
     
+    if (ErrorHandler.isQuotaExceeded(error)) {
+      return NextResponse.json(ErrorHandler.createErrorResponse(error), { status: 429 });
+    }
+
     let errorMessage = 'Audio transcription failed';
     let statusCode = 500;
     
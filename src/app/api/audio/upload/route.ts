@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { put } from '@vercel/blob'
 import { v4 as uuidv4 } from 'uuid'
-import { query, queryOne } from '@/lib/database'
+import { queryOne, transaction } from '@/lib/database'
 import { AIService } from '@/lib/ai-service'
-
-// For demo purposes, we'll use a mock user ID
-const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440000'
+import { foldersService } from '@/lib/folders-service'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const formData = await request.formData()
     const file = formData.get('audio') as File
     const folderId = formData.get('folderId') as string | null
@@ -35,17 +42,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (folderId && !(await foldersService.getFolderById(userId, folderId))) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 403 }
+      )
+    }
+
     console.log('Processing audio upload:', {
       fileName: file.name,
       fileSize: file.size,
       fileType: file.type,
-      userId: DEMO_USER_ID
+      userId: userId
     })
 
     // Upload file to Vercel Blob Storage
     const timestamp = Date.now()
     const fileExtension = file.name.split('.').pop() || 'mp3'
-    const blobFileName = `${DEMO_USER_ID}/audio/${timestamp}-${file.name}`
+    const blobFileName = `${userId}/audio/${timestamp}-${file.name}`
     
     const blob = await put(blobFileName, file, {
       access: 'public',
@@ -63,43 +77,45 @@ export async function POST(request: NextRequest) {
 
     // Create note in database
     const noteId = uuidv4()
+    const blockId = uuidv4()
     const noteTitle = file.name.replace(/\.(mp3|wav|ogg|flac|aac|wma|aiff)$/i, '')
 
-    await query(`
-      INSERT INTO notes (id, user_id, title, source_type, folder_id, content_status, transcription, url, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
-    `, [
-      noteId,
-      DEMO_USER_ID,
-      noteTitle,
-      'audio',
-      folderId || null,
-      'completed',
-      placeholderTranscription,
-      blob.url
-    ])
-
-    // Create a basic content block for audio notes
-    const blockId = uuidv4()
-    await query(`
-      INSERT INTO content_blocks (id, note_id, type, icon, icon_color, title, content, sort_order)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-    `, [
-      blockId,
-      noteId,
-      'text',
-      '🎵',
-      '#FFC300',
-      'Audio Transcription',
-      JSON.stringify({
-        text: placeholderTranscription,
-        audioUrl: blob.url,
-        fileName: file.name,
-        fileSize: file.size,
-        duration: null // Could be extracted with audio analysis
-      }),
-      0
-    ])
+    await transaction(async (client) => {
+      await client.query(`
+        INSERT INTO notes (id, user_id, title, source_type, folder_id, content_status, transcription, url, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+      `, [
+        noteId,
+        userId,
+        noteTitle,
+        'audio',
+        folderId || null,
+        'completed',
+        placeholderTranscription,
+        blob.url
+      ])
+
+      // Create a basic content block for audio notes
+      await client.query(`
+        INSERT INTO content_blocks (id, note_id, type, icon, icon_color, title, content, sort_order)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [
+        blockId,
+        noteId,
+        'text',
+        '🎵',
+        '#FFC300',
+        'Audio Transcription',
+        JSON.stringify({
+          text: placeholderTranscription,
+          audioUrl: blob.url,
+          fileName: file.name,
+          fileSize: file.size,
+          duration: null // Could be extracted with audio analysis
+        }),
+        0
+      ])
+    })
 
     // Get the created note
     const note = await queryOne(`
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlashcardService } from '@/lib/flashcard-service'
+import { validateFlashcardDraft } from '@/lib/flashcard-types'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Edit a flashcard. Spaced-repetition state is kept unless reset_progress is true.
+ * Editing a cloze card edits all its siblings; see FlashcardService.updateFlashcard.
+ */
+export async function PUT(request: NextRequest, { params }: Props) {
+  try {
+    const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { question, answer, reset_progress = false } = body
+
+    if (question === undefined && answer === undefined && !reset_progress) {
+      return NextResponse.json(
+        { success: false, error: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    if ((question !== undefined && typeof question !== 'string') || (answer !== undefined && typeof answer !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'question and answer must be strings' },
+        { status: 400 }
+      )
+    }
+
+    const flashcardService = new FlashcardService()
+    const existing = await flashcardService.getFlashcardById(userId, id)
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Flashcard not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check the card as it will be after the edit; an occlusion card's masks aren't editable here
+    const invalid = existing.card_type === 'image_occlusion'
+      ? (question !== undefined && !question.trim() ? 'question is required' : null)
+      : validateFlashcardDraft({
+        type: existing.card_type,
+        question: question !== undefined ? question.trim() : existing.question,
+        answer: answer !== undefined ? answer.trim() : existing.answer
+      }, userId)
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: invalid },
+        { status: 400 }
+      )
+    }
+
+    const flashcard = await flashcardService.updateFlashcard(
+      userId,
+      id,
+      { question: question?.trim(), answer: answer?.trim() },
+      reset_progress === true
+    )
+
+    if (!flashcard) {
+      return NextResponse.json(
+        { success: false, error: 'Flashcard not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: flashcard
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_update')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Props) {
+  try {
+    const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const flashcardService = new FlashcardService()
+    const deleted = await flashcardService.deleteFlashcard(userId, id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Flashcard not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Flashcard deleted successfully'
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_delete')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { flashcardTransferService, FLASHCARD_EXPORT_FORMATS, FlashcardExportFormat } from '@/lib/flashcard-transfer-service'
+import { downloadResponse } from '@/lib/download-response'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const runtime = 'nodejs'
+
+/**
+ * Download flashcards as an Anki package (.apkg) or CSV.
+ * With noteId, exports that note's cards; without it, every card due now.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format') || 'apkg') as FlashcardExportFormat
+    const noteId = searchParams.get('noteId')
+
+    if (!FLASHCARD_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of: ${FLASHCARD_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const file = noteId
+      ? await flashcardTransferService.exportNote(userId, noteId, format)
+      : await flashcardTransferService.exportDue(userId, format)
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    return downloadResponse(file)
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_export')
+
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
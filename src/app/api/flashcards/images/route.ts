@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { put } from '@vercel/blob'
+import { flashcardImagePath } from '@/lib/flashcard-types'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+
+/**
+ * Upload an image for an image occlusion card, such as a screenshot of a PDF page
+ */
+export async function POST(request: NextRequest) {
+  let file: File | null = null
+
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    file = formData.get('image') as File
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'Image file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { success: false, error: 'Only PNG, JPEG, WebP and GIF images are allowed' },
+        { status: 400 }
+      )
+    }
+
+    // Size limit: 5MB
+    if (file.size > 5 * 1024 * 1024) {
+      return NextResponse.json(
+        { success: false, error: 'File size must be less than 5MB' },
+        { status: 400 }
+      )
+    }
+
+    const blob = await put(`${flashcardImagePath(userId)}${Date.now()}-${file.name}`, file, {
+      access: 'public',
+      token: process.env.BLOB_READ_WRITE_TOKEN,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        image_url: blob.url
+      }
+    }, { status: 201 })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_image_upload', {
+      fileName: file?.name,
+      fileSize: file?.size
+    })
+
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
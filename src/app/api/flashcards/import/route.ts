@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { flashcardTransferService } from '@/lib/flashcard-transfer-service'
+import { AnkiPackageError } from '@/lib/anki-package'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300 // large decks carry thousands of cards and review logs
+
+/**
+ * Import an Anki package (.apkg) or CSV of flashcards. Each deck becomes a new note.
+ */
+export async function POST(request: NextRequest) {
+  let file: File | null = null
+
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    file = formData.get('file') as File
+    const folderId = (formData.get('folderId') as string) || null
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'File is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!/\.(apkg|colpkg|csv|txt)$/i.test(file.name)) {
+      return NextResponse.json(
+        { success: false, error: 'Only Anki packages (.apkg) and CSV files are supported' },
+        { status: 400 }
+      )
+    }
+
+    // Size limit: 50MB
+    if (file.size > 50 * 1024 * 1024) {
+      return NextResponse.json(
+        { success: false, error: 'File size must be less than 50MB' },
+        { status: 400 }
+      )
+    }
+
+    const result = await flashcardTransferService.importFile(
+      userId,
+      file.name,
+      new Uint8Array(await file.arrayBuffer()),
+      folderId
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AnkiPackageError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    ErrorHandler.logError(error as Error, 'flashcard_import', {
+      fileName: file?.name,
+      fileSize: file?.size
+    })
+
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { FlashcardService } from '@/lib/flashcard-service'
+import { NotesService } from '@/lib/notes-service'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 interface Props {
   params: Promise<{ noteId: string }>
@@ -9,6 +11,14 @@ interface Props {
 export async function GET(request: NextRequest, { params }: Props) {
   try {
     const { noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
     
     if (!noteId) {
       return NextResponse.json(
@@ -17,8 +27,17 @@ export async function GET(request: NextRequest, { params }: Props) {
       )
     }
 
+    const notesService = new NotesService()
+    const note = await notesService.getNoteById(userId, noteId)
+    if (!note) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
     const flashcardService = new FlashcardService()
-    const flashcards = await flashcardService.getFlashcardsByNoteId(noteId)
+    const flashcards = await flashcardService.getFlashcardsByNoteId(userId, noteId)
 
     return NextResponse.json({
       success: true,
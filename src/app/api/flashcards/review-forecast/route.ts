@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { studyActivityService } from '@/lib/study-activity-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 90
+
+/**
+ * Cards due on each upcoming day in the user's timezone: ?days=N (default 30) and ?tz=<IANA zone>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const daysParam = request.nextUrl.searchParams.get('days')
+    const days = daysParam ? parseInt(daysParam) : DEFAULT_DAYS
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const timezone = await studyActivityService.resolveTimezone(userId, request.nextUrl.searchParams.get('tz'))
+    const forecast = await studyActivityService.getForecast(userId, timezone, days)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        days: forecast
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_review_forecast')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
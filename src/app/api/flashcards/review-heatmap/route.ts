@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { studyActivityService } from '@/lib/study-activity-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+const DEFAULT_DAYS = 365
+const MAX_DAYS = 366
+
+/**
+ * Reviews per day in the user's timezone: ?days=N (default 365) and ?tz=<IANA zone>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const daysParam = request.nextUrl.searchParams.get('days')
+    const days = daysParam ? parseInt(daysParam) : DEFAULT_DAYS
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const timezone = await studyActivityService.resolveTimezone(userId, request.nextUrl.searchParams.get('tz'))
+    const [activity, streak] = await Promise.all([
+      studyActivityService.getHeatmap(userId, timezone, days),
+      studyActivityService.getStreak(userId, timezone)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        days: activity,
+        ...streak
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_review_heatmap')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
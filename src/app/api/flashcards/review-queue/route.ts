@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { FlashcardService } from '@/lib/flashcard-service'
+import { NotesService } from '@/lib/notes-service'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const { searchParams } = new URL(request.url)
     const noteId = searchParams.get('noteId')
     const limit = parseInt(searchParams.get('limit') || '20')
@@ -12,10 +22,21 @@ export async function GET(request: NextRequest) {
     
     let flashcards
     if (noteId) {
-      flashcards = await flashcardService.getFlashcardsByNoteId(noteId)
+      const notesService = new NotesService()
+      const note = await notesService.getNoteById(userId, noteId)
+      if (!note) {
+        return NextResponse.json(
+          { success: false, error: 'Note not found' },
+          { status: 404 }
+        )
+      }
+      flashcards = await flashcardService.getFlashcardsByNoteId(userId, noteId)
     } else {
-      flashcards = await flashcardService.getOptimalReviewBatch()
+      flashcards = await flashcardService.getOptimalReviewBatch(userId)
     }
+
+    // Each grade button shows the interval it would schedule
+    flashcards = await flashcardService.withIntervalPreviews(userId, flashcards)
     
     return NextResponse.json({
       success: true,
@@ -1,11 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { FlashcardService } from '@/lib/flashcard-service'
+import { studyActivityService } from '@/lib/study-activity-service'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // ?tz= is the browser's IANA timezone; days and streaks are counted in it
+    const timezone = await studyActivityService.resolveTimezone(userId, request.nextUrl.searchParams.get('tz'))
+
     const flashcardService = new FlashcardService()
-    const stats = await flashcardService.getReviewStats()
+    const stats = await flashcardService.getReviewStats(userId, timezone)
     
     return NextResponse.json({
       success: true,
@@ -1,36 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { FlashcardService } from '@/lib/flashcard-service'
+import { REVIEW_GRADES, LEGACY_DIFFICULTY_GRADES } from '@/lib/spaced-repetition-engine'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const body = await request.json()
     const { flashcardId, difficulty, responseTimeMs } = body
+    // Clients from before the four grades still send difficulty: 'easy' | 'hard'
+    const grade = body.grade ?? (difficulty === 'easy' || difficulty === 'hard' ? LEGACY_DIFFICULTY_GRADES[difficulty as 'easy' | 'hard'] : undefined)
 
-    if (!flashcardId || !difficulty) {
+    if (!flashcardId || !grade) {
       return NextResponse.json(
-        { success: false, error: 'flashcardId and difficulty are required' },
+        { success: false, error: 'flashcardId and grade are required' },
         { status: 400 }
       )
     }
 
-    if (!['easy', 'hard'].includes(difficulty)) {
+    if (!REVIEW_GRADES.includes(grade)) {
       return NextResponse.json(
-        { success: false, error: 'difficulty must be "easy" or "hard"' },
+        { success: false, error: `grade must be one of: ${REVIEW_GRADES.join(', ')}` },
         { status: 400 }
       )
     }
 
     const flashcardService = new FlashcardService()
-    const success = await flashcardService.recordReview(
+    const flashcard = await flashcardService.getFlashcardById(userId, flashcardId)
+    if (!flashcard) {
+      return NextResponse.json(
+        { success: false, error: 'Flashcard not found' },
+        { status: 404 }
+      )
+    }
+
+    const updated = await flashcardService.recordReview(
+      userId,
       flashcardId,
-      difficulty,
+      grade,
       responseTimeMs || 0
     )
 
-    if (success) {
+    if (updated) {
+      // Previews for the card's next answer, so a requeued learning card can show them
+      const [preview] = await flashcardService.withIntervalPreviews(userId, [flashcard])
+
       return NextResponse.json({
         success: true,
+        data: {
+          interval_days: updated.interval,
+          next_review_date: updated.nextReviewDate.toISOString(),
+          card_state: updated.state,
+          learning_step: updated.learningStep,
+          next_intervals: preview.next_intervals
+        },
         message: 'Review recorded successfully'
       })
     } else {
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlashcardService } from '@/lib/flashcard-service'
+import { NotesService } from '@/lib/notes-service'
+import { FlashcardDraft, validateFlashcardDraft } from '@/lib/flashcard-types'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+/**
+ * Add a flashcard to a note by hand. Cloze and image occlusion cards are stored as one
+ * sibling per cloze number or mask, so the response lists every card created.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { note_id, type = 'basic', question, answer = '', image_url, masks } = body
+
+    if (!note_id) {
+      return NextResponse.json(
+        { success: false, error: 'note_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const draft: FlashcardDraft = {
+      type,
+      question: typeof question === 'string' ? question.trim() : question,
+      answer: typeof answer === 'string' ? answer.trim() : answer,
+      image_url,
+      masks: Array.isArray(masks)
+        ? masks.map((mask: any) => ({ ...mask, label: typeof mask?.label === 'string' ? mask.label.trim() : '' }))
+        : masks
+    }
+    const invalid = validateFlashcardDraft(draft, userId)
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: invalid },
+        { status: 400 }
+      )
+    }
+
+    const notesService = new NotesService()
+    const note = await notesService.getNoteById(userId, note_id)
+    if (!note) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    const flashcardService = new FlashcardService()
+    const flashcards = await flashcardService.createFlashcardFromDraft(userId, note_id, draft)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        flashcards,
+        count: flashcards.length
+      }
+    }, { status: 201 })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_create')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
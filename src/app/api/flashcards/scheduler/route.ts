@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FlashcardService, ReviewSettings } from '@/lib/flashcard-service'
+import { SCHEDULER_NAMES } from '@/lib/spaced-repetition-engine'
+import { studyActivityService, isValidTimezone } from '@/lib/study-activity-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+const MAX_STEPS = 10
+const MAX_STEP_MINUTES = 24 * 60 // Steps are intra-day
+
+function toResponseData(settings: ReviewSettings, timezone: string) {
+  return {
+    scheduler: settings.scheduler,
+    learning_steps: settings.learningSteps.learning,
+    relearning_steps: settings.learningSteps.relearning,
+    timezone
+  }
+}
+
+/**
+ * Validate a list of step lengths in minutes
+ */
+function parseSteps(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length > MAX_STEPS) return null
+  const valid = value.every(step => Number.isInteger(step) && step >= 1 && step <= MAX_STEP_MINUTES)
+  return valid ? value : null
+}
+
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const flashcardService = new FlashcardService()
+    const settings = await flashcardService.getReviewSettings(userId)
+    const timezone = await studyActivityService.resolveTimezone(userId)
+
+    return NextResponse.json({
+      success: true,
+      data: toResponseData(settings, timezone)
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_scheduler_fetch')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { scheduler, learning_steps, relearning_steps, timezone } = body
+
+    if (scheduler !== undefined && !SCHEDULER_NAMES.includes(scheduler)) {
+      return NextResponse.json(
+        { success: false, error: `scheduler must be one of: ${SCHEDULER_NAMES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const learning = learning_steps !== undefined ? parseSteps(learning_steps) : undefined
+    const relearning = relearning_steps !== undefined ? parseSteps(relearning_steps) : undefined
+    if (learning === null || relearning === null) {
+      return NextResponse.json(
+        { success: false, error: `Steps must be lists of at most ${MAX_STEPS} whole minutes between 1 and ${MAX_STEP_MINUTES}` },
+        { status: 400 }
+      )
+    }
+
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+      return NextResponse.json(
+        { success: false, error: 'timezone must be an IANA timezone name, e.g. Europe/Berlin' },
+        { status: 400 }
+      )
+    }
+
+    const flashcardService = new FlashcardService()
+    const current = await flashcardService.getReviewSettings(userId)
+
+    if (timezone) {
+      await studyActivityService.setTimezone(userId, timezone)
+    }
+
+    if (learning || relearning) {
+      await flashcardService.setLearningSteps(userId, {
+        learning: learning || current.learningSteps.learning,
+        relearning: relearning || current.learningSteps.relearning
+      })
+    }
+
+    // Switching replays review history, so it runs after any step change
+    const migratedCards = scheduler ? await flashcardService.setScheduler(userId, scheduler) : 0
+    const settings = await flashcardService.getReviewSettings(userId)
+    const savedTimezone = await studyActivityService.resolveTimezone(userId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...toResponseData(settings, savedTimezone),
+        migrated_cards: migratedCards
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'flashcard_scheduler_update')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { noteExportService, NOTE_EXPORT_FORMATS, NoteExportFormat } from '@/lib/note-export-service'
+import { downloadResponse } from '@/lib/download-response'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const runtime = 'nodejs'
+// Large folders render many documents in one request
+export const maxDuration = 300
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Download every finished note in a folder and its subfolders as a zip of
+ * Markdown, HTML, PDF or Word files. Mind maps are included unless mindmap=0.
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format') || 'md') as NoteExportFormat
+    const mindMapParam = searchParams.get('mindmap')
+
+    if (!NOTE_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of: ${NOTE_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const file = await noteExportService.exportFolder(userId, id, format, {
+      includeMindMap: mindMapParam !== '0' && mindMapParam !== 'false'
+    })
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    return downloadResponse(file)
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'folder_export', { folderId: (await params).id })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FoldersService, UpdateFolderParams } from '@/lib/folders-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: Props) {
+  try {
+    const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const foldersService = new FoldersService()
+    const folder = await foldersService.getFolderById(userId, id)
+
+    if (!folder) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: folder
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'folder_get', {
+      folderId: (await params).id
+    })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: Props) {
+  try {
+    const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: UpdateFolderParams = {}
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || body.name.trim().length === 0 || body.name.trim().length > 255) {
+        return NextResponse.json(
+          { success: false, error: 'Folder name must be between 1 and 255 characters' },
+          { status: 400 }
+        )
+      }
+      updates.name = body.name.trim()
+    }
+    if (body.color !== undefined) updates.color = body.color
+    if (body.icon !== undefined) updates.icon = body.icon
+
+    const foldersService = new FoldersService()
+
+    if (body.parentId !== undefined) {
+      const parentId: string | null = body.parentId || null
+
+      if (parentId) {
+        if (!(await foldersService.getFolderById(userId, parentId))) {
+          return NextResponse.json(
+            { success: false, error: 'Parent folder not found' },
+            { status: 404 }
+          )
+        }
+
+        if (await foldersService.isSelfOrDescendant(userId, id, parentId)) {
+          return NextResponse.json(
+            { success: false, error: 'A folder cannot be moved into itself or one of its subfolders' },
+            { status: 400 }
+          )
+        }
+      }
+
+      updates.parentId = parentId
+    }
+
+    const folder = await foldersService.updateFolder(userId, id, updates)
+
+    if (!folder) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: folder
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'folder_update', {
+      folderId: (await params).id
+    })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Props) {
+  try {
+    const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const foldersService = new FoldersService()
+    const deleted = await foldersService.deleteFolder(userId, id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Folder deleted successfully'
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'folder_delete', {
+      folderId: (await params).id
+    })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
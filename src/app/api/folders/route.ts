@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FoldersService } from '@/lib/folders-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const foldersService = new FoldersService()
+    const folders = await foldersService.getFolders(userId)
+
+    return NextResponse.json({
+      success: true,
+      data: folders
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'folders_fetch')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { name, parentId, color, icon } = body
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Folder name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (name.trim().length > 255) {
+      return NextResponse.json(
+        { success: false, error: 'Folder name must be 255 characters or less' },
+        { status: 400 }
+      )
+    }
+
+    const foldersService = new FoldersService()
+
+    if (parentId && !(await foldersService.getFolderById(userId, parentId))) {
+      return NextResponse.json(
+        { success: false, error: 'Parent folder not found' },
+        { status: 404 }
+      )
+    }
+
+    const folder = await foldersService.createFolder(userId, {
+      name: name.trim(),
+      parentId: parentId || null,
+      color,
+      icon
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: folder
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'folder_create')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ingestWorker } from '@/lib/ingest-worker'
+import { aiResponseCache } from '@/lib/ai-cache'
+import { ErrorHandler } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * Drain the background job queue. Called on a schedule (e.g. Vercel Cron) so that
+ * retries and jobs orphaned by a restarted server still run. Also clears expired AI cache entries.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const processed = await ingestWorker.processQueue()
+    const purgedCacheEntries = await aiResponseCache.purgeExpired()
+
+    return NextResponse.json({
+      success: true,
+      data: { processed, purgedCacheEntries }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'jobs_run')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
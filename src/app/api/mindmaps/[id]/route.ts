@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { MindMapService } from '@/lib/mindmap-service'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 interface Props {
   params: Promise<{ id: string }>
@@ -9,6 +10,14 @@ interface Props {
 export async function GET(request: NextRequest, { params }: Props) {
   try {
     const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
     
     if (!id) {
       return NextResponse.json(
@@ -18,7 +27,7 @@ export async function GET(request: NextRequest, { params }: Props) {
     }
 
     const mindMapService = new MindMapService()
-    const mindMap = await mindMapService.getMindMapById(id)
+    const mindMap = await mindMapService.getMindMapById(userId, id)
 
     if (!mindMap) {
       return NextResponse.json(
@@ -45,6 +54,15 @@ export async function GET(request: NextRequest, { params }: Props) {
 export async function PUT(request: NextRequest, { params }: Props) {
   try {
     const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const body = await request.json()
     
     if (!id) {
@@ -55,7 +73,7 @@ export async function PUT(request: NextRequest, { params }: Props) {
     }
 
     const mindMapService = new MindMapService()
-    const updatedMindMap = await mindMapService.updateMindMap(id, body)
+    const updatedMindMap = await mindMapService.updateMindMap(userId, id, body)
 
     if (!updatedMindMap) {
       return NextResponse.json(
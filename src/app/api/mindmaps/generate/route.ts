@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { MindMapService } from '@/lib/mindmap-service'
+import { LLMService } from '@/lib/llm-service'
+import { NotesService } from '@/lib/notes-service'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const maxDuration = 300; // long notes are condensed chunk by chunk before mapping
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const body = await request.json()
     const { content, note_id } = body
 
@@ -21,13 +34,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (note_id) {
+      const notesService = new NotesService()
+      const note = await notesService.getNoteById(userId, note_id)
+      if (!note) {
+        return NextResponse.json(
+          { success: false, error: 'Note not found' },
+          { status: 404 }
+        )
+      }
+    }
+
     console.log('Generating mind map...', { 
       contentLength: content.length,
       noteId: note_id 
     })
 
-    const mindMapService = new MindMapService()
-    const mindMap = await mindMapService.generateMindMap(content, note_id)
+    const mindMapService = new MindMapService(new LLMService({}, { userId, noteId: note_id }))
+    const mindMap = await mindMapService.generateMindMap(userId, content, note_id)
 
     console.log('Mind map generated successfully:', {
       id: mindMap.id,
@@ -47,6 +71,6 @@ export async function POST(request: NextRequest) {
     })
     
     const errorResponse = ErrorHandler.createErrorResponse(error as Error)
-    return NextResponse.json(errorResponse, { status: 500 })
+    return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error as Error) })
   }
 }
\ No newline at end of file
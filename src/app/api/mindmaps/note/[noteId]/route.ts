@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { MindMapService } from '@/lib/mindmap-service'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 interface Props {
   params: Promise<{ noteId: string }>
@@ -9,6 +10,14 @@ interface Props {
 export async function GET(request: NextRequest, { params }: Props) {
   try {
     const { noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
     
     if (!noteId) {
       return NextResponse.json(
@@ -18,7 +27,7 @@ export async function GET(request: NextRequest, { params }: Props) {
     }
 
     const mindMapService = new MindMapService()
-    const mindMap = await mindMapService.getMindMapByNoteId(noteId)
+    const mindMap = await mindMapService.getMindMapByNoteId(userId, noteId)
 
     if (!mindMap) {
       return NextResponse.json(
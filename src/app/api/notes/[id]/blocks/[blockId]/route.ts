@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotesService, UpdateContentBlockParams } from '@/lib/notes-service'
+import { MAX_BLOCK_TITLE_LENGTH, validateBlockContent } from '@/lib/content-block-types'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string; blockId: string }>
+}
+
+/**
+ * Edit a block's title and/or content. Content is checked against the block's type;
+ * fields not sent, such as AI metadata, are kept.
+ */
+export async function PUT(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId, blockId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: UpdateContentBlockParams = {}
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || !body.title.trim() || body.title.trim().length > MAX_BLOCK_TITLE_LENGTH) {
+        return NextResponse.json(
+          { success: false, error: `title must be between 1 and ${MAX_BLOCK_TITLE_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      updates.title = body.title.trim()
+    }
+
+    const notesService = new NotesService()
+    const blocks = await notesService.getContentBlocks(userId, noteId)
+    const block = blocks.find(existing => existing.id === blockId)
+    if (!block) {
+      return NextResponse.json(
+        { success: false, error: 'Content block not found' },
+        { status: 404 }
+      )
+    }
+
+    if (body.content !== undefined) {
+      const validationError = validateBlockContent(block.type, body.content)
+      if (validationError) {
+        return NextResponse.json(
+          { success: false, error: validationError },
+          { status: 400 }
+        )
+      }
+      updates.content = body.content
+    }
+
+    if (updates.title === undefined && updates.content === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'No supported fields to update' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await notesService.updateContentBlock(userId, noteId, blockId, updates)
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: 'Content block not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updated
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'content_block_update', { blockId: (await params).blockId })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+/**
+ * Delete a block from a note
+ */
+export async function DELETE(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId, blockId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const notesService = new NotesService()
+    const deleted = await notesService.deleteContentBlock(userId, noteId, blockId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Content block not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Content block deleted successfully'
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'content_block_delete', { blockId: (await params).blockId })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotesService } from '@/lib/notes-service'
+import {
+  BLOCK_DEFAULTS,
+  ContentBlockType,
+  MAX_BLOCK_TITLE_LENGTH,
+  PERSONAL_NOTES_TYPE,
+  emptyBlockContent,
+  validateBlockContent
+} from '@/lib/content-block-types'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Get a note's content blocks in display order
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const notesService = new NotesService()
+    if (!(await notesService.getNoteById(userId, noteId))) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    const blocks = await notesService.getContentBlocks(userId, noteId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        content_blocks: blocks
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'content_blocks_fetch', { noteId: (await params).id })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+/**
+ * Add a block to the end of a note. A note has at most one personal notes block.
+ */
+export async function POST(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const type = body.type as ContentBlockType
+    const content = body.content ?? (BLOCK_DEFAULTS[type] ? emptyBlockContent(type) : undefined)
+
+    const validationError = validateBlockContent(type, content)
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim() : BLOCK_DEFAULTS[type].title
+    if (title.length > MAX_BLOCK_TITLE_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `title must be at most ${MAX_BLOCK_TITLE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const notesService = new NotesService()
+
+    if (type === PERSONAL_NOTES_TYPE) {
+      const blocks = await notesService.getContentBlocks(userId, noteId)
+      if (blocks.some(block => block.type === PERSONAL_NOTES_TYPE)) {
+        return NextResponse.json(
+          { success: false, error: 'This note already has a personal notes block' },
+          { status: 409 }
+        )
+      }
+    }
+
+    const block = await notesService.appendContentBlock(userId, noteId, {
+      type,
+      title,
+      content,
+      icon: BLOCK_DEFAULTS[type].icon,
+      iconColor: BLOCK_DEFAULTS[type].icon_color
+    })
+
+    if (!block) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: block
+    }, { status: 201 })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'content_block_create', { noteId: (await params).id })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+/**
+ * Reorder a note's blocks; blockIds must list every block of the note exactly once
+ */
+export async function PUT(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const blockIds: unknown = body.blockIds
+    if (!Array.isArray(blockIds) || !blockIds.every(id => typeof id === 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'blockIds must be an array of block IDs' },
+        { status: 400 }
+      )
+    }
+
+    const notesService = new NotesService()
+    if (!(await notesService.getNoteById(userId, noteId))) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    const existingIds = (await notesService.getContentBlocks(userId, noteId)).map(block => block.id)
+    const requested = new Set(blockIds)
+    if (requested.size !== blockIds.length || requested.size !== existingIds.length || !existingIds.every(id => requested.has(id))) {
+      return NextResponse.json(
+        { success: false, error: 'blockIds must list every block of the note exactly once' },
+        { status: 400 }
+      )
+    }
+
+    const blocks = await notesService.reorderContentBlocks(userId, noteId, blockIds)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        content_blocks: blocks
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'content_blocks_reorder', { noteId: (await params).id })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotesService } from '@/lib/notes-service'
+import { ingestWorker } from '@/lib/ingest-worker'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const POLL_INTERVAL_MS = 1000
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+// Close a little before maxDuration; EventSource reconnects on its own
+const STREAM_LIFETIME_MS = 280 * 1000
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Server-sent events with the ingestion progress of a note.
+ * Emits a `progress` event whenever the snapshot changes and ends once the note is completed or failed.
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const notesService = new NotesService()
+    const note = await notesService.getNoteById(userId, noteId)
+    if (!note) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    // Someone is waiting on this note, so make sure queued work is actually running
+    ingestWorker.kick()
+
+    const encoder = new TextEncoder()
+    let closed = false
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk))
+        }
+        const startedAt = Date.now()
+        let lastSnapshot = ''
+        let lastSentAt = 0
+
+        try {
+          while (!closed && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+            const currentNote = await notesService.getNoteById(userId, noteId)
+            if (!currentNote) {
+              send(`event: error\ndata: ${JSON.stringify({ error: 'Note not found' })}\n\n`)
+              break
+            }
+
+            const progress = await ingestWorker.getProgress(userId, currentNote)
+            const snapshot = JSON.stringify(progress)
+
+            if (snapshot !== lastSnapshot) {
+              send(`event: progress\ndata: ${snapshot}\n\n`)
+              lastSnapshot = snapshot
+              lastSentAt = Date.now()
+            } else if (Date.now() - lastSentAt > HEARTBEAT_INTERVAL_MS) {
+              send(': keep-alive\n\n')
+              lastSentAt = Date.now()
+            }
+
+            if (progress.status === 'completed' || progress.status === 'failed') {
+              break
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+          }
+        } catch (error) {
+          ErrorHandler.logError(error as Error, 'note_progress_stream', { noteId })
+          send(`event: error\ndata: ${JSON.stringify({ error: ErrorHandler.getUserFriendlyMessage(error as Error) })}\n\n`)
+        } finally {
+          if (!closed) {
+            closed = true
+            controller.close()
+          }
+        }
+      },
+      cancel() {
+        // The client went away
+        closed = true
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'note_progress')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotesService } from '@/lib/notes-service'
+import { jobQueue } from '@/lib/job-queue'
+import { ingestWorker } from '@/lib/ingest-worker'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Retry a note whose ingestion failed, resuming at the stage that failed
+ */
+export async function POST(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const notesService = new NotesService()
+    const note = await notesService.getNoteById(userId, noteId)
+    if (!note) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    const job = await jobQueue.getLatestJobForNote(userId, noteId)
+    if (!job || job.status !== 'failed') {
+      return NextResponse.json(
+        { success: false, error: 'Only failed processing can be retried' },
+        { status: 409 }
+      )
+    }
+
+    const requeued = await ingestWorker.retry(job)
+    if (!requeued) {
+      return NextResponse.json(
+        { success: false, error: 'Only failed processing can be retried' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        job: {
+          id: requeued.id,
+          status: requeued.status
+        }
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'note_retry')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
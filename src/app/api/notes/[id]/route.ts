@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { NotesService } from '@/lib/notes-service'
+import { NotesService, Note } from '@/lib/notes-service'
+import { FoldersService } from '@/lib/folders-service'
+import { MAX_NOTE_MARKDOWN_LENGTH } from '@/lib/note-markdown'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 export async function GET(
   request: NextRequest,
@@ -9,6 +12,14 @@ export async function GET(
   try {
     const noteId = params.id
 
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     if (!noteId) {
       return NextResponse.json(
         { success: false, error: 'Note ID is required' },
@@ -17,7 +28,7 @@ export async function GET(
     }
 
     const notesService = new NotesService()
-    const note = await notesService.getNoteById(noteId)
+    const note = await notesService.getNoteById(userId, noteId)
 
     if (!note) {
       return NextResponse.json(
@@ -35,4 +46,76 @@ export async function GET(
     const errorResponse = ErrorHandler.createErrorResponse(error as Error)
     return NextResponse.json(errorResponse, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const noteId = params.id
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (body.folderId === undefined && body.markdown === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'No supported fields to update' },
+        { status: 400 }
+      )
+    }
+
+    if (body.markdown !== undefined && (typeof body.markdown !== 'string' || body.markdown.length > MAX_NOTE_MARKDOWN_LENGTH)) {
+      return NextResponse.json(
+        { success: false, error: `markdown must be a string of at most ${MAX_NOTE_MARKDOWN_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const notesService = new NotesService()
+    let note: Note | null = null
+
+    if (body.folderId !== undefined) {
+      const folderId: string | null = body.folderId || null
+      if (folderId) {
+        const foldersService = new FoldersService()
+        if (!(await foldersService.getFolderById(userId, folderId))) {
+          return NextResponse.json(
+            { success: false, error: 'Folder not found' },
+            { status: 403 }
+          )
+        }
+      }
+
+      note = await notesService.moveNoteToFolder(userId, noteId, folderId)
+    }
+
+    // The editor autosaves the whole body with each change
+    if (body.markdown !== undefined) {
+      note = await notesService.updateNoteMarkdown(userId, noteId, body.markdown)
+    }
+
+    if (!note) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: note
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'note_update', { noteId: params.id })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
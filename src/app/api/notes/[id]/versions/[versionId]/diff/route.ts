@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { noteVersionsService } from '@/lib/note-versions-service'
+import { CURRENT_VERSION } from '@/lib/note-version-types'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string; versionId: string }>
+}
+
+/**
+ * Line diff of a version's body, content blocks and mind map against the
+ * current note, or against another version given as ?against=<versionId>
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId, versionId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const against = request.nextUrl.searchParams.get('against') || CURRENT_VERSION
+    const diff = await noteVersionsService.diffVersion(userId, noteId, versionId, against)
+
+    if (!diff) {
+      return NextResponse.json(
+        { success: false, error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: diff
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'note_version_diff', { versionId: (await params).versionId })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { noteVersionsService } from '@/lib/note-versions-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string; versionId: string }>
+}
+
+/**
+ * Put a note's body, content blocks and mind maps back to a version.
+ * The replaced state is kept as a new version.
+ */
+export async function POST(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId, versionId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const note = await noteVersionsService.restoreVersion(userId, noteId, versionId)
+
+    if (!note) {
+      return NextResponse.json(
+        { success: false, error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: note
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'note_version_restore', { versionId: (await params).versionId })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
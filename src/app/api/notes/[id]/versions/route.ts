@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotesService } from '@/lib/notes-service'
+import { noteVersionsService } from '@/lib/note-versions-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * List a note's saved versions, newest first
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  try {
+    const { id: noteId } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const notesService = new NotesService()
+    if (!(await notesService.getNoteById(userId, noteId))) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    const versions = await noteVersionsService.getVersions(userId, noteId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        versions
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'note_versions_fetch', { noteId: (await params).id })
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -1,14 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { NotesService } from '@/lib/notes-service'
 import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
 
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '6')
 
     const notesService = new NotesService()
-    const notes = await notesService.getRecentNotes(limit)
+    const notes = await notesService.getRecentNotes(userId, limit)
 
     return NextResponse.json({
       success: true,
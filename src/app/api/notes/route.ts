@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotesService } from '@/lib/notes-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const searchQuery = searchParams.get('q') || undefined
+    const sourceType = searchParams.get('sourceType') || undefined
+    const folderId = searchParams.get('folderId') || undefined
+
+    const notesService = new NotesService()
+    const notes = await notesService.getAllNotes(userId, searchQuery, sourceType, folderId)
+
+    return NextResponse.json({
+      success: true,
+      data: notes
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'notes_fetch')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
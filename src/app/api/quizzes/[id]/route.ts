@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { quizService } from '@/lib/quiz-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Get a quiz's questions and options; answers are only revealed on submission
+ */
+export async function GET(request: NextRequest, { params }: Props) {
+  try {
+    const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const quiz = await quizService.getQuiz(userId, id)
+    if (!quiz) {
+      return NextResponse.json(
+        { success: false, error: 'Quiz not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: quiz
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'quiz_fetch')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { quizService, QuizAnswerInput } from '@/lib/quiz-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+function isAnswer(value: any): value is QuizAnswerInput {
+  return value
+    && typeof value.question_id === 'string'
+    && Number.isInteger(value.answer_index)
+    && value.answer_index >= 0
+}
+
+/**
+ * Score an attempt and record the answers
+ */
+export async function POST(request: NextRequest, { params }: Props) {
+  try {
+    const { id } = await params
+
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { answers, started_at } = body
+
+    if (!Array.isArray(answers) || !answers.every(isAnswer)) {
+      return NextResponse.json(
+        { success: false, error: 'answers must be a list of { question_id, answer_index }' },
+        { status: 400 }
+      )
+    }
+
+    const startedAt = started_at ? new Date(started_at) : undefined
+    if (startedAt && isNaN(startedAt.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'started_at must be a valid date' },
+        { status: 400 }
+      )
+    }
+
+    const result = await quizService.submitAttempt(userId, id, answers, startedAt)
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Quiz not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'quiz_submit')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AIService } from '@/lib/ai-service'
+import { LLMService } from '@/lib/llm-service'
+import { NotesService } from '@/lib/notes-service'
+import { quizService } from '@/lib/quiz-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const maxDuration = 300; // long notes get questions from several chunks
+
+const DEFAULT_QUESTION_COUNT = 10
+const MAX_QUESTION_COUNT = 30
+
+/**
+ * List a note's quizzes: ?noteId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const noteId = request.nextUrl.searchParams.get('noteId')
+    if (!noteId) {
+      return NextResponse.json(
+        { success: false, error: 'noteId is required' },
+        { status: 400 }
+      )
+    }
+
+    const quizzes = await quizService.getQuizzesForNote(userId, noteId)
+
+    return NextResponse.json({
+      success: true,
+      data: quizzes
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'quizzes_list')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
+
+/**
+ * Generate a multiple-choice quiz from a note's content
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { note_id, question_count = DEFAULT_QUESTION_COUNT } = body
+
+    if (!note_id) {
+      return NextResponse.json(
+        { success: false, error: 'note_id is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(question_count) || question_count < 1 || question_count > MAX_QUESTION_COUNT) {
+      return NextResponse.json(
+        { success: false, error: `question_count must be between 1 and ${MAX_QUESTION_COUNT}` },
+        { status: 400 }
+      )
+    }
+
+    const notesService = new NotesService()
+    const note = await notesService.getNoteById(userId, note_id)
+    if (!note) {
+      return NextResponse.json(
+        { success: false, error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    const content = note.transcription?.trim()
+    if (!content || content.length < 50) {
+      return NextResponse.json(
+        { success: false, error: 'Note content too short for quiz generation (minimum 50 characters)' },
+        { status: 400 }
+      )
+    }
+
+    const aiService = new AIService(new LLMService({}, { userId, noteId: note_id }))
+    const questions = await aiService.generateQuiz(content, question_count)
+    const quiz = await quizService.createQuiz(userId, note_id, `${note.title} Quiz`, questions)
+
+    return NextResponse.json({
+      success: true,
+      data: quiz
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'quiz_generate')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error as Error) })
+  }
+}
@@ -6,6 +6,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { whisperService } from '@/lib/whisper-service';
 import { notesService } from '@/lib/notes-service';
+import { getCurrentUserId } from '@/lib/supabase-server';
+import { ErrorHandler } from '@/lib/error-handler';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for streaming
@@ -27,6 +29,7 @@ interface StreamResponse {
 
 // Simple in-memory store for active streams
 const activeStreams = new Map<string, {
+  userId: string;
   chunks: Blob[];
   lastActivity: number;
   noteId?: string;
@@ -47,6 +50,14 @@ setInterval(() => {
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
     const { action, streamId, audioData, isLast, language = 'en', noteId } = body;
 
@@ -57,9 +68,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Streams are private to the user that started them
+    const existingStream = activeStreams.get(streamId);
+    if (existingStream && existingStream.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Stream not found' },
+        { status: 404 }
+      );
+    }
+
     switch (action) {
       case 'start':
-        return handleStreamStart(streamId, noteId);
+        return handleStreamStart(userId, streamId, noteId);
       
       case 'chunk':
         return handleStreamChunk(streamId, audioData, isLast, language);
@@ -83,8 +103,16 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleStreamStart(streamId: string, noteId?: string): Promise<NextResponse> {
+async function handleStreamStart(userId: string, streamId: string, noteId?: string): Promise<NextResponse> {
+  if (noteId && !(await notesService.getNoteById(userId, noteId))) {
+    return NextResponse.json(
+      { error: 'Note not found' },
+      { status: 404 }
+    );
+  }
+
   activeStreams.set(streamId, {
+    userId,
     chunks: [],
     lastActivity: Date.now(),
     noteId
@@ -149,7 +177,8 @@ async function handleStreamChunk(
         // Transcribe chunk
         const result = await whisperService.transcribeAudio(audioFile, {
           language: language || undefined,
-          response_format: 'verbose_json'
+          response_format: 'verbose_json',
+          usage: { userId: stream.userId, noteId: stream.noteId }
         });
 
         // Calculate confidence
@@ -169,7 +198,7 @@ async function handleStreamChunk(
         // If this is the last chunk and we have a noteId, save to database
         if (isLast && stream.noteId && response.text.length > 10) {
           try {
-            await saveStreamToNote(stream.noteId, response.text);
+            await saveStreamToNote(stream.userId, stream.noteId, response.text);
           } catch (saveError) {
             console.warn('Failed to save stream to note:', saveError);
             // Don't fail the response, just log the error
@@ -187,6 +216,14 @@ async function handleStreamChunk(
         
         // Reset chunks and continue
         stream.chunks = [];
+
+        // 额度用完后继续发送音频没有意义，告知客户端停止
+        if (ErrorHandler.isQuotaExceeded(transcriptionError)) {
+          return NextResponse.json(
+            ErrorHandler.createErrorResponse(transcriptionError),
+            { status: 429 }
+          );
+        }
         
         return NextResponse.json({
           success: true,
@@ -235,7 +272,8 @@ async function handleStreamEnd(streamId: string): Promise<NextResponse> {
         });
 
         const result = await whisperService.transcribeAudio(audioFile, {
-          response_format: 'verbose_json'
+          response_format: 'verbose_json',
+          usage: { userId: stream.userId, noteId: stream.noteId }
         });
 
         finalTranscription = {
@@ -249,7 +287,7 @@ async function handleStreamEnd(streamId: string): Promise<NextResponse> {
         // Save final transcription to note if noteId exists
         if (stream.noteId && finalTranscription.text.length > 10) {
           try {
-            await saveStreamToNote(stream.noteId, finalTranscription.text);
+            await saveStreamToNote(stream.userId, stream.noteId, finalTranscription.text);
           } catch (saveError) {
             console.warn('Failed to save final stream to note:', saveError);
           }
@@ -283,10 +321,10 @@ function calculateChunkConfidence(transcription: any): number {
   return 0.5; // Default confidence
 }
 
-async function saveStreamToNote(noteId: string, transcription: string): Promise<void> {
+async function saveStreamToNote(userId: string, noteId: string, transcription: string): Promise<void> {
   try {
     // Append to existing note transcription
-    const note = await notesService.getNoteById(noteId);
+    const note = await notesService.getNoteById(userId, noteId);
     
     if (note) {
       const existingTranscription = note.transcription || '';
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SearchService, SearchResultType } from '@/lib/search-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+const SEARCHABLE_TYPES: SearchResultType[] = ['note', 'content_block', 'flashcard']
+const MAX_LIMIT = 50
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const searchQuery = searchParams.get('q')?.trim()
+    const locale = searchParams.get('locale') || undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, MAX_LIMIT)
+    const types = searchParams.get('types')?.split(',').filter(Boolean)
+
+    if (!searchQuery) {
+      return NextResponse.json(
+        { success: false, error: 'Search query (q) is required' },
+        { status: 400 }
+      )
+    }
+
+    if (types && types.some(type => !SEARCHABLE_TYPES.includes(type as SearchResultType))) {
+      return NextResponse.json(
+        { success: false, error: `types must be a comma-separated list of: ${SEARCHABLE_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const searchService = new SearchService()
+    const { mode, results } = await searchService.search(userId, searchQuery, {
+      locale,
+      limit,
+      types: types as SearchResultType[] | undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        query: searchQuery,
+        mode,
+        results
+      }
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'search')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
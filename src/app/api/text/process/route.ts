@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { queryOne, transaction } from '@/lib/database'
+import { jobQueue } from '@/lib/job-queue'
+import { ingestWorker, IngestPayload } from '@/lib/ingest-worker'
+import { foldersService } from '@/lib/folders-service'
+import { MAX_NOTE_MARKDOWN_LENGTH } from '@/lib/note-markdown'
+import { textFingerprint, parseDuplicateAction, resolveDuplicateSource, duplicateSourceBody } from '@/lib/source-fingerprint'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+const MIN_TEXT_LENGTH = 20
+
+/**
+ * Create a note from pasted text (JSON) or an uploaded .txt/.md file (multipart)
+ */
+export async function POST(request: NextRequest) {
+  let fileName: string | undefined
+
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    let text: string
+    let title: string | null
+    let folderId: string | null
+    let duplicateAction: unknown
+    let isMarkdown: boolean
+
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file') as File | null
+      if (!file) {
+        return NextResponse.json(
+          { success: false, error: 'Text file is required' },
+          { status: 400 }
+        )
+      }
+
+      fileName = file.name
+      if (!/\.(txt|md|markdown)$/i.test(file.name)) {
+        return NextResponse.json(
+          { success: false, error: 'Only .txt and .md files are allowed' },
+          { status: 400 }
+        )
+      }
+
+      // Size limit: 2MB
+      if (file.size > 2 * 1024 * 1024) {
+        return NextResponse.json(
+          { success: false, error: 'File size must be less than 2MB' },
+          { status: 400 }
+        )
+      }
+
+      text = (await file.text()).replace(/^\uFEFF/, '')
+      title = (formData.get('title') as string | null) || null
+      folderId = (formData.get('folderId') as string | null) || null
+      duplicateAction = formData.get('duplicateAction')
+      isMarkdown = !/\.txt$/i.test(file.name)
+    } else {
+      const body = await request.json()
+      text = typeof body.text === 'string' ? body.text : ''
+      title = typeof body.title === 'string' ? body.title : null
+      folderId = body.folderId || null
+      duplicateAction = body.duplicateAction
+      isMarkdown = body.format === 'markdown'
+    }
+
+    text = text.replace(/\r\n?/g, '\n').trim()
+    title = title?.trim().slice(0, 500) || null
+
+    if (text.length < MIN_TEXT_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Text must be at least ${MIN_TEXT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+    if (text.length > MAX_NOTE_MARKDOWN_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Text must be at most ${MAX_NOTE_MARKDOWN_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (folderId && !(await foldersService.getFolderById(userId, folderId))) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 403 }
+      )
+    }
+
+    const sourceHash = textFingerprint(text)
+    // The same text imported before can be copied instead of reprocessed
+    const duplicate = await resolveDuplicateSource(userId, sourceHash, parseDuplicateAction(duplicateAction), folderId)
+    if (duplicate.status === 'duplicate') {
+      return NextResponse.json(duplicateSourceBody(duplicate.existingNote), { status: 409 })
+    }
+    if (duplicate.status === 'cloned') {
+      return NextResponse.json({
+        success: true,
+        data: { note: duplicate.note, cloned_from: duplicate.sourceNoteId }
+      }, { status: 201 })
+    }
+
+    console.log('Processing text note:', {
+      fileName,
+      length: text.length,
+      isMarkdown,
+      userId
+    })
+
+    // The text is stored right away; a Markdown source also becomes the note body, so the AI blocks don't replace it
+    const noteId = uuidv4()
+    const job = await transaction(async (client) => {
+      await client.query(`
+        INSERT INTO notes (id, user_id, title, source_type, folder_id, content_status, transcription, markdown, source_hash, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+      `, [
+        noteId,
+        userId,
+        title || fileName?.replace(/\.(txt|md|markdown)$/i, '') || 'Pasted text',
+        'text',
+        folderId,
+        'processing',
+        text,
+        isMarkdown ? text : null,
+        sourceHash
+      ])
+
+      return jobQueue.enqueue<IngestPayload>({
+        userId,
+        noteId,
+        type: 'ingest',
+        payload: {
+          source: 'text',
+          fileName,
+          title: title || undefined
+        }
+      }, client)
+    })
+    ingestWorker.kick()
+
+    const note = await queryOne(`
+      SELECT * FROM notes WHERE id = $1
+    `, [noteId])
+
+    console.log('Queued text note for processing:', {
+      noteId,
+      jobId: job.id
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        note,
+        job: {
+          id: job.id,
+          status: job.status
+        },
+        text_metadata: {
+          fileName: fileName || null,
+          length: text.length,
+          format: isMarkdown ? 'markdown' : 'text'
+        }
+      }
+    }, { status: 202 })
+
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'text_process', {
+      fileName
+    })
+
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { usageService } from '@/lib/usage-service'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+/**
+ * AI usage summary for one calendar month (UTC): ?month=YYYY-MM, defaults to the current month
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const monthParam = request.nextUrl.searchParams.get('month')
+    let month = new Date()
+
+    if (monthParam) {
+      const match = /^(\d{4})-(\d{2})$/.exec(monthParam)
+      const monthIndex = match ? parseInt(match[2]) - 1 : -1
+      if (!match || monthIndex < 0 || monthIndex > 11) {
+        return NextResponse.json(
+          { success: false, error: 'month must be in YYYY-MM format' },
+          { status: 400 }
+        )
+      }
+      month = new Date(Date.UTC(parseInt(match[1]), monthIndex, 1))
+    }
+
+    const summary = await usageService.getMonthlySummary(userId, month)
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    })
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'usage_fetch')
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { vaultService } from '@/lib/vault-service'
+import { downloadResponse } from '@/lib/download-response'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300 // every note in the library, one after another
+
+/**
+ * Download notes as a zipped Obsidian vault.
+ * With folderId, exports that folder and its subfolders; without it, every note.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const file = await vaultService.exportVault(userId, searchParams.get('folderId') || null)
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    return downloadResponse(file)
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'vault_export')
+
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { vaultService } from '@/lib/vault-service'
+import { VaultFormatError } from '@/lib/obsidian-vault'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * Import a zipped Obsidian vault. Each Markdown file becomes a note; directories become folders.
+ */
+export async function POST(request: NextRequest) {
+  let file: File | null = null
+
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    file = formData.get('file') as File
+    const folderId = (formData.get('folderId') as string) || null
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'File is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!/\.zip$/i.test(file.name)) {
+      return NextResponse.json(
+        { success: false, error: 'Only zipped vaults (.zip) are supported' },
+        { status: 400 }
+      )
+    }
+
+    // Size limit: 50MB
+    if (file.size > 50 * 1024 * 1024) {
+      return NextResponse.json(
+        { success: false, error: 'File size must be less than 50MB' },
+        { status: 400 }
+      )
+    }
+
+    const result = await vaultService.importVault(userId, new Uint8Array(await file.arrayBuffer()), folderId)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof VaultFormatError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+
+    ErrorHandler.logError(error as Error, 'vault_import', {
+      fileName: file?.name,
+      fileSize: file?.size
+    })
+
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { query, transaction } from '@/lib/database'
+import { webArticleService } from '@/lib/web-article-service'
+import { jobQueue } from '@/lib/job-queue'
+import { ingestWorker, IngestPayload } from '@/lib/ingest-worker'
+import { foldersService } from '@/lib/folders-service'
+import { webFingerprint, parseDuplicateAction, resolveDuplicateSource, duplicateSourceBody } from '@/lib/source-fingerprint'
+import { ErrorHandler } from '@/lib/error-handler'
+import { getCurrentUserId } from '@/lib/supabase-server'
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { url, title, folderId, duplicateAction } = body
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Article URL is required' },
+        { status: 400 }
+      )
+    }
+
+    const articleUrl = webArticleService.parseUrl(url)
+    if (!articleUrl) {
+      return NextResponse.json(
+        { success: false, error: 'Please provide a valid http or https URL' },
+        { status: 400 }
+      )
+    }
+
+    if (folderId && !(await foldersService.getFolderById(userId, folderId))) {
+      return NextResponse.json(
+        { success: false, error: 'Folder not found' },
+        { status: 403 }
+      )
+    }
+
+    console.log('Processing web article:', {
+      url: articleUrl.toString(),
+      folderId
+    })
+
+    const sourceHash = webFingerprint(articleUrl)
+    // 之前导入过的相同来源可直接复制已有笔记，无需重新处理
+    const duplicate = await resolveDuplicateSource(userId, sourceHash, parseDuplicateAction(duplicateAction), folderId)
+    if (duplicate.status === 'duplicate') {
+      return NextResponse.json(duplicateSourceBody(duplicate.existingNote), { status: 409 })
+    }
+    if (duplicate.status === 'cloned') {
+      return NextResponse.json({
+        success: true,
+        data: { note: duplicate.note, cloned_from: duplicate.sourceNoteId }
+      }, { status: 201 })
+    }
+
+    // 创建笔记记录，网页抓取和 AI 分析由后台任务完成；标题先用域名，抓取后换成文章标题
+    const userTitle = typeof title === 'string' ? title.trim().slice(0, 500) : ''
+    const noteId = uuidv4()
+    const job = await transaction(async (client) => {
+      await client.query(`
+        INSERT INTO notes (id, user_id, title, source_type, folder_id, content_status, url, source_hash, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+      `, [
+        noteId,
+        userId,
+        userTitle || articleUrl.hostname,
+        'web',
+        folderId || null,
+        'processing',
+        articleUrl.toString(),
+        sourceHash
+      ])
+
+      return jobQueue.enqueue<IngestPayload>({
+        userId,
+        noteId,
+        type: 'ingest',
+        payload: {
+          source: 'web',
+          url: articleUrl.toString(),
+          title: userTitle || undefined
+        }
+      }, client)
+    })
+    ingestWorker.kick()
+
+    const noteRows = await query(`
+      SELECT * FROM notes WHERE id = $1
+    `, [noteId])
+
+    console.log('Queued web article for processing:', {
+      noteId,
+      jobId: job.id
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        note: noteRows.rows[0],
+        job: {
+          id: job.id,
+          status: job.status
+        },
+        web_metadata: {
+          url: articleUrl.toString(),
+          hostname: articleUrl.hostname
+        }
+      }
+    }, { status: 202 })
+
+  } catch (error) {
+    ErrorHandler.logError(error as Error, 'web_process', {
+      url: (await request.json().catch(() => ({})))?.url
+    })
+
+    const errorResponse = ErrorHandler.createErrorResponse(error as Error)
+    return NextResponse.json(errorResponse, { status: 500 })
+  }
+}
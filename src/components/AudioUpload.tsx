@@ -4,7 +4,6 @@ import React, { useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 
 interface AudioUploadProps {
-  userId: string;
   folderId?: string;
   onUploadComplete?: (noteId: string) => void;
 }
@@ -20,17 +19,12 @@ interface AudioProcessingResult {
   note: {
     id: string;
     title: string;
-    transcription: string;
+    contentStatus: string;
     audioUrl?: string;
-    contentBlocks: number;
-    flashcards: number;
   };
-  transcription: {
-    text: string;
-    language?: string;
-    duration?: number;
-    segments: number;
-    confidence?: number;
+  job: {
+    id: string;
+    status: string;
   };
 }
 
@@ -42,7 +36,7 @@ const SUPPORTED_AUDIO_FORMATS = [
   'audio/ogg'   // OGG
 ];
 
-export default function AudioUpload({ userId, folderId, onUploadComplete }: AudioUploadProps) {
+export default function AudioUpload({ folderId, onUploadComplete }: AudioUploadProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState<ProcessingProgress | null>(null);
   const [result, setResult] = useState<AudioProcessingResult | null>(null);
@@ -103,7 +97,6 @@ export default function AudioUpload({ userId, folderId, onUploadComplete }: Audi
     try {
       const formData = new FormData();
       formData.append('audio', file);
-      formData.append('userId', userId);
       formData.append('title', title.trim());
       if (folderId) formData.append('folderId', folderId);
       if (language) formData.append('language', language);
@@ -158,7 +151,7 @@ export default function AudioUpload({ userId, folderId, onUploadComplete }: Audi
       setProgress({
         stage: 'complete',
         progress: 100,
-        message: 'Audio processing completed successfully!'
+        message: 'Audio uploaded! Processing continues in the background.'
       });
       
       setResult(data.data);
@@ -168,7 +161,7 @@ export default function AudioUpload({ userId, folderId, onUploadComplete }: Audi
         if (onUploadComplete) {
           onUploadComplete(data.data.note.id);
         } else {
-          router.push(`/notes/${data.data.note.id}`);
+          router.push(`/processing?noteId=${data.data.note.id}`);
         }
       }, 2000);
 
@@ -293,23 +286,18 @@ export default function AudioUpload({ userId, folderId, onUploadComplete }: Audi
           {result && progress?.stage === 'complete' && (
             <div className="mt-6 space-y-4">
               <div className="bg-green-900/20 border border-green-500 rounded-lg p-4">
-                <h4 className="text-green-400 font-medium mb-2">✅ Processing Complete!</h4>
+                <h4 className="text-green-400 font-medium mb-2">✅ Upload Complete!</h4>
                 <div className="text-green-300 text-sm space-y-1">
-                  <p>• Transcription: {result.transcription.text.substring(0, 100)}...</p>
-                  <p>• Duration: {result.transcription.duration ? `${Math.round(result.transcription.duration)}s` : 'Unknown'}</p>
-                  <p>• Content blocks: {result.note.contentBlocks}</p>
-                  <p>• Flashcards: {result.note.flashcards}</p>
-                  {result.transcription.language && (
-                    <p>• Language: {result.transcription.language}</p>
-                  )}
+                  <p>• Note: {result.note.title}</p>
+                  <p>• Transcription, summary and flashcards are being generated in the background.</p>
                 </div>
               </div>
               
               <button 
-                onClick={() => router.push(`/notes/${result.note.id}`)}
+                onClick={() => router.push(`/processing?noteId=${result.note.id}`)}
                 className="w-full px-6 py-3 bg-mango-500 text-black font-semibold rounded-lg hover:bg-mango-400 transition-colors"
               >
-                View Generated Note →
+                Follow Processing →
               </button>
             </div>
           )}
@@ -0,0 +1,280 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { NoteClientService, NoteContentBlock } from '@/lib/note-client-service'
+import {
+  BLOCK_DEFAULTS,
+  ContentBlockType,
+  EDITABLE_BLOCK_TYPES,
+  PERSONAL_NOTES_TYPE,
+  blockListKey
+} from '@/lib/content-block-types'
+
+const inputClassName = 'w-full bg-dark-secondary text-white rounded-lg px-3 py-2 border border-dark-surface'
+
+// Blocks the user can add from the menu; personal notes have their own button
+const ADDABLE_TYPES = EDITABLE_BLOCK_TYPES.filter(type => type !== PERSONAL_NOTES_TYPE)
+
+// Stateless, so one instance serves every render
+const noteService = new NoteClientService()
+
+interface ContentBlockListProps {
+  noteId: string
+  className?: string
+}
+
+/**
+ * A note's content blocks with inline editing, adding, deleting and reordering,
+ * followed by the user's personal notes
+ */
+export default function ContentBlockList({ noteId, className }: ContentBlockListProps) {
+  const [blocks, setBlocks] = useState<NoteContentBlock[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+  // Text blocks edit their text; list blocks edit one item per line
+  const [editText, setEditText] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [personalText, setPersonalText] = useState('')
+
+  const personalBlock = blocks.find(block => block.type === PERSONAL_NOTES_TYPE)
+  const otherBlocks = blocks.filter(block => block.type !== PERSONAL_NOTES_TYPE)
+
+  useEffect(() => {
+    const loadBlocks = async () => {
+      setIsLoading(true)
+      const loaded = await noteService.getContentBlocks(noteId)
+      setBlocks(loaded)
+      setPersonalText(loaded.find(block => block.type === PERSONAL_NOTES_TYPE)?.content?.text || '')
+      setIsLoading(false)
+    }
+
+    loadBlocks()
+  }, [noteId])
+
+  const replaceBlock = (updated: NoteContentBlock) => {
+    setBlocks(current => current.map(block => block.id === updated.id ? updated : block))
+  }
+
+  const startEditing = (block: NoteContentBlock) => {
+    const listKey = blockListKey(block.type)
+    setEditingId(block.id)
+    setEditTitle(block.title)
+    setEditText(listKey ? (block.content?.[listKey] || []).join('\n') : block.content?.text || '')
+    setError(null)
+  }
+
+  const handleSave = async (block: NoteContentBlock) => {
+    const listKey = blockListKey(block.type)
+    const content = listKey
+      ? { [listKey]: editText.split('\n').map(line => line.trim()).filter(Boolean) }
+      : { text: editText }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      replaceBlock(await noteService.updateContentBlock(noteId, block.id, { title: editTitle.trim(), content }))
+      setEditingId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save block')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (block: NoteContentBlock) => {
+    if (!confirm(`Delete "${block.title}"?`)) return
+
+    if (await noteService.deleteContentBlock(noteId, block.id)) {
+      setBlocks(current => current.filter(existing => existing.id !== block.id))
+    } else {
+      setError('Failed to delete block')
+    }
+  }
+
+  const handleMove = async (block: NoteContentBlock, direction: -1 | 1) => {
+    const index = otherBlocks.findIndex(existing => existing.id === block.id)
+    const target = index + direction
+    if (target < 0 || target >= otherBlocks.length) return
+
+    // Personal notes are shown last, so they stay at the end of the order
+    const reordered = [...otherBlocks]
+    reordered[index] = otherBlocks[target]
+    reordered[target] = block
+    if (personalBlock) reordered.push(personalBlock)
+
+    const previous = blocks
+    setBlocks(reordered)
+    try {
+      setBlocks(await noteService.reorderContentBlocks(noteId, reordered.map(existing => existing.id)))
+    } catch (err) {
+      setBlocks(previous)
+      setError(err instanceof Error ? err.message : 'Failed to reorder blocks')
+    }
+  }
+
+  const handleAdd = async (type: ContentBlockType) => {
+    setError(null)
+    try {
+      const block = await noteService.addContentBlock(noteId, type)
+      setBlocks(current => [...current, block])
+      if (type !== PERSONAL_NOTES_TYPE) {
+        startEditing(block)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add block')
+    }
+  }
+
+  const handleSavePersonal = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (personalBlock) {
+        replaceBlock(await noteService.updateContentBlock(noteId, personalBlock.id, { content: { text: personalText } }))
+      } else {
+        const block = await noteService.addContentBlock(noteId, PERSONAL_NOTES_TYPE, undefined, { text: personalText })
+        setBlocks(current => [...current, block])
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notes')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderContent = (block: NoteContentBlock) => {
+    if (block.type === 'error') {
+      return <p className="text-yellow-400">{block.content?.message}</p>
+    }
+
+    const listKey = blockListKey(block.type)
+    if (listKey) {
+      const items: string[] = block.content?.[listKey] || []
+      return items.length === 0 ? (
+        <p className="text-gray-500 italic">Nothing here yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item, index) => (
+            <li key={index} className="bg-dark-tertiary p-4 rounded-lg text-gray-300">{item}</li>
+          ))}
+        </ul>
+      )
+    }
+
+    return block.content?.text ? (
+      <p className="text-gray-300 leading-relaxed whitespace-pre-wrap">{block.content.text}</p>
+    ) : (
+      <p className="text-gray-500 italic">Nothing here yet.</p>
+    )
+  }
+
+  const renderBlock = (block: NoteContentBlock) => {
+    const index = otherBlocks.findIndex(existing => existing.id === block.id)
+    const isEditable = EDITABLE_BLOCK_TYPES.includes(block.type as ContentBlockType)
+
+    if (editingId === block.id) {
+      return (
+        <div key={block.id} className="card p-6 space-y-3">
+          <input
+            value={editTitle}
+            onChange={(e) => setEditTitle(e.target.value)}
+            className={inputClassName}
+          />
+          <textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            rows={8}
+            placeholder={blockListKey(block.type) ? 'One item per line' : ''}
+            className={inputClassName}
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={() => handleSave(block)}
+              disabled={isSaving || !editTitle.trim()}
+              className="btn-primary disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button onClick={() => setEditingId(null)} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div key={block.id} className="group">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-white">
+            {block.icon && <span className="mr-2">{block.icon}</span>}
+            {block.title}
+          </h2>
+          <div className="flex items-center gap-3 text-sm text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={() => handleMove(block, -1)} disabled={index === 0} className="hover:text-white disabled:opacity-30">
+              ↑
+            </button>
+            <button onClick={() => handleMove(block, 1)} disabled={index === otherBlocks.length - 1} className="hover:text-white disabled:opacity-30">
+              ↓
+            </button>
+            {isEditable && (
+              <button onClick={() => startEditing(block)} className="hover:text-white">
+                Edit
+              </button>
+            )}
+            <button onClick={() => handleDelete(block)} className="hover:text-red-400">
+              Delete
+            </button>
+          </div>
+        </div>
+        {renderContent(block)}
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return <div className="text-center text-gray-400 py-6">Loading note...</div>
+  }
+
+  return (
+    <div className={`space-y-8 ${className || ''}`}>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {otherBlocks.length === 0 && (
+        <p className="text-gray-400">This note has no content yet. Add a block below.</p>
+      )}
+      {otherBlocks.map(renderBlock)}
+
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-gray-400">Add block:</span>
+        {ADDABLE_TYPES.map(type => (
+          <button key={type} onClick={() => handleAdd(type)} className="btn-secondary text-sm">
+            {BLOCK_DEFAULTS[type].icon} {BLOCK_DEFAULTS[type].title}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold text-white mb-4">
+          {BLOCK_DEFAULTS.personal_notes.icon} {personalBlock?.title || BLOCK_DEFAULTS.personal_notes.title}
+        </h2>
+        <textarea
+          value={personalText}
+          onChange={(e) => setPersonalText(e.target.value)}
+          rows={5}
+          placeholder="Your own thoughts on this note. They are kept when the note is re-analyzed."
+          className={inputClassName}
+        />
+        <button
+          onClick={handleSavePersonal}
+          disabled={isSaving || personalText === (personalBlock?.content?.text || '')}
+          className="btn-primary mt-3 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Notes'}
+        </button>
+      </div>
+    </div>
+  )
+}
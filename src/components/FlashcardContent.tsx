@@ -0,0 +1,80 @@
+'use client'
+
+import { FlashcardWithProgress } from '@/lib/flashcard-client-service'
+import { renderCloze } from '@/lib/flashcard-types'
+
+type CardFace = Pick<FlashcardWithProgress, 'card_type' | 'question' | 'answer' | 'ordinal' | 'media'>
+
+interface FlashcardContentProps {
+  card: CardFace
+  revealed: boolean
+  className?: string
+}
+
+/**
+ * One side of a card. Basic cards show the question or the answer; cloze and occlusion
+ * cards keep the same text or image on both sides and uncover the part being asked about.
+ */
+export default function FlashcardContent({ card, revealed, className }: FlashcardContentProps) {
+  if (card.card_type === 'cloze') {
+    return (
+      <div className={className}>
+        <p className="whitespace-pre-wrap">
+          {renderCloze(card.question, card.ordinal || 1).map((segment, index) =>
+            !segment.active ? (
+              <span key={index}>{segment.text}</span>
+            ) : revealed ? (
+              <span key={index} className="text-mango-400 font-semibold">{segment.text}</span>
+            ) : (
+              <span key={index} className="text-mango-400 font-semibold">[{segment.hint || '...'}]</span>
+            )
+          )}
+        </p>
+        {revealed && card.answer && (
+          <p className="text-base text-gray-400 mt-4 whitespace-pre-wrap">{card.answer}</p>
+        )}
+      </div>
+    )
+  }
+
+  if (card.card_type === 'image_occlusion' && card.media) {
+    const activeIndex = (card.ordinal || 1) - 1
+
+    return (
+      <div className={className}>
+        {card.question && <p className="mb-4 whitespace-pre-wrap">{card.question}</p>}
+        <div className="relative inline-block max-w-full">
+          <img src={card.media.image_url} alt="" className="max-w-full max-h-[60vh] rounded-lg" />
+          {card.media.masks.map((mask, index) => {
+            const isActive = index === activeIndex
+            // Hide all, guess one: other masks stay covered so they don't give the answer away
+            const style = isActive
+              ? revealed ? 'border-2 border-mango-400' : 'bg-mango-500 border-2 border-mango-400'
+              : 'bg-gray-600 border border-gray-500'
+            return (
+              <div
+                key={index}
+                className={`absolute rounded ${style}`}
+                style={{
+                  left: `${mask.x * 100}%`,
+                  top: `${mask.y * 100}%`,
+                  width: `${mask.width * 100}%`,
+                  height: `${mask.height * 100}%`
+                }}
+              />
+            )
+          })}
+        </div>
+        {revealed && card.answer && (
+          <p className="text-mango-400 font-semibold mt-4 whitespace-pre-wrap">{card.answer}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className={`whitespace-pre-wrap ${className || ''}`}>
+      {revealed ? card.answer : card.question}
+    </div>
+  )
+}
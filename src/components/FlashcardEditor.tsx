@@ -0,0 +1,480 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { FlashcardClientService, FlashcardWithProgress, CardState } from '@/lib/flashcard-client-service'
+import {
+  FlashcardType,
+  FlashcardDraft,
+  getClozeOrdinals,
+  stripCloze,
+  validateFlashcardDraft
+} from '@/lib/flashcard-types'
+import ImageOcclusionEditor, { LabeledMask } from './ImageOcclusionEditor'
+
+const STATE_STYLES: Record<CardState, string> = {
+  new: 'bg-blue-500/20 text-blue-300',
+  learning: 'bg-yellow-500/20 text-yellow-300',
+  relearning: 'bg-orange-500/20 text-orange-300',
+  review: 'bg-green-500/20 text-green-300'
+}
+
+const TYPE_LABELS: Record<FlashcardType, string> = {
+  basic: 'Basic',
+  cloze: 'Cloze',
+  image_occlusion: 'Image Occlusion'
+}
+
+const DEFAULT_OCCLUSION_PROMPT = 'What is hidden?'
+
+const inputClassName = 'w-full bg-dark-secondary text-white rounded-lg px-3 py-2 border border-dark-surface'
+
+interface FlashcardEditorProps {
+  noteId: string
+  onStartReview?: () => void
+  className?: string
+}
+
+export default function FlashcardEditor({ noteId, onStartReview, className }: FlashcardEditorProps) {
+  const [flashcards, setFlashcards] = useState<FlashcardWithProgress[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [newType, setNewType] = useState<FlashcardType>('basic')
+  const [newQuestion, setNewQuestion] = useState('')
+  const [newAnswer, setNewAnswer] = useState('')
+  const [newImageUrl, setNewImageUrl] = useState<string | null>(null)
+  const [newMasks, setNewMasks] = useState<LabeledMask[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const clozeInputRef = useRef<HTMLTextAreaElement>(null)
+
+  const [editingGroup, setEditingGroup] = useState<FlashcardWithProgress[] | null>(null)
+  const [editQuestion, setEditQuestion] = useState('')
+  const [editAnswer, setEditAnswer] = useState('')
+  const [editLabels, setEditLabels] = useState<string[]>([])
+  const [resetProgress, setResetProgress] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const flashcardService = new FlashcardClientService()
+
+  useEffect(() => {
+    loadFlashcards()
+  }, [noteId])
+
+  const loadFlashcards = async () => {
+    setIsLoading(true)
+    setFlashcards(await flashcardService.getFlashcardsByNoteId(noteId))
+    setIsLoading(false)
+  }
+
+  // Cloze and occlusion siblings are listed and edited as one entry
+  const groups: FlashcardWithProgress[][] = []
+  const groupIndex = new Map<string, number>()
+  for (const card of flashcards) {
+    const key = card.sibling_group || card.id
+    if (!groupIndex.has(key)) {
+      groupIndex.set(key, groups.length)
+      groups.push([])
+    }
+    groups[groupIndex.get(key)!].push(card)
+  }
+
+  const newDraft: FlashcardDraft = {
+    type: newType,
+    question: newType === 'image_occlusion' ? newQuestion.trim() || DEFAULT_OCCLUSION_PROMPT : newQuestion.trim(),
+    answer: newAnswer.trim(),
+    image_url: newImageUrl || undefined,
+    masks: newMasks
+  }
+  const newDraftError = validateFlashcardDraft(newDraft)
+
+  const resetNewCard = () => {
+    setNewQuestion('')
+    setNewAnswer('')
+    setNewImageUrl(null)
+    setNewMasks([])
+  }
+
+  const handleTypeChange = (type: FlashcardType) => {
+    setNewType(type)
+    resetNewCard()
+    setError(null)
+  }
+
+  // Wrap the selected text in the next unused cloze number
+  const handleHideSelection = () => {
+    const input = clozeInputRef.current
+    if (!input || input.selectionStart === input.selectionEnd) return
+
+    const ordinals = getClozeOrdinals(newQuestion)
+    const next = ordinals.length > 0 ? ordinals[ordinals.length - 1] + 1 : 1
+    const { selectionStart, selectionEnd } = input
+    setNewQuestion(
+      newQuestion.slice(0, selectionStart) +
+      `{{c${next}::${newQuestion.slice(selectionStart, selectionEnd)}}}` +
+      newQuestion.slice(selectionEnd)
+    )
+    input.focus()
+  }
+
+  const handleImageSelect = async (file: File | undefined) => {
+    if (!file) return
+
+    setIsUploading(true)
+    setError(null)
+    try {
+      setNewImageUrl(await flashcardService.uploadFlashcardImage(file))
+      setNewMasks([])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to upload image')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (newDraftError) return
+
+    setIsCreating(true)
+    setError(null)
+    try {
+      const created = await flashcardService.createFlashcard(noteId, newDraft)
+      setFlashcards([...flashcards, ...created])
+      resetNewCard()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create flashcard')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const startEditing = (group: FlashcardWithProgress[]) => {
+    setEditingGroup(group)
+    setEditQuestion(group[0].question)
+    setEditAnswer(group[0].answer)
+    setEditLabels(group.map(card => card.answer))
+    setResetProgress(false)
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!editingGroup) return
+
+    const [first] = editingGroup
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (first.card_type === 'image_occlusion') {
+        // The prompt is shared; each sibling's label is its own answer
+        for (let i = 0; i < editingGroup.length; i++) {
+          const labelChanged = editLabels[i].trim() !== editingGroup[i].answer
+          if (i > 0 && !labelChanged) continue
+          await flashcardService.updateFlashcard(
+            editingGroup[i].id,
+            {
+              question: i === 0 ? editQuestion.trim() : undefined,
+              answer: labelChanged ? editLabels[i].trim() : undefined
+            },
+            i === 0 && resetProgress
+          )
+        }
+      } else {
+        await flashcardService.updateFlashcard(
+          first.id,
+          { question: editQuestion.trim(), answer: editAnswer.trim() },
+          resetProgress
+        )
+      }
+      setEditingGroup(null)
+      // Editing cloze text can add or remove siblings, so reload rather than patch the list
+      await loadFlashcards()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update flashcard')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (group: FlashcardWithProgress[]) => {
+    const message = group.length > 1
+      ? `Delete these ${group.length} cards? Their review history will be lost.`
+      : 'Delete this flashcard? Its review history will be lost.'
+    if (!confirm(message)) return
+
+    setError(null)
+    if (await flashcardService.deleteFlashcard(group[0].id)) {
+      const ids = new Set(group.map(card => card.id))
+      setFlashcards(flashcards.filter(existing => !ids.has(existing.id)))
+      if (editingGroup?.[0].id === group[0].id) setEditingGroup(null)
+    } else {
+      setError('Failed to delete flashcard')
+    }
+  }
+
+  const formatDue = (card: FlashcardWithProgress) => {
+    if (!card.next_review_date || card.card_state === 'new') return 'Not studied yet'
+    const due = new Date(card.next_review_date)
+    return due <= new Date() ? 'Due now' : `Due ${due.toLocaleDateString()}`
+  }
+
+  const renderProgress = (card: FlashcardWithProgress, showOrdinal: boolean) => (
+    <div key={card.id} className="flex items-center gap-3 text-xs">
+      {showOrdinal && (
+        <span className="text-gray-400 w-8">{card.card_type === 'cloze' ? `c${card.ordinal}` : `#${card.ordinal}`}</span>
+      )}
+      <span className={`px-2 py-0.5 rounded-full ${STATE_STYLES[card.card_state || 'new']}`}>
+        {card.card_state || 'new'}
+      </span>
+      <span className="text-gray-500">{formatDue(card)}</span>
+      {card.review_count > 0 && (
+        <span className="text-gray-500">
+          {card.review_count} review{card.review_count === 1 ? '' : 's'}
+        </span>
+      )}
+    </div>
+  )
+
+  const renderEditForm = (group: FlashcardWithProgress[]) => {
+    const type = group[0].card_type
+    return (
+      <div key={group[0].id} className="card p-4 space-y-3">
+        <textarea
+          value={editQuestion}
+          onChange={(e) => setEditQuestion(e.target.value)}
+          rows={type === 'cloze' ? 4 : 2}
+          className={inputClassName}
+        />
+        {type === 'image_occlusion' ? (
+          editLabels.map((label, index) => (
+            <div key={group[index].id} className="flex items-center gap-3">
+              <span className="text-mango-400 font-bold text-sm w-6">{index + 1}</span>
+              <input
+                value={label}
+                onChange={(e) => setEditLabels(editLabels.map((existing, i) => i === index ? e.target.value : existing))}
+                className={inputClassName}
+              />
+            </div>
+          ))
+        ) : (
+          <textarea
+            value={editAnswer}
+            onChange={(e) => setEditAnswer(e.target.value)}
+            placeholder={type === 'cloze' ? 'Extra notes for the back (optional)' : 'Answer'}
+            rows={3}
+            className={inputClassName}
+          />
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={resetProgress}
+            onChange={(e) => setResetProgress(e.target.checked)}
+          />
+          Reset review progress (the {group.length > 1 ? 'cards' : 'card'} will be studied as new)
+        </label>
+        <div className="flex gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !editQuestion.trim() || (type === 'basic' && !editAnswer.trim())}
+            className="btn-primary disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button onClick={() => setEditingGroup(null)} disabled={isSaving} className="btn-secondary">
+            Cancel
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const renderGroup = (group: FlashcardWithProgress[]) => {
+    const [first] = group
+    return (
+      <div key={first.id} className="card p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            {first.card_type !== 'basic' && (
+              <span className="text-xs text-mango-400 font-medium">
+                {TYPE_LABELS[first.card_type]} · {group.length} card{group.length === 1 ? '' : 's'}
+              </span>
+            )}
+            {first.card_type === 'cloze' ? (
+              <>
+                <p className="text-white font-medium whitespace-pre-wrap">{stripCloze(first.question)}</p>
+                {first.answer && <p className="text-gray-400 text-sm mt-2 whitespace-pre-wrap">{first.answer}</p>}
+              </>
+            ) : first.card_type === 'image_occlusion' && first.media ? (
+              <>
+                <p className="text-white font-medium">{first.question}</p>
+                <img src={first.media.image_url} alt="" className="max-h-32 rounded mt-2" />
+                <p className="text-gray-400 text-sm mt-2">
+                  {group.map(card => card.answer || `#${card.ordinal}`).join(' · ')}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-white font-medium whitespace-pre-wrap">{first.question}</p>
+                <p className="text-gray-400 text-sm mt-2 whitespace-pre-wrap">{first.answer}</p>
+              </>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={() => startEditing(group)} className="text-gray-400 hover:text-white text-sm">
+              Edit
+            </button>
+            <button onClick={() => handleDelete(group)} className="text-gray-400 hover:text-red-400 text-sm">
+              Delete
+            </button>
+          </div>
+        </div>
+        <div className="space-y-1 mt-3">
+          {group.map(card => renderProgress(card, first.card_type !== 'basic'))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`max-w-3xl mx-auto space-y-6 ${className || ''}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Flashcards</h2>
+          <p className="text-sm text-gray-400">
+            {flashcards.length} card{flashcards.length === 1 ? '' : 's'} in this note
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {flashcards.length > 0 && (
+            <>
+              <a href={flashcardService.getExportUrl('apkg', noteId)} className="btn-secondary text-sm">
+                Export to Anki
+              </a>
+              <a href={flashcardService.getExportUrl('csv', noteId)} className="btn-secondary text-sm">
+                Export CSV
+              </a>
+            </>
+          )}
+          {onStartReview && (
+            <button
+              onClick={onStartReview}
+              disabled={flashcards.length === 0}
+              className="btn-primary disabled:opacity-50"
+            >
+              Start Review
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card p-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Add a Card</h3>
+          <div className="flex gap-1 bg-dark-secondary rounded-lg p-1">
+            {(Object.keys(TYPE_LABELS) as FlashcardType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => handleTypeChange(type)}
+                className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                  newType === type ? 'bg-mango-500 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {newType === 'basic' && (
+          <>
+            <textarea
+              value={newQuestion}
+              onChange={(e) => setNewQuestion(e.target.value)}
+              placeholder="Question"
+              rows={2}
+              className={inputClassName}
+            />
+            <textarea
+              value={newAnswer}
+              onChange={(e) => setNewAnswer(e.target.value)}
+              placeholder="Answer"
+              rows={3}
+              className={inputClassName}
+            />
+          </>
+        )}
+
+        {newType === 'cloze' && (
+          <>
+            <textarea
+              ref={clozeInputRef}
+              value={newQuestion}
+              onChange={(e) => setNewQuestion(e.target.value)}
+              placeholder="The {{c1::mitochondrion}} is the powerhouse of the {{c2::cell}}."
+              rows={4}
+              className={inputClassName}
+            />
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">
+                {getClozeOrdinals(newQuestion).length} card{getClozeOrdinals(newQuestion).length === 1 ? '' : 's'} will be created, one per cloze number
+              </span>
+              <button onClick={handleHideSelection} className="btn-secondary text-sm">
+                Hide Selection
+              </button>
+            </div>
+            <textarea
+              value={newAnswer}
+              onChange={(e) => setNewAnswer(e.target.value)}
+              placeholder="Extra notes for the back (optional)"
+              rows={2}
+              className={inputClassName}
+            />
+          </>
+        )}
+
+        {newType === 'image_occlusion' && (
+          <>
+            <input
+              value={newQuestion}
+              onChange={(e) => setNewQuestion(e.target.value)}
+              placeholder={DEFAULT_OCCLUSION_PROMPT}
+              className={inputClassName}
+            />
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif"
+              onChange={(e) => handleImageSelect(e.target.files?.[0])}
+              disabled={isUploading}
+              className="text-sm text-gray-400"
+            />
+            <p className="text-xs text-gray-500">Use a diagram or a screenshot of a PDF page.</p>
+            {isUploading && <p className="text-sm text-gray-400">Uploading image...</p>}
+            {newImageUrl && (
+              <ImageOcclusionEditor imageUrl={newImageUrl} masks={newMasks} onChange={setNewMasks} />
+            )}
+          </>
+        )}
+
+        <button
+          onClick={handleCreate}
+          disabled={isCreating || isUploading || newDraftError !== null}
+          className="btn-primary disabled:opacity-50"
+        >
+          {isCreating ? 'Adding...' : 'Add Card'}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {isLoading ? (
+        <div className="text-center text-gray-400 py-6">Loading flashcards...</div>
+      ) : groups.length === 0 ? (
+        <div className="text-center text-gray-400 py-6">No flashcards yet. Add your first card above.</div>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => editingGroup?.[0].id === group[0].id ? renderEditForm(group) : renderGroup(group))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,36 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { FlashcardClientService, FlashcardWithProgress } from '@/lib/flashcard-client-service'
+import { FlashcardClientService, FlashcardWithProgress, ReviewGrade } from '@/lib/flashcard-client-service'
+import FlashcardContent from './FlashcardContent'
+
+const GRADE_BUTTONS: Array<{ grade: ReviewGrade; label: string; className: string }> = [
+  { grade: 'again', label: 'Again', className: 'bg-red-500/20 border-red-500/30 text-red-400 hover:bg-red-500/30' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-500/20 border-orange-500/30 text-orange-400 hover:bg-orange-500/30' },
+  { grade: 'good', label: 'Good', className: 'bg-green-500/20 border-green-500/30 text-green-400 hover:bg-green-500/30' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-500/20 border-blue-500/30 text-blue-400 hover:bg-blue-500/30' }
+]
+
+// Learning cards due within this many minutes come back in the current session
+const LEARN_AHEAD_MINUTES = 20
+
+interface LearningCard {
+  card: FlashcardWithProgress
+  dueAt: number
+}
+
+/**
+ * Compact interval label for a grade button, e.g. 10m, 3h, 1d, 3w, 2.5mo, 1.2y
+ */
+function formatInterval(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h`
+  const days = Math.round(minutes / (60 * 24))
+  if (days < 14) return `${days}d`
+  if (days < 60) return `${Math.round(days / 7)}w`
+  if (days < 365) return `${parseFloat((days / 30).toFixed(1))}mo`
+  return `${parseFloat((days / 365).toFixed(1))}y`
+}
 
 interface FlashcardReviewProps {
   noteId?: string
@@ -11,18 +40,20 @@ interface FlashcardReviewProps {
 
 export default function FlashcardReview({ noteId, onComplete, onExit }: FlashcardReviewProps) {
   const [flashcards, setFlashcards] = useState<FlashcardWithProgress[]>([])
-  const [currentIndex, setCurrentIndex] = useState(0)
+  const [currentCard, setCurrentCard] = useState<FlashcardWithProgress | null>(null)
+  // Position in the due queue after the card being shown
+  const [nextIndex, setNextIndex] = useState(0)
+  // Cards still in their learning steps, waiting to come back this session
+  const [learningCards, setLearningCards] = useState<LearningCard[]>([])
   const [isFlipped, setIsFlipped] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [reviewStats, setReviewStats] = useState({ correct: 0, total: 0 })
   const [isCompleted, setIsCompleted] = useState(false)
-  const [startTime, setStartTime] = useState<number>(0)
   const [cardStartTime, setCardStartTime] = useState<number>(0)
   const [sessionId, setSessionId] = useState<string | null>(null)
   const [sessionStartTime, setSessionStartTime] = useState<number>(0)
 
   const flashcardService = new FlashcardClientService()
-  const currentCard = flashcards[currentIndex]
 
   useEffect(() => {
     loadFlashcards()
@@ -44,14 +75,12 @@ export default function FlashcardReview({ noteId, onComplete, onExit }: Flashcar
   const loadFlashcards = async () => {
     setIsLoading(true)
     try {
-      let cards: FlashcardWithProgress[]
-      if (noteId) {
-        cards = await flashcardService.getFlashcardsByNoteId(noteId)
-      } else {
-        // Use optimal batch sizing for spaced repetition
-        cards = await flashcardService.getFlashcardsForReview()
-      }
+      // Without a note, the queue uses optimal batch sizing for spaced repetition
+      const cards = await flashcardService.getFlashcardsForReview(noteId)
       setFlashcards(cards)
+      setCurrentCard(cards[0] || null)
+      setNextIndex(1)
+      setLearningCards([])
       if (cards.length === 0) {
         setIsCompleted(true)
       }
@@ -71,34 +100,61 @@ export default function FlashcardReview({ noteId, onComplete, onExit }: Flashcar
     setIsFlipped(!isFlipped)
   }
 
-  const handleResponse = async (difficulty: 'easy' | 'hard') => {
+  const handleResponse = async (grade: ReviewGrade) => {
     if (!currentCard) return
 
     const responseTime = cardStartTime ? Date.now() - cardStartTime : 0
     
     // Record the review
-    await flashcardService.recordReview(currentCard.id, difficulty, responseTime)
+    const result = await flashcardService.recordReview(currentCard.id, grade, responseTime)
     
-    // Update stats
+    // Update stats; only Again counts as a miss
     const newStats = {
-      correct: reviewStats.correct + (difficulty === 'easy' ? 1 : 0),
+      correct: reviewStats.correct + (grade !== 'again' ? 1 : 0),
       total: reviewStats.total + 1
     }
     setReviewStats(newStats)
+
+    // A card still in its learning steps comes back if it's due again soon enough
+    const now = Date.now()
+    const queue = [...learningCards]
+    if (result && (result.card_state === 'learning' || result.card_state === 'relearning')) {
+      const dueAt = new Date(result.next_review_date).getTime()
+      if (dueAt <= now + LEARN_AHEAD_MINUTES * 60 * 1000) {
+        queue.push({
+          card: { ...currentCard, card_state: result.card_state, next_intervals: result.next_intervals },
+          dueAt
+        })
+      }
+    }
+    queue.sort((a, b) => a.dueAt - b.dueAt)
+
+    // Due learning cards first, then the rest of the queue, then learning cards ahead of time
+    let nextCard: FlashcardWithProgress | null = null
+    if (queue.length > 0 && queue[0].dueAt <= now) {
+      nextCard = queue.shift()!.card
+    } else if (nextIndex < flashcards.length) {
+      nextCard = flashcards[nextIndex]
+      setNextIndex(nextIndex + 1)
+    } else if (queue.length > 0) {
+      nextCard = queue.shift()!.card
+    }
+    setLearningCards(queue)
     
     // Move to next card
-    if (currentIndex + 1 >= flashcards.length) {
+    if (!nextCard) {
       setIsCompleted(true)
       onComplete?.(newStats)
     } else {
-      setCurrentIndex(currentIndex + 1)
+      setCurrentCard(nextCard)
       setIsFlipped(false)
-      setStartTime(0)
     }
   }
 
   const handleRestart = () => {
-    setCurrentIndex(0)
+    setCurrentCard(flashcards[0] || null)
+    setNextIndex(1)
+    setLearningCards([])
     setIsFlipped(false)
     setReviewStats({ correct: 0, total: 0 })
     setIsCompleted(false)
@@ -116,7 +172,7 @@ export default function FlashcardReview({ noteId, onComplete, onExit }: Flashcar
     )
   }
 
-  if (isCompleted || flashcards.length === 0) {
+  if (isCompleted || !currentCard) {
     return (
       <div className="min-h-screen bg-dark-primary flex items-center justify-center">
         <div className="max-w-md mx-auto text-center">
@@ -188,11 +244,23 @@ export default function FlashcardReview({ noteId, onComplete, onExit }: Flashcar
             <div>
               <h1 className="text-xl font-bold text-white">Flashcard Review</h1>
               <p className="text-sm text-gray-400">
-                {currentIndex + 1} of {flashcards.length}
+                {nextIndex} of {flashcards.length}
+                {learningCards.length > 0 && (
+                  <span className="text-yellow-400"> · {learningCards.length} learning</span>
+                )}
               </p>
             </div>
           </div>
           <div className="flex items-center gap-4">
+            {!noteId && (
+              <a
+                href={flashcardService.getExportUrl('apkg')}
+                className="text-sm text-gray-400 hover:text-white transition-colors"
+                title="Download every card due now as an Anki package"
+              >
+                Export due to Anki
+              </a>
+            )}
             <div className="text-sm text-gray-400">
               <span className="text-green-400">{reviewStats.correct}</span>
               {' / '}
@@ -201,7 +269,7 @@ export default function FlashcardReview({ noteId, onComplete, onExit }: Flashcar
             <div className="w-32 bg-gray-700/50 rounded-full h-2">
               <div 
                 className="bg-gradient-to-r from-mango-500 to-mango-400 h-full rounded-full transition-all duration-300"
-                style={{ width: `${((currentIndex) / flashcards.length) * 100}%` }}
+                style={{ width: `${((nextIndex - 1) / flashcards.length) * 100}%` }}
               ></div>
             </div>
           </div>
@@ -224,9 +292,11 @@ export default function FlashcardReview({ noteId, onComplete, onExit }: Flashcar
                 }`}>
                   {isFlipped ? 'ANSWER' : 'QUESTION'}
                 </div>
-                <div className="text-xl md:text-2xl font-medium text-white leading-relaxed">
-                  {isFlipped ? currentCard.answer : currentCard.question}
-                </div>
+                <FlashcardContent
+                  card={currentCard}
+                  revealed={isFlipped}
+                  className="text-xl md:text-2xl font-medium text-white leading-relaxed"
+                />
               </div>
               
               {!isFlipped && (
@@ -239,21 +309,19 @@ export default function FlashcardReview({ noteId, onComplete, onExit }: Flashcar
 
           {/* Action Buttons */}
           {isFlipped && (
-            <div className="mt-6 flex gap-4">
-              <button
-                onClick={() => handleResponse('hard')}
-                className="flex-1 bg-red-500/20 border border-red-500/30 text-red-400 py-4 px-6 rounded-xl hover:bg-red-500/30 transition-colors font-medium"
-              >
-                <div className="text-2xl mb-1">😰</div>
-                Hard
-              </button>
-              <button
-                onClick={() => handleResponse('easy')}
-                className="flex-1 bg-green-500/20 border border-green-500/30 text-green-400 py-4 px-6 rounded-xl hover:bg-green-500/30 transition-colors font-medium"
-              >
-                <div className="text-2xl mb-1">😊</div>
-                Easy
-              </button>
+            <div className="mt-6 grid grid-cols-4 gap-3">
+              {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleResponse(grade)}
+                  className={`border py-4 px-3 rounded-xl transition-colors font-medium ${className}`}
+                >
+                  <div className="text-xs opacity-75 mb-1">
+                    {currentCard.next_intervals ? formatInterval(currentCard.next_intervals[grade]) : '\u00a0'}
+                  </div>
+                  {label}
+                </button>
+              ))}
             </div>
           )}
 
@@ -0,0 +1,286 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import {
+  FolderClientService,
+  FolderItem,
+  FolderTreeNode,
+  FOLDER_COLORS,
+  NOTE_DRAG_TYPE,
+  FOLDER_DRAG_TYPE,
+  buildFolderTree
+} from '@/lib/folder-client-service'
+import { NoteClientService, NOTE_EXPORT_OPTIONS } from '@/lib/note-client-service'
+
+interface FolderTreeProps {
+  activeFolderId?: string | null
+  onNoteMoved?: () => void
+}
+
+export default function FolderTree({ activeFolderId, onNoteMoved }: FolderTreeProps) {
+  const t = useTranslations('sidebar')
+  const [folders, setFolders] = useState<FolderItem[]>([])
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [creatingUnder, setCreatingUnder] = useState<string | null | undefined>(undefined)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const [exportingId, setExportingId] = useState<string | null>(null)
+
+  const folderService = new FolderClientService()
+  const noteService = new NoteClientService()
+  const tree = buildFolderTree(folders)
+
+  useEffect(() => {
+    loadFolders()
+  }, [])
+
+  const loadFolders = async () => {
+    const result = await folderService.getFolders()
+    setFolders(result)
+  }
+
+  const toggleExpanded = (folderId: string) => {
+    const next = new Set(expanded)
+    if (next.has(folderId)) {
+      next.delete(folderId)
+    } else {
+      next.add(folderId)
+    }
+    setExpanded(next)
+  }
+
+  const startCreate = (parentId: string | null) => {
+    setRenamingId(null)
+    setDraftName('')
+    setCreatingUnder(parentId)
+    if (parentId) {
+      setExpanded(new Set(expanded).add(parentId))
+    }
+  }
+
+  const startRename = (folder: FolderTreeNode) => {
+    setCreatingUnder(undefined)
+    setDraftName(folder.name)
+    setRenamingId(folder.id)
+  }
+
+  const cancelEditing = () => {
+    setCreatingUnder(undefined)
+    setRenamingId(null)
+    setDraftName('')
+  }
+
+  const submitDraft = async () => {
+    const name = draftName.trim()
+    if (!name) {
+      cancelEditing()
+      return
+    }
+
+    if (renamingId) {
+      await folderService.updateFolder(renamingId, { name })
+    } else if (creatingUnder !== undefined) {
+      await folderService.createFolder(name, creatingUnder)
+    }
+
+    cancelEditing()
+    await loadFolders()
+  }
+
+  const cycleColor = async (folder: FolderTreeNode) => {
+    const currentIndex = FOLDER_COLORS.indexOf(folder.color || '')
+    const nextColor = FOLDER_COLORS[(currentIndex + 1) % FOLDER_COLORS.length]
+    await folderService.updateFolder(folder.id, { color: nextColor })
+    await loadFolders()
+  }
+
+  const handleDelete = async (folder: FolderTreeNode) => {
+    if (!window.confirm(t('deleteFolderConfirm', { name: folder.name }))) return
+
+    await folderService.deleteFolder(folder.id)
+    await loadFolders()
+    onNoteMoved?.()
+  }
+
+  const handleDragOver = (e: React.DragEvent, targetId: string | null) => {
+    const types = Array.from(e.dataTransfer.types)
+    if (types.includes(NOTE_DRAG_TYPE) || types.includes(FOLDER_DRAG_TYPE)) {
+      e.preventDefault()
+      setDropTargetId(targetId ?? 'root')
+    }
+  }
+
+  const handleDrop = async (e: React.DragEvent, targetId: string | null) => {
+    e.preventDefault()
+    setDropTargetId(null)
+
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE)
+    const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE)
+
+    if (noteId) {
+      const moved = await folderService.moveNote(noteId, targetId)
+      if (moved) {
+        await loadFolders()
+        onNoteMoved?.()
+      }
+    } else if (folderId && folderId !== targetId) {
+      // The API rejects moves into the folder's own subtree
+      const moved = await folderService.updateFolder(folderId, { parentId: targetId })
+      if (moved) {
+        await loadFolders()
+      }
+    }
+  }
+
+  const renderDraftInput = (depth: number) => (
+    <input
+      autoFocus
+      value={draftName}
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={submitDraft}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submitDraft()
+        if (e.key === 'Escape') cancelEditing()
+      }}
+      placeholder={t('folderNamePlaceholder')}
+      className="input-field w-full text-sm py-1.5"
+      style={{ marginLeft: depth * 16 }}
+    />
+  )
+
+  const renderNode = (folder: FolderTreeNode, depth: number) => {
+    const isExpanded = expanded.has(folder.id)
+    const isActive = activeFolderId === folder.id
+    const isDropTarget = dropTargetId === folder.id
+
+    return (
+      <li key={folder.id}>
+        {renamingId === folder.id ? (
+          renderDraftInput(depth)
+        ) : (
+          <div
+            draggable
+            onDragStart={(e) => e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id)}
+            onDragOver={(e) => handleDragOver(e, folder.id)}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => handleDrop(e, folder.id)}
+            className={`group flex items-center gap-2 px-2 py-1.5 rounded-xl transition-colors ${
+              isDropTarget ? 'bg-mango-primary/20' : isActive ? 'bg-mango-50' : 'hover:bg-surface-tertiary'
+            }`}
+            style={{ paddingLeft: 8 + depth * 16 }}
+          >
+            <button
+              onClick={() => toggleExpanded(folder.id)}
+              className={`w-4 text-xs text-text-muted transition-transform ${isExpanded ? 'rotate-90' : ''} ${
+                folder.children.length === 0 ? 'invisible' : ''
+              }`}
+            >
+              ▶
+            </button>
+            <span
+              className="w-3 h-3 rounded-sm shrink-0"
+              style={{ backgroundColor: folder.color || '#6B7280' }}
+            ></span>
+            <Link
+              href={`/dashboard?folder=${folder.id}`}
+              className={`flex-1 truncate text-sm ${isActive ? 'text-mango-secondary font-medium' : 'text-text-secondary'}`}
+            >
+              {folder.name}
+            </Link>
+            <span className="text-xs text-text-muted group-hover:hidden">{folder.note_count}</span>
+            <div className="hidden group-hover:flex items-center gap-1 text-xs">
+              <button onClick={() => startCreate(folder.id)} title={t('addSubfolder')}>➕</button>
+              <button onClick={() => startRename(folder)} title={t('renameFolder')}>✏️</button>
+              <button onClick={() => cycleColor(folder)} title={t('changeColor')}>🎨</button>
+              <button
+                onClick={() => setExportingId(exportingId === folder.id ? null : folder.id)}
+                title={t('exportFolder')}
+              >
+                ⬇️
+              </button>
+              <button onClick={() => handleDelete(folder)} title={t('deleteFolder')}>🗑️</button>
+            </div>
+          </div>
+        )}
+
+        {exportingId === folder.id && (
+          <div
+            className="flex items-center gap-2 px-2 py-1 text-xs text-text-muted"
+            style={{ paddingLeft: 28 + depth * 16 }}
+          >
+            <span>{t('exportAs')}</span>
+            {NOTE_EXPORT_OPTIONS.map(option => (
+              <a
+                key={option.format}
+                href={folderService.getExportUrl(folder.id, option.format)}
+                onClick={() => setExportingId(null)}
+                className="hover:text-text-primary underline"
+              >
+                {option.label}
+              </a>
+            ))}
+            <a
+              href={noteService.getVaultExportUrl(folder.id)}
+              onClick={() => setExportingId(null)}
+              className="hover:text-text-primary underline"
+              title={t('exportVault')}
+            >
+              Obsidian
+            </a>
+          </div>
+        )}
+
+        {isExpanded && (
+          <ul>
+            {folder.children.map(child => renderNode(child, depth + 1))}
+            {creatingUnder === folder.id && <li>{renderDraftInput(depth + 1)}</li>}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => handleDragOver(e, null)}
+        onDragLeave={() => setDropTargetId(null)}
+        onDrop={(e) => handleDrop(e, null)}
+        className={`flex items-center justify-between px-2 py-1.5 mb-1 rounded-xl ${
+          dropTargetId === 'root' ? 'bg-mango-primary/20' : ''
+        }`}
+        title={t('dropToUnfile')}
+      >
+        <span className="text-xs font-semibold uppercase tracking-wide text-text-muted">{t('folders')}</span>
+        <div className="flex items-center gap-2">
+          <a
+            href={noteService.getVaultExportUrl()}
+            className="text-text-muted hover:text-text-primary text-sm"
+            title={t('exportVault')}
+          >
+            ⬇️
+          </a>
+          <button
+            onClick={() => startCreate(null)}
+            className="text-text-muted hover:text-text-primary text-sm"
+            title={t('createNewFolder')}
+          >
+            ➕
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-0.5">
+        {tree.map(folder => renderNode(folder, 0))}
+        {creatingUnder === null && <li>{renderDraftInput(0)}</li>}
+      </ul>
+
+      {tree.length === 0 && creatingUnder === undefined && (
+        <p className="px-2 text-xs text-text-muted">{t('noFolders')}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { OcclusionMask } from '@/lib/flashcard-types'
+
+export type LabeledMask = OcclusionMask & { label: string }
+
+// Drags smaller than this share of the image are treated as stray clicks
+const MIN_MASK_SIZE = 0.01
+
+interface ImageOcclusionEditorProps {
+  imageUrl: string
+  masks: LabeledMask[]
+  onChange: (masks: LabeledMask[]) => void
+}
+
+/**
+ * Draw rectangles over an image by dragging; each one becomes a card asking what it hides
+ */
+export default function ImageOcclusionEditor({ imageUrl, masks, onChange }: ImageOcclusionEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null)
+  const [draft, setDraft] = useState<OcclusionMask | null>(null)
+
+  // Pointer position as a fraction of the image, clamped to its edges
+  const toFraction = (event: React.MouseEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    }
+  }
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    event.preventDefault()
+    setDragStart(toFraction(event))
+  }
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (!dragStart) return
+    const point = toFraction(event)
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y)
+    })
+  }
+
+  const handleMouseUp = () => {
+    if (draft && draft.width >= MIN_MASK_SIZE && draft.height >= MIN_MASK_SIZE) {
+      onChange([...masks, { ...draft, label: '' }])
+    }
+    setDragStart(null)
+    setDraft(null)
+  }
+
+  const updateLabel = (index: number, label: string) => {
+    onChange(masks.map((mask, i) => i === index ? { ...mask, label } : mask))
+  }
+
+  const removeMask = (index: number) => {
+    onChange(masks.filter((_, i) => i !== index))
+  }
+
+  const boxStyle = (mask: OcclusionMask) => ({
+    left: `${mask.x * 100}%`,
+    top: `${mask.y * 100}%`,
+    width: `${mask.width * 100}%`,
+    height: `${mask.height * 100}%`
+  })
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        className="relative inline-block max-w-full cursor-crosshair select-none"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
+        <img src={imageUrl} alt="" draggable={false} className="max-w-full max-h-[60vh] rounded-lg" />
+        {masks.map((mask, index) => (
+          <div
+            key={index}
+            className="absolute bg-mango-500/70 border-2 border-mango-400 rounded flex items-center justify-center text-white text-sm font-bold"
+            style={boxStyle(mask)}
+          >
+            {index + 1}
+          </div>
+        ))}
+        {draft && (
+          <div className="absolute border-2 border-dashed border-mango-400 rounded" style={boxStyle(draft)} />
+        )}
+      </div>
+
+      {masks.length === 0 ? (
+        <p className="text-sm text-gray-400">Drag over the parts of the image to hide. Each one becomes a card.</p>
+      ) : (
+        <div className="space-y-2">
+          {masks.map((mask, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <span className="text-mango-400 font-bold text-sm w-6">{index + 1}</span>
+              <input
+                value={mask.label}
+                onChange={(e) => updateLabel(index, e.target.value)}
+                placeholder="What is hidden here?"
+                className="flex-1 bg-dark-secondary text-white text-sm rounded-lg px-3 py-2 border border-dark-surface"
+              />
+              <button onClick={() => removeMask(index)} className="text-gray-400 hover:text-red-400 text-sm">
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
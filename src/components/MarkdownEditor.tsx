@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import MarkdownRenderer from './MarkdownRenderer'
+
+type EditorMode = 'write' | 'split' | 'preview'
+
+interface MarkdownEditorProps {
+  value: string
+  onChange: (value: string) => void
+  className?: string
+}
+
+interface ToolbarAction {
+  label: string
+  title: string
+  apply: (editor: SelectionEditor) => void
+}
+
+// Edits the textarea's text around its current selection
+interface SelectionEditor {
+  wrap: (before: string, after: string, placeholder: string) => void
+  prefixLines: (prefix: string | ((index: number) => string)) => void
+  insertBlock: (text: string) => void
+}
+
+const TABLE_TEMPLATE = '| Column 1 | Column 2 |\n| --- | --- |\n| Cell | Cell |'
+
+const TOOLBAR: ToolbarAction[][] = [
+  [
+    { label: 'H1', title: 'Heading 1', apply: editor => editor.prefixLines('# ') },
+    { label: 'H2', title: 'Heading 2', apply: editor => editor.prefixLines('## ') },
+    { label: 'H3', title: 'Heading 3', apply: editor => editor.prefixLines('### ') }
+  ],
+  [
+    { label: 'B', title: 'Bold (Ctrl+B)', apply: editor => editor.wrap('**', '**', 'bold text') },
+    { label: 'I', title: 'Italic (Ctrl+I)', apply: editor => editor.wrap('*', '*', 'italic text') },
+    { label: 'Link', title: 'Link', apply: editor => editor.wrap('[', '](https://)', 'link text') }
+  ],
+  [
+    { label: '•', title: 'Bulleted list', apply: editor => editor.prefixLines('- ') },
+    { label: '1.', title: 'Numbered list', apply: editor => editor.prefixLines(index => `${index + 1}. `) },
+    { label: '☐', title: 'Checklist', apply: editor => editor.prefixLines('- [ ] ') },
+    { label: '❝', title: 'Quote', apply: editor => editor.prefixLines('> ') }
+  ],
+  [
+    { label: '`x`', title: 'Inline code', apply: editor => editor.wrap('`', '`', 'code') },
+    { label: '```', title: 'Code block', apply: editor => editor.wrap('```\n', '\n```', 'code') },
+    { label: '∑', title: 'Inline math (LaTeX)', apply: editor => editor.wrap('$', '$', 'x^2') },
+    { label: '$$', title: 'Math block (LaTeX)', apply: editor => editor.wrap('$$\n', '\n$$', '\\int_0^1 f(x)\\,dx') },
+    { label: '▦', title: 'Table', apply: editor => editor.insertBlock(TABLE_TEMPLATE) }
+  ]
+]
+
+/**
+ * Markdown editor with a formatting toolbar and a live preview
+ */
+export default function MarkdownEditor({ value, onChange, className }: MarkdownEditorProps) {
+  const [mode, setMode] = useState<EditorMode>('split')
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  // Replace part of the text and select the given range once React has re-rendered
+  const replaceRange = (start: number, end: number, text: string, selectStart: number, selectEnd: number) => {
+    onChange(value.slice(0, start) + text + value.slice(end))
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+      textarea.focus()
+      textarea.setSelectionRange(selectStart, selectEnd)
+    })
+  }
+
+  const selectionEditor = (): SelectionEditor => {
+    const textarea = textareaRef.current!
+    const start = textarea.selectionStart
+    const end = textarea.selectionEnd
+    const selected = value.slice(start, end)
+
+    return {
+      wrap: (before, after, placeholder) => {
+        const inner = selected || placeholder
+        replaceRange(start, end, before + inner + after, start + before.length, start + before.length + inner.length)
+      },
+      prefixLines: (prefix) => {
+        // Whole lines touched by the selection
+        const lineStart = value.lastIndexOf('\n', start - 1) + 1
+        const lineEnd = value.indexOf('\n', end) === -1 ? value.length : value.indexOf('\n', end)
+        const lines = value.slice(lineStart, lineEnd).split('\n')
+        const prefixed = lines
+          .map((line, index) => (typeof prefix === 'function' ? prefix(index) : prefix) + line.replace(/^(#{1,6} |[-*] \[[ x]\] |[-*] |\d+\. |> )/, ''))
+          .join('\n')
+        replaceRange(lineStart, lineEnd, prefixed, lineStart, lineStart + prefixed.length)
+      },
+      insertBlock: (text) => {
+        // Blocks need blank lines around them to be parsed as blocks
+        const before = start === 0 || value.slice(0, start).endsWith('\n\n') ? '' : value.slice(0, start).endsWith('\n') ? '\n' : '\n\n'
+        const after = value.slice(end).startsWith('\n') ? '\n' : '\n\n'
+        replaceRange(start, end, before + text + after, start + before.length, start + before.length + text.length)
+      }
+    }
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Tab') {
+      event.preventDefault()
+      const { selectionStart, selectionEnd } = event.currentTarget
+      replaceRange(selectionStart, selectionEnd, '  ', selectionStart + 2, selectionStart + 2)
+      return
+    }
+
+    if ((event.ctrlKey || event.metaKey) && (event.key === 'b' || event.key === 'i')) {
+      event.preventDefault()
+      const editor = selectionEditor()
+      if (event.key === 'b') {
+        editor.wrap('**', '**', 'bold text')
+      } else {
+        editor.wrap('*', '*', 'italic text')
+      }
+    }
+  }
+
+  return (
+    <div className={`card overflow-hidden ${className || ''}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-dark-surface bg-dark-secondary px-3 py-2">
+        <div className="flex flex-wrap items-center gap-3">
+          {TOOLBAR.map((group, groupIndex) => (
+            <div key={groupIndex} className="flex gap-1">
+              {group.map(action => (
+                <button
+                  key={action.title}
+                  onClick={() => action.apply(selectionEditor())}
+                  disabled={mode === 'preview'}
+                  title={action.title}
+                  className="min-w-[2rem] px-2 py-1 rounded text-sm text-gray-300 hover:bg-dark-primary hover:text-white disabled:opacity-30"
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 bg-dark-primary rounded-lg p-1">
+          {(['write', 'split', 'preview'] as EditorMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 rounded-md text-sm capitalize transition-colors ${
+                mode === option ? 'bg-mango-500 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`grid ${mode === 'split' ? 'grid-cols-2 divide-x divide-dark-surface' : 'grid-cols-1'}`}>
+        {mode !== 'preview' && (
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Write in Markdown. Use $...$ for math and ``` for code."
+            spellCheck
+            className="min-h-[60vh] w-full resize-y bg-dark-primary text-gray-200 font-mono text-sm leading-relaxed p-4 focus:outline-none"
+          />
+        )}
+        {mode !== 'write' && (
+          <div className="min-h-[60vh] max-h-[80vh] overflow-y-auto p-4 bg-dark-primary">
+            {value.trim() ? (
+              <MarkdownRenderer markdown={value} />
+            ) : (
+              <p className="text-gray-500 italic">Nothing to preview yet.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
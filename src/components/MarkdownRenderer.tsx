@@ -0,0 +1,31 @@
+'use client'
+
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import 'katex/dist/katex.min.css'
+import 'highlight.js/styles/github-dark.css'
+
+interface MarkdownRendererProps {
+  markdown: string
+  className?: string
+}
+
+/**
+ * Render Markdown with tables and task lists, $inline$ and $$block$$ LaTeX math,
+ * and syntax-highlighted code blocks. Raw HTML in the source is not rendered.
+ */
+export default function MarkdownRenderer({ markdown, className }: MarkdownRendererProps) {
+  return (
+    <div className={`markdown-body ${className || ''}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  )
+}
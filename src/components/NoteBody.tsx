@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import MarkdownEditor from './MarkdownEditor'
+import MarkdownRenderer from './MarkdownRenderer'
+import { NoteClientService } from '@/lib/note-client-service'
+import { blocksToMarkdown, MARKDOWN_AUTOSAVE_DELAY_MS } from '@/lib/note-markdown'
+
+interface NoteBodyProps {
+  noteId: string
+  // The stored body; null for notes written before bodies existed
+  initialMarkdown: string | null | undefined
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  idle: '',
+  saving: 'Saving…',
+  saved: 'All changes saved',
+  error: 'Could not save. Retrying on your next edit.'
+}
+
+/**
+ * A note's Markdown body, rendered for reading and autosaved while editing
+ */
+export default function NoteBody({ noteId, initialMarkdown }: NoteBodyProps) {
+  const [markdown, setMarkdown] = useState(initialMarkdown || '')
+  const [loading, setLoading] = useState(initialMarkdown == null)
+  const [editing, setEditing] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
+  const noteService = useRef(new NoteClientService()).current
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Latest edit not yet saved; null when everything is saved
+  const pendingMarkdown = useRef<string | null>(null)
+
+  useEffect(() => {
+    // Older notes start from their content blocks; nothing is stored until the first edit
+    const seedFromBlocks = async () => {
+      const blocks = await noteService.getContentBlocks(noteId)
+      setMarkdown(blocksToMarkdown(blocks))
+      setLoading(false)
+    }
+
+    if (initialMarkdown == null) {
+      seedFromBlocks()
+    }
+  }, [noteId, initialMarkdown, noteService])
+
+  useEffect(() => {
+    // Save what's left when leaving, without holding up the navigation
+    const flush = () => {
+      if (saveTimer.current) {
+        clearTimeout(saveTimer.current)
+        saveTimer.current = null
+      }
+      if (pendingMarkdown.current !== null) {
+        noteService.updateNoteMarkdown(noteId, pendingMarkdown.current, true).catch(() => {})
+        pendingMarkdown.current = null
+      }
+    }
+
+    window.addEventListener('beforeunload', flush)
+    return () => {
+      window.removeEventListener('beforeunload', flush)
+      flush()
+    }
+  }, [noteId, noteService])
+
+  const save = async () => {
+    const value = pendingMarkdown.current
+    if (value === null) return
+
+    setSaveStatus('saving')
+    try {
+      await noteService.updateNoteMarkdown(noteId, value)
+      // Only clear if nothing newer arrived while saving
+      if (pendingMarkdown.current === value) {
+        pendingMarkdown.current = null
+        setSaveStatus('saved')
+      }
+    } catch (error) {
+      console.error('Failed to save note body:', error)
+      setSaveStatus('error')
+    }
+  }
+
+  const handleChange = (value: string) => {
+    setMarkdown(value)
+    pendingMarkdown.current = value
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current)
+    }
+    saveTimer.current = setTimeout(() => {
+      saveTimer.current = null
+      save()
+    }, MARKDOWN_AUTOSAVE_DELAY_MS)
+  }
+
+  const handleDone = () => {
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current)
+      saveTimer.current = null
+    }
+    save()
+    setEditing(false)
+  }
+
+  if (loading) {
+    return (
+      <div className="card p-6 animate-pulse">
+        <div className="h-6 bg-dark-tertiary rounded w-1/3 mb-4"></div>
+        <div className="h-4 bg-dark-tertiary rounded w-full mb-2"></div>
+        <div className="h-4 bg-dark-tertiary rounded w-5/6"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className={`text-sm ${saveStatus === 'error' ? 'text-red-400' : 'text-gray-500'}`}>
+          {SAVE_STATUS_LABELS[saveStatus]}
+        </span>
+        {editing ? (
+          <button onClick={handleDone} className="btn-primary">
+            Done
+          </button>
+        ) : (
+          <button onClick={() => setEditing(true)} className="btn-secondary">
+            ✏️ Edit
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <MarkdownEditor value={markdown} onChange={handleChange} />
+      ) : markdown.trim() ? (
+        <div className="card p-6">
+          <MarkdownRenderer markdown={markdown} />
+        </div>
+      ) : (
+        <div className="card p-8 text-center">
+          <p className="text-gray-400 mb-4">This note doesn&apos;t have a body yet.</p>
+          <button onClick={() => setEditing(true)} className="btn-primary">
+            Start writing
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
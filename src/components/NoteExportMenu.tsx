@@ -0,0 +1,75 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { NoteClientService, NOTE_EXPORT_OPTIONS } from '@/lib/note-client-service'
+
+interface NoteExportMenuProps {
+  noteId: string
+}
+
+export default function NoteExportMenu({ noteId }: NoteExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [includeMindMap, setIncludeMindMap] = useState(true)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const noteService = new NoteClientService()
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+        className="btn-primary flex items-center gap-2"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+        </svg>
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-56 bg-dark-tertiary rounded-lg shadow-lg border border-dark-surface z-50"
+          role="menu"
+        >
+          <div className="py-1">
+            {NOTE_EXPORT_OPTIONS.map(option => (
+              <a
+                key={option.format}
+                href={noteService.getExportUrl(noteId, option.format, includeMindMap)}
+                onClick={() => setIsOpen(false)}
+                className="block px-4 py-2 text-sm text-gray-300 hover:bg-dark-surface transition-colors"
+                role="menuitem"
+              >
+                {option.label}
+              </a>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 px-4 py-2 border-t border-dark-surface text-sm text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeMindMap}
+              onChange={(e) => setIncludeMindMap(e.target.checked)}
+            />
+            Include mind map
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
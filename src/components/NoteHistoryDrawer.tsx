@@ -0,0 +1,233 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { NoteClientService } from '@/lib/note-client-service'
+import {
+  NOTE_VERSION_REASON_LABELS,
+  NoteVersionDiff,
+  NoteVersionSummary
+} from '@/lib/note-version-types'
+import type { DiffRow } from '@/lib/text-diff'
+
+interface NoteHistoryDrawerProps {
+  noteId: string
+  isOpen: boolean
+  onClose: () => void
+  onRestored: () => void
+}
+
+// Unchanged lines kept around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 3
+
+type DisplayRow = DiffRow | { type: 'folded'; count: number }
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15 text-red-200', right: 'bg-dark-secondary/40' },
+  added: { left: 'bg-dark-secondary/40', right: 'bg-green-500/15 text-green-200' },
+  changed: { left: 'bg-red-500/15 text-red-200', right: 'bg-green-500/15 text-green-200' }
+}
+
+function foldUnchanged(rows: DiffRow[]): DisplayRow[] {
+  const changed = rows.map(row => row.type !== 'equal')
+  const visible = rows.map((_, index) =>
+    changed.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(Boolean)
+  )
+
+  const display: DisplayRow[] = []
+  rows.forEach((row, index) => {
+    if (visible[index]) {
+      display.push(row)
+      return
+    }
+    const last = display[display.length - 1]
+    if (last && last.type === 'folded') {
+      last.count++
+    } else {
+      display.push({ type: 'folded', count: 1 })
+    }
+  })
+  return display
+}
+
+/**
+ * Slide-over listing a note's saved versions, with a side-by-side diff
+ * against the current note and a restore action
+ */
+export default function NoteHistoryDrawer({ noteId, isOpen, onClose, onRestored }: NoteHistoryDrawerProps) {
+  const [versions, setVersions] = useState<NoteVersionSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<NoteVersionDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadVersions = async () => {
+      setLoading(true)
+      const noteService = new NoteClientService()
+      const loaded = await noteService.getVersions(noteId)
+      setVersions(loaded)
+      setSelectedId(loaded[0]?.id || null)
+      setLoading(false)
+    }
+
+    loadVersions()
+  }, [isOpen, noteId])
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDiff(null)
+      return
+    }
+
+    const loadDiff = async () => {
+      setDiffLoading(true)
+      const noteService = new NoteClientService()
+      setDiff(await noteService.getVersionDiff(noteId, selectedId))
+      setDiffLoading(false)
+    }
+
+    loadDiff()
+  }, [noteId, selectedId])
+
+  const handleRestore = async () => {
+    if (!selectedId) return
+    if (!confirm('Restore this version? The note as it is now will be kept in its history.')) return
+
+    setRestoring(true)
+    setError(null)
+    try {
+      const noteService = new NoteClientService()
+      await noteService.restoreVersion(noteId, selectedId)
+      onRestored()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const changedSections = diff?.sections.filter(section => section.changed) || []
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-6xl bg-dark-primary border-l border-dark-surface flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-dark-surface">
+          <div>
+            <h2 className="text-xl font-bold text-white">Version history</h2>
+            <p className="text-sm text-gray-400">Each version is the note as it was just before a change.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Version list */}
+          <div className="w-72 shrink-0 border-r border-dark-surface overflow-y-auto">
+            {loading ? (
+              <p className="p-6 text-gray-400">Loading versions...</p>
+            ) : versions.length === 0 ? (
+              <p className="p-6 text-gray-400">No versions yet. One is saved each time the note changes.</p>
+            ) : (
+              versions.map(version => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-dark-surface transition-colors ${
+                    version.id === selectedId ? 'bg-dark-secondary' : 'hover:bg-dark-secondary/50'
+                  }`}
+                >
+                  <div className={`text-sm font-medium ${version.id === selectedId ? 'text-mango-500' : 'text-white'}`}>
+                    {new Date(version.created_at).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {NOTE_VERSION_REASON_LABELS[version.reason] || version.reason}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selectedId && (
+              <div className="flex items-center justify-between px-6 py-3 border-b border-dark-surface">
+                <div className="grid grid-cols-2 flex-1 text-sm text-gray-400 mr-4">
+                  <span>This version</span>
+                  <span>Current note</span>
+                </div>
+                <button
+                  onClick={handleRestore}
+                  disabled={restoring || diffLoading || changedSections.length === 0}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  {restoring ? 'Restoring...' : 'Restore this version'}
+                </button>
+              </div>
+            )}
+
+            {error && (
+              <div className="mx-6 mt-4 bg-red-500/10 border border-red-500/30 text-red-300 rounded-lg p-3 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+              {diffLoading ? (
+                <p className="text-gray-400">Comparing...</p>
+              ) : !diff ? (
+                selectedId && <p className="text-gray-400">This version could not be loaded.</p>
+              ) : changedSections.length === 0 ? (
+                <p className="text-gray-400">This version is the same as the current note.</p>
+              ) : (
+                changedSections.map(section => (
+                  <div key={section.section} className="card overflow-hidden">
+                    <h3 className="px-4 py-2 bg-dark-secondary text-white font-semibold text-sm">{section.title}</h3>
+                    <table className="w-full table-fixed font-mono text-xs">
+                      <tbody>
+                        {foldUnchanged(section.rows).map((row, index) =>
+                          row.type === 'folded' ? (
+                            <tr key={index}>
+                              <td colSpan={4} className="px-4 py-1 text-center text-gray-500 bg-dark-secondary/40">
+                                ⋯ {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+                              </td>
+                            </tr>
+                          ) : (
+                            <tr key={index} className="align-top">
+                              <td className="w-10 px-2 text-right text-gray-600 select-none">{row.leftNumber}</td>
+                              <td className={`px-2 whitespace-pre-wrap break-words text-gray-300 ${ROW_STYLES[row.type].left}`}>
+                                {row.left}
+                              </td>
+                              <td className="w-10 px-2 text-right text-gray-600 select-none border-l border-dark-surface">{row.rightNumber}</td>
+                              <td className={`px-2 whitespace-pre-wrap break-words text-gray-300 ${ROW_STYLES[row.type].right}`}>
+                                {row.right}
+                              </td>
+                            </tr>
+                          )
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
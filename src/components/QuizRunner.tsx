@@ -0,0 +1,298 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  QuizClientService,
+  QuizSummary,
+  QuizWithQuestions,
+  QuizAttemptResult
+} from '@/lib/quiz-client-service'
+
+const QUESTION_COUNTS = [5, 10, 15]
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F']
+
+interface QuizRunnerProps {
+  noteId: string
+  className?: string
+}
+
+export default function QuizRunner({ noteId, className }: QuizRunnerProps) {
+  const [quizzes, setQuizzes] = useState<QuizSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [questionCount, setQuestionCount] = useState(10)
+  const [error, setError] = useState<string | null>(null)
+
+  const [quiz, setQuiz] = useState<QuizWithQuestions | null>(null)
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [answers, setAnswers] = useState<Record<string, number>>({})
+  const [startedAt, setStartedAt] = useState<Date>(new Date())
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [attempt, setAttempt] = useState<QuizAttemptResult | null>(null)
+
+  const quizService = new QuizClientService()
+
+  useEffect(() => {
+    loadQuizzes()
+  }, [noteId])
+
+  const loadQuizzes = async () => {
+    setIsLoading(true)
+    setQuizzes(await quizService.getQuizzesForNote(noteId))
+    setIsLoading(false)
+  }
+
+  const startQuiz = (nextQuiz: QuizWithQuestions) => {
+    setQuiz(nextQuiz)
+    setCurrentIndex(0)
+    setAnswers({})
+    setAttempt(null)
+    setStartedAt(new Date())
+  }
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    setError(null)
+    try {
+      startQuiz(await quizService.generateQuiz(noteId, questionCount))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate quiz')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleOpenQuiz = async (quizId: string) => {
+    setError(null)
+    const loaded = await quizService.getQuiz(quizId)
+    if (loaded) {
+      startQuiz(loaded)
+    } else {
+      setError('Failed to load quiz')
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!quiz) return
+
+    setIsSubmitting(true)
+    setError(null)
+    const result = await quizService.submitAttempt(quiz.id, answers, startedAt)
+    if (result) {
+      setAttempt(result)
+    } else {
+      setError('Failed to submit answers')
+    }
+    setIsSubmitting(false)
+  }
+
+  const handleBackToList = async () => {
+    setQuiz(null)
+    setAttempt(null)
+    await loadQuizzes()
+  }
+
+  // Results
+  if (quiz && attempt) {
+    const resultByQuestion = new Map(attempt.results.map(result => [result.question_id, result]))
+    const percent = attempt.total_questions > 0 ? Math.round(attempt.score / attempt.total_questions * 100) : 0
+
+    return (
+      <div className={`space-y-6 ${className || ''}`}>
+        <div className="card p-8 text-center">
+          <h3 className="text-xl font-bold text-white mb-4">{quiz.title}</h3>
+          <div className="text-4xl font-bold text-mango-500 mb-2">
+            {attempt.score}/{attempt.total_questions}
+          </div>
+          <p className="text-gray-400 mb-6">{percent}% correct</p>
+          <div className="flex gap-3 justify-center">
+            <button onClick={() => startQuiz(quiz)} className="btn-secondary">
+              Retake Quiz
+            </button>
+            <button onClick={handleBackToList} className="btn-primary">
+              Done
+            </button>
+          </div>
+        </div>
+
+        {quiz.questions.map((question, index) => {
+          const result = resultByQuestion.get(question.id)
+          return (
+            <div key={question.id} className="card p-6">
+              <div className="flex items-start gap-3 mb-4">
+                <span className={`text-lg ${result?.is_correct ? 'text-green-400' : 'text-red-400'}`}>
+                  {result?.is_correct ? '✓' : '✗'}
+                </span>
+                <p className="text-white font-medium">
+                  {index + 1}. {question.question}
+                </p>
+              </div>
+              <div className="space-y-2 mb-4">
+                {question.options.map((option, optionIndex) => {
+                  const isCorrect = result?.correct_answer_index === optionIndex
+                  const isChosen = result?.user_answer_index === optionIndex
+                  const style = isCorrect
+                    ? 'border-green-500/50 bg-green-500/10 text-green-300'
+                    : isChosen
+                      ? 'border-red-500/50 bg-red-500/10 text-red-300'
+                      : 'border-gray-700 text-gray-400'
+                  return (
+                    <div key={optionIndex} className={`border rounded-lg px-4 py-2 text-sm ${style}`}>
+                      <span className="font-medium mr-2">{OPTION_LETTERS[optionIndex]}.</span>
+                      {option}
+                      {isChosen && !isCorrect && <span className="ml-2 text-xs">(your answer)</span>}
+                    </div>
+                  )
+                })}
+                {result?.user_answer_index === null && (
+                  <p className="text-sm text-gray-500">Not answered</p>
+                )}
+              </div>
+              {result?.explanation && (
+                <div className="bg-dark-tertiary rounded-lg p-4 text-sm text-gray-300">
+                  <span className="text-mango-400 font-medium">Explanation: </span>
+                  {result.explanation}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  // Taking a quiz
+  if (quiz) {
+    const question = quiz.questions[currentIndex]
+    const isLast = currentIndex === quiz.questions.length - 1
+    const answeredCount = Object.keys(answers).length
+
+    return (
+      <div className={`max-w-2xl mx-auto ${className || ''}`}>
+        <div className="flex items-center justify-between mb-4">
+          <button onClick={handleBackToList} className="text-gray-400 hover:text-white text-sm">
+            ← All quizzes
+          </button>
+          <span className="text-sm text-gray-400">
+            Question {currentIndex + 1} of {quiz.questions.length}
+          </span>
+        </div>
+        <div className="w-full bg-gray-700/50 rounded-full h-2 mb-6">
+          <div
+            className="bg-gradient-to-r from-mango-500 to-mango-400 h-full rounded-full transition-all duration-300"
+            style={{ width: `${(answeredCount / quiz.questions.length) * 100}%` }}
+          ></div>
+        </div>
+
+        <div className="card p-8">
+          <p className="text-xl font-medium text-white leading-relaxed mb-6">{question.question}</p>
+          <div className="space-y-3">
+            {question.options.map((option, optionIndex) => (
+              <button
+                key={optionIndex}
+                onClick={() => setAnswers({ ...answers, [question.id]: optionIndex })}
+                className={`w-full text-left border rounded-xl px-4 py-3 transition-colors ${
+                  answers[question.id] === optionIndex
+                    ? 'border-mango-500 bg-mango-500/10 text-white'
+                    : 'border-gray-700 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                <span className="font-medium mr-2">{OPTION_LETTERS[optionIndex]}.</span>
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+
+        <div className="flex justify-between mt-6">
+          <button
+            onClick={() => setCurrentIndex(currentIndex - 1)}
+            disabled={currentIndex === 0}
+            className="btn-secondary disabled:opacity-50"
+          >
+            Previous
+          </button>
+          {isLast ? (
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting || answeredCount === 0}
+              className="btn-primary disabled:opacity-50"
+            >
+              {isSubmitting
+                ? 'Submitting...'
+                : answeredCount < quiz.questions.length
+                  ? `Submit (${quiz.questions.length - answeredCount} unanswered)`
+                  : 'Submit'}
+            </button>
+          ) : (
+            <button
+              onClick={() => setCurrentIndex(currentIndex + 1)}
+              className="btn-primary"
+            >
+              Next
+            </button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  // Quiz list
+  return (
+    <div className={`max-w-2xl mx-auto space-y-6 ${className || ''}`}>
+      <div className="card p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="text-3xl">📝</div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Test Yourself</h3>
+            <p className="text-sm text-gray-400">Generate multiple-choice questions from this note</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={questionCount}
+            onChange={(e) => setQuestionCount(parseInt(e.target.value))}
+            disabled={isGenerating}
+            className="bg-dark-secondary text-white text-sm rounded-lg px-3 py-2 border border-dark-surface"
+          >
+            {QUESTION_COUNTS.map((count) => (
+              <option key={count} value={count}>{count} questions</option>
+            ))}
+          </select>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="btn-primary flex-1 disabled:opacity-50"
+          >
+            {isGenerating ? 'Generating quiz...' : 'Generate Quiz'}
+          </button>
+        </div>
+        {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center text-gray-400 py-6">Loading quizzes...</div>
+      ) : quizzes.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-white">Previous Quizzes</h3>
+          {quizzes.map((summary) => (
+            <div key={summary.id} className="card p-4 flex items-center justify-between">
+              <div>
+                <p className="text-white font-medium">{summary.title}</p>
+                <p className="text-sm text-gray-400">
+                  {summary.total_questions} questions · {new Date(summary.created_at).toLocaleDateString()}
+                  {summary.attempts > 0 && ` · Best ${summary.best_score}/${summary.total_questions} in ${summary.attempts} attempt${summary.attempts === 1 ? '' : 's'}`}
+                </p>
+              </div>
+              <button onClick={() => handleOpenQuiz(summary.id)} className="btn-secondary">
+                {summary.attempts > 0 ? 'Retake' : 'Start'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { ActivityDay } from '@/lib/flashcard-client-service'
+
+const WEEKS = 53
+
+// Matches the server's YYYY-MM-DD keys, which are in the same (browser) timezone
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function getCellClass(reviews: number, max: number): string {
+  if (reviews === 0) return 'bg-gray-700/40'
+  const level = reviews / max
+  if (level > 0.75) return 'bg-mango-400'
+  if (level > 0.5) return 'bg-mango-500/80'
+  if (level > 0.25) return 'bg-mango-500/50'
+  return 'bg-mango-500/25'
+}
+
+interface ReviewActivityHeatmapProps {
+  days: ActivityDay[]
+}
+
+export default function ReviewActivityHeatmap({ days }: ReviewActivityHeatmapProps) {
+  const reviewsByDate = new Map(days.map(day => [day.date, day]))
+  const max = Math.max(1, ...days.map(day => day.reviews))
+
+  // Columns are weeks (Sunday first) ending with the current one
+  const now = new Date()
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - (WEEKS - 1) * 7)
+  const weeks: Date[][] = []
+  for (let week = 0; week < WEEKS; week++) {
+    const column: Date[] = []
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday)
+      if (date <= today) {
+        column.push(date)
+      }
+    }
+    weeks.push(column)
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-[3px]">
+        {weeks.map((column, index) => (
+          <div key={index} className="flex flex-col gap-[3px]">
+            {column.map((date) => {
+              const key = toDateKey(date)
+              const activity = reviewsByDate.get(key)
+              const reviews = activity?.reviews || 0
+              return (
+                <div
+                  key={key}
+                  className={`w-[11px] h-[11px] rounded-sm ${getCellClass(reviews, max)}`}
+                  title={`${key}: ${reviews} review${reviews === 1 ? '' : 's'}${activity ? `, ${activity.correct} correct` : ''}`}
+                />
+              )
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-3 text-xs text-gray-500">
+        Less
+        {['bg-gray-700/40', 'bg-mango-500/25', 'bg-mango-500/50', 'bg-mango-500/80', 'bg-mango-400'].map((className) => (
+          <div key={className} className={`w-[11px] h-[11px] rounded-sm ${className}`} />
+        ))}
+        More
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+'use client'
+
+import { ForecastDay } from '@/lib/flashcard-client-service'
+
+interface ReviewForecastChartProps {
+  days: ForecastDay[]
+}
+
+function formatDay(date: string, index: number): string {
+  if (index === 0) return 'Today'
+  if (index === 1) return 'Tomorrow'
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+export default function ReviewForecastChart({ days }: ReviewForecastChartProps) {
+  const max = Math.max(1, ...days.map(day => day.due))
+  const total = days.reduce((sum, day) => sum + day.due, 0)
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-32">
+        {days.map((day, index) => (
+          <div
+            key={day.date}
+            className="flex-1 h-full flex items-end"
+            title={`${formatDay(day.date, index)}: ${day.due} card${day.due === 1 ? '' : 's'}`}
+          >
+            <div
+              className={`w-full rounded-t ${index === 0 ? 'bg-red-400/80' : 'bg-mango-500/70'}`}
+              style={{ height: `${(day.due / max) * 100}%`, minHeight: day.due > 0 ? '2px' : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-gray-500">
+        <span>Today</span>
+        <span>{days.length > 0 ? formatDay(days[days.length - 1].date, days.length - 1) : ''}</span>
+      </div>
+      <p className="text-sm text-gray-400 mt-3">
+        {total} review{total === 1 ? '' : 's'} over the next {days.length} days
+        {days.length > 0 && ` · ${days[0].due} due today (including overdue)`}
+      </p>
+    </div>
+  )
+}
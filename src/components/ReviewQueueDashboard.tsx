@@ -1,8 +1,28 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { FlashcardClientService, ReviewStats } from '@/lib/flashcard-client-service'
+import { FlashcardClientService, ReviewStats, ReviewSchedulerName, ReviewHeatmap, ForecastDay, browserTimezone } from '@/lib/flashcard-client-service'
 import FlashcardReview from './FlashcardReview'
+import ReviewActivityHeatmap from './ReviewActivityHeatmap'
+import ReviewForecastChart from './ReviewForecastChart'
+
+const SCHEDULER_LABELS: Record<ReviewSchedulerName, { name: string; description: string }> = {
+  sm2: {
+    name: 'SM-2',
+    description: 'Powered by SuperMemo-2 (SM-2) for optimal learning intervals'
+  },
+  fsrs: {
+    name: 'FSRS',
+    description: 'Powered by FSRS, which models memory stability, difficulty and recall probability'
+  }
+}
+
+// "1 10" -> [1, 10]; null if any entry isn't a whole number of minutes
+function parseStepsInput(value: string): number[] | null {
+  const parts = value.split(/[\s,]+/).filter(Boolean)
+  const steps = parts.map(Number)
+  return steps.every(step => Number.isInteger(step) && step > 0) ? steps : null
+}
 
 interface ReviewQueueDashboardProps {
   onStartReview?: () => void
@@ -11,9 +31,18 @@ interface ReviewQueueDashboardProps {
 
 export default function ReviewQueueDashboard({ onStartReview, className }: ReviewQueueDashboardProps) {
   const [stats, setStats] = useState<ReviewStats | null>(null)
+  const [heatmap, setHeatmap] = useState<ReviewHeatmap | null>(null)
+  const [forecast, setForecast] = useState<ForecastDay[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [showReview, setShowReview] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [scheduler, setScheduler] = useState<ReviewSchedulerName>('sm2')
+  const [isSwitchingScheduler, setIsSwitchingScheduler] = useState(false)
+  const [learningStepsInput, setLearningStepsInput] = useState('')
+  const [relearningStepsInput, setRelearningStepsInput] = useState('')
+  const [isSavingSteps, setIsSavingSteps] = useState(false)
+  const [timezone, setTimezone] = useState('')
+  const [isSavingTimezone, setIsSavingTimezone] = useState(false)
 
   const flashcardService = new FlashcardClientService()
 
@@ -24,8 +53,19 @@ export default function ReviewQueueDashboard({ onStartReview, className }: Revie
   const loadStats = async () => {
     setIsLoading(true)
     try {
-      const reviewStats = await flashcardService.getReviewStats()
+      const [reviewStats, settings, activity, upcoming] = await Promise.all([
+        flashcardService.getReviewStats(),
+        flashcardService.getReviewSettings(),
+        flashcardService.getReviewHeatmap(),
+        flashcardService.getReviewForecast()
+      ])
       setStats(reviewStats)
+      setHeatmap(activity)
+      setForecast(upcoming)
+      setScheduler(settings.scheduler)
+      setLearningStepsInput(settings.learning_steps.join(' '))
+      setRelearningStepsInput(settings.relearning_steps.join(' '))
+      setTimezone(settings.timezone)
     } catch (error) {
       console.error('Failed to load review stats:', error)
     } finally {
@@ -39,6 +79,45 @@ export default function ReviewQueueDashboard({ onStartReview, className }: Revie
     setIsRefreshing(false)
   }
 
+  const handleSchedulerChange = async (nextScheduler: ReviewSchedulerName) => {
+    if (nextScheduler === scheduler) return
+
+    setIsSwitchingScheduler(true)
+    // Switching replays every card's review history, so due dates may change
+    const switched = await flashcardService.setScheduler(nextScheduler)
+    if (switched) {
+      setScheduler(nextScheduler)
+      await loadStats()
+    }
+    setIsSwitchingScheduler(false)
+  }
+
+  const learningSteps = parseStepsInput(learningStepsInput)
+  const relearningSteps = parseStepsInput(relearningStepsInput)
+
+  const handleSaveSteps = async () => {
+    if (!learningSteps || !relearningSteps) return
+
+    setIsSavingSteps(true)
+    const saved = await flashcardService.setLearningSteps(learningSteps, relearningSteps)
+    if (saved) {
+      await loadStats()
+    }
+    setIsSavingSteps(false)
+  }
+
+  const deviceTimezone = browserTimezone()
+
+  // The saved zone counts days for the dashboard streak and anything else that doesn't send the browser's zone
+  const handleUseDeviceTimezone = async () => {
+    setIsSavingTimezone(true)
+    const saved = await flashcardService.setTimezone(deviceTimezone)
+    if (saved) {
+      setTimezone(deviceTimezone)
+    }
+    setIsSavingTimezone(false)
+  }
+
   const handleStartReview = () => {
     setShowReview(true)
     onStartReview?.()
@@ -81,7 +160,7 @@ export default function ReviewQueueDashboard({ onStartReview, className }: Revie
         <div>
           <h2 className="text-3xl font-bold text-gradient">Review Queue</h2>
           <p className="text-gray-400 mt-2">
-            Spaced repetition learning system powered by SM-2 algorithm
+            Spaced repetition learning system powered by {SCHEDULER_LABELS[scheduler].name} algorithm
           </p>
         </div>
         <button
@@ -174,6 +253,10 @@ export default function ReviewQueueDashboard({ onStartReview, className }: Revie
                   <span className="text-gray-400">Current Streak</span>
                   <span className="text-mango-400 font-medium">{stats.current_streak} days</span>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400">Longest Streak</span>
+                  <span className="text-white font-medium">{stats.longest_streak} days</span>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-gray-400">Total Reviews</span>
                   <span className="text-white font-medium">{stats.total_reviews.toLocaleString()}</span>
@@ -230,14 +313,84 @@ export default function ReviewQueueDashboard({ onStartReview, className }: Revie
             </div>
           </div>
 
+          {/* Activity & Forecast */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="card p-6 lg:col-span-2">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-white">Review Activity</h3>
+                <div className="text-2xl">🔥</div>
+              </div>
+              <ReviewActivityHeatmap days={heatmap?.days || []} />
+            </div>
+
+            <div className="card p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-white">30-Day Forecast</h3>
+                <div className="text-2xl">📅</div>
+              </div>
+              <ReviewForecastChart days={forecast} />
+            </div>
+          </div>
+
           {/* Learning Algorithm Info */}
           <div className="card p-6">
             <div className="flex items-center gap-3 mb-4">
               <div className="text-2xl">🔬</div>
-              <div>
+              <div className="flex-1">
                 <h3 className="text-lg font-semibold text-white">Spaced Repetition Algorithm</h3>
-                <p className="text-sm text-gray-400">Powered by SuperMemo-2 (SM-2) for optimal learning intervals</p>
+                <p className="text-sm text-gray-400">{SCHEDULER_LABELS[scheduler].description}</p>
               </div>
+              <select
+                value={scheduler}
+                onChange={(e) => handleSchedulerChange(e.target.value as ReviewSchedulerName)}
+                disabled={isSwitchingScheduler}
+                className="bg-dark-secondary text-white text-sm rounded-lg px-3 py-2 border border-dark-surface disabled:opacity-50"
+              >
+                {(Object.keys(SCHEDULER_LABELS) as ReviewSchedulerName[]).map((name) => (
+                  <option key={name} value={name}>{SCHEDULER_LABELS[name].name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4 mb-4 text-sm">
+              <label className="flex flex-col gap-1 text-gray-400">
+                Learning steps (minutes)
+                <input
+                  value={learningStepsInput}
+                  onChange={(e) => setLearningStepsInput(e.target.value)}
+                  placeholder="1 10"
+                  className={`bg-dark-secondary text-white rounded-lg px-3 py-2 border ${learningSteps ? 'border-dark-surface' : 'border-red-500'}`}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-400">
+                Relearning steps (minutes)
+                <input
+                  value={relearningStepsInput}
+                  onChange={(e) => setRelearningStepsInput(e.target.value)}
+                  placeholder="10"
+                  className={`bg-dark-secondary text-white rounded-lg px-3 py-2 border ${relearningSteps ? 'border-dark-surface' : 'border-red-500'}`}
+                />
+              </label>
+              <button
+                onClick={handleSaveSteps}
+                disabled={isSavingSteps || !learningSteps || !relearningSteps}
+                className="btn-secondary disabled:opacity-50"
+              >
+                {isSavingSteps ? 'Saving...' : 'Save Steps'}
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-400">
+              <span>Timezone for study days: <span className="text-white">{timezone || 'UTC'}</span></span>
+              {timezone !== deviceTimezone && (
+                <button
+                  onClick={handleUseDeviceTimezone}
+                  disabled={isSavingTimezone}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  {isSavingTimezone ? 'Saving...' : `Use ${deviceTimezone}`}
+                </button>
+              )}
             </div>
             
             <div className="bg-dark-secondary rounded-lg p-4">
@@ -254,9 +407,9 @@ export default function ReviewQueueDashboard({ onStartReview, className }: Revie
                 <div>
                   <div className="text-mango-400 font-medium mb-1">Performance Scale:</div>
                   <ul className="text-gray-400 space-y-1">
-                    <li>• <span className="text-green-400">Easy</span>: Quick recall (Quality 4-5)</li>
-                    <li>• <span className="text-red-400">Hard</span>: Struggled/Incorrect (Quality 0-2)</li>
-                    <li>• Intervals adapt to your performance</li>
+                    <li>• <span className="text-red-400">Again</span>: Forgot, relearn (Quality 1)</li>
+                    <li>• <span className="text-orange-400">Hard</span> / <span className="text-green-400">Good</span>: Recalled with effort / normally (Quality 3-4)</li>
+                    <li>• <span className="text-blue-400">Easy</span>: Instant recall (Quality 5)</li>
                   </ul>
                 </div>
                 
@@ -264,7 +417,7 @@ export default function ReviewQueueDashboard({ onStartReview, className }: Revie
                   <div className="text-mango-400 font-medium mb-1">Learning Stages:</div>
                   <ul className="text-gray-400 space-y-1">
                     <li>• <span className="text-blue-400">New</span>: First time learning</li>
-                    <li>• <span className="text-yellow-400">Learning</span>: Building familiarity</li>
+                    <li>• <span className="text-yellow-400">Learning</span>: Repeated within the day until it graduates</li>
                     <li>• <span className="text-green-400">Mastered</span>: Long-term retention</li>
                   </ul>
                 </div>
@@ -1,16 +1,19 @@
 'use client'
 
 import Link from 'next/link'
-import { usePathname } from 'next/navigation'
+import { usePathname, useSearchParams } from 'next/navigation'
 import { useTranslations } from 'next-intl'
 import { useAuth } from '@/lib/auth-context'
+import FolderTree from '@/components/FolderTree'
 
 interface SidebarProps {
   className?: string
+  onNoteMoved?: () => void
 }
 
-export default function Sidebar({ className = '' }: SidebarProps) {
+export default function Sidebar({ className = '', onNoteMoved }: SidebarProps) {
   const pathname = usePathname()
+  const activeFolderId = useSearchParams().get('folder')
   const t = useTranslations('sidebar')
   const tAuth = useTranslations('auth.signIn')
   const { user, loading, signOut } = useAuth()
@@ -21,7 +24,7 @@ export default function Sidebar({ className = '' }: SidebarProps) {
       name: t('allNotes'),
       href: '/dashboard',
       icon: '📄',
-      active: pathname === '/dashboard'
+      active: pathname === '/dashboard' && !activeFolderId
     },
     {
       name: 'Review Flashcards',
@@ -29,12 +32,6 @@ export default function Sidebar({ className = '' }: SidebarProps) {
       icon: '🎴',
       active: pathname === '/flashcards'
     },
-    {
-      name: t('createNewFolder'),
-      href: '/dashboard/folders/new',
-      icon: '📁',
-      active: false
-    },
     {
       name: t('quizzes'),
       href: '/dashboard/quizzes',
@@ -78,6 +75,13 @@ export default function Sidebar({ className = '' }: SidebarProps) {
             </li>
           ))}
         </ul>
+
+        {/* Folders - only show when logged in */}
+        {isLoggedIn && (
+          <div className="mt-6">
+            <FolderTree activeFolderId={activeFolderId} onNoteMoved={onNoteMoved} />
+          </div>
+        )}
       </nav>
 
       {/* Support */}
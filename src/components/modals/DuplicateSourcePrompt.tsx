@@ -0,0 +1,54 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+
+// Mirrors DuplicateAction in source-fingerprint, which is server-only
+export type DuplicateChoice = 'clone' | 'reprocess'
+
+export interface DuplicateSourceNote {
+  id: string
+  title: string
+  created_at: string
+}
+
+interface DuplicateSourcePromptProps {
+  existingNote: DuplicateSourceNote
+  disabled?: boolean
+  onChoose: (choice: DuplicateChoice) => void
+}
+
+/**
+ * Shown when an import API answers 409 DUPLICATE_SOURCE: the user can take a copy of
+ * the earlier note right away or run the import again.
+ */
+export default function DuplicateSourcePrompt({ existingNote, disabled, onChoose }: DuplicateSourcePromptProps) {
+  const t = useTranslations('modals.duplicateSource')
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500 rounded-lg text-left">
+      <p className="font-medium text-yellow-600">{t('title')}</p>
+      <p className="text-sm text-yellow-700 mt-1">
+        {t('message', {
+          title: existingNote.title,
+          date: new Date(existingNote.created_at).toLocaleDateString()
+        })}
+      </p>
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={() => onChoose('clone')}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 bg-yellow-500 text-black text-sm font-medium rounded-lg hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {t('useCopy')}
+        </button>
+        <button
+          onClick={() => onChoose('reprocess')}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 border border-yellow-500 text-yellow-700 text-sm font-medium rounded-lg hover:bg-yellow-500/10 disabled:opacity-50"
+        >
+          {t('processAgain')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { NoteClientService, VaultImportResult } from '@/lib/note-client-service'
+
+interface ImportVaultModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: (result: VaultImportResult) => void
+  folderId?: string | null
+}
+
+const ACCEPTED_EXTENSIONS = /\.zip$/i
+
+export default function ImportVaultModal({ isOpen, onClose, onImported, folderId }: ImportVaultModalProps) {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [result, setResult] = useState<VaultImportResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const t = useTranslations('modals.importVault')
+
+  const selectFile = (file: File) => {
+    setSelectedFile(file)
+    setImportError(null)
+    setResult(null)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+
+    const file = e.dataTransfer.files[0]
+    if (file && ACCEPTED_EXTENSIONS.test(file.name)) {
+      selectFile(file)
+    }
+  }
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      selectFile(file)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!selectedFile) return
+
+    setIsImporting(true)
+    setImportError(null)
+
+    try {
+      const noteService = new NoteClientService()
+      const imported = await noteService.importVault(selectedFile, folderId || undefined)
+      setResult(imported)
+      setSelectedFile(null)
+      onImported(imported)
+    } catch (error) {
+      console.error('Vault import error:', error)
+      setImportError(error instanceof Error ? error.message : 'Failed to import vault')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleClose = () => {
+    setSelectedFile(null)
+    setImportError(null)
+    setResult(null)
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 max-w-md w-full mx-4 relative">
+        <button
+          onClick={handleClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-black mb-4">{t('title')}</h2>
+          <p className="text-gray-500 text-sm mb-6">{t('description')}</p>
+
+          {result ? (
+            <>
+              <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-left">
+                <p className="text-green-700 font-medium mb-3">
+                  {t('summary', { notes: result.notes.length, folders: result.folders_created, cards: result.cards_imported })}
+                </p>
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                  {result.notes.map(note => (
+                    <li key={note.id}>
+                      <Link href={`/notes/${note.id}`} className="text-green-700 text-sm underline">
+                        {note.title}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+                {result.skipped > 0 && (
+                  <p className="text-gray-500 text-sm mt-3">{t('skipped', { count: result.skipped })}</p>
+                )}
+              </div>
+              <button
+                onClick={handleClose}
+                className="w-full py-4 rounded-lg font-medium bg-gray-700 hover:bg-gray-800 text-white transition-colors"
+              >
+                {t('done')}
+              </button>
+            </>
+          ) : (
+            <>
+              <div
+                className={`border-2 border-dashed rounded-lg p-8 mb-6 cursor-pointer transition-colors ${
+                  isDragging
+                    ? 'border-blue-400 bg-blue-50'
+                    : 'border-gray-300 hover:border-gray-400'
+                }`}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <svg className="w-12 h-12 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                </svg>
+                <p className="text-gray-600 font-medium mb-2">{t('dragText')}</p>
+                <p className="text-gray-500 text-sm">{t('supportedFormats')}</p>
+              </div>
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+
+              {selectedFile && (
+                <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-green-700 font-medium">{selectedFile.name}</p>
+                  <p className="text-green-600 text-sm">
+                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                  </p>
+                </div>
+              )}
+
+              {importError && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-red-700 text-sm">{importError}</p>
+                </div>
+              )}
+
+              <button
+                onClick={handleImport}
+                disabled={!selectedFile || isImporting}
+                className={`w-full py-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${
+                  selectedFile && !isImporting
+                    ? 'bg-gray-700 hover:bg-gray-800 text-white'
+                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                {isImporting ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-gray-500 border-t-transparent rounded-full animate-spin"></div>
+                    {t('importing')}
+                  </>
+                ) : (
+                  t('import')
+                )}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { useTranslations } from 'next-intl'
+import DuplicateSourcePrompt, { DuplicateChoice, DuplicateSourceNote } from './DuplicateSourcePrompt'
+
+interface TextNoteModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onGenerate: (noteId: string) => void
+  folderId?: string | null
+}
+
+const MIN_TEXT_LENGTH = 20
+
+export default function TextNoteModal({ isOpen, onClose, onGenerate, folderId }: TextNoteModalProps) {
+  const [text, setText] = useState('')
+  const [title, setTitle] = useState('')
+  const [isMarkdown, setIsMarkdown] = useState(false)
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [duplicateNote, setDuplicateNote] = useState<DuplicateSourceNote | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const t = useTranslations('modals.textNote')
+
+  const isTextFile = (file: File) => /\.(txt|md|markdown)$/i.test(file.name)
+
+  const selectFile = (file: File) => {
+    if (!isTextFile(file)) return
+    setSelectedFile(file)
+    setText('')
+    setDuplicateNote(null)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    if (e.dataTransfer.files.length > 0) {
+      selectFile(e.dataTransfer.files[0])
+    }
+  }
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files
+    if (files && files.length > 0) {
+      selectFile(files[0])
+    }
+    e.target.value = ''
+  }
+
+  const resetForm = () => {
+    setText('')
+    setTitle('')
+    setIsMarkdown(false)
+    setSelectedFile(null)
+    setSubmitError(null)
+    setDuplicateNote(null)
+  }
+
+  const canSubmit = (selectedFile !== null || text.trim().length >= MIN_TEXT_LENGTH) && !isSubmitting
+
+  const handleGenerate = async (duplicateAction?: DuplicateChoice) => {
+    if (!canSubmit) return
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+
+    try {
+      let response: Response
+      if (selectedFile) {
+        const formData = new FormData()
+        formData.append('file', selectedFile)
+        if (title.trim()) formData.append('title', title.trim())
+        if (folderId) formData.append('folderId', folderId)
+        if (duplicateAction) formData.append('duplicateAction', duplicateAction)
+
+        response = await fetch('/api/text/process', {
+          method: 'POST',
+          body: formData,
+        })
+      } else {
+        response = await fetch('/api/text/process', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            text,
+            title: title.trim() || undefined,
+            format: isMarkdown ? 'markdown' : 'text',
+            folderId: folderId || null,
+            duplicateAction
+          }),
+        })
+      }
+
+      const result = await response.json()
+
+      // Already imported: let the user choose between a copy and a fresh import
+      if (response.status === 409 && result.code === 'DUPLICATE_SOURCE') {
+        setDuplicateNote(result.data.existing_note)
+        return
+      }
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create note')
+      }
+
+      onGenerate(result.data.note.id)
+      onClose()
+      resetForm()
+    } catch (error) {
+      console.error('Text note error:', error)
+      setSubmitError(error instanceof Error ? error.message : 'Failed to create note')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 max-w-lg w-full mx-4 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-black mb-6">{t('title')}</h2>
+
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={t('titlePlaceholder')}
+            maxLength={500}
+            className="w-full p-3 mb-4 border border-gray-300 rounded-lg bg-white text-black"
+          />
+
+          {selectedFile ? (
+            <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between text-left">
+              <div>
+                <p className="text-green-700 font-medium">{selectedFile.name}</p>
+                <p className="text-green-600 text-sm">{(selectedFile.size / 1024).toFixed(1)} KB</p>
+              </div>
+              <button
+                onClick={() => setSelectedFile(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                {t('pasteInstead')}
+              </button>
+            </div>
+          ) : (
+            <>
+              <textarea
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value)
+                  setDuplicateNote(null)
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  setIsDragging(true)
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                placeholder={t('textPlaceholder')}
+                rows={10}
+                className={`w-full p-3 border rounded-lg bg-white text-black text-sm resize-y ${
+                  isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+                }`}
+              />
+              <div className="flex items-center justify-between mt-2 mb-4 text-sm">
+                <label className="flex items-center gap-2 text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isMarkdown}
+                    onChange={(e) => setIsMarkdown(e.target.checked)}
+                  />
+                  {t('keepMarkdown')}
+                </label>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  {t('chooseFile')}
+                </button>
+              </div>
+            </>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.md,.markdown,text/plain,text/markdown"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
+          <p className="text-gray-500 text-sm mb-6 text-left">
+            {t('supportedFormats')}
+          </p>
+
+          {duplicateNote && (
+            <DuplicateSourcePrompt
+              existingNote={duplicateNote}
+              disabled={isSubmitting}
+              onChoose={handleGenerate}
+            />
+          )}
+
+          {submitError && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{submitError}</p>
+            </div>
+          )}
+
+          <button
+            onClick={() => handleGenerate()}
+            disabled={!canSubmit}
+            className={`w-full py-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${
+              canSubmit
+                ? 'bg-gray-700 hover:bg-gray-800 text-white'
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            {isSubmitting ? (
+              <>
+                <div className="w-5 h-5 border-2 border-gray-500 border-t-transparent rounded-full animate-spin"></div>
+                {t('processing')}
+              </>
+            ) : (
+              <>
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                {t('generateNote')}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
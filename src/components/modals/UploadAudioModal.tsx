@@ -3,6 +3,7 @@
 import { useState, useRef } from 'react'
 import { useTranslations } from 'next-intl'
 import { useRouter } from 'next/navigation'
+import DuplicateSourcePrompt, { DuplicateChoice, DuplicateSourceNote } from './DuplicateSourcePrompt'
 
 interface UploadAudioModalProps {
   isOpen: boolean
@@ -21,17 +22,12 @@ interface AudioProcessingResult {
   note: {
     id: string;
     title: string;
-    transcription: string;
+    contentStatus: string;
     audioUrl?: string;
-    contentBlocks: number;
-    flashcards: number;
   };
-  transcription: {
-    text: string;
-    language?: string;
-    duration?: number;
-    segments: number;
-    confidence?: number;
+  job: {
+    id: string;
+    status: string;
   };
 }
 
@@ -52,6 +48,7 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
   const [isProcessing, setIsProcessing] = useState(false)
   const [progress, setProgress] = useState<ProcessingProgress | null>(null)
   const [result, setResult] = useState<AudioProcessingResult | null>(null)
+  const [duplicateNote, setDuplicateNote] = useState<DuplicateSourceNote | null>(null)
   
   const fileInputRef = useRef<HTMLInputElement>(null)
   const t = useTranslations('modals.uploadAudio')
@@ -103,6 +100,7 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
       const file = files[0]
       if (file.type.startsWith('audio/')) {
         setSelectedFile(file)
+        setDuplicateNote(null)
         if (!title) {
           setTitle(file.name.replace(/\.[^/.]+$/, "")) // Remove file extension
         }
@@ -115,13 +113,14 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
     if (files && files.length > 0) {
       const file = files[0]
       setSelectedFile(file)
+      setDuplicateNote(null)
       if (!title) {
         setTitle(file.name.replace(/\.[^/.]+$/, ""))
       }
     }
   }
 
-  const processAudioFile = async () => {
+  const processAudioFile = async (duplicateAction?: DuplicateChoice) => {
     if (!selectedFile || !title.trim()) {
       alert('Please select a file and enter a title');
       return;
@@ -134,6 +133,7 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
     }
 
     setIsProcessing(true);
+    setDuplicateNote(null);
     setProgress({
       stage: 'uploading',
       progress: 10,
@@ -143,10 +143,10 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
     try {
       const formData = new FormData();
       formData.append('audio', selectedFile);
-      formData.append('userId', 'user-123'); // TODO: Get from authentication
       formData.append('title', title.trim());
       if (language) formData.append('language', language);
       formData.append('generateLearningMaterials', generateMaterials.toString());
+      if (duplicateAction) formData.append('duplicateAction', duplicateAction);
 
       // Simulate progress updates
       const progressInterval = setInterval(() => {
@@ -187,6 +187,17 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
 
       clearInterval(progressInterval);
 
+      if (response.status === 409) {
+        const errorData = await response.json();
+        // Already imported: back to the form so the user can pick a copy or a fresh import
+        if (errorData.code === 'DUPLICATE_SOURCE') {
+          setProgress(null);
+          setDuplicateNote(errorData.data.existing_note);
+          return;
+        }
+        throw new Error(errorData.error || 'Audio processing failed');
+      }
+
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Audio processing failed');
@@ -197,7 +208,7 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
       setProgress({
         stage: 'complete',
         progress: 100,
-        message: 'Audio processing completed successfully!'
+        message: 'Audio uploaded! Processing continues in the background.'
       });
       
       setResult(data.data);
@@ -206,7 +217,7 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
       setTimeout(() => {
         onGenerate(selectedFile); // Keep compatibility with existing interface
         onClose();
-        router.push(`/notes/${data.data.note.id}`);
+        router.push(`/processing?noteId=${data.data.note.id}`);
         resetForm();
       }, 2000);
 
@@ -231,6 +242,7 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
     setIsProcessing(false);
     setProgress(null);
     setResult(null);
+    setDuplicateNote(null);
   };
 
   const openFileDialog = () => {
@@ -329,15 +341,10 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
               {/* Success Result */}
               {result && progress?.stage === 'complete' && (
                 <div className="bg-green-900/20 border border-green-500 rounded-lg p-4">
-                  <h4 className="text-green-400 font-medium mb-2">✅ Processing Complete!</h4>
+                  <h4 className="text-green-400 font-medium mb-2">✅ Upload Complete!</h4>
                   <div className="text-green-300 text-sm space-y-1">
-                    <p>• Transcription: {result.transcription.text.substring(0, 100)}...</p>
-                    <p>• Duration: {result.transcription.duration ? `${Math.round(result.transcription.duration)}s` : 'Unknown'}</p>
-                    <p>• Content blocks: {result.note.contentBlocks}</p>
-                    <p>• Flashcards: {result.note.flashcards}</p>
-                    {result.transcription.language && (
-                      <p>• Language: {result.transcription.language}</p>
-                    )}
+                    <p>• Note: {result.note.title}</p>
+                    <p>• Transcription, summary and flashcards are being generated in the background.</p>
                   </div>
                 </div>
               )}
@@ -443,9 +450,16 @@ export default function UploadAudioModal({ isOpen, onClose, onGenerate }: Upload
                 </label>
               </div>
 
+              {duplicateNote && (
+                <DuplicateSourcePrompt
+                  existingNote={duplicateNote}
+                  onChoose={processAudioFile}
+                />
+              )}
+
               {/* Generate Button */}
               <button
-                onClick={processAudioFile}
+                onClick={() => processAudioFile()}
                 disabled={!selectedFile || !title.trim()}
                 className={`w-full py-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${
                   selectedFile && title.trim()
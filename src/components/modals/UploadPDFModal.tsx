@@ -2,6 +2,8 @@
 
 import { useState, useRef } from 'react'
 import { useTranslations } from 'next-intl'
+import { DOCUMENT_ACCEPT, isSupportedDocument } from '@/lib/note-client-service'
+import DuplicateSourcePrompt, { DuplicateChoice, DuplicateSourceNote } from './DuplicateSourcePrompt'
 
 interface UploadPDFModalProps {
   isOpen: boolean
@@ -14,6 +16,7 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
+  const [duplicateNote, setDuplicateNote] = useState<DuplicateSourceNote | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const t = useTranslations('modals.uploadPDF')
 
@@ -34,8 +37,9 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
     const files = e.dataTransfer.files
     if (files.length > 0) {
       const file = files[0]
-      if (file.type === 'application/pdf') {
+      if (isSupportedDocument(file)) {
         setSelectedFile(file)
+        setDuplicateNote(null)
       }
     }
   }
@@ -44,10 +48,11 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
     const files = e.target.files
     if (files && files.length > 0) {
       setSelectedFile(files[0])
+      setDuplicateNote(null)
     }
   }
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (duplicateAction?: DuplicateChoice) => {
     if (!selectedFile) return
 
     setIsUploading(true)
@@ -55,7 +60,10 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
 
     try {
       const formData = new FormData()
-      formData.append('pdf', selectedFile)
+      formData.append('file', selectedFile)
+      if (duplicateAction) {
+        formData.append('duplicateAction', duplicateAction)
+      }
       
       const response = await fetch('/api/pdf/upload', {
         method: 'POST',
@@ -64,8 +72,14 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
 
       const result = await response.json()
 
+      // Already imported: let the user choose between a copy and a fresh import
+      if (response.status === 409 && result.code === 'DUPLICATE_SOURCE') {
+        setDuplicateNote(result.data.existing_note)
+        return
+      }
+
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to upload PDF')
+        throw new Error(result.error || 'Failed to upload document')
       }
 
       if (result.success) {
@@ -74,12 +88,13 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
         // Reset form state
         setSelectedFile(null)
         setUploadError(null)
+        setDuplicateNote(null)
       } else {
         throw new Error(result.error || 'Upload failed')
       }
     } catch (error) {
-      console.error('PDF upload error:', error)
-      setUploadError(error instanceof Error ? error.message : 'Failed to upload PDF')
+      console.error('Document upload error:', error)
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload document')
     } finally {
       setIsUploading(false)
     }
@@ -133,7 +148,7 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,application/pdf"
+            accept={DOCUMENT_ACCEPT}
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -147,6 +162,14 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
             </div>
           )}
 
+          {duplicateNote && (
+            <DuplicateSourcePrompt
+              existingNote={duplicateNote}
+              disabled={isUploading}
+              onChoose={handleGenerate}
+            />
+          )}
+
           {uploadError && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
               <p className="text-red-700 text-sm">{uploadError}</p>
@@ -170,7 +193,7 @@ export default function UploadPDFModal({ isOpen, onClose, onGenerate }: UploadPD
           </div>
 
           <button
-            onClick={handleGenerate}
+            onClick={() => handleGenerate()}
             disabled={!selectedFile || isUploading}
             className={`w-full py-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${
               selectedFile && !isUploading
@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import DuplicateSourcePrompt, { DuplicateChoice, DuplicateSourceNote } from './DuplicateSourcePrompt'
+
+interface WebArticleModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onGenerate: (noteId: string) => void
+  folderId?: string | null
+}
+
+const isValidWebUrl = (value: string) => {
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+export default function WebArticleModal({ isOpen, onClose, onGenerate, folderId }: WebArticleModalProps) {
+  const [articleUrl, setArticleUrl] = useState('')
+  const [title, setTitle] = useState('')
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [duplicateNote, setDuplicateNote] = useState<DuplicateSourceNote | null>(null)
+  const t = useTranslations('modals.webArticle')
+
+  // Reset state when modal opens/closes
+  useEffect(() => {
+    if (isOpen) {
+      setArticleUrl('')
+      setTitle('')
+      setError(null)
+      setDuplicateNote(null)
+      setIsProcessing(false)
+    }
+  }, [isOpen])
+
+  const handleGenerate = async (duplicateAction?: DuplicateChoice) => {
+    if (!isValidWebUrl(articleUrl)) return
+
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/web/process', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          url: articleUrl.trim(),
+          title: title.trim() || undefined,
+          folderId: folderId || null,
+          duplicateAction
+        }),
+      })
+
+      const result = await response.json()
+
+      // Already imported: let the user choose between a copy and a fresh import
+      if (response.status === 409 && result.code === 'DUPLICATE_SOURCE') {
+        setDuplicateNote(result.data.existing_note)
+        return
+      }
+
+      if (result.success) {
+        onGenerate(result.data.note.id)
+        onClose()
+      } else {
+        throw new Error(result.error || 'Failed to import article')
+      }
+    } catch (error) {
+      console.error('Error importing web article:', error)
+      setError(error instanceof Error ? error.message : 'An error occurred while importing the article')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-dark-tertiary rounded-2xl p-8 max-w-md w-full mx-4 relative border border-gray-600">
+        <button
+          onClick={onClose}
+          disabled={isProcessing}
+          className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-white mb-8">{t('title')}</h2>
+
+          {/* URL Input */}
+          <div className="mb-6">
+            <label className="block text-left text-white font-medium mb-3">
+              🔗 {t('urlLabel')}
+            </label>
+            <input
+              type="url"
+              value={articleUrl}
+              onChange={(e) => {
+                setArticleUrl(e.target.value)
+                setDuplicateNote(null)
+              }}
+              placeholder="https://..."
+              disabled={isProcessing}
+              className="input-field w-full"
+            />
+            {articleUrl && !isValidWebUrl(articleUrl) && (
+              <p className="text-red-400 text-sm mt-2">{t('invalidUrl')}</p>
+            )}
+          </div>
+
+          <div className="mb-6">
+            <label className="block text-left text-white font-medium mb-3">
+              ✏️ {t('titleLabel')}
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={t('titlePlaceholder')}
+              maxLength={500}
+              disabled={isProcessing}
+              className="input-field w-full"
+            />
+          </div>
+
+          {duplicateNote && (
+            <DuplicateSourcePrompt
+              existingNote={duplicateNote}
+              disabled={isProcessing}
+              onChoose={handleGenerate}
+            />
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* Generate Button */}
+          <button
+            onClick={() => handleGenerate()}
+            disabled={!isValidWebUrl(articleUrl) || isProcessing}
+            className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? (
+              <>
+                <div className="animate-spin w-5 h-5 border-2 border-black border-t-transparent rounded-full"></div>
+                {t('processing')}
+              </>
+            ) : (
+              <>
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                {t('generateNote')}
+              </>
+            )}
+          </button>
+
+          <p className="text-gray-400 text-xs mt-4">
+            {t('description')}
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { YouTubeTranscriptService } from '@/lib/youtube-transcript-service'
+import DuplicateSourcePrompt, { DuplicateChoice, DuplicateSourceNote } from './DuplicateSourcePrompt'
 
 interface YoutubeVideoModalProps {
   isOpen: boolean
@@ -17,6 +18,7 @@ export default function YoutubeVideoModal({ isOpen, onClose, onGenerate }: Youtu
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingStage, setProcessingStage] = useState('')
   const [error, setError] = useState<string | null>(null)
+  const [duplicateNote, setDuplicateNote] = useState<DuplicateSourceNote | null>(null)
 
   // Reset state when modal opens/closes
   useEffect(() => {
@@ -25,6 +27,7 @@ export default function YoutubeVideoModal({ isOpen, onClose, onGenerate }: Youtu
       setSelectedLanguage('')
       setAvailableLanguages([])
       setError(null)
+      setDuplicateNote(null)
       setIsProcessing(false)
       setIsLoadingLanguages(false)
     }
@@ -64,7 +67,7 @@ export default function YoutubeVideoModal({ isOpen, onClose, onGenerate }: Youtu
     return () => clearTimeout(timeoutId)
   }, [youtubeUrl])
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (duplicateAction?: DuplicateChoice) => {
     if (!youtubeUrl.trim() || !isValidYoutubeUrl(youtubeUrl)) return
 
     setIsProcessing(true)
@@ -81,12 +84,19 @@ export default function YoutubeVideoModal({ isOpen, onClose, onGenerate }: Youtu
         body: JSON.stringify({
           url: youtubeUrl.trim(),
           language: selectedLanguage || undefined,
-          folderId: null
+          folderId: null,
+          duplicateAction
         }),
       })
 
       const result = await response.json()
 
+      // Already imported: let the user choose between a copy and a fresh import
+      if (response.status === 409 && result.code === 'DUPLICATE_SOURCE') {
+        setDuplicateNote(result.data.existing_note)
+        return
+      }
+
       if (result.success) {
         setProcessingStage('Processing complete!')
         onGenerate(result.data.note.id)
@@ -151,7 +161,10 @@ export default function YoutubeVideoModal({ isOpen, onClose, onGenerate }: Youtu
             <input
               type="url"
               value={youtubeUrl}
-              onChange={(e) => setYoutubeUrl(e.target.value)}
+              onChange={(e) => {
+                setYoutubeUrl(e.target.value)
+                setDuplicateNote(null)
+              }}
               placeholder="https://www.youtube.com/watch?v=..."
               disabled={isProcessing}
               className="input-field w-full"
@@ -200,6 +213,14 @@ export default function YoutubeVideoModal({ isOpen, onClose, onGenerate }: Youtu
             )}
           </div>
 
+          {duplicateNote && (
+            <DuplicateSourcePrompt
+              existingNote={duplicateNote}
+              disabled={isProcessing}
+              onChoose={handleGenerate}
+            />
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -222,7 +243,7 @@ export default function YoutubeVideoModal({ isOpen, onClose, onGenerate }: Youtu
 
           {/* Generate Button */}
           <button
-            onClick={handleGenerate}
+            onClick={() => handleGenerate()}
             disabled={!youtubeUrl.trim() || !isValidYoutubeUrl(youtubeUrl) || isProcessing || isLoadingLanguages}
             className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -0,0 +1,129 @@
+/**
+ * AI response cache
+ * Identical requests (same provider, model, parameters and prompt) reuse the stored reply,
+ * so re-importing the same document doesn't pay for the same analysis twice.
+ */
+
+import { createHash } from 'crypto'
+import { query, queryOne } from '@/lib/database'
+import type { CompletionOptions, LLMCompletion, LLMProvider, LLMProviderName } from '@/lib/llm-provider'
+
+const DEFAULT_TTL_HOURS = 24 * 7
+
+export class AIResponseCache {
+  /**
+   * Get a cached reply that hasn't expired, recording the hit
+   */
+  async get(cacheKey: string): Promise<string | null> {
+    try {
+      const entry = await queryOne(`
+        UPDATE ai_response_cache
+        SET hit_count = hit_count + 1, last_hit_at = NOW()
+        WHERE cache_key = $1 AND expires_at > NOW()
+        RETURNING response
+      `, [cacheKey])
+
+      return entry ? entry.response : null
+    } catch (error) {
+      console.error('Failed to read AI response cache:', error)
+      return null
+    }
+  }
+
+  /**
+   * Store a reply, replacing any earlier entry for the same key
+   */
+  async set(cacheKey: string, provider: LLMProviderName, model: string, response: string, ttlHours: number): Promise<void> {
+    try {
+      await query(`
+        INSERT INTO ai_response_cache (cache_key, provider, model, response, expires_at)
+        VALUES ($1, $2, $3, $4, NOW() + ($5 || ' hours')::interval)
+        ON CONFLICT (cache_key) DO UPDATE SET
+          response = EXCLUDED.response,
+          hit_count = 0,
+          created_at = NOW(),
+          last_hit_at = NULL,
+          expires_at = EXCLUDED.expires_at
+      `, [cacheKey, provider, model, response, ttlHours])
+    } catch (error) {
+      console.error('Failed to write AI response cache:', error)
+    }
+  }
+
+  /**
+   * Remove a single entry
+   */
+  async delete(cacheKey: string): Promise<void> {
+    try {
+      await query('DELETE FROM ai_response_cache WHERE cache_key = $1', [cacheKey])
+    } catch (error) {
+      console.error('Failed to delete AI response cache entry:', error)
+    }
+  }
+
+  /**
+   * Delete expired entries, returning how many were removed
+   */
+  async purgeExpired(): Promise<number> {
+    try {
+      const result = await query('DELETE FROM ai_response_cache WHERE expires_at <= NOW()')
+      return result.rowCount || 0
+    } catch (error) {
+      console.error('Failed to purge AI response cache:', error)
+      return 0
+    }
+  }
+}
+
+/**
+ * Wraps a provider so completions are served from and saved to the cache
+ */
+export class CachedLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly cache: AIResponseCache = aiResponseCache,
+    private readonly ttlHours: number = DEFAULT_TTL_HOURS,
+    // Distinguishes providers of the same kind pointed at different servers
+    private readonly endpoint: string = ''
+  ) {
+    this.name = provider.name
+    this.model = provider.model
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<LLMCompletion> {
+    const cacheKey = this.cacheKey(prompt, options)
+
+    const cached = await this.cache.get(cacheKey)
+    if (cached !== null) {
+      console.log('AI response cache hit:', { provider: this.name, model: this.model })
+      return { text: cached, usage: null, cached: true }
+    }
+
+    const completion = await this.provider.complete(prompt, options)
+    await this.cache.set(cacheKey, this.name, this.model, completion.text, this.ttlHours)
+    return completion
+  }
+
+  async forget(prompt: string, options: CompletionOptions = {}): Promise<void> {
+    await this.cache.delete(this.cacheKey(prompt, options))
+  }
+
+  private cacheKey(prompt: string, options: CompletionOptions): string {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        provider: this.name,
+        endpoint: this.endpoint,
+        model: this.model,
+        temperature: options.temperature ?? null,
+        maxTokens: options.maxTokens ?? null,
+        prompt
+      }))
+      .digest('hex')
+  }
+}
+
+// Export singleton instance
+export const aiResponseCache = new AIResponseCache();
@@ -0,0 +1,153 @@
+/**
+ * Schemas for structured AI output
+ * Every JSON reply from an LLM is validated against one of these before it is used
+ */
+
+import { z } from 'zod'
+import { AIValidationError } from './error-handler'
+import { getClozeOrdinals } from './flashcard-types'
+
+const nonEmptyText = z.string().trim().min(1, 'must be a non-empty string')
+
+export const FlashcardSchema = z.object({
+  question: nonEmptyText,
+  answer: nonEmptyText
+})
+
+export const DifficultyLevelSchema = z.enum(['easy', 'medium', 'hard'])
+
+export const AnalysisResponseSchema = z.object({
+  summary: nonEmptyText,
+  key_points: z.array(nonEmptyText).min(1, 'must contain at least one key point'),
+  flashcards: z.array(FlashcardSchema).min(1, 'must contain at least one flashcard'),
+  difficulty_level: DifficultyLevelSchema.default('medium')
+})
+
+export const MergedAnalysisSchema = AnalysisResponseSchema.omit({ flashcards: true })
+
+// A generated card is question/answer or cloze; a cloze card's question holds the {{c1::...}} text
+export const GeneratedFlashcardSchema = z.object({
+  type: z.enum(['basic', 'cloze']).default('basic'),
+  question: nonEmptyText,
+  answer: z.string().trim().default('')
+}).superRefine((card, ctx) => {
+  if (card.type === 'cloze' && getClozeOrdinals(card.question).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'cloze text must contain a deletion like {{c1::term}}', path: ['question'] })
+  }
+  if (card.type === 'basic' && !card.answer) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be a non-empty string', path: ['answer'] })
+  }
+})
+
+// Models sometimes wrap the array in an object despite being asked for a bare array
+export const FlashcardListSchema = z.preprocess(
+  (value) => (value && typeof value === 'object' && !Array.isArray(value) && 'flashcards' in value)
+    ? (value as { flashcards: unknown }).flashcards
+    : value,
+  z.array(GeneratedFlashcardSchema).min(1, 'must contain at least one flashcard')
+)
+
+export const QuizQuestionSchema = z.object({
+  question: nonEmptyText,
+  options: z.array(nonEmptyText).min(2, 'must offer at least two options').max(6, 'must offer at most six options'),
+  correct_answer_index: z.coerce.number().int(),
+  explanation: nonEmptyText
+}).refine(
+  (question) => question.correct_answer_index >= 0 && question.correct_answer_index < question.options.length,
+  { message: 'must point at one of the options', path: ['correct_answer_index'] }
+)
+
+export const QuizQuestionListSchema = z.preprocess(
+  (value) => (value && typeof value === 'object' && !Array.isArray(value) && 'questions' in value)
+    ? (value as { questions: unknown }).questions
+    : value,
+  z.array(QuizQuestionSchema).min(1, 'must contain at least one question')
+)
+
+const importance = z.coerce.number().min(1).max(5)
+
+export const MindMapSchema = z.object({
+  title: nonEmptyText,
+  central_concept: nonEmptyText,
+  main_branches: z.array(z.object({
+    label: nonEmptyText,
+    importance: importance.default(3),
+    subconcepts: z.array(z.object({
+      label: nonEmptyText,
+      description: z.string().optional(),
+      examples: z.array(z.string()).optional(),
+      importance: importance.default(3)
+    })).default([])
+  })).min(1, 'must contain at least one branch'),
+  relationships: z.array(z.object({
+    from: nonEmptyText,
+    to: nonEmptyText,
+    type: z.enum(['causes', 'leads-to', 'part-of', 'example-of', 'related-to']),
+    strength: importance.default(3)
+  })).default([]),
+  layout_suggestion: z.enum(['hierarchical', 'radial', 'force']).default('radial'),
+  complexity_level: z.enum(['simple', 'moderate', 'complex']).default('moderate')
+})
+
+export type AnalysisResponse = z.infer<typeof AnalysisResponseSchema>
+export type MergedAnalysis = z.infer<typeof MergedAnalysisSchema>
+export type QuizQuestionDraft = z.infer<typeof QuizQuestionSchema>
+export type GeneratedFlashcard = z.infer<typeof GeneratedFlashcardSchema>
+
+/**
+ * Parse a raw model reply and validate it against a schema.
+ * Throws AIValidationError naming the first field that is wrong.
+ */
+export function parseAIResponse<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  let json: unknown
+  try {
+    json = JSON.parse(stripCodeFences(content))
+  } catch (error) {
+    throw new AIValidationError(
+      `AI response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR',
+      '(root)'
+    )
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`)
+    const field = formatPath(result.error.issues[0].path)
+    throw new AIValidationError(
+      `AI response field "${field}" is invalid: ${result.error.issues[0].message}`,
+      'SCHEMA_VALIDATION_FAILED',
+      field,
+      issues
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Remove markdown code fences the model sometimes wraps JSON in
+ */
+export function stripCodeFences(content: string): string {
+  let cleanContent = content.trim()
+  if (cleanContent.startsWith('```json')) {
+    cleanContent = cleanContent.replace(/^```json\s*/i, '').replace(/\s*```$/, '')
+  }
+  if (cleanContent.startsWith('```')) {
+    cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
+  }
+  return cleanContent
+}
+
+/**
+ * ['flashcards', 2, 'answer'] -> 'flashcards[2].answer'
+ */
+function formatPath(path: (string | number)[]): string {
+  if (path.length === 0) return '(root)'
+
+  return path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number'
+      ? `${formatted}[${segment}]`
+      : formatted ? `${formatted}.${segment}` : segment
+  , '')
+}
@@ -1,5 +1,8 @@
-// Real AI service powered by OpenRouter
-import { OpenRouterService, type OpenRouterResponse } from './openrouter-service'
+// Real AI service; the model behind each task is configured in llm-provider
+import { LLMService, type AnalysisResponse } from './llm-service'
+import { ErrorHandler } from './error-handler'
+import { chunkText } from './text-chunker'
+import type { FlashcardType } from './flashcard-types'
 
 export interface AnalysisItem {
   type: string
@@ -11,28 +14,58 @@ export interface AnalysisItem {
 }
 
 export interface Flashcard {
+  type?: FlashcardType // Question/answer when absent; generated cards are never image occlusion
   question: string
   answer: string
 }
 
+export interface QuizQuestion {
+  question: string
+  options: string[]
+  correct_answer_index: number
+  explanation: string
+}
+
+// Reports how far a long-running analysis has got, 0-100
+export type AnalysisProgressCallback = (percent: number, message: string) => void
+
+export interface AIServiceOptions {
+  // Return basic placeholder content when the AI call fails. Off for callers that retry and
+  // report AI errors themselves, such as the ingest pipeline.
+  fallback?: boolean
+}
+
+const FLASHCARDS_PER_CHUNK = 5
+const MAX_FLASHCARDS = 30
+const DEFAULT_QUIZ_QUESTIONS = 10
+
+// How many part analyses are combined in one reduce call; more parts are merged in rounds
+const MERGE_BATCH_SIZE = 6
+
 export class AIService {
-  private openRouter: OpenRouterService
+  private llm: LLMService
+  private fallback: boolean
+
+  constructor(llm: LLMService = new LLMService(), options: AIServiceOptions = {}) {
+    this.llm = llm
+    this.fallback = options.fallback ?? true
 
-  constructor() {
+    // Resolve providers up front so a missing key fails the job instead of producing fallback content
     try {
-      this.openRouter = new OpenRouterService()
+      this.llm.getProvider('analysis')
+      this.llm.getProvider('flashcards')
     } catch (error) {
-      console.error('Failed to initialize OpenRouter service:', error)
+      console.error('Failed to initialize LLM providers:', error)
       throw new Error('AI service initialization failed. Please check configuration.')
     }
   }
 
-  async analyzeContent(text: string): Promise<AnalysisItem[]> {
+  async analyzeContent(text: string, onProgress?: AnalysisProgressCallback): Promise<AnalysisItem[]> {
     try {
       console.log('Starting AI analysis...', { textLength: text.length })
       
       // Get real AI analysis
-      const aiResponse = await this.openRouter.analyzeContent(text)
+      const aiResponse = await this.summarizeContent(text, onProgress)
       
       console.log('AI analysis completed successfully')
       
@@ -40,6 +73,7 @@ export class AIService {
       return this.formatAnalysisForDatabase(aiResponse, text)
     } catch (error) {
       console.error('AI analysis failed:', error)
+      if (!this.fallback || ErrorHandler.isQuotaExceeded(error)) throw error
       
       // Fallback to basic analysis if AI fails
       console.log('Using fallback analysis due to AI error')
@@ -47,17 +81,73 @@ export class AIService {
     }
   }
 
-  async generateFlashcards(text: string): Promise<Flashcard[]> {
+  /**
+   * Analyze text of any length. Long text is split into overlapping chunks that are
+   * analyzed one by one (map) and then combined into a single result (reduce).
+   */
+  async summarizeContent(text: string, onProgress?: AnalysisProgressCallback): Promise<AnalysisResponse> {
+    const chunks = chunkText(text)
+
+    if (chunks.length <= 1) {
+      return this.llm.analyzeContent(text)
+    }
+
+    console.log('Analyzing long content in chunks:', { textLength: text.length, chunks: chunks.length })
+
+    // Chunks run one at a time to stay within the provider's rate limits
+    const partials: AnalysisResponse[] = []
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress?.(Math.round(i / chunks.length * 90), `Analyzing part ${i + 1} of ${chunks.length}...`)
+      partials.push(await this.llm.analyzeContent(chunks[i], { index: i, total: chunks.length }))
+    }
+
+    onProgress?.(90, `Combining ${chunks.length} parts...`)
+    let merged = partials
+    while (merged.length > 1) {
+      const batches: AnalysisResponse[][] = []
+      for (let i = 0; i < merged.length; i += MERGE_BATCH_SIZE) {
+        batches.push(merged.slice(i, i + MERGE_BATCH_SIZE))
+      }
+
+      const nextRound: AnalysisResponse[] = []
+      for (const batch of batches) {
+        const combined = batch.length === 1 ? batch[0] : await this.llm.mergeAnalyses(batch)
+        nextRound.push({ ...combined, flashcards: [] })
+      }
+      merged = nextRound
+    }
+
+    return {
+      summary: merged[0].summary,
+      key_points: this.dedupeBy(merged[0].key_points, point => point),
+      flashcards: this.dedupeBy(partials.flatMap(partial => partial.flashcards), card => card.question)
+        .slice(0, MAX_FLASHCARDS),
+      difficulty_level: merged[0].difficulty_level
+    }
+  }
+
+  async generateFlashcards(text: string, onProgress?: AnalysisProgressCallback): Promise<Flashcard[]> {
     try {
       console.log('Generating flashcards with AI...', { textLength: text.length })
       
-      const flashcards = await this.openRouter.generateFlashcards(text, 5)
+      const chunks = chunkText(text)
+      const generated: Flashcard[] = []
+      for (let i = 0; i < chunks.length; i++) {
+        if (chunks.length > 1) {
+          onProgress?.(Math.round(i / chunks.length * 100), `Generating flashcards for part ${i + 1} of ${chunks.length}...`)
+        }
+        generated.push(...await this.llm.generateFlashcards(chunks[i], FLASHCARDS_PER_CHUNK))
+      }
+
+      // Overlapping chunks often produce the same card twice
+      const flashcards = this.dedupeBy(generated, card => card.question).slice(0, MAX_FLASHCARDS)
       
-      console.log('AI flashcard generation completed:', { count: flashcards.length })
+      console.log('AI flashcard generation completed:', { count: flashcards.length, chunks: chunks.length })
       
       return flashcards
     } catch (error) {
       console.error('AI flashcard generation failed:', error)
+      if (!this.fallback || ErrorHandler.isQuotaExceeded(error)) throw error
       
       // Fallback to simple flashcards
       return this.fallbackFlashcards(text)
@@ -65,9 +155,63 @@ export class AIService {
   }
 
   /**
-   * Convert OpenRouter response to database format
+   * Generate a multiple-choice quiz. Questions are spread across the document's chunks
+   * so later sections are tested too; there is no fallback, since made-up options would mislead.
+   */
+  async generateQuiz(
+    text: string,
+    questionCount: number = DEFAULT_QUIZ_QUESTIONS,
+    onProgress?: AnalysisProgressCallback
+  ): Promise<QuizQuestion[]> {
+    console.log('Generating quiz with AI...', { textLength: text.length, questionCount })
+
+    const chunks = chunkText(text)
+    // One call per question at most: with more chunks than questions, use evenly spaced ones
+    const selected = chunks.length > questionCount
+      ? Array.from({ length: questionCount }, (_, i) => chunks[Math.floor(i * chunks.length / questionCount)])
+      : chunks
+    const perChunk = Math.ceil(questionCount / selected.length)
+
+    const generated: QuizQuestion[] = []
+    for (let i = 0; i < selected.length; i++) {
+      if (selected.length > 1) {
+        onProgress?.(Math.round(i / selected.length * 100), `Writing questions for part ${i + 1} of ${selected.length}...`)
+      }
+      generated.push(...await this.llm.generateQuizQuestions(selected[i], perChunk))
+    }
+
+    const questions = this.dedupeBy(generated, question => question.question)
+      .slice(0, questionCount)
+      .map(question => this.shuffleOptions(question))
+
+    console.log('AI quiz generation completed:', { count: questions.length, chunks: selected.length })
+
+    return questions
+  }
+
+  /**
+   * Models tend to put the correct option first, so reorder the options and follow the answer
    */
-  private formatAnalysisForDatabase(aiResponse: OpenRouterResponse, originalText: string): AnalysisItem[] {
+  private shuffleOptions(question: QuizQuestion): QuizQuestion {
+    const order = question.options.map((_, index) => index)
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      const swap = order[i]
+      order[i] = order[j]
+      order[j] = swap
+    }
+
+    return {
+      ...question,
+      options: order.map(index => question.options[index]),
+      correct_answer_index: order.indexOf(question.correct_answer_index)
+    }
+  }
+
+  /**
+   * Convert LLM response to database format
+   */
+  private formatAnalysisForDatabase(aiResponse: AnalysisResponse, originalText: string): AnalysisItem[] {
     const words = originalText.split(' ').length
     
     return [
@@ -177,7 +321,7 @@ export class AIService {
    */
   async healthCheck(): Promise<{ available: boolean; message: string }> {
     try {
-      const isHealthy = await this.openRouter.healthCheck()
+      const isHealthy = await this.llm.healthCheck()
       return {
         available: isHealthy,
         message: isHealthy ? 'AI service is operational' : 'AI service is experiencing issues'
@@ -190,6 +334,19 @@ export class AIService {
     }
   }
 
+  /**
+   * Drop items whose key matches an earlier one, ignoring case, spacing and punctuation
+   */
+  private dedupeBy<T>(items: T[], key: (item: T) => string): T[] {
+    const seen = new Set<string>()
+    return items.filter(item => {
+      const normalized = key(item).toLowerCase().replace(/[^\w\u00C0-\uFFFF]+/g, '')
+      if (!normalized || seen.has(normalized)) return false
+      seen.add(normalized)
+      return true
+    })
+  }
+
   // Utility methods for fallback and basic analysis
   
   private extractTitle(text: string): string {
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import {
+  ANKI_CARD_TYPE,
+  AnkiExportNote,
+  AnkiPackageError,
+  ankiGuid,
+  readAnkiPackage,
+  writeAnkiPackage
+} from '@/lib/anki-package'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const reviewedAt = new Date(Date.now() - 10 * DAY_MS)
+const dueAt = new Date(Date.now() + 5 * DAY_MS)
+
+const notes: AnkiExportNote[] = [
+  {
+    guid: ankiGuid('basic'),
+    kind: 'standard',
+    deck: 'Biology::Plants',
+    fields: ['What do plants make?', 'Glucose<br>and oxygen'],
+    tags: ['photosynthesis', 'exam'],
+    cards: [{
+      ord: 0,
+      type: ANKI_CARD_TYPE.review,
+      dueAt,
+      intervalDays: 15,
+      factor: 2500,
+      reps: 3,
+      lapses: 1,
+      reviews: [
+        { reviewedAt, ease: 1, intervalDays: 1, factor: 2300, timeMs: 8000, type: 1 },
+        { reviewedAt: new Date(reviewedAt.getTime() + DAY_MS), ease: 3, intervalDays: 15, factor: 2500, timeMs: 3000, type: 2 }
+      ]
+    }]
+  },
+  {
+    guid: ankiGuid('cloze'),
+    kind: 'cloze',
+    deck: 'Biology::Plants',
+    fields: ['{{c1::Chlorophyll}} absorbs {{c2::light}}', ''],
+    tags: [],
+    cards: [0, 1].map(ord => ({ ord, type: ANKI_CARD_TYPE.new, dueAt: null, intervalDays: 0, factor: 2500, reps: 0, lapses: 0, reviews: [] }))
+  }
+]
+
+/**
+ * Rewrite a zip's central directory so `entryName` claims to inflate to `declaredSize`
+ */
+function declareSize(data: Uint8Array, entryName: string, declaredSize: number): Uint8Array {
+  const patched = data.slice()
+  const view = new DataView(patched.buffer)
+  for (let offset = 0; offset < patched.length - 46; offset++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) continue
+    const nameLength = view.getUint16(offset + 28, true)
+    const name = new TextDecoder().decode(patched.subarray(offset + 46, offset + 46 + nameLength))
+    if (name === entryName) view.setUint32(offset + 24, declaredSize, true)
+  }
+  return patched
+}
+
+describe('Anki packages', () => {
+  it('reads back the notes, scheduling, reviews and media it wrote', async () => {
+    const image = new Uint8Array([137, 80, 78, 71, 1, 2, 3])
+    const data = await writeAnkiPackage(notes, [{ name: 'leaf.png', data: image }])
+    const ankiPackage = await readAnkiPackage(data)
+
+    expect(ankiPackage.notes).toHaveLength(2)
+    const [basic, cloze] = ankiPackage.notes
+
+    expect(basic).toMatchObject({
+      guid: ankiGuid('basic'),
+      kind: 'standard',
+      fieldNames: ['Front', 'Back'],
+      fields: { Front: 'What do plants make?', Back: 'Glucose<br>and oxygen' },
+      tags: ['photosynthesis', 'exam']
+    })
+    expect(basic.cards).toHaveLength(1)
+    expect(basic.cards[0]).toMatchObject({
+      ord: 0,
+      deck: 'Biology::Plants',
+      type: ANKI_CARD_TYPE.review,
+      intervalDays: 15,
+      factor: 2500,
+      reps: 3,
+      lapses: 1
+    })
+    expect(Math.abs(basic.cards[0].dueAt!.getTime() - dueAt.getTime())).toBeLessThan(DAY_MS)
+    expect(basic.cards[0].reviews.map(review => [review.reviewedAt.getTime(), review.ease, review.intervalDays])).toEqual([
+      [reviewedAt.getTime(), 1, 1],
+      [reviewedAt.getTime() + DAY_MS, 3, 15]
+    ])
+
+    expect(cloze.kind).toBe('cloze')
+    expect(cloze.fields[cloze.fieldNames[0]]).toBe('{{c1::Chlorophyll}} absorbs {{c2::light}}')
+    expect(cloze.cards.map(card => [card.ord, card.type, card.dueAt])).toEqual([[0, 0, null], [1, 0, null]])
+
+    expect(await ankiPackage.readMedia('leaf.png')).toEqual(image)
+    expect(await ankiPackage.readMedia('missing.png')).toBeNull()
+  })
+
+  it('rejects files that are not packages', async () => {
+    await expect(readAnkiPackage(new TextEncoder().encode('not a zip'))).rejects.toBeInstanceOf(AnkiPackageError)
+
+    const zip = new JSZip()
+    zip.file('notes.txt', 'hello')
+    await expect(readAnkiPackage(await zip.generateAsync({ type: 'uint8array' }))).rejects.toThrow('does not contain an Anki collection')
+  })
+
+  it('rejects a damaged media list', async () => {
+    const zip = await JSZip.loadAsync(await writeAnkiPackage(notes))
+    zip.file('media', '{"0": "leaf.png"')
+
+    await expect(readAnkiPackage(await zip.generateAsync({ type: 'uint8array' }))).rejects.toThrow('Media list in the package is damaged')
+  })
+
+  it('rejects entries that would inflate past the limits without inflating them', async () => {
+    const data = await writeAnkiPackage(notes, [{ name: 'leaf.png', data: new Uint8Array(16) }])
+
+    await expect(readAnkiPackage(declareSize(data, 'collection.anki2', 0x7fffffff)))
+      .rejects.toThrow('Anki collection in the package is too large to import')
+    await expect(readAnkiPackage(declareSize(data, 'media', 0x7fffffff)))
+      .rejects.toThrow('Media list in the package is too large to import')
+
+    const ankiPackage = await readAnkiPackage(declareSize(data, '0', 0x7fffffff))
+    await expect(ankiPackage.readMedia('leaf.png')).rejects.toBeInstanceOf(AnkiPackageError)
+  })
+})
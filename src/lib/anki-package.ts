@@ -0,0 +1,597 @@
+/**
+ * Anki .apkg reading and writing
+ * An .apkg is a zip holding a SQLite collection (schema 11, the format every Anki version since 2.1
+ * imports) plus a "media" manifest mapping numbered zip entries to file names.
+ * This module only knows Anki's format; mapping to MangoNote cards happens in flashcard-transfer-service.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import JSZip from 'jszip'
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js'
+import { uncompressedSize } from './zip-limits'
+
+export type AnkiModelKind = 'standard' | 'cloze'
+
+// Anki card type and queue values
+export const ANKI_CARD_TYPE = { new: 0, learning: 1, review: 2, relearning: 3 } as const
+export const ANKI_QUEUE = { new: 0, learning: 1, review: 2, dayLearning: 3 } as const
+
+export interface AnkiReviewLog {
+  reviewedAt: Date
+  ease: number // 1 Again, 2 Hard, 3 Good, 4 Easy
+  intervalDays: number
+  factor: number // Ease factor in permille, 2500 = 2.5
+  timeMs: number
+  type: number // 0 learn, 1 review, 2 relearn, 3 filtered, 4 manual reschedule
+}
+
+export interface AnkiCardRecord {
+  ord: number // Template index, or cloze number - 1
+  deck: string
+  type: number
+  queue: number
+  dueAt: Date | null // When the card is next due, null for new cards
+  intervalDays: number
+  factor: number
+  reps: number
+  lapses: number
+  reviews: AnkiReviewLog[]
+}
+
+export interface AnkiNoteRecord {
+  guid: string
+  kind: AnkiModelKind
+  modelName: string
+  fields: Record<string, string> // Raw field HTML by field name
+  fieldNames: string[]
+  templates: Array<{ name: string; qfmt: string; afmt: string }>
+  tags: string[]
+  cards: AnkiCardRecord[]
+}
+
+export interface AnkiPackage {
+  notes: AnkiNoteRecord[]
+  readMedia(fileName: string): Promise<Uint8Array | null>
+}
+
+// What the writer needs for one note; the ord of each card follows the model
+export interface AnkiExportNote {
+  guid: string
+  kind: AnkiModelKind
+  deck: string
+  fields: [string, string] // Front/Back, or Text/Back Extra for cloze
+  tags: string[]
+  cards: AnkiExportCard[]
+}
+
+export interface AnkiExportCard {
+  ord: number
+  type: number
+  dueAt: Date | null
+  intervalDays: number
+  factor: number
+  reps: number
+  lapses: number
+  reviews: AnkiReviewLog[]
+}
+
+export interface AnkiMediaFile {
+  name: string
+  data: Uint8Array
+}
+
+/**
+ * A file that isn't a package we can read
+ */
+export class AnkiPackageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnkiPackageError'
+  }
+}
+
+const DAY_SECONDS = 86400
+
+// Largest entries read from a package, checked before they're inflated
+const MAX_COLLECTION_BYTES = 200 * 1024 * 1024
+const MAX_MANIFEST_BYTES = 10 * 1024 * 1024
+const MAX_MEDIA_BYTES = 10 * 1024 * 1024
+
+let sqlJs: Promise<SqlJsStatic> | null = null
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJs) {
+    sqlJs = initSqlJs()
+  }
+  return sqlJs
+}
+
+/**
+ * Open an .apkg and read every note with its cards, scheduling and review log
+ */
+export async function readAnkiPackage(data: ArrayBuffer | Uint8Array): Promise<AnkiPackage> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(data)
+  } catch (error) {
+    throw new AnkiPackageError('File is not a valid .apkg package')
+  }
+
+  // Newer packages carry collection.anki21 or anki21b; their collection.anki2 is a placeholder
+  // telling old clients to upgrade
+  const collectionFile = zip.file('collection.anki21') || (zip.file('collection.anki21b') ? null : zip.file('collection.anki2'))
+  if (!collectionFile) {
+    if (zip.file('collection.anki21b')) {
+      throw new AnkiPackageError('This package uses the newest Anki format. Export it again with "Support older Anki versions" checked.')
+    }
+    throw new AnkiPackageError('Package does not contain an Anki collection')
+  }
+
+  assertEntrySize(collectionFile, MAX_COLLECTION_BYTES, 'Anki collection')
+  const mediaManifest = zip.file('media')
+  if (mediaManifest) assertEntrySize(mediaManifest, MAX_MANIFEST_BYTES, 'Media list')
+
+  const SQL = await loadSqlJs()
+  const db = new SQL.Database(await collectionFile.async('uint8array'))
+  try {
+    const notes = readNotes(db)
+
+    const mediaNames: Record<string, string> = mediaManifest ? parseJsonObject(await mediaManifest.async('string'), 'Media list') : {}
+    const entryByName = new Map(Object.keys(mediaNames).map(entry => [mediaNames[entry], entry]))
+
+    return {
+      notes,
+      async readMedia(fileName: string) {
+        const entry = entryByName.get(fileName)
+        const file = entry !== undefined ? zip.file(entry) : null
+        if (!file) return null
+        assertEntrySize(file, MAX_MEDIA_BYTES, `Media file ${fileName}`)
+        return file.async('uint8array')
+      }
+    }
+  } finally {
+    db.close()
+  }
+}
+
+function readNotes(db: Database): AnkiNoteRecord[] {
+  const col = selectAll(db, 'SELECT crt, models, decks FROM col')[0]
+  if (!col) {
+    throw new AnkiPackageError('Anki collection is empty')
+  }
+
+  const models: Record<string, any> = parseJsonObject(col.models, 'Note type list')
+  const decks: Record<string, any> = parseJsonObject(col.decks, 'Deck list')
+  const deckName = (id: number) => decks[String(id)]?.name || 'Default'
+
+  // Review due dates are day numbers counted from the collection's creation day
+  const now = Date.now()
+  const today = Math.floor((now / 1000 - col.crt) / DAY_SECONDS)
+
+  const reviewsByCard = new Map<number, AnkiReviewLog[]>()
+  for (const row of selectAll(db, 'SELECT id, cid, ease, ivl, factor, time, type FROM revlog ORDER BY id')) {
+    const reviews = reviewsByCard.get(row.cid) || []
+    reviews.push({
+      reviewedAt: new Date(row.id),
+      ease: row.ease,
+      // Negative intervals are learning steps in seconds
+      intervalDays: row.ivl > 0 ? row.ivl : 0,
+      factor: row.factor,
+      timeMs: row.time,
+      type: row.type
+    })
+    reviewsByCard.set(row.cid, reviews)
+  }
+
+  const cardsByNote = new Map<number, AnkiCardRecord[]>()
+  for (const row of selectAll(db, 'SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses, odue, odid FROM cards ORDER BY nid, ord')) {
+    // Cards in a filtered deck keep their home deck and due date in odid/odue
+    const due = row.odid ? row.odue : row.due
+    let dueAt: Date | null = null
+    if (row.type === ANKI_CARD_TYPE.review) {
+      dueAt = new Date(now + (due - today) * DAY_SECONDS * 1000)
+    } else if (row.type === ANKI_CARD_TYPE.learning || row.type === ANKI_CARD_TYPE.relearning) {
+      // Intraday learning is due at an epoch second; learning across days uses a day number
+      dueAt = row.queue === ANKI_QUEUE.dayLearning
+        ? new Date(now + (due - today) * DAY_SECONDS * 1000)
+        : new Date(due * 1000)
+    }
+
+    const cards = cardsByNote.get(row.nid) || []
+    cards.push({
+      ord: row.ord,
+      deck: deckName(row.odid || row.did),
+      type: row.type,
+      queue: row.queue,
+      dueAt,
+      intervalDays: row.ivl > 0 ? row.ivl : 0,
+      factor: row.factor,
+      reps: row.reps,
+      lapses: row.lapses,
+      reviews: reviewsByCard.get(row.id) || []
+    })
+    cardsByNote.set(row.nid, cards)
+  }
+
+  const notes: AnkiNoteRecord[] = []
+  for (const row of selectAll(db, 'SELECT id, guid, mid, tags, flds FROM notes ORDER BY id')) {
+    const model = models[String(row.mid)]
+    const cards = cardsByNote.get(row.id)
+    if (!model || !cards) continue
+
+    const fieldNames: string[] = (model.flds || [])
+      .slice()
+      .sort((a: any, b: any) => a.ord - b.ord)
+      .map((field: any) => field.name)
+    const values = String(row.flds).split('\x1f')
+    const fields: Record<string, string> = {}
+    fieldNames.forEach((name, index) => {
+      fields[name] = values[index] || ''
+    })
+
+    notes.push({
+      guid: row.guid,
+      kind: model.type === 1 ? 'cloze' : 'standard',
+      modelName: model.name,
+      fields,
+      fieldNames,
+      templates: (model.tmpls || [])
+        .slice()
+        .sort((a: any, b: any) => a.ord - b.ord)
+        .map((template: any) => ({ name: template.name, qfmt: template.qfmt || '', afmt: template.afmt || '' })),
+      tags: String(row.tags).trim().split(/\s+/).filter(Boolean),
+      cards
+    })
+  }
+
+  return notes
+}
+
+/**
+ * Refuse a zip entry that would inflate past maxBytes, going by the size the zip declares for it
+ */
+function assertEntrySize(file: JSZip.JSZipObject, maxBytes: number, description: string): void {
+  if (uncompressedSize(file) > maxBytes) {
+    throw new AnkiPackageError(`${description} in the package is too large to import`)
+  }
+}
+
+/**
+ * Parse one of the JSON objects a package stores, e.g. the media list
+ */
+function parseJsonObject(text: string, description: string): Record<string, any> {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    value = null
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AnkiPackageError(`${description} in the package is damaged`)
+  }
+  return value as Record<string, any>
+}
+
+function selectAll(db: Database, sql: string): any[] {
+  const statement = db.prepare(sql)
+  const rows: any[] = []
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject())
+    }
+  } finally {
+    statement.free()
+  }
+  return rows
+}
+
+/**
+ * Build an .apkg with a Basic and a Cloze note type, one deck per distinct deck name
+ */
+export async function writeAnkiPackage(notes: AnkiExportNote[], media: AnkiMediaFile[] = []): Promise<Uint8Array> {
+  const SQL = await loadSqlJs()
+  const db = new SQL.Database()
+
+  try {
+    db.run(COLLECTION_SCHEMA)
+
+    const nowMs = Date.now()
+    const nowSec = Math.floor(nowMs / 1000)
+    // The collection starts today, so today's day number is 0 and review due dates count from it
+    const crt = Math.floor(nowSec / DAY_SECONDS) * DAY_SECONDS
+    const dayNumber = (date: Date) => Math.floor((date.getTime() / 1000 - crt) / DAY_SECONDS)
+
+    // Anki ids are millisecond timestamps; hand out increasing ones so they stay unique
+    let lastId = nowMs
+    const nextId = () => ++lastId
+
+    const basicModelId = nextId()
+    const clozeModelId = nextId()
+
+    const deckIds = new Map<string, number>()
+    for (const note of notes) {
+      if (!deckIds.has(note.deck)) deckIds.set(note.deck, nextId())
+    }
+
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [
+        crt, nowMs, nowMs,
+        JSON.stringify(collectionConfig(basicModelId)),
+        JSON.stringify({
+          [basicModelId]: basicModel(basicModelId, nowSec),
+          [clozeModelId]: clozeModel(clozeModelId, nowSec)
+        }),
+        JSON.stringify(deckDefinitions(deckIds, nowSec)),
+        JSON.stringify({ 1: DEFAULT_DECK_CONFIG }),
+        '{}'
+      ]
+    )
+
+    let newPosition = 0
+    let lastReviewId = 0
+    for (const note of notes) {
+      const noteId = nextId()
+      const sortField = stripHtml(note.fields[0])
+      db.run(
+        'INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')',
+        [
+          noteId,
+          note.guid,
+          note.kind === 'cloze' ? clozeModelId : basicModelId,
+          nowSec,
+          note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '',
+          note.fields.join('\x1f'),
+          sortField,
+          fieldChecksum(sortField)
+        ]
+      )
+
+      for (const card of note.cards) {
+        const cardId = nextId()
+        let queue: number = ANKI_QUEUE.new
+        let due = ++newPosition
+        if (card.type === ANKI_CARD_TYPE.review && card.dueAt) {
+          queue = ANKI_QUEUE.review
+          due = dayNumber(card.dueAt)
+        } else if (card.type !== ANKI_CARD_TYPE.new && card.dueAt) {
+          queue = ANKI_QUEUE.learning
+          due = Math.floor(card.dueAt.getTime() / 1000)
+        }
+
+        db.run(
+          'INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, \'\')',
+          [
+            cardId, noteId, deckIds.get(note.deck)!, card.ord, nowSec,
+            card.type, queue, due, card.intervalDays,
+            card.type === ANKI_CARD_TYPE.new ? 0 : card.factor,
+            card.reps, card.lapses,
+            // Learning cards: one step left today and until graduation
+            card.type === ANKI_CARD_TYPE.learning || card.type === ANKI_CARD_TYPE.relearning ? 1001 : 0
+          ]
+        )
+
+        let lastInterval = 0
+        for (const review of card.reviews) {
+          // Two reviews in the same millisecond would collide on the id
+          lastReviewId = Math.max(review.reviewedAt.getTime(), lastReviewId + 1)
+          db.run(
+            'INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)',
+            [lastReviewId, cardId, review.ease, review.intervalDays, lastInterval, review.factor, review.timeMs, review.type]
+          )
+          lastInterval = review.intervalDays
+        }
+      }
+    }
+
+    const zip = new JSZip()
+    zip.file('collection.anki2', db.export())
+
+    const manifest: Record<string, string> = {}
+    media.forEach((file, index) => {
+      manifest[String(index)] = file.name
+      zip.file(String(index), file.data)
+    })
+    zip.file('media', JSON.stringify(manifest))
+
+    return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * A stable note guid, so exporting the same card again updates the note in Anki instead of duplicating it
+ */
+export function ankiGuid(key: string): string {
+  return createHash('sha1').update(`mangonote:${key}`).digest('base64').slice(0, 10)
+}
+
+/**
+ * A random guid for notes with no stable key
+ */
+export function randomAnkiGuid(): string {
+  return randomBytes(8).toString('base64').slice(0, 10)
+}
+
+/**
+ * Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+ */
+function fieldChecksum(text: string): number {
+  return parseInt(createHash('sha1').update(text).digest('hex').slice(0, 8), 16)
+}
+
+/**
+ * Field HTML as plain text: line breaks kept, tags dropped, entities decoded
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Plain text as field HTML
+ */
+export function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>')
+}
+
+function collectionConfig(currentModelId: number) {
+  return {
+    activeDecks: [1],
+    curDeck: 1,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: currentModelId,
+    nextPos: 1,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    addToCur: true
+  }
+}
+
+function deckDefinitions(deckIds: Map<string, number>, mod: number) {
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    mod,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0
+  })
+
+  const decks: Record<string, any> = { 1: deck(1, 'Default') }
+  deckIds.forEach((id, name) => {
+    decks[id] = deck(id, name)
+  })
+  return decks
+}
+
+const MODEL_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }'
+
+function modelField(name: string, ord: number) {
+  return { name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] }
+}
+
+function basicModel(id: number, mod: number) {
+  return {
+    id,
+    name: 'MangoNote Basic',
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: 1,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+      did: null,
+      bqfmt: '',
+      bafmt: ''
+    }],
+    flds: [modelField('Front', 0), modelField('Back', 1)],
+    css: MODEL_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: []
+  }
+}
+
+function clozeModel(id: number, mod: number) {
+  return {
+    ...basicModel(id, mod),
+    name: 'MangoNote Cloze',
+    type: 1,
+    tmpls: [{
+      name: 'Cloze',
+      ord: 0,
+      qfmt: '{{cloze:Text}}',
+      afmt: '{{cloze:Text}}<br>\n{{Back Extra}}',
+      did: null,
+      bqfmt: '',
+      bafmt: ''
+    }],
+    flds: [modelField('Text', 0), modelField('Back Extra', 1)],
+    req: undefined
+  }
+}
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+  rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false }
+}
+
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+  );
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`
@@ -0,0 +1,80 @@
+/**
+ * Content block types and the shape of each one's content
+ * Shared by the blocks API, which validates edits, and the note page, which renders and edits them
+ *
+ *   summary         { text }, AI-written overview of the source
+ *   key_points      { points: string[] }
+ *   questions       { questions: string[] }, study questions
+ *   text            { text }, e.g. an audio transcription
+ *   personal_notes  { text }, written by the user; at most one per note, kept when the note is re-analyzed
+ *   error           { message }, shown when AI analysis failed; read-only
+ *
+ * AI blocks carry extra metadata (word_count, ai_generated, ...) that edits leave in place.
+ */
+
+export type ContentBlockType = 'summary' | 'key_points' | 'questions' | 'text' | 'personal_notes'
+
+export const EDITABLE_BLOCK_TYPES: ContentBlockType[] = ['summary', 'key_points', 'questions', 'text', 'personal_notes']
+
+export const PERSONAL_NOTES_TYPE: ContentBlockType = 'personal_notes'
+
+export const MAX_BLOCK_TITLE_LENGTH = 200
+export const MAX_BLOCK_TEXT_LENGTH = 50000
+export const MAX_BLOCK_ITEMS = 100
+
+// Title and icon for blocks the user adds
+export const BLOCK_DEFAULTS: Record<ContentBlockType, { title: string; icon: string; icon_color: string }> = {
+  summary: { title: 'Summary', icon: '🤖', icon_color: '#3B82F6' },
+  key_points: { title: 'Key Points', icon: '🔑', icon_color: '#10B981' },
+  questions: { title: 'Study Questions', icon: '❓', icon_color: '#8B5CF6' },
+  text: { title: 'Text', icon: '📄', icon_color: '#6B7280' },
+  personal_notes: { title: 'My Notes', icon: '✍️', icon_color: '#FFC300' }
+}
+
+/**
+ * Whether a block's content is a list, and under which key
+ */
+export function blockListKey(type: string): 'points' | 'questions' | null {
+  if (type === 'key_points') return 'points'
+  if (type === 'questions') return 'questions'
+  return null
+}
+
+/**
+ * Empty content for a new block of a type
+ */
+export function emptyBlockContent(type: ContentBlockType): Record<string, unknown> {
+  const listKey = blockListKey(type)
+  return listKey ? { [listKey]: [] } : { text: '' }
+}
+
+/**
+ * Check the editable part of a block's content
+ * @returns An error message, or null if the content is valid
+ */
+export function validateBlockContent(type: string, content: unknown): string | null {
+  if (!EDITABLE_BLOCK_TYPES.includes(type as ContentBlockType)) {
+    return `type must be one of: ${EDITABLE_BLOCK_TYPES.join(', ')}`
+  }
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    return 'content must be an object'
+  }
+
+  const listKey = blockListKey(type)
+  if (listKey) {
+    const items = (content as Record<string, unknown>)[listKey]
+    if (!Array.isArray(items) || !items.every(item => typeof item === 'string')) {
+      return `content.${listKey} must be an array of strings`
+    }
+    if (items.length > MAX_BLOCK_ITEMS) {
+      return `content.${listKey} can hold at most ${MAX_BLOCK_ITEMS} items`
+    }
+    return items.some(item => item.length > MAX_BLOCK_TEXT_LENGTH) ? `Each item must be at most ${MAX_BLOCK_TEXT_LENGTH} characters` : null
+  }
+
+  const text = (content as Record<string, unknown>).text
+  if (typeof text !== 'string') {
+    return 'content.text must be a string'
+  }
+  return text.length > MAX_BLOCK_TEXT_LENGTH ? `content.text must be at most ${MAX_BLOCK_TEXT_LENGTH} characters` : null
+}
@@ -1,4 +1,4 @@
-import { Pool } from 'pg'
+import { Pool, PoolClient } from 'pg'
 
 // Database configuration
 const pool = new Pool({
@@ -33,6 +33,8 @@ export interface Note {
   transcription?: string
   image_url?: string
   markdown?: string
+  failure_reason?: string
+  source_hash?: string
 }
 
 export interface ContentBlock {
@@ -58,6 +60,7 @@ export interface Flashcard {
 export interface Folder {
   id: string
   user_id: string
+  parent_id?: string | null
   name: string
   color?: string
   icon?: string
@@ -85,4 +88,20 @@ export async function queryOne(text: string, params?: any[]) {
 export async function queryMany(text: string, params?: any[]) {
   const result = await query(text, params)
   return result.rows
-}
\ No newline at end of file
+}
+
+// Helper function to run several queries on one connection inside a transaction
+export async function transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const result = await callback(client)
+    await client.query('COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
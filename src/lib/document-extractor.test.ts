@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import { parseHTML } from 'linkedom'
+import { DocumentFormatError, getDocumentExtractor, htmlToText } from '@/lib/document-extractor'
+
+function readFixture(fileName: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, 'fixtures', 'documents', fileName)))
+}
+
+async function extract(fileName: string, data = readFixture(fileName)) {
+  return getDocumentExtractor(fileName)!.extract(data)
+}
+
+/**
+ * Zip a small file, then rewrite its central directory entry to claim it inflates to `declaredSize`
+ */
+async function zipDeclaringSize(path: string, declaredSize: number): Promise<Uint8Array> {
+  const zip = new JSZip()
+  zip.file(path, '<w:document/>')
+  const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  for (let offset = 0; offset < data.length - 4; offset++) {
+    if (view.getUint32(offset, true) === 0x02014b50) view.setUint32(offset + 24, declaredSize, true)
+  }
+  return data
+}
+
+describe('getDocumentExtractor', () => {
+  it('picks the extractor by extension, then by MIME type', () => {
+    expect(getDocumentExtractor('Slides.PPTX')?.format).toBe('pptx')
+    expect(getDocumentExtractor('upload', 'application/epub+zip')?.format).toBe('epub')
+    expect(getDocumentExtractor('notes.txt', 'text/plain')).toBeNull()
+  })
+})
+
+describe('htmlToText', () => {
+  it('keeps headings, bullets and paragraphs and drops scripts', () => {
+    const { document } = parseHTML('<html><body><h2>Title</h2><p>One  two</p><ul><li>Item</li></ul><script>x()</script></body></html>')
+    expect(htmlToText(document.body)).toBe('## Title\n\nOne two\n\n- Item')
+  })
+})
+
+describe('document extractors', () => {
+  it('reads a Word document with headings, nested bullets and tables', async () => {
+    const { text } = await extract('sample.docx')
+
+    expect(text).toContain('# Photosynthesis\n\nPlants turn light into chemical energy.')
+    expect(text).toContain('## Inputs\n\n- Carbon dioxide\n  - Water')
+    expect(text).toContain('Stage | Location\nLight reactions | Thylakoid')
+  })
+
+  it('reads PowerPoint slides with titles, bullet levels and speaker notes', async () => {
+    const { text } = await extract('sample.pptx')
+
+    expect(text).toBe([
+      '## Slide 1: The Water Cycle',
+      '- Evaporation\n  - Driven by the sun\n- Condensation',
+      'Speaker notes:\nMention the ocean first.',
+      '## Slide 2: Summary',
+      'Water moves in a loop'
+    ].join('\n\n'))
+  })
+
+  it('reads an EPUB in spine order with contents titles', async () => {
+    const { text, title } = await extract('sample.epub')
+
+    expect(title).toBe('A Short Book')
+    expect(text).toBe([
+      '# Beginnings',
+      'It started on a quiet morning.',
+      '- First item\n- Second item',
+      '# The Journey',
+      'They walked all day.'
+    ].join('\n\n'))
+  })
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(extract('broken.docx', new TextEncoder().encode('not a zip'))).rejects.toBeInstanceOf(DocumentFormatError)
+  })
+
+  it('rejects archives that would inflate past the size limit without inflating them', async () => {
+    const data = await zipDeclaringSize('word/document.xml', 0x7fffffff)
+    await expect(extract('bomb.docx', data)).rejects.toThrow('too large to read once unpacked')
+  })
+})
@@ -0,0 +1,450 @@
+/**
+ * Text extraction for uploaded documents
+ * Each format gets an extractor that turns the file into plain text for the AI pipeline,
+ * keeping the structure the analysis benefits from: headings, bullets, slide and chapter breaks.
+ */
+
+import JSZip from 'jszip'
+import { DOMParser, parseHTML } from 'linkedom'
+import { AIError } from './error-handler'
+import { uncompressedSize } from './zip-limits'
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'epub'
+
+export interface ExtractedDocument {
+  text: string
+  title?: string | null // Title from the document's own metadata, when it's reliable enough to name the note
+}
+
+export interface DocumentExtractor {
+  format: DocumentFormat
+  label: string // For progress messages, e.g. "Extracting text from PowerPoint slides..."
+  extensions: string[]
+  mimeTypes: string[]
+  extract(data: Uint8Array): Promise<ExtractedDocument>
+}
+
+/**
+ * The file is damaged, encrypted or not the format its name says; retrying won't help
+ */
+export class DocumentFormatError extends AIError {
+  constructor(message: string) {
+    super(message, 'INVALID_DOCUMENT', message, false)
+    this.name = 'DocumentFormatError'
+  }
+}
+
+// Uploads are at most 50MB; anything inflating far past that is a zip bomb
+const MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024
+
+// EPUB font mangling schemes, which leave the text itself readable
+const FONT_OBFUSCATION_ALGORITHMS = ['http://www.idpf.org/2008/embedding', 'http://ns.adobe.com/pdf/enc#RC']
+
+// Elements that start a new paragraph when HTML is flattened to text
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+  'FORM', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TR', 'UL'
+])
+
+/**
+ * Flatten an HTML element into text with blank lines between paragraphs and Markdown-style headings and bullets
+ */
+export function htmlToText(root: Node | null | undefined): string {
+  const parts: string[] = []
+
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      parts.push((node.textContent || '').replace(/\s+/g, ' '))
+      return
+    }
+    if (node.nodeType !== 1) return
+
+    const element = node as Element
+    const tag = element.tagName.toUpperCase()
+    if (tag === 'SCRIPT' || tag === 'STYLE' || tag === 'NOSCRIPT') return
+    if (tag === 'BR') {
+      parts.push('\n')
+      return
+    }
+    if (tag === 'PRE') {
+      parts.push(`\n\n${element.textContent}\n\n`)
+      return
+    }
+
+    const heading = tag.match(/^H([1-6])$/)
+    if (heading) parts.push(`\n\n${'#'.repeat(Number(heading[1]))} `)
+    else if (tag === 'LI') parts.push('\n- ')
+    else if (BLOCK_TAGS.has(tag)) parts.push('\n\n')
+
+    element.childNodes.forEach(walk)
+
+    if (heading || (BLOCK_TAGS.has(tag) && tag !== 'LI')) parts.push('\n\n')
+    else if (tag === 'TD' || tag === 'TH') parts.push(' | ')
+  }
+
+  if (root) walk(root)
+
+  return parts.join('')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/^- \n+/gm, '- ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+async function openZip(data: Uint8Array, formatName: string): Promise<JSZip> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(data)
+  } catch {
+    throw new DocumentFormatError(`This file is not a valid ${formatName} file. It may be damaged or in an older format.`)
+  }
+
+  // Sizes come from the zip's directory, so this runs before anything is inflated
+  const totalSize = Object.values(zip.files).reduce((total, file) => total + (file.dir ? 0 : uncompressedSize(file)), 0)
+  if (totalSize > MAX_UNCOMPRESSED_BYTES) {
+    throw new DocumentFormatError(`This ${formatName} file is too large to read once unpacked.`)
+  }
+  return zip
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path)
+  if (!file) return null
+  return new DOMParser().parseFromString(await file.async('string'), 'text/xml') as unknown as Document
+}
+
+// linkedom's XML documents don't support getElementsByTagName('*')
+function descendants(element: Element): Element[] {
+  return Array.from(element.children).flatMap(child => [child, ...descendants(child)])
+}
+
+/**
+ * Resolve a path inside a zip relative to the file that refers to it, e.g. ("ppt/slides/slide1.xml", "../notesSlides/notesSlide1.xml")
+ */
+function resolveZipPath(fromFile: string, href: string): string {
+  const target = decodeURIComponent(href.split('#')[0])
+  if (target.startsWith('/')) return target.slice(1)
+
+  const segments = fromFile.split('/').slice(0, -1)
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop()
+    else if (segment && segment !== '.') segments.push(segment)
+  }
+  return segments.join('/')
+}
+
+/**
+ * Relationship id -> target path, from an Office Open XML .rels part
+ */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, { type: string; path: string }>> {
+  const slash = partPath.lastIndexOf('/')
+  const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`
+  const rels = await readXml(zip, relsPath)
+  const relationships = new Map<string, { type: string; path: string }>()
+
+  Array.from(rels?.getElementsByTagName('Relationship') || []).forEach(rel => {
+    if (rel.getAttribute('TargetMode') === 'External') return
+    relationships.set(rel.getAttribute('Id') || '', {
+      type: rel.getAttribute('Type') || '',
+      path: resolveZipPath(partPath, rel.getAttribute('Target') || '')
+    })
+  })
+
+  return relationships
+}
+
+function joinSections(sections: string[]): string {
+  return sections.map(section => section.trim()).filter(Boolean).join('\n\n')
+}
+
+const pdfExtractor: DocumentExtractor = {
+  format: 'pdf',
+  label: 'PDF',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+
+  async extract(data) {
+    // Dynamically import to avoid build issues
+    const pdfParse = (await import('pdf-parse')).default
+    try {
+      const pdfData = await pdfParse(Buffer.from(data))
+      return { text: pdfData.text }
+    } catch (error) {
+      console.error('pdf-parse failed:', error)
+      throw new DocumentFormatError('This PDF could not be read. It may be damaged or password protected.')
+    }
+  }
+}
+
+/**
+ * Word: paragraphs in order, headings from the paragraph style, list items as bullets, tables row by row
+ */
+const docxExtractor: DocumentExtractor = {
+  format: 'docx',
+  label: 'Word document',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+
+  async extract(data) {
+    const zip = await openZip(data, 'Word (.docx)')
+    const document = await readXml(zip, 'word/document.xml')
+    const body = document?.getElementsByTagName('w:body')[0]
+    if (!body) {
+      throw new DocumentFormatError('This file is not a valid Word (.docx) file.')
+    }
+
+    // Style ids are localized ("berschrift1" in German Word), so headings are found by name or outline level
+    const headingLevels = new Map<string, number>()
+    const styles = await readXml(zip, 'word/styles.xml')
+    Array.from(styles?.getElementsByTagName('w:style') || []).forEach(style => {
+      const name = style.getElementsByTagName('w:name')[0]?.getAttribute('w:val') || ''
+      const outline = style.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val')
+      const named = name.match(/^heading (\d)$/i)
+      const level = /^title$/i.test(name) ? 1 : named ? Number(named[1]) : outline != null ? Number(outline) + 1 : 0
+      if (level >= 1 && level <= 6) headingLevels.set(style.getAttribute('w:styleId') || '', level)
+    })
+
+    const paragraphText = (paragraph: Element): string => {
+      let text = ''
+      const walk = (node: Element) => {
+        if (node.tagName === 'w:t') text += node.textContent || ''
+        else if (node.tagName === 'w:tab') text += '\t'
+        else if (node.tagName === 'w:br' || node.tagName === 'w:cr') text += '\n'
+        // Text boxes are stored twice, as DrawingML and as a VML fallback
+        else if (node.tagName !== 'mc:Fallback') Array.from(node.children).forEach(walk)
+      }
+      walk(paragraph)
+      return text.trim()
+    }
+
+    const lines: string[] = []
+    const visit = (element: Element) => {
+      if (element.tagName === 'w:tbl') {
+        Array.from(element.getElementsByTagName('w:tr')).forEach(row => {
+          const cells = Array.from(row.getElementsByTagName('w:tc'))
+            .map(cell => Array.from(cell.getElementsByTagName('w:p')).map(paragraphText).filter(Boolean).join(' '))
+          if (cells.some(Boolean)) lines.push(cells.join(' | '))
+        })
+        lines.push('')
+        return
+      }
+
+      if (element.tagName === 'w:sdt') {
+        const content = element.getElementsByTagName('w:sdtContent')[0]
+        if (content) Array.from(content.children).forEach(visit)
+        return
+      }
+
+      if (element.tagName !== 'w:p') return
+
+      const text = paragraphText(element)
+      if (!text) return
+
+      const properties = element.getElementsByTagName('w:pPr')[0]
+      const styleId = properties?.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') || ''
+      const headingLevel = headingLevels.get(styleId)
+      const listLevel = properties?.getElementsByTagName('w:numPr')[0]
+        ? Number(properties.getElementsByTagName('w:ilvl')[0]?.getAttribute('w:val') || 0)
+        : null
+
+      if (headingLevel) {
+        lines.push('', `${'#'.repeat(headingLevel)} ${text}`, '')
+      } else if (listLevel !== null) {
+        lines.push(`${'  '.repeat(listLevel)}- ${text}`)
+      } else {
+        lines.push(text, '')
+      }
+    }
+    Array.from(body.children).forEach(visit)
+
+    return { text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() }
+  }
+}
+
+/**
+ * PowerPoint: one section per slide with its title, bullets (indented by level) and speaker notes
+ */
+const pptxExtractor: DocumentExtractor = {
+  format: 'pptx',
+  label: 'PowerPoint slides',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+
+  async extract(data) {
+    const zip = await openZip(data, 'PowerPoint (.pptx)')
+    const presentation = await readXml(zip, 'ppt/presentation.xml')
+    if (!presentation) {
+      throw new DocumentFormatError('This file is not a valid PowerPoint (.pptx) file.')
+    }
+
+    const relationships = await readRelationships(zip, 'ppt/presentation.xml')
+    const slidePaths = Array.from(presentation.getElementsByTagName('p:sldId'))
+      .map(slide => relationships.get(slide.getAttribute('r:id') || '')?.path)
+      .filter((path): path is string => !!path)
+
+    const paragraphLines = (container: Element, bullets: boolean): string[] =>
+      Array.from(container.getElementsByTagName('a:p')).map(paragraph => {
+        let text = ''
+        descendants(paragraph).forEach(node => {
+          if (node.tagName === 'a:t') text += node.textContent || ''
+          else if (node.tagName === 'a:br') text += ' '
+        })
+        text = text.trim()
+        if (!text || !bullets) return text
+
+        const level = Number(paragraph.getElementsByTagName('a:pPr')[0]?.getAttribute('lvl') || 0)
+        return `${'  '.repeat(level)}- ${text}`
+      }).filter(Boolean)
+
+    const placeholderType = (shape: Element) =>
+      shape.getElementsByTagName('p:ph')[0]?.getAttribute('type') || (shape.getElementsByTagName('p:ph')[0] ? 'body' : null)
+
+    const sections: string[] = []
+    for (let i = 0; i < slidePaths.length; i++) {
+      const slide = await readXml(zip, slidePaths[i])
+      if (!slide) continue
+
+      let title = ''
+      const lines: string[] = []
+
+      Array.from(slide.getElementsByTagName('p:sp')).forEach(shape => {
+        const type = placeholderType(shape)
+        const textBody = shape.getElementsByTagName('p:txBody')[0]
+        if (!textBody || type === 'sldNum' || type === 'dt' || type === 'ftr' || type === 'hdr') return
+
+        if ((type === 'title' || type === 'ctrTitle') && !title) {
+          title = paragraphLines(textBody, false).join(' ')
+        } else {
+          lines.push(...paragraphLines(textBody, type !== 'subTitle'))
+        }
+      })
+
+      Array.from(slide.getElementsByTagName('a:tbl')).forEach(table => {
+        Array.from(table.getElementsByTagName('a:tr')).forEach(row => {
+          const cells = Array.from(row.getElementsByTagName('a:tc')).map(cell => paragraphLines(cell, false).join(' '))
+          if (cells.some(Boolean)) lines.push(cells.join(' | '))
+        })
+      })
+
+      const notesPart = Array.from((await readRelationships(zip, slidePaths[i])).values())
+        .find(rel => rel.type.endsWith('/notesSlide'))
+      const notes = notesPart ? await readXml(zip, notesPart.path) : null
+      const noteLines = Array.from(notes?.getElementsByTagName('p:sp') || [])
+        .filter(shape => placeholderType(shape) === 'body')
+        .flatMap(shape => paragraphLines(shape, false))
+
+      if (!title && lines.length === 0 && noteLines.length === 0) continue
+
+      sections.push([
+        `## Slide ${i + 1}${title ? `: ${title}` : ''}`,
+        lines.join('\n'),
+        noteLines.length > 0 ? `Speaker notes:\n${noteLines.join('\n')}` : ''
+      ].filter(Boolean).join('\n\n'))
+    }
+
+    return { text: joinSections(sections) }
+  }
+}
+
+/**
+ * EPUB: spine documents in reading order, each headed by its table-of-contents entry
+ */
+const epubExtractor: DocumentExtractor = {
+  format: 'epub',
+  label: 'EPUB book',
+  extensions: ['epub'],
+  mimeTypes: ['application/epub+zip'],
+
+  async extract(data) {
+    const zip = await openZip(data, 'EPUB')
+
+    // Font obfuscation is common and harmless; any other encryption is DRM on the content itself
+    const encryption = await readXml(zip, 'META-INF/encryption.xml')
+    const drm = (encryption ? descendants(encryption.documentElement) : [])
+      .filter(element => element.tagName.replace(/^\w+:/, '') === 'EncryptionMethod')
+      .some(method => !FONT_OBFUSCATION_ALGORITHMS.includes(method.getAttribute('Algorithm') || ''))
+    if (drm) {
+      throw new DocumentFormatError('This e-book is DRM protected and its text cannot be read.')
+    }
+
+    const container = await readXml(zip, 'META-INF/container.xml')
+    const opfPath = container?.getElementsByTagName('rootfile')[0]?.getAttribute('full-path')
+    const opf = opfPath ? await readXml(zip, opfPath) : null
+    if (!opfPath || !opf) {
+      throw new DocumentFormatError('This file is not a valid EPUB e-book.')
+    }
+
+    const manifest = new Map<string, { path: string; mediaType: string; properties: string }>()
+    Array.from(opf.getElementsByTagName('item')).forEach(item => {
+      manifest.set(item.getAttribute('id') || '', {
+        path: resolveZipPath(opfPath, item.getAttribute('href') || ''),
+        mediaType: item.getAttribute('media-type') || '',
+        properties: item.getAttribute('properties') || ''
+      })
+    })
+
+    const spine = opf.getElementsByTagName('spine')[0]
+    const chapterTitles = new Map<string, string>()
+    const addTitle = (fromFile: string, href: string | null, label: string | null | undefined) => {
+      const path = href ? resolveZipPath(fromFile, href) : ''
+      const text = (label || '').replace(/\s+/g, ' ').trim()
+      if (path && text && !chapterTitles.has(path)) chapterTitles.set(path, text)
+    }
+
+    // EPUB 3 navigation document, falling back to the EPUB 2 NCX
+    const nav = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes('nav'))
+    const navFile = nav && zip.file(nav.path)
+    if (nav && navFile) {
+      const { document } = parseHTML(await navFile.async('string'))
+      const tocNav = Array.from(document.querySelectorAll('nav')).find(element => element.getAttribute('epub:type') === 'toc')
+        || document.querySelector('nav')
+      tocNav?.querySelectorAll('a[href]').forEach(link => addTitle(nav.path, link.getAttribute('href'), link.textContent))
+    } else {
+      const ncxItem = manifest.get(spine?.getAttribute('toc') || '')
+        || Array.from(manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml')
+      const ncx = ncxItem ? await readXml(zip, ncxItem.path) : null
+      Array.from(ncx?.getElementsByTagName('navPoint') || []).forEach(point => {
+        const label = point.getElementsByTagName('navLabel')[0]?.getElementsByTagName('text')[0]?.textContent
+        addTitle(ncxItem!.path, point.getElementsByTagName('content')[0]?.getAttribute('src') || null, label)
+      })
+    }
+
+    const sections: string[] = []
+    for (const itemref of Array.from(spine?.getElementsByTagName('itemref') || [])) {
+      if (itemref.getAttribute('linear') === 'no') continue
+      const item = manifest.get(itemref.getAttribute('idref') || '')
+      if (!item || item === nav || !/x?html/.test(item.mediaType)) continue
+
+      const file = zip.file(item.path)
+      if (!file) continue
+
+      const { document } = parseHTML(await file.async('string'))
+      const text = htmlToText(document.body)
+      if (!text) continue
+
+      // The chapter usually opens with its own heading; only add the contents entry when it doesn't
+      const chapterTitle = chapterTitles.get(item.path)
+      const opening = text.match(/^#+ (.*)/)?.[1]
+      const headed = !chapterTitle || (opening && opening.toLowerCase().includes(chapterTitle.toLowerCase()))
+      sections.push(headed ? text : `# ${chapterTitle}\n\n${text}`)
+    }
+
+    const title = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim() || null
+    return { text: joinSections(sections), title }
+  }
+}
+
+export const DOCUMENT_EXTRACTORS: DocumentExtractor[] = [pdfExtractor, docxExtractor, pptxExtractor, epubExtractor]
+
+/**
+ * Pick the extractor for an upload by its extension, falling back to the MIME type
+ * @returns The extractor, or null if the file isn't a supported document
+ */
+export function getDocumentExtractor(fileName?: string | null, mimeType?: string | null): DocumentExtractor | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase()
+  return DOCUMENT_EXTRACTORS.find(extractor => extension && extractor.extensions.includes(extension))
+    || DOCUMENT_EXTRACTORS.find(extractor => mimeType && extractor.mimeTypes.includes(mimeType))
+    || null
+}
@@ -0,0 +1,223 @@
+/**
+ * Markdown to Word (.docx)
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx'
+import type { List, RootContent, Table as MarkdownTable } from 'mdast'
+import { parseMarkdown, toTextRuns, TextRun as MarkdownRun } from '@/lib/markdown-ast'
+import { MindMapDrawing, mindMapToSvg } from '@/lib/mindmap-drawing'
+
+export interface DocxExportOptions {
+  title: string
+  // Placed wherever the Markdown has an image with this src
+  mindMap?: { src: string; drawing: MindMapDrawing } | null
+}
+
+const CODE_FONT = 'Consolas'
+const CODE_SHADING = { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' }
+const RULE_COLOR = 'D1D5DB'
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+]
+const ORDERED_LIST = 'ordered-list'
+// Word shows this when it can't draw SVG (before Word 2016); a blank 1x1 PNG
+const SVG_FALLBACK_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+)
+// Usable width of an A4/Letter page at Word's default margins, in pixels
+const MAX_IMAGE_WIDTH = 600
+
+interface Context {
+  mindMap: DocxExportOptions['mindMap']
+  // Each ordered list restarts its numbering
+  nextListInstance: number
+}
+
+function toDocxRuns(runs: MarkdownRun[], size?: number): ParagraphChild[] {
+  return runs.map(run => {
+    // Hard line breaks arrive as '\n' inside the run text
+    const children = run.text.split('\n').map((line, index) => new TextRun({
+      text: line,
+      break: index > 0 ? 1 : undefined,
+      bold: run.bold,
+      italics: run.italic,
+      strike: run.strike,
+      font: run.code ? CODE_FONT : undefined,
+      shading: run.code ? CODE_SHADING : undefined,
+      size,
+      style: run.link ? 'Hyperlink' : undefined
+    }))
+
+    return run.link
+      ? new ExternalHyperlink({ link: run.link, children })
+      : children
+  }).reduce<ParagraphChild[]>((all, child) => all.concat(child), [])
+}
+
+function mindMapImage(drawing: MindMapDrawing): Paragraph {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / drawing.width)
+
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [
+      new ImageRun({
+        type: 'svg',
+        data: Buffer.from(mindMapToSvg(drawing)),
+        fallback: { type: 'png', data: SVG_FALLBACK_PNG },
+        transformation: {
+          width: Math.round(drawing.width * scale),
+          height: Math.round(drawing.height * scale)
+        },
+        altText: { name: 'Mind map', description: 'Mind map', title: 'Mind map' }
+      })
+    ]
+  })
+}
+
+function tableBlock(table: MarkdownTable): Table {
+  const columns = Math.max(...table.children.map(row => row.children.length))
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: table.children.map((row, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: Array.from({ length: columns }, (_, column) => new TableCell({
+        shading: rowIndex === 0 ? CODE_SHADING : undefined,
+        children: [
+          new Paragraph({
+            children: toDocxRuns(
+              row.children[column] ? toTextRuns(row.children[column].children, { bold: rowIndex === 0 }) : []
+            )
+          })
+        ]
+      }))
+    }))
+  })
+}
+
+function listBlocks(list: List, level: number, context: Context): Array<Paragraph | Table> {
+  const instance = context.nextListInstance++
+  const blocks: Array<Paragraph | Table> = []
+
+  for (const item of list.children) {
+    const checkbox = item.checked === true ? '☑ ' : item.checked === false ? '☐ ' : ''
+
+    item.children.forEach((child, childIndex) => {
+      if (childIndex === 0 && child.type === 'paragraph') {
+        blocks.push(new Paragraph({
+          children: toDocxRuns([...(checkbox ? [{ text: checkbox }] : []), ...toTextRuns(child.children)]),
+          ...(list.ordered
+            ? { numbering: { reference: ORDERED_LIST, level, instance } }
+            : { bullet: { level } })
+        }))
+      } else if (child.type === 'list') {
+        blocks.push(...listBlocks(child, Math.min(level + 1, 8), context))
+      } else {
+        blocks.push(...toBlocks(child, context, { left: 720 * (level + 1) }))
+      }
+    })
+  }
+
+  return blocks
+}
+
+function toBlocks(node: RootContent, context: Context, indent?: { left: number }): Array<Paragraph | Table> {
+  switch (node.type) {
+    case 'heading':
+      return [new Paragraph({ heading: HEADINGS[node.depth - 1], children: toDocxRuns(toTextRuns(node.children)) })]
+
+    case 'paragraph': {
+      const image = node.children.length === 1 && node.children[0].type === 'image' ? node.children[0] : null
+      if (image && context.mindMap && image.url === context.mindMap.src) {
+        return [mindMapImage(context.mindMap.drawing)]
+      }
+      return [new Paragraph({ indent, children: toDocxRuns(toTextRuns(node.children)) })]
+    }
+
+    case 'list':
+      return listBlocks(node, 0, context)
+
+    case 'blockquote':
+      return node.children.map(child => child.type === 'paragraph'
+        ? [new Paragraph({
+            indent: { left: (indent?.left || 0) + 360 },
+            border: { left: { style: BorderStyle.SINGLE, size: 12, color: RULE_COLOR, space: 8 } },
+            children: toDocxRuns(toTextRuns(child.children, { italic: true }))
+          })]
+        : toBlocks(child, context, { left: (indent?.left || 0) + 360 })
+      ).reduce<Array<Paragraph | Table>>((all, blocks) => all.concat(blocks), [])
+
+    case 'code':
+    case 'math':
+      return [new Paragraph({
+        indent,
+        alignment: node.type === 'math' ? AlignmentType.CENTER : undefined,
+        shading: CODE_SHADING,
+        children: toDocxRuns([{ text: node.value, code: true }], 18)
+      })]
+
+    case 'table':
+      return [tableBlock(node)]
+
+    case 'thematicBreak':
+      return [new Paragraph({
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: RULE_COLOR, space: 1 } },
+        children: []
+      })]
+
+    default:
+      return []
+  }
+}
+
+/**
+ * Render a Markdown document to a .docx file
+ */
+export async function markdownToDocx(markdown: string, options: DocxExportOptions): Promise<Buffer> {
+  const context: Context = { mindMap: options.mindMap, nextListInstance: 0 }
+  const children = parseMarkdown(markdown).children
+    .map(node => toBlocks(node, context))
+    .reduce<Array<Paragraph | Table>>((all, blocks) => all.concat(blocks), [])
+
+  const document = new Document({
+    title: options.title,
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+        }))
+      }]
+    },
+    sections: [{ children }]
+  })
+
+  return await Packer.toBuffer(document)
+}
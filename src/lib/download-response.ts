@@ -0,0 +1,34 @@
+/**
+ * File downloads from API routes
+ * Shared by the note, folder, vault and flashcard exports.
+ */
+
+import { NextResponse } from 'next/server'
+
+export interface DownloadFile {
+  fileName: string
+  contentType: string
+  data: Uint8Array
+}
+
+/**
+ * Content-Disposition for an attachment: an ASCII fallback for old clients,
+ * plus the UTF-8 name for titles in other scripts
+ */
+function attachmentDisposition(fileName: string): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '')
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+/**
+ * Response that makes the browser save the file instead of showing it
+ */
+export function downloadResponse(file: DownloadFile): NextResponse {
+  return new NextResponse(new Uint8Array(file.data), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': attachmentDisposition(file.fileName),
+      'Cache-Control': 'no-store'
+    }
+  })
+}
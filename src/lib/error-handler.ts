@@ -14,6 +14,22 @@ export class AIError extends Error {
   }
 }
 
+/**
+ * AI output that isn't valid JSON or doesn't match the expected schema.
+ * field is the path of the first offending value, e.g. "flashcards[2].answer".
+ */
+export class AIValidationError extends AIError {
+  constructor(
+    message: string,
+    code: 'PARSE_ERROR' | 'SCHEMA_VALIDATION_FAILED',
+    public field: string,
+    public issues: string[] = []
+  ) {
+    super(message, code, 'AI service returned an unexpected response. Please try again.', true)
+    this.name = 'AIValidationError'
+  }
+}
+
 export class ErrorHandler {
   /**
    * Convert technical errors to user-friendly messages
@@ -75,6 +91,20 @@ export class ErrorHandler {
     )
   }
 
+  /**
+   * Whether the user's monthly AI quota stopped the request; callers must not fall back to placeholder content
+   */
+  static isQuotaExceeded(error: unknown): error is AIError {
+    return error instanceof AIError && error.code === 'QUOTA_EXCEEDED'
+  }
+
+  /**
+   * HTTP status for an error: 429 when the quota is used up, otherwise the given default
+   */
+  static getStatusCode(error: Error, defaultStatus: number = 500): number {
+    return this.isQuotaExceeded(error) ? 429 : defaultStatus
+  }
+
   /**
    * Log errors for debugging while protecting sensitive information
    */
@@ -103,6 +133,7 @@ export class ErrorHandler {
       success: false,
       error: this.getUserFriendlyMessage(error),
       code: error instanceof AIError ? error.code : 'INTERNAL_ERROR',
+      ...(error instanceof AIValidationError ? { field: error.field } : {}),
       retryable: this.isRetryable(error),
       timestamp: new Date().toISOString()
     }
@@ -114,14 +145,14 @@ export class ErrorHandler {
  */
 export const AIErrors = {
   CONFIG_MISSING: new AIError(
-    'OpenRouter API key not configured',
+    'LLM provider not configured',
     'CONFIG_MISSING',
     'AI service is not properly configured. Please contact support.',
     false
   ),
   
   API_ERROR: new AIError(
-    'OpenRouter API request failed',
+    'LLM API request failed',
     'API_ERROR', 
     'AI service is temporarily unavailable. Please try again.',
     true
@@ -153,5 +184,12 @@ export const AIErrors = {
     'CONTENT_TOO_LARGE',
     'The content is too large to process. Please try with a smaller document.',
     false
+  ),
+
+  QUOTA_EXCEEDED: new AIError(
+    'Monthly usage quota exceeded',
+    'QUOTA_EXCEEDED',
+    'You have used up this month\'s AI allowance. It resets at the start of next month.',
+    false
   )
 }
\ No newline at end of file
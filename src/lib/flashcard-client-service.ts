@@ -3,12 +3,23 @@
  * Uses API routes instead of direct database access to avoid build issues
  */
 
+import type { FlashcardType, FlashcardDraft, ImageOcclusionMedia } from './flashcard-types'
+
+// Mirror SchedulerName, ReviewGrade and CardState in spaced-repetition-engine, which is server-only
+export type ReviewSchedulerName = 'sm2' | 'fsrs'
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+export type CardState = 'new' | 'learning' | 'review' | 'relearning'
+
 export interface FlashcardWithProgress {
   id: string
   note_id: string
   user_id: string
+  card_type: FlashcardType
   question: string
   answer: string
+  sibling_group: string | null
+  ordinal: number | null // Cloze number or mask number
+  media: ImageOcclusionMedia | null
   created_at: string
   review_count: number
   last_reviewed: string | null
@@ -19,8 +30,27 @@ export interface FlashcardWithProgress {
   interval_days?: number
   next_review_date?: string
   is_new?: boolean
+  card_state?: CardState
+  stability?: number | null
+  difficulty?: number | null
   priority?: 'overdue' | 'due' | 'upcoming'
   days_since_last_review?: number
+  next_intervals?: Record<ReviewGrade, number> // Minutes until due for each grade
+}
+
+export interface ReviewResult {
+  interval_days: number
+  next_review_date: string
+  card_state: CardState
+  learning_step: number | null
+  next_intervals?: Record<ReviewGrade, number>
+}
+
+export interface ReviewSettings {
+  scheduler: ReviewSchedulerName
+  learning_steps: number[] // Minutes
+  relearning_steps: number[]
+  timezone: string // IANA zone for days and streaks when a request doesn't send one
 }
 
 export interface ReviewStats {
@@ -28,6 +58,7 @@ export interface ReviewStats {
   reviews_today: number
   cards_mastered: number
   current_streak: number
+  longest_streak: number
   cards_due: number
   new_cards: number
   learning_cards: number
@@ -36,6 +67,39 @@ export interface ReviewStats {
   average_easiness_factor: number
 }
 
+export interface ActivityDay {
+  date: string // YYYY-MM-DD in the user's timezone
+  reviews: number
+  correct: number
+}
+
+export interface ReviewHeatmap {
+  timezone: string
+  days: ActivityDay[] // Only days with reviews
+  current_streak: number
+  longest_streak: number
+  last_study_date: string | null
+}
+
+export type FlashcardExportFormat = 'apkg' | 'csv'
+
+export interface FlashcardImportResult {
+  notes: Array<{ id: string; title: string; cards: number }>
+  cards_imported: number
+  reviews_imported: number
+  skipped: number
+}
+
+export interface ForecastDay {
+  date: string
+  due: number
+}
+
+// Sent with stats requests so days are counted where the user is
+export function browserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
 export class FlashcardClientService {
   /**
    * Get flashcards for review (uses spaced repetition)
@@ -63,12 +127,13 @@ export class FlashcardClientService {
 
   /**
    * Record a flashcard review
+   * @returns The card's new scheduling state, or null if the review was not recorded
    */
   async recordReview(
     flashcardId: string, 
-    difficulty: 'easy' | 'hard', 
+    grade: ReviewGrade, 
     responseTimeMs: number = 0
-  ): Promise<boolean> {
+  ): Promise<ReviewResult | null> {
     try {
       const response = await fetch('/api/flashcards/review', {
         method: 'POST',
@@ -77,16 +142,16 @@ export class FlashcardClientService {
         },
         body: JSON.stringify({
           flashcardId,
-          difficulty,
+          grade,
           responseTimeMs
         }),
       })
 
       const result = await response.json()
-      return result.success
+      return result.success ? result.data : null
     } catch (error) {
       console.error('Failed to record review:', error)
-      return false
+      return null
     }
   }
 
@@ -95,7 +160,10 @@ export class FlashcardClientService {
    */
   async getReviewStats(): Promise<ReviewStats> {
     try {
-      const response = await fetch('/api/flashcards/review-stats')
+      const url = new URL('/api/flashcards/review-stats', window.location.origin)
+      url.searchParams.append('tz', browserTimezone())
+
+      const response = await fetch(url.toString())
       const result = await response.json()
 
       if (result.success) {
@@ -110,6 +178,7 @@ export class FlashcardClientService {
         reviews_today: 0,
         cards_mastered: 0,
         current_streak: 0,
+        longest_streak: 0,
         cards_due: 0,
         new_cards: 0,
         learning_cards: 0,
@@ -120,16 +189,62 @@ export class FlashcardClientService {
     }
   }
 
+  /**
+   * Get reviews per day for the activity heatmap
+   */
+  async getReviewHeatmap(days: number = 365): Promise<ReviewHeatmap | null> {
+    try {
+      const url = new URL('/api/flashcards/review-heatmap', window.location.origin)
+      url.searchParams.append('days', days.toString())
+      url.searchParams.append('tz', browserTimezone())
+
+      const response = await fetch(url.toString())
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data
+      } else {
+        throw new Error(result.error || 'Failed to load review heatmap')
+      }
+    } catch (error) {
+      console.error('Failed to fetch review heatmap:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get how many cards come due on each of the next days
+   */
+  async getReviewForecast(days: number = 30): Promise<ForecastDay[]> {
+    try {
+      const url = new URL('/api/flashcards/review-forecast', window.location.origin)
+      url.searchParams.append('days', days.toString())
+      url.searchParams.append('tz', browserTimezone())
+
+      const response = await fetch(url.toString())
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data.days
+      } else {
+        throw new Error(result.error || 'Failed to load review forecast')
+      }
+    } catch (error) {
+      console.error('Failed to fetch review forecast:', error)
+      return []
+    }
+  }
+
   /**
    * Get flashcards for a specific note
    */
   async getFlashcardsByNoteId(noteId: string): Promise<FlashcardWithProgress[]> {
     try {
-      const response = await fetch(`/api/flashcards/${noteId}`)
+      const response = await fetch(`/api/flashcards/note/${noteId}`)
       const result = await response.json()
 
       if (result.success) {
-        return result.data
+        return result.data.flashcards
       } else {
         throw new Error(result.error || 'Failed to load note flashcards')
       }
@@ -138,4 +253,203 @@ export class FlashcardClientService {
       return []
     }
   }
+
+  /**
+   * Add a flashcard to a note
+   * @returns Every card created: one per cloze number or occlusion mask
+   */
+  async createFlashcard(noteId: string, draft: FlashcardDraft): Promise<FlashcardWithProgress[]> {
+    const response = await fetch('/api/flashcards', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ note_id: noteId, ...draft }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to create flashcard')
+    }
+    return result.data.flashcards
+  }
+
+  /**
+   * Upload an image for an image occlusion card
+   * @returns The uploaded image's URL
+   */
+  async uploadFlashcardImage(file: File): Promise<string> {
+    const formData = new FormData()
+    formData.append('image', file)
+
+    const response = await fetch('/api/flashcards/images', {
+      method: 'POST',
+      body: formData,
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to upload image')
+    }
+    return result.data.image_url
+  }
+
+  /**
+   * Download link for a note's flashcards, or for every due card when noteId is omitted
+   */
+  getExportUrl(format: FlashcardExportFormat, noteId?: string): string {
+    const params = new URLSearchParams({ format })
+    if (noteId) params.set('noteId', noteId)
+    return `/api/flashcards/export?${params}`
+  }
+
+  /**
+   * Import an Anki package (.apkg) or CSV; each deck becomes a new note
+   */
+  async importFlashcards(file: File, folderId?: string): Promise<FlashcardImportResult> {
+    const formData = new FormData()
+    formData.append('file', file)
+    if (folderId) formData.append('folderId', folderId)
+
+    const response = await fetch('/api/flashcards/import', {
+      method: 'POST',
+      body: formData,
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to import flashcards')
+    }
+    return result.data
+  }
+
+  /**
+   * Edit a flashcard; review progress is kept unless resetProgress is set
+   */
+  async updateFlashcard(
+    flashcardId: string,
+    updates: { question?: string; answer?: string },
+    resetProgress: boolean = false
+  ): Promise<FlashcardWithProgress> {
+    const response = await fetch(`/api/flashcards/${flashcardId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...updates, reset_progress: resetProgress }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to update flashcard')
+    }
+    return result.data
+  }
+
+  /**
+   * Delete a flashcard and its review history
+   */
+  async deleteFlashcard(flashcardId: string): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/flashcards/${flashcardId}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to delete flashcard:', error)
+      return false
+    }
+  }
+
+  /**
+   * Get the scheduling algorithm and learning steps the user reviews with
+   */
+  async getReviewSettings(): Promise<ReviewSettings> {
+    try {
+      const response = await fetch('/api/flashcards/scheduler')
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data
+      } else {
+        throw new Error(result.error || 'Failed to load review settings')
+      }
+    } catch (error) {
+      console.error('Failed to fetch review settings:', error)
+      return {
+        scheduler: 'sm2',
+        learning_steps: [1, 10],
+        relearning_steps: [10],
+        timezone: 'UTC'
+      }
+    }
+  }
+
+  /**
+   * Switch scheduling algorithm; existing cards are migrated from their review history
+   */
+  async setScheduler(scheduler: ReviewSchedulerName): Promise<boolean> {
+    try {
+      const response = await fetch('/api/flashcards/scheduler', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ scheduler }),
+      })
+
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to change review scheduler:', error)
+      return false
+    }
+  }
+
+  /**
+   * Save the timezone used for days and streaks where the browser's zone isn't sent
+   */
+  async setTimezone(timezone: string): Promise<boolean> {
+    try {
+      const response = await fetch('/api/flashcards/scheduler', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ timezone }),
+      })
+
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to change timezone:', error)
+      return false
+    }
+  }
+
+  /**
+   * Change the intra-day steps (in minutes) for new and forgotten cards
+   */
+  async setLearningSteps(learningSteps: number[], relearningSteps: number[]): Promise<boolean> {
+    try {
+      const response = await fetch('/api/flashcards/scheduler', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          learning_steps: learningSteps,
+          relearning_steps: relearningSteps
+        }),
+      })
+
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to change learning steps:', error)
+      return false
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { memoryDb, createTestUser } from '@/lib/testing/memory-database'
+import { flashcardService } from '@/lib/flashcard-service'
+import { ReviewGrade } from '@/lib/spaced-repetition-engine'
+
+vi.mock('pg', async () => (await import('@/lib/testing/memory-database')).pgModule)
+
+function insertRow(sql: string): string {
+  return memoryDb.public.one(`${sql} RETURNING id`).id
+}
+
+function createCard(userId: string): string {
+  const noteId = insertRow(`
+    INSERT INTO notes (user_id, title, source_type) VALUES ('${userId}', 'Biology', 'text')
+  `)
+  return insertRow(`
+    INSERT INTO flashcards (note_id, user_id, question, answer)
+    VALUES ('${noteId}', '${userId}', 'What do plants make?', 'Glucose')
+  `)
+}
+
+function reviewSessions(flashcardId: string): Array<{ quality: number; response_time_ms: number }> {
+  return memoryDb.public.many(`
+    SELECT quality, response_time_ms FROM review_sessions WHERE flashcard_id = '${flashcardId}' ORDER BY reviewed_at
+  `)
+}
+
+describe('flashcardService.recordReview', () => {
+  let owner: string
+  let flashcardId: string
+
+  beforeEach(() => {
+    owner = createTestUser(`reviewer-${Date.now()}-${Math.random()}@example.com`)
+    flashcardId = createCard(owner)
+  })
+
+  it('schedules the card and logs the review in one go', async () => {
+    const before = Date.now()
+    const updated = await flashcardService.recordReview(owner, flashcardId, 'good', 4200)
+
+    // Good on a new card moves it to the second of the default 1 and 10 minute steps
+    expect(updated).toMatchObject({ state: 'learning', learningStep: 1, isNew: false })
+    expect(updated!.nextReviewDate.getTime() - before).toBeGreaterThanOrEqual(10 * 60 * 1000)
+
+    const saved = memoryDb.public.one(`
+      SELECT card_state, learning_step, last_quality FROM spaced_repetition WHERE flashcard_id = '${flashcardId}'
+    `)
+    expect(saved).toEqual({ card_state: 'learning', learning_step: 1, last_quality: 4 })
+    expect(reviewSessions(flashcardId)).toEqual([{ quality: 4, response_time_ms: 4200 }])
+  })
+
+  it('applies successive answers to the saved state', async () => {
+    await flashcardService.recordReview(owner, flashcardId, 'good')
+    const graduated = await flashcardService.recordReview(owner, flashcardId, 'good')
+    expect(graduated).toMatchObject({ state: 'review', learningStep: null, repetitions: 1 })
+
+    const lapsed = await flashcardService.recordReview(owner, flashcardId, 'again')
+    expect(lapsed).toMatchObject({ state: 'relearning', learningStep: 0 })
+    expect(reviewSessions(flashcardId).map(review => review.quality)).toEqual([4, 4, 1])
+  })
+
+  it('does not record reviews of another user\'s card', async () => {
+    const other = createTestUser(`intruder-${Date.now()}-${Math.random()}@example.com`)
+
+    expect(await flashcardService.recordReview(other, flashcardId, 'easy')).toBeNull()
+    expect(reviewSessions(flashcardId)).toEqual([])
+    expect(memoryDb.public.many(`SELECT id FROM spaced_repetition WHERE user_id = '${other}'`)).toEqual([])
+  })
+})
+
+describe('flashcardService.setScheduler', () => {
+  const grades: ReviewGrade[] = ['good', 'good', 'good', 'again', 'good', 'hard', 'easy']
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /**
+   * Answer a card once a day, starting from the same day for every caller
+   */
+  async function reviewDaily(userId: string, flashcardId: string) {
+    vi.setSystemTime(new Date('2026-01-12T09:00:00Z'))
+    for (const grade of grades) {
+      await flashcardService.recordReview(userId, flashcardId, grade)
+      vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000)
+    }
+  }
+
+  function cardState(flashcardId: string) {
+    return memoryDb.public.one(`
+      SELECT repetitions, easiness_factor, interval_days, next_review_date, card_state, learning_step, stability, difficulty
+      FROM spaced_repetition WHERE flashcard_id = '${flashcardId}'
+    `)
+  }
+
+  it('rebuilds the state reviewing live under the new scheduler would have given', async () => {
+    const liveUser = createTestUser(`live-${Date.now()}-${Math.random()}@example.com`)
+    const liveCard = createCard(liveUser)
+    expect(await flashcardService.setScheduler(liveUser, 'fsrs')).toBe(0)
+    await reviewDaily(liveUser, liveCard)
+
+    const switchingUser = createTestUser(`switching-${Date.now()}-${Math.random()}@example.com`)
+    const switchingCard = createCard(switchingUser)
+    await reviewDaily(switchingUser, switchingCard)
+    expect(cardState(switchingCard).stability).toBeNull()
+
+    expect(await flashcardService.setScheduler(switchingUser, 'fsrs')).toBe(1)
+    expect(cardState(switchingCard)).toEqual(cardState(liveCard))
+    expect(cardState(liveCard).stability).not.toBeNull()
+  })
+})
@@ -1,15 +1,37 @@
-import { query, queryOne } from '@/lib/database'
-import { SpacedRepetitionEngine, SpacedRepetitionData, ReviewSession, ReviewQueueItem } from '@/lib/spaced-repetition-engine'
-
-// For demo purposes, we'll use a mock user ID
-const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440000'
+import { v4 as uuidv4 } from 'uuid'
+import { query, queryOne, transaction } from '@/lib/database'
+import { studyActivityService } from '@/lib/study-activity-service'
+import {
+  SpacedRepetitionEngine,
+  SpacedRepetitionData,
+  ReviewSession,
+  ReviewQueueItem,
+  ReviewHistoryEntry,
+  ReviewGrade,
+  SchedulerName,
+  SCHEDULER_NAMES,
+  CardState,
+  LearningSteps,
+  DEFAULT_LEARNING_STEPS
+} from '@/lib/spaced-repetition-engine'
+import {
+  FlashcardType,
+  FlashcardDraft,
+  ImageOcclusionMedia,
+  expandFlashcardDraft,
+  getClozeOrdinals
+} from '@/lib/flashcard-types'
 
 export interface Flashcard {
   id: string
   note_id: string
   user_id: string
+  card_type: FlashcardType
   question: string
   answer: string
+  sibling_group: string | null
+  ordinal: number | null
+  media: ImageOcclusionMedia | null
   created_at: string
 }
 
@@ -17,7 +39,7 @@ export interface FlashcardReview {
   id: string
   flashcard_id: string
   user_id: string
-  difficulty: 'easy' | 'hard'
+  difficulty: ReviewGrade
   response_time_ms: number
   created_at: string
 }
@@ -32,8 +54,19 @@ export interface FlashcardWithProgress extends Flashcard {
   interval_days?: number
   next_review_date?: string
   is_new?: boolean
+  card_state?: CardState
+  stability?: number | null
+  difficulty?: number | null
   priority?: 'overdue' | 'due' | 'upcoming'
   days_since_last_review?: number
+  // Minutes until the next review for each grade, if chosen now
+  next_intervals?: Record<ReviewGrade, number>
+}
+
+// Per-user review configuration
+export interface ReviewSettings {
+  scheduler: SchedulerName
+  learningSteps: LearningSteps
 }
 
 export interface CreateFlashcardParams {
@@ -43,6 +76,33 @@ export interface CreateFlashcardParams {
   answer: string
 }
 
+// Each card with its review history and scheduling state; $1 is the user
+const FLASHCARD_PROGRESS_SELECT = `
+  SELECT 
+    f.*,
+    COALESCE(r.review_count, 0) as review_count,
+    r.last_reviewed,
+    COALESCE(r.difficulty_average, 0) as difficulty_average,
+    sr.repetitions,
+    sr.easiness_factor::float as easiness_factor,
+    sr.interval_days,
+    sr.next_review_date,
+    sr.is_new,
+    sr.card_state
+  FROM flashcards f
+  LEFT JOIN (
+    SELECT 
+      flashcard_id,
+      COUNT(*)::int as review_count,
+      MAX(reviewed_at) as last_reviewed,
+      AVG(CASE WHEN quality >= 4 THEN 1.0 ELSE 0.0 END)::float as difficulty_average
+    FROM review_sessions 
+    WHERE user_id = $1
+    GROUP BY flashcard_id
+  ) r ON f.id = r.flashcard_id
+  LEFT JOIN spaced_repetition sr ON sr.flashcard_id = f.id AND sr.user_id = $1
+`
+
 export class FlashcardService {
   private spacedRepetitionEngine: SpacedRepetitionEngine
 
@@ -53,30 +113,15 @@ export class FlashcardService {
   /**
    * Get flashcards for a specific note
    */
-  async getFlashcardsByNoteId(noteId: string): Promise<FlashcardWithProgress[]> {
+  async getFlashcardsByNoteId(userId: string, noteId: string): Promise<FlashcardWithProgress[]> {
     try {
       const flashcards = await query(`
-        SELECT 
-          f.*,
-          COALESCE(r.review_count, 0) as review_count,
-          r.last_reviewed,
-          COALESCE(r.difficulty_average, 0) as difficulty_average
-        FROM flashcards f
-        LEFT JOIN (
-          SELECT 
-            flashcard_id,
-            COUNT(*) as review_count,
-            MAX(created_at) as last_reviewed,
-            AVG(CASE WHEN difficulty = 'easy' THEN 1.0 ELSE 0.0 END) as difficulty_average
-          FROM flashcard_reviews 
-          WHERE user_id = $1
-          GROUP BY flashcard_id
-        ) r ON f.id = r.flashcard_id
+        ${FLASHCARD_PROGRESS_SELECT}
         WHERE f.note_id = $2 AND f.user_id = $1
-        ORDER BY f.created_at ASC
-      `, [DEMO_USER_ID, noteId])
+        ORDER BY f.created_at ASC, f.ordinal ASC NULLS FIRST
+      `, [userId, noteId])
 
-      return flashcards as unknown as FlashcardWithProgress[]
+      return flashcards.rows as FlashcardWithProgress[]
     } catch (error) {
       console.error('Failed to fetch flashcards:', error)
       return []
@@ -86,31 +131,42 @@ export class FlashcardService {
   /**
    * Get flashcards ready for review using spaced repetition
    */
-  async getFlashcardsForReview(limit: number = 20): Promise<FlashcardWithProgress[]> {
+  async getFlashcardsForReview(userId: string, limit: number = 20): Promise<FlashcardWithProgress[]> {
     try {
-      // Use the database view for due flashcards
+      // Use the database view for due flashcards. Only the most overdue sibling of a cloze or
+      // occlusion card is served, since seeing one sibling gives the others away.
       const dueFlashcards = await query(`
-        SELECT *
-        FROM due_flashcards
-        WHERE user_id = $1
+        SELECT
+          due.*,
+          EXTRACT(DAY FROM CURRENT_TIMESTAMP - due.last_reviewed_at)::int as days_since_last_review
+        FROM (
+          SELECT DISTINCT ON (COALESCE(sibling_group, flashcard_id)) *
+          FROM due_flashcards
+          WHERE user_id = $1
+          ORDER BY COALESCE(sibling_group, flashcard_id), next_review_date ASC
+        ) due
         ORDER BY 
-          CASE priority
+          CASE due.priority
             WHEN 'overdue' THEN 1
             WHEN 'due' THEN 2
             ELSE 3
           END,
-          days_since_last_review DESC,
-          next_review_date ASC
+          due.last_reviewed_at ASC NULLS FIRST,
+          due.next_review_date ASC
         LIMIT $2
-      `, [DEMO_USER_ID, limit])
+      `, [userId, limit])
 
       // Transform to FlashcardWithProgress format
-      return (dueFlashcards as unknown as any[]).map((card: any) => ({
+      return dueFlashcards.rows.map((card: any) => ({
         id: card.flashcard_id,
         note_id: card.note_id,
         user_id: card.user_id,
+        card_type: card.card_type,
         question: card.question,
         answer: card.answer,
+        sibling_group: card.sibling_group,
+        ordinal: card.ordinal,
+        media: card.media,
         created_at: card.created_at,
         review_count: card.repetitions || 0,
         last_reviewed: card.last_reviewed_at,
@@ -121,6 +177,9 @@ export class FlashcardService {
         interval_days: card.interval_days,
         next_review_date: card.next_review_date,
         is_new: card.is_new,
+        card_state: card.card_state,
+        stability: card.stability !== null ? parseFloat(card.stability) : null,
+        difficulty: card.difficulty !== null ? parseFloat(card.difficulty) : null,
         priority: card.priority,
         days_since_last_review: card.days_since_last_review
       }))
@@ -131,107 +190,263 @@ export class FlashcardService {
   }
 
   /**
-   * Record a flashcard review using spaced repetition algorithm
+   * Add the interval each grade would schedule to cards about to be reviewed
+   */
+  async withIntervalPreviews(userId: string, flashcards: FlashcardWithProgress[]): Promise<FlashcardWithProgress[]> {
+    if (flashcards.length === 0) return flashcards
+
+    try {
+      const settings = await this.getReviewSettings(userId)
+      const stateResult = await query(`
+        SELECT * FROM spaced_repetition
+        WHERE user_id = $1 AND flashcard_id = ANY($2::uuid[])
+      `, [userId, flashcards.map(card => card.id)])
+
+      const states = new Map<string, SpacedRepetitionData>(
+        stateResult.rows.map((row: any) => [row.flashcard_id, this.toSpacedRepetitionData(row)])
+      )
+
+      return flashcards.map(card => ({
+        ...card,
+        next_intervals: this.spacedRepetitionEngine.previewIntervals(
+          states.get(card.id) || this.spacedRepetitionEngine.initializeFlashcard(card.id, userId),
+          settings
+        )
+      }))
+    } catch (error) {
+      console.error('Failed to preview review intervals:', error)
+      return flashcards
+    }
+  }
+
+  /**
+   * Record a flashcard review using the user's scheduler
+   * @returns The card's new scheduling state, or null if the review could not be recorded
    */
   async recordReview(
+    userId: string,
     flashcardId: string, 
-    difficulty: 'easy' | 'hard', 
+    grade: ReviewGrade, 
     responseTimeMs: number = 0
-  ): Promise<boolean> {
+  ): Promise<SpacedRepetitionData | null> {
     try {
-      // Convert difficulty to SM-2 quality score
-      const quality = this.spacedRepetitionEngine.convertToQualityScore(difficulty === 'easy', responseTimeMs)
-      
-      // Get current spaced repetition data
-      const currentDataResult = await query(`
-        SELECT * FROM spaced_repetition 
-        WHERE flashcard_id = $1 AND user_id = $2
-      `, [flashcardId, DEMO_USER_ID])
-
-      const currentData = (currentDataResult as unknown as any[])[0]
-      let spacedRepData: SpacedRepetitionData
-      
-      if (!currentData) {
-        // Initialize new flashcard for spaced repetition
-        spacedRepData = this.spacedRepetitionEngine.initializeFlashcard(flashcardId, DEMO_USER_ID)
-        await query(`
-          INSERT INTO spaced_repetition 
-          (flashcard_id, user_id, repetitions, easiness_factor, interval_days, next_review_date, is_new)
-          VALUES ($1, $2, $3, $4, $5, $6, $7)
-        `, [
-          flashcardId, DEMO_USER_ID, spacedRepData.repetitions, 
-          spacedRepData.easinessFactor, spacedRepData.interval,
-          spacedRepData.nextReviewDate, spacedRepData.isNew
-        ])
-      } else {
-        // Convert database record to SpacedRepetitionData
-        spacedRepData = {
-          flashcardId: currentData.flashcard_id,
-          userId: currentData.user_id,
-          repetitions: currentData.repetitions,
-          easinessFactor: parseFloat(currentData.easiness_factor),
-          interval: currentData.interval_days,
-          nextReviewDate: new Date(currentData.next_review_date),
-          lastReviewedAt: currentData.last_reviewed_at ? new Date(currentData.last_reviewed_at) : null,
-          lastQuality: currentData.last_quality,
-          isNew: currentData.is_new
+      // Convert the grade to the 0-5 quality scale both schedulers use
+      const quality = this.spacedRepetitionEngine.gradeToQuality(grade)
+      const settings = await this.getReviewSettings(userId)
+
+      return await transaction(async (client) => {
+        // Never create review state for a card the user does not own
+        const ownedCard = await client.query(`
+          SELECT id FROM flashcards WHERE id = $1 AND user_id = $2
+        `, [flashcardId, userId])
+        if (!ownedCard.rows[0]) {
+          return null
+        }
+
+        // Cards get their row when created; older cards may not have one yet
+        await client.query(`
+          INSERT INTO spaced_repetition (flashcard_id, user_id)
+          VALUES ($1, $2)
+          ON CONFLICT (flashcard_id, user_id) DO NOTHING
+        `, [flashcardId, userId])
+
+        // Lock the card's state so two quick answers are applied one after the other
+        const currentResult = await client.query(`
+          SELECT * FROM spaced_repetition
+          WHERE flashcard_id = $1 AND user_id = $2
+          FOR UPDATE
+        `, [flashcardId, userId])
+
+        // Process review with the user's scheduler and learning steps
+        const updatedData = this.spacedRepetitionEngine.processReview(
+          this.toSpacedRepetitionData(currentResult.rows[0]),
+          quality,
+          settings
+        )
+        await this.saveSpacedRepetitionData(updatedData, client)
+
+        await client.query(`
+          INSERT INTO review_sessions (flashcard_id, user_id, quality, response_time_ms, reviewed_at)
+          VALUES ($1, $2, $3, $4, $5)
+        `, [flashcardId, userId, quality, responseTimeMs, updatedData.lastReviewedAt])
+
+        return updatedData
+      })
+    } catch (error) {
+      console.error('Failed to record review:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get the scheduling algorithm and learning steps the user reviews with
+   */
+  async getReviewSettings(userId: string): Promise<ReviewSettings> {
+    try {
+      const user = await queryOne(`
+        SELECT review_scheduler, learning_steps, relearning_steps FROM users WHERE id = $1
+      `, [userId])
+
+      return {
+        scheduler: SCHEDULER_NAMES.includes(user?.review_scheduler) ? user.review_scheduler : 'sm2',
+        learningSteps: {
+          learning: user?.learning_steps || DEFAULT_LEARNING_STEPS.learning,
+          relearning: user?.relearning_steps || DEFAULT_LEARNING_STEPS.relearning
         }
       }
+    } catch (error) {
+      console.error('Failed to fetch review settings:', error)
+      return { scheduler: 'sm2', learningSteps: DEFAULT_LEARNING_STEPS }
+    }
+  }
 
-      // Store review session with before state
-      const beforeState = { ...spacedRepData }
-      
-      // Process review with SM-2 algorithm
-      const updatedData = this.spacedRepetitionEngine.processReview(spacedRepData, quality)
-      
-      // Update spaced repetition data
+  /**
+   * Set the intra-day steps, in minutes, for new and lapsed cards.
+   * Cards already part-way through their steps continue from their current step.
+   */
+  async setLearningSteps(userId: string, learningSteps: LearningSteps): Promise<void> {
+    try {
       await query(`
-        UPDATE spaced_repetition 
-        SET repetitions = $3, easiness_factor = $4, interval_days = $5, 
-            next_review_date = $6, last_reviewed_at = $7, last_quality = $8, 
-            is_new = $9, updated_at = CURRENT_TIMESTAMP
-        WHERE flashcard_id = $1 AND user_id = $2
-      `, [
-        flashcardId, DEMO_USER_ID, updatedData.repetitions,
-        updatedData.easinessFactor, updatedData.interval,
-        updatedData.nextReviewDate, updatedData.lastReviewedAt,
-        updatedData.lastQuality, updatedData.isNew
-      ])
+        UPDATE users SET learning_steps = $2, relearning_steps = $3 WHERE id = $1
+      `, [userId, learningSteps.learning, learningSteps.relearning])
+    } catch (error) {
+      console.error('Failed to update learning steps:', error)
+      throw new Error('Failed to update learning steps')
+    }
+  }
 
-      // Record detailed review session
-      await query(`
-        INSERT INTO review_sessions 
-        (flashcard_id, user_id, quality, response_time_ms, 
-         before_repetitions, before_easiness_factor, before_interval,
-         after_repetitions, after_easiness_factor, after_interval)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      `, [
-        flashcardId, DEMO_USER_ID, quality, responseTimeMs,
-        beforeState.repetitions, beforeState.easinessFactor, beforeState.interval,
-        updatedData.repetitions, updatedData.easinessFactor, updatedData.interval
-      ])
+  /**
+   * Switch the user's scheduling algorithm. Every card with review history is migrated
+   * by replaying its review_sessions under the new scheduler.
+   * @returns Number of cards whose state was rebuilt
+   */
+  async setScheduler(userId: string, scheduler: SchedulerName): Promise<number> {
+    try {
+      const settings = await this.getReviewSettings(userId)
+      if (settings.scheduler === scheduler) {
+        return 0
+      }
 
-      // Also record in legacy flashcard_reviews for compatibility
-      await query(`
-        INSERT INTO flashcard_reviews (flashcard_id, user_id, difficulty, response_time_ms)
-        VALUES ($1, $2, $3, $4)
-      `, [flashcardId, DEMO_USER_ID, difficulty, responseTimeMs])
-      
-      return true
+      return await transaction(async (client) => {
+        await client.query(`
+          UPDATE users SET review_scheduler = $2 WHERE id = $1
+        `, [userId, scheduler])
+
+        const reviews = await client.query(`
+          SELECT rs.flashcard_id, rs.quality, rs.reviewed_at
+          FROM review_sessions rs
+          JOIN spaced_repetition sr ON sr.flashcard_id = rs.flashcard_id AND sr.user_id = rs.user_id
+          WHERE rs.user_id = $1
+            -- Reviews before a manual reset no longer count
+            AND (sr.reset_at IS NULL OR rs.reviewed_at > sr.reset_at)
+          ORDER BY rs.flashcard_id, rs.reviewed_at ASC
+        `, [userId])
+
+        const histories = new Map<string, ReviewHistoryEntry[]>()
+        for (const review of reviews.rows) {
+          const history = histories.get(review.flashcard_id) || []
+          history.push({ quality: review.quality, reviewedAt: new Date(review.reviewed_at) })
+          histories.set(review.flashcard_id, history)
+        }
+
+        // Cards never reviewed have no scheduler-specific state and are left as they are
+        for (const [flashcardId, history] of Array.from(histories.entries())) {
+          const replayed = this.spacedRepetitionEngine.replayReviews(flashcardId, userId, history, {
+            scheduler,
+            learningSteps: settings.learningSteps
+          })
+          await this.saveSpacedRepetitionData(replayed, client)
+        }
+
+        return histories.size
+      })
     } catch (error) {
-      console.error('Failed to record review:', error)
-      return false
+      console.error('Failed to change review scheduler:', error)
+      throw new Error('Failed to change review scheduler')
+    }
+  }
+
+  /**
+   * Convert a spaced_repetition row to SpacedRepetitionData
+   */
+  private toSpacedRepetitionData(row: any): SpacedRepetitionData {
+    return {
+      flashcardId: row.flashcard_id,
+      userId: row.user_id,
+      repetitions: row.repetitions,
+      easinessFactor: parseFloat(row.easiness_factor),
+      interval: row.interval_days,
+      nextReviewDate: new Date(row.next_review_date),
+      lastReviewedAt: row.last_reviewed_at ? new Date(row.last_reviewed_at) : null,
+      lastQuality: row.last_quality,
+      isNew: row.is_new,
+      // Rows written before card states existed are either new or in review
+      state: row.card_state || (row.is_new ? 'new' : 'review'),
+      learningStep: row.learning_step ?? null,
+      stability: row.stability !== null ? parseFloat(row.stability) : null,
+      difficulty: row.difficulty !== null ? parseFloat(row.difficulty) : null
+    }
+  }
+
+  /**
+   * Write a card's scheduling state back to spaced_repetition
+   */
+  private async saveSpacedRepetitionData(
+    data: SpacedRepetitionData,
+    client: { query: typeof query } = { query }
+  ): Promise<void> {
+    await client.query(`
+      UPDATE spaced_repetition 
+      SET repetitions = $3, easiness_factor = $4, interval_days = $5, 
+          next_review_date = $6, last_reviewed_at = $7, last_quality = $8, 
+          is_new = $9, stability = $10, difficulty = $11, card_state = $12, learning_step = $13,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE flashcard_id = $1 AND user_id = $2
+    `, [
+      data.flashcardId, data.userId, data.repetitions,
+      data.easinessFactor, data.interval,
+      data.nextReviewDate, data.lastReviewedAt,
+      data.lastQuality, data.isNew,
+      data.stability, data.difficulty,
+      data.state, data.learningStep
+    ])
+  }
+
+  /**
+   * Set a card's scheduling state and review history from another app, e.g. an Anki import.
+   * Takes the caller's client so it can run inside a larger transaction.
+   */
+  async restoreReviewState(
+    data: SpacedRepetitionData,
+    reviews: Array<ReviewHistoryEntry & { responseTimeMs?: number }>,
+    client: { query: typeof query } = { query }
+  ): Promise<void> {
+    await this.saveSpacedRepetitionData(data, client)
+
+    if (reviews.length > 0) {
+      await client.query(`
+        INSERT INTO review_sessions (flashcard_id, user_id, quality, response_time_ms, reviewed_at)
+        SELECT $1, $2, quality, response_time_ms, reviewed_at
+        FROM unnest($3::int[], $4::int[], $5::timestamptz[]) AS r(quality, response_time_ms, reviewed_at)
+      `, [
+        data.flashcardId, data.userId,
+        reviews.map(review => review.quality),
+        reviews.map(review => review.responseTimeMs ?? null),
+        reviews.map(review => review.reviewedAt)
+      ])
     }
   }
 
   /**
    * Get comprehensive review statistics using spaced repetition data
+   * @param timezone Zone that "today" and streak days are counted in; defaults to the user's stored zone
    */
-  async getReviewStats(): Promise<{
+  async getReviewStats(userId: string, timezone?: string): Promise<{
     total_reviews: number
     reviews_today: number
     cards_mastered: number
     current_streak: number
+    longest_streak: number
     cards_due: number
     new_cards: number
     learning_cards: number
@@ -243,49 +458,31 @@ export class FlashcardService {
       // Get learning stats from the view
       const learningStatsResult = await query(`
         SELECT * FROM user_learning_stats WHERE user_id = $1
-      `, [DEMO_USER_ID])
-      const learningStats = (learningStatsResult as unknown as any[])[0]
+      `, [userId])
+      const learningStats = learningStatsResult.rows[0]
+      const zone = timezone || await studyActivityService.resolveTimezone(userId)
 
       // Get review session stats
       const sessionStatsResult = await query(`
         SELECT 
           COUNT(*) as total_reviews,
           COALESCE(SUM(
-            CASE WHEN DATE(reviewed_at) = CURRENT_DATE THEN 1 ELSE 0 END
+            CASE WHEN (reviewed_at AT TIME ZONE $2)::date = (NOW() AT TIME ZONE $2)::date THEN 1 ELSE 0 END
           ), 0) as reviews_today
         FROM review_sessions 
         WHERE user_id = $1
-      `, [DEMO_USER_ID])
-      const sessionStats = (sessionStatsResult as unknown as any[])[0]
-
-      // Calculate streak (consecutive days with reviews)
-      const streakQuery = await query(`
-        WITH daily_reviews AS (
-          SELECT DATE(reviewed_at) as review_date
-          FROM review_sessions 
-          WHERE user_id = $1
-          GROUP BY DATE(reviewed_at)
-          ORDER BY DATE(reviewed_at) DESC
-        ),
-        streak_calc AS (
-          SELECT 
-            review_date,
-            ROW_NUMBER() OVER (ORDER BY review_date DESC) as rn,
-            review_date - INTERVAL '1 day' * (ROW_NUMBER() OVER (ORDER BY review_date DESC) - 1) as expected_date
-          FROM daily_reviews
-        )
-        SELECT COUNT(*) as current_streak
-        FROM streak_calc
-        WHERE expected_date = (SELECT MAX(review_date) FROM daily_reviews) - INTERVAL '1 day' * (rn - 1)
-      `, [DEMO_USER_ID])
+      `, [userId, zone])
+      const sessionStats = sessionStatsResult.rows[0]
 
-      const currentStreak = ((streakQuery as unknown as any[])[0])?.current_streak || 0
+      // Consecutive days with reviews, in the user's timezone
+      const streak = await studyActivityService.getStreak(userId, zone)
 
       return {
         total_reviews: parseInt(sessionStats?.total_reviews || '0'),
         reviews_today: parseInt(sessionStats?.reviews_today || '0'),
         cards_mastered: parseInt(learningStats?.mastered_cards || '0'),
-        current_streak: parseInt(currentStreak),
+        current_streak: streak.current_streak,
+        longest_streak: streak.longest_streak,
         cards_due: parseInt(learningStats?.cards_due_now || '0'),
         new_cards: parseInt(learningStats?.new_cards || '0'),
         learning_cards: parseInt(learningStats?.learning_cards || '0'),
@@ -300,6 +497,7 @@ export class FlashcardService {
         reviews_today: 0,
         cards_mastered: 0,
         current_streak: 0,
+        longest_streak: 0,
         cards_due: 0,
         new_cards: 0,
         learning_cards: 0,
@@ -313,29 +511,14 @@ export class FlashcardService {
   /**
    * Get flashcard by ID
    */
-  async getFlashcardById(flashcardId: string): Promise<FlashcardWithProgress | null> {
+  async getFlashcardById(userId: string, flashcardId: string): Promise<FlashcardWithProgress | null> {
     try {
       const flashcardResult = await query(`
-        SELECT 
-          f.*,
-          COALESCE(r.review_count, 0) as review_count,
-          r.last_reviewed,
-          COALESCE(r.difficulty_average, 0) as difficulty_average
-        FROM flashcards f
-        LEFT JOIN (
-          SELECT 
-            flashcard_id,
-            COUNT(*) as review_count,
-            MAX(created_at) as last_reviewed,
-            AVG(CASE WHEN difficulty = 'easy' THEN 1.0 ELSE 0.0 END) as difficulty_average
-          FROM flashcard_reviews 
-          WHERE user_id = $1
-          GROUP BY flashcard_id
-        ) r ON f.id = r.flashcard_id
+        ${FLASHCARD_PROGRESS_SELECT}
         WHERE f.id = $2 AND f.user_id = $1
-      `, [DEMO_USER_ID, flashcardId])
+      `, [userId, flashcardId])
 
-      const flashcard = (flashcardResult as unknown as any[])[0]
+      const flashcard = flashcardResult.rows[0]
       return flashcard || null
     } catch (error) {
       console.error('Failed to fetch flashcard by ID:', error)
@@ -346,16 +529,16 @@ export class FlashcardService {
   /**
    * Initialize spaced repetition for existing flashcards
    */
-  async initializeSpacedRepetitionForNote(noteId: string): Promise<void> {
+  async initializeSpacedRepetitionForNote(userId: string, noteId: string): Promise<void> {
     try {
       const flashcards = await query(`
         SELECT id FROM flashcards WHERE note_id = $1 AND user_id = $2
-      `, [noteId, DEMO_USER_ID])
+      `, [noteId, userId])
 
-      for (const flashcard of (flashcards as unknown as any[])) {
+      for (const flashcard of flashcards.rows) {
         await query(`
           SELECT initialize_spaced_repetition_for_flashcard($1, $2)
-        `, [flashcard.id, DEMO_USER_ID])
+        `, [flashcard.id, userId])
       }
     } catch (error) {
       console.error('Failed to initialize spaced repetition:', error)
@@ -365,12 +548,12 @@ export class FlashcardService {
   /**
    * Get optimal review batch for user
    */
-  async getOptimalReviewBatch(): Promise<FlashcardWithProgress[]> {
+  async getOptimalReviewBatch(userId: string): Promise<FlashcardWithProgress[]> {
     try {
-      const stats = await this.getReviewStats()
+      const stats = await this.getReviewStats(userId)
       const optimalSize = this.spacedRepetitionEngine.getOptimalBatchSize(stats.cards_due)
       
-      return await this.getFlashcardsForReview(optimalSize)
+      return await this.getFlashcardsForReview(userId, optimalSize)
     } catch (error) {
       console.error('Failed to get optimal review batch:', error)
       return []
@@ -380,15 +563,15 @@ export class FlashcardService {
   /**
    * Start a new study session
    */
-  async startStudySession(noteId?: string): Promise<string> {
+  async startStudySession(userId: string, noteId?: string): Promise<string> {
     try {
       const sessionResult = await query(`
         INSERT INTO study_sessions (user_id, session_type, note_id, started_at)
         VALUES ($1, 'review', $2, CURRENT_TIMESTAMP)
         RETURNING id
-      `, [DEMO_USER_ID, noteId || null])
+      `, [userId, noteId || null])
       
-      const session = (sessionResult as unknown as any[])[0]
+      const session = sessionResult.rows[0]
       return session.id
     } catch (error) {
       console.error('Failed to start study session:', error)
@@ -400,6 +583,7 @@ export class FlashcardService {
    * Complete a study session
    */
   async completeStudySession(
+    userId: string,
     sessionId: string, 
     cardsReviewed: number, 
     cardsCorrect: number, 
@@ -413,8 +597,8 @@ export class FlashcardService {
             cards_correct = $3, 
             total_time_ms = $4,
             retention_rate = $3::DECIMAL / NULLIF($2, 0)
-        WHERE id = $1
-      `, [sessionId, cardsReviewed, cardsCorrect, totalTimeMs])
+        WHERE id = $1 AND user_id = $5
+      `, [sessionId, cardsReviewed, cardsCorrect, totalTimeMs, userId])
     } catch (error) {
       console.error('Failed to complete study session:', error)
     }
@@ -431,26 +615,220 @@ export class FlashcardService {
         RETURNING *
       `, [params.noteId, params.userId, params.question, params.answer])
 
-      const flashcards = result as unknown as any[]
+      const flashcards = result.rows
       if (flashcards.length === 0) {
         throw new Error('Failed to create flashcard')
       }
 
-      const flashcard = flashcards[0]
-      return {
-        id: flashcard.id,
-        note_id: flashcard.note_id,
-        user_id: flashcard.user_id,
-        question: flashcard.question,
-        answer: flashcard.answer,
-        created_at: flashcard.created_at
-      }
+      return flashcards[0] as Flashcard
+    } catch (error) {
+      console.error('Failed to create flashcard:', error)
+      throw new Error('Failed to create flashcard')
+    }
+  }
+
+  /**
+   * Create a card of any type from a validated draft
+   * @returns Every stored sibling with its progress, in ordinal order
+   */
+  async createFlashcardFromDraft(userId: string, noteId: string, draft: FlashcardDraft): Promise<FlashcardWithProgress[]> {
+    try {
+      const ids = await transaction(client => this.insertFlashcardDraft(noteId, userId, draft, client))
+
+      const result = await query(`
+        ${FLASHCARD_PROGRESS_SELECT}
+        WHERE f.id = ANY($2::uuid[]) AND f.user_id = $1
+        ORDER BY f.ordinal ASC NULLS FIRST
+      `, [userId, ids])
+      return result.rows as FlashcardWithProgress[]
     } catch (error) {
       console.error('Failed to create flashcard:', error)
       throw new Error('Failed to create flashcard')
     }
   }
 
+  /**
+   * Store a draft as one row per cloze number or occlusion mask and register each for spaced repetition.
+   * Takes the caller's client so it can run inside a larger transaction.
+   * @returns The ids of the stored cards
+   */
+  async insertFlashcardDraft(
+    noteId: string,
+    userId: string,
+    draft: FlashcardDraft,
+    client: { query: typeof query } = { query }
+  ): Promise<string[]> {
+    const type = draft.type || 'basic'
+    const siblings = expandFlashcardDraft(draft)
+    const siblingGroup = type === 'basic' ? null : uuidv4()
+
+    const ids: string[] = []
+    for (const sibling of siblings) {
+      const result = await client.query(`
+        INSERT INTO flashcards (note_id, user_id, card_type, question, answer, sibling_group, ordinal, media)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id
+      `, [
+        noteId, userId, type, sibling.question, sibling.answer,
+        siblingGroup, sibling.ordinal, sibling.media ? JSON.stringify(sibling.media) : null
+      ])
+      const id = result.rows[0].id
+
+      await client.query(
+        'SELECT initialize_spaced_repetition_for_flashcard($1, $2)',
+        [id, userId]
+      )
+      ids.push(id)
+    }
+
+    return ids
+  }
+
+  /**
+   * Edit a flashcard's question and/or answer. Review progress is kept unless resetProgress is set,
+   * which puts the card back to new as if it had never been reviewed.
+   * Cloze siblings share their text and notes, so an edit applies to all of them and adds or removes
+   * siblings as cloze numbers appear or disappear. Occlusion siblings share their prompt; the answer
+   * is the edited mask's label only. A reset covers every sibling.
+   */
+  async updateFlashcard(
+    userId: string,
+    flashcardId: string,
+    updates: { question?: string; answer?: string },
+    resetProgress: boolean = false
+  ): Promise<FlashcardWithProgress | null> {
+    try {
+      const remainingId = await transaction(async (client) => {
+        const cardResult = await client.query(`
+          SELECT id, note_id, card_type, sibling_group FROM flashcards
+          WHERE id = $1 AND user_id = $2
+          FOR UPDATE
+        `, [flashcardId, userId])
+        const card = cardResult.rows[0]
+        if (!card) {
+          return null
+        }
+
+        const question = updates.question ?? null
+        const answer = updates.answer ?? null
+
+        if (card.card_type === 'cloze' && card.sibling_group) {
+          await client.query(`
+            UPDATE flashcards
+            SET question = COALESCE($3, question), answer = COALESCE($4, answer)
+            WHERE sibling_group = $1 AND user_id = $2
+          `, [card.sibling_group, userId, question, answer])
+          if (question !== null) {
+            await this.syncClozeSiblings(client, userId, card.note_id, card.sibling_group, question)
+          }
+        } else if (card.card_type === 'image_occlusion' && card.sibling_group) {
+          await client.query(`
+            UPDATE flashcards SET question = COALESCE($3, question)
+            WHERE sibling_group = $1 AND user_id = $2
+          `, [card.sibling_group, userId, question])
+          await client.query(`
+            UPDATE flashcards SET answer = COALESCE($3, answer)
+            WHERE id = $1 AND user_id = $2
+          `, [flashcardId, userId, answer])
+        } else {
+          await client.query(`
+            UPDATE flashcards
+            SET question = COALESCE($3, question), answer = COALESCE($4, answer)
+            WHERE id = $1 AND user_id = $2
+          `, [flashcardId, userId, question, answer])
+        }
+
+        const siblingResult = await client.query(`
+          SELECT id FROM flashcards
+          WHERE user_id = $2 AND (id = $1 OR sibling_group = $3)
+          ORDER BY (id = $1) DESC, ordinal ASC
+        `, [flashcardId, userId, card.sibling_group])
+        const siblingIds: string[] = siblingResult.rows.map((row: any) => row.id)
+
+        if (resetProgress) {
+          for (const id of siblingIds) {
+            const initial = this.spacedRepetitionEngine.initializeFlashcard(id, userId)
+            await client.query(`
+              INSERT INTO spaced_repetition (flashcard_id, user_id)
+              VALUES ($1, $2)
+              ON CONFLICT (flashcard_id, user_id) DO NOTHING
+            `, [id, userId])
+            await this.saveSpacedRepetitionData(initial, client)
+            await client.query(`
+              UPDATE spaced_repetition SET reset_at = CURRENT_TIMESTAMP
+              WHERE flashcard_id = $1 AND user_id = $2
+            `, [id, userId])
+          }
+        }
+
+        // The edited card itself is gone if its cloze number was removed; fall back to a sibling
+        return siblingIds[0] || null
+      })
+
+      return remainingId ? await this.getFlashcardById(userId, remainingId) : null
+    } catch (error) {
+      console.error('Failed to update flashcard:', error)
+      throw new Error('Failed to update flashcard')
+    }
+  }
+
+  /**
+   * Make a cloze card's siblings match the cloze numbers in its text: drop siblings whose
+   * number is gone and add new ones, keeping the progress of those that remain
+   */
+  private async syncClozeSiblings(
+    client: { query: typeof query },
+    userId: string,
+    noteId: string,
+    siblingGroup: string,
+    text: string
+  ): Promise<void> {
+    const ordinals = getClozeOrdinals(text)
+
+    await client.query(`
+      DELETE FROM flashcards
+      WHERE sibling_group = $1 AND user_id = $2 AND NOT (ordinal = ANY($3::int[]))
+    `, [siblingGroup, userId, ordinals])
+
+    const existing = await client.query(`
+      SELECT ordinal, answer FROM flashcards WHERE sibling_group = $1 AND user_id = $2
+    `, [siblingGroup, userId])
+    const existingOrdinals = new Set<number>(existing.rows.map((row: any) => row.ordinal))
+    const answer = existing.rows[0]?.answer || ''
+
+    for (const ordinal of ordinals) {
+      if (existingOrdinals.has(ordinal)) continue
+      const result = await client.query(`
+        INSERT INTO flashcards (note_id, user_id, card_type, question, answer, sibling_group, ordinal)
+        VALUES ($1, $2, 'cloze', $3, $4, $5, $6)
+        RETURNING id
+      `, [noteId, userId, text, answer, siblingGroup, ordinal])
+      await client.query(
+        'SELECT initialize_spaced_repetition_for_flashcard($1, $2)',
+        [result.rows[0].id, userId]
+      )
+    }
+  }
+
+  /**
+   * Delete a flashcard; its review history and scheduling state go with it.
+   * Cloze and occlusion siblings are deleted together, as they come from the same text or image.
+   */
+  async deleteFlashcard(userId: string, flashcardId: string): Promise<boolean> {
+    try {
+      const result = await query(`
+        DELETE FROM flashcards
+        WHERE user_id = $2 AND (
+          id = $1 OR sibling_group = (SELECT sibling_group FROM flashcards WHERE id = $1 AND user_id = $2)
+        )
+      `, [flashcardId, userId])
+      return (result.rowCount || 0) > 0
+    } catch (error) {
+      console.error('Failed to delete flashcard:', error)
+      throw new Error('Failed to delete flashcard')
+    }
+  }
+
   /**
    * Initialize spaced repetition tracking for a flashcard
    */
@@ -0,0 +1,775 @@
+import { createHash } from 'crypto'
+import { put } from '@vercel/blob'
+import { query, queryOne, transaction } from '@/lib/database'
+import { flashcardService } from '@/lib/flashcard-service'
+import { SpacedRepetitionEngine, SpacedRepetitionData, CardState } from '@/lib/spaced-repetition-engine'
+import {
+  FlashcardDraft,
+  FlashcardType,
+  ImageOcclusionMedia,
+  MAX_MASKS,
+  OcclusionMask,
+  expandFlashcardDraft,
+  flashcardImagePath,
+  getClozeOrdinals,
+  isFlashcardImageUrl,
+  validateFlashcardDraft
+} from '@/lib/flashcard-types'
+import {
+  ANKI_CARD_TYPE,
+  AnkiCardRecord,
+  AnkiExportCard,
+  AnkiExportNote,
+  AnkiMediaFile,
+  AnkiNoteRecord,
+  AnkiPackageError,
+  AnkiReviewLog,
+  ankiGuid,
+  readAnkiPackage,
+  stripHtml,
+  textToHtml,
+  writeAnkiPackage
+} from '@/lib/anki-package'
+
+export type FlashcardExportFormat = 'apkg' | 'csv'
+
+export const FLASHCARD_EXPORT_FORMATS: FlashcardExportFormat[] = ['apkg', 'csv']
+
+export interface FlashcardExportFile {
+  fileName: string
+  contentType: string
+  data: Uint8Array
+}
+
+export interface FlashcardImportResult {
+  notes: Array<{ id: string; title: string; cards: number }>
+  cards_imported: number
+  reviews_imported: number
+  skipped: number // Anki cards or CSV rows with nothing we can show, e.g. image-only fields
+}
+
+// A card with its note, scheduling state and review history, ready to be written out
+interface ExportRow {
+  id: string
+  note_id: string
+  note_title: string
+  card_type: FlashcardType
+  question: string
+  answer: string
+  sibling_group: string | null
+  ordinal: number | null
+  media: ImageOcclusionMedia | null
+  card_state: CardState | null
+  next_review_date: string | null
+  interval_days: number | null
+  easiness_factor: number | null
+  reviews: Array<{ quality: number; response_time_ms: number | null; reviewed_at: string }>
+}
+
+// A card read from an import, before it is stored
+interface ImportedCard {
+  deck: string
+  draft: FlashcardDraft
+  // Scheduling for each stored sibling, keyed by ordinal (0 for basic cards)
+  schedules: Map<number, ImportedSchedule>
+}
+
+interface ImportedSchedule {
+  state: CardState
+  dueAt: Date | null
+  intervalDays: number
+  easinessFactor: number
+  reviews: Array<{ quality: number; reviewedAt: Date; responseTimeMs: number }>
+}
+
+const CARD_STATE_TO_ANKI: Record<CardState, number> = {
+  new: ANKI_CARD_TYPE.new,
+  learning: ANKI_CARD_TYPE.learning,
+  review: ANKI_CARD_TYPE.review,
+  relearning: ANKI_CARD_TYPE.relearning
+}
+
+const ANKI_TO_CARD_STATE: Record<number, CardState> = {
+  [ANKI_CARD_TYPE.new]: 'new',
+  [ANKI_CARD_TYPE.learning]: 'learning',
+  [ANKI_CARD_TYPE.review]: 'review',
+  [ANKI_CARD_TYPE.relearning]: 'relearning'
+}
+
+const CSV_COLUMNS = ['question', 'answer', 'type', 'note', 'ordinal', 'image_url', 'card_state', 'next_review_date', 'interval_days', 'easiness_factor', 'reviews']
+
+const DEFAULT_OCCLUSION_PROMPT = 'What is hidden?'
+const MAX_TITLE_LENGTH = 500
+// Same limit as occlusion image uploads
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+export class FlashcardTransferService {
+  private spacedRepetitionEngine: SpacedRepetitionEngine
+
+  constructor() {
+    this.spacedRepetitionEngine = new SpacedRepetitionEngine()
+  }
+
+  /**
+   * Export one note's flashcards
+   * @returns The file, or null if the note doesn't exist
+   */
+  async exportNote(userId: string, noteId: string, format: FlashcardExportFormat): Promise<FlashcardExportFile | null> {
+    const note = await queryOne(`
+      SELECT id, title FROM notes WHERE id = $1 AND user_id = $2
+    `, [noteId, userId])
+    if (!note) return null
+
+    const rows = await this.loadExportRows(userId, 'f.note_id = $2', [noteId])
+    return this.buildExport(userId, rows, note.title, format, () => this.deckName(note.title))
+  }
+
+  /**
+   * Export every card that is due now, across all notes; in .apkg each note gets its own subdeck
+   */
+  async exportDue(userId: string, format: FlashcardExportFormat): Promise<FlashcardExportFile> {
+    const rows = await this.loadExportRows(userId, 'sr.next_review_date <= CURRENT_TIMESTAMP', [])
+    return this.buildExport(userId, rows, 'Due cards', format, row => `MangoNote::${this.deckName(row.note_title)}`)
+  }
+
+  /**
+   * Import an .apkg or CSV file: one note per deck (or per value of a CSV "note" column),
+   * carrying over Anki's scheduling and review history
+   */
+  async importFile(userId: string, fileName: string, data: Uint8Array, folderId: string | null): Promise<FlashcardImportResult> {
+    const isCsv = /\.(csv|txt)$/i.test(fileName)
+    const read = isCsv
+      ? this.readCsv(new TextDecoder().decode(data), fileName.replace(/\.(csv|txt)$/i, ''))
+      : await this.readApkg(userId, data)
+    const cards = read.cards.filter(card => !validateFlashcardDraft(card.draft, userId))
+    const skipped = read.skipped + read.cards.length - cards.length
+
+    if (cards.length === 0) {
+      throw new AnkiPackageError('No cards found to import')
+    }
+
+    const settings = await flashcardService.getReviewSettings(userId)
+    const decks = new Map<string, ImportedCard[]>()
+    for (const card of cards) {
+      const deckCards = decks.get(card.deck) || []
+      deckCards.push(card)
+      decks.set(card.deck, deckCards)
+    }
+
+    const result: FlashcardImportResult = { notes: [], cards_imported: 0, reviews_imported: 0, skipped }
+
+    for (const [deck, deckCards] of Array.from(decks.entries())) {
+      const title = deck.split('::').join(' / ').slice(0, MAX_TITLE_LENGTH)
+
+      const imported = await transaction(async (client) => {
+        const noteResult = await client.query(`
+          INSERT INTO notes (user_id, folder_id, title, source_type, content_status)
+          VALUES ($1, $2, $3, 'import', 'completed')
+          RETURNING id
+        `, [userId, folderId, title])
+        const noteId = noteResult.rows[0].id
+
+        let cardCount = 0
+        let reviewCount = 0
+        for (const card of deckCards) {
+          const ids = await flashcardService.insertFlashcardDraft(noteId, userId, card.draft, client)
+          const siblings = expandFlashcardDraft(card.draft)
+          cardCount += ids.length
+
+          for (let i = 0; i < ids.length; i++) {
+            const schedule = card.schedules.get(siblings[i].ordinal ?? 0)
+            if (!schedule) continue
+
+            const history = schedule.reviews.map(review => ({ quality: review.quality, reviewedAt: review.reviewedAt }))
+            const state = this.toSpacedRepetitionData(ids[i], userId, schedule)
+            if (settings.scheduler === 'fsrs' && history.length > 0) {
+              // Keep Anki's due date but give FSRS the memory state the history implies
+              const replayed = this.spacedRepetitionEngine.replayReviews(ids[i], userId, history, settings)
+              state.stability = replayed.stability
+              state.difficulty = replayed.difficulty
+            }
+
+            await flashcardService.restoreReviewState(state, schedule.reviews, client)
+            reviewCount += schedule.reviews.length
+          }
+        }
+
+        return { noteId, cardCount, reviewCount }
+      })
+
+      result.notes.push({ id: imported.noteId, title, cards: imported.cardCount })
+      result.cards_imported += imported.cardCount
+      result.reviews_imported += imported.reviewCount
+    }
+
+    return result
+  }
+
+  private toSpacedRepetitionData(flashcardId: string, userId: string, schedule: ImportedSchedule): SpacedRepetitionData {
+    const lastReview = schedule.reviews[schedule.reviews.length - 1]
+
+    // SM-2 repetitions: successful reviews since the last lapse
+    let repetitions = 0
+    for (let i = schedule.reviews.length - 1; i >= 0 && schedule.reviews[i].quality >= 3; i--) {
+      repetitions++
+    }
+
+    const isLearning = schedule.state === 'learning' || schedule.state === 'relearning'
+    return {
+      flashcardId,
+      userId,
+      repetitions: schedule.state === 'review' ? Math.max(1, repetitions) : repetitions,
+      easinessFactor: schedule.easinessFactor,
+      interval: schedule.state === 'review' ? Math.max(1, schedule.intervalDays) : 1,
+      nextReviewDate: schedule.dueAt || new Date(),
+      lastReviewedAt: lastReview ? lastReview.reviewedAt : null,
+      lastQuality: lastReview ? lastReview.quality : null,
+      isNew: schedule.state === 'new',
+      state: schedule.state,
+      learningStep: isLearning ? 0 : null,
+      stability: null,
+      difficulty: null
+    }
+  }
+
+  private async readApkg(userId: string, data: Uint8Array): Promise<{ cards: ImportedCard[]; skipped: number }> {
+    const ankiPackage = await readAnkiPackage(data)
+    const cards: ImportedCard[] = []
+    let skipped = 0
+
+    for (const note of ankiPackage.notes) {
+      // Notes whose cards were all deleted in Anki
+      if (note.cards.length === 0) continue
+
+      const occlusion = this.findOcclusionField(note)
+      if (occlusion) {
+        const card = await this.readOcclusionNote(userId, note, occlusion, name => ankiPackage.readMedia(name))
+        if (card) {
+          cards.push(card)
+        } else {
+          skipped += note.cards.length
+        }
+        continue
+      }
+
+      if (note.kind === 'cloze') {
+        const text = stripHtml(note.fields[note.fieldNames[0]] || '')
+        const extraField = note.fieldNames.find(name => name === 'Back Extra') || note.fieldNames[1]
+        if (getClozeOrdinals(text).length === 0) {
+          skipped += note.cards.length
+          continue
+        }
+        cards.push({
+          deck: note.cards[0].deck,
+          draft: { type: 'cloze', question: text, answer: extraField ? stripHtml(note.fields[extraField]) : '' },
+          schedules: new Map(note.cards.map(card => [card.ord + 1, this.fromAnkiCard(card)]))
+        })
+        continue
+      }
+
+      // Standard note types: each template is its own card, e.g. "Basic (and reversed card)" gives two
+      for (const card of note.cards) {
+        const template = note.templates[card.ord]
+        const { question, answer } = this.templateText(note, template)
+        if (!question || !answer) {
+          skipped++
+          continue
+        }
+        cards.push({
+          deck: card.deck,
+          draft: { type: 'basic', question, answer },
+          schedules: new Map([[0, this.fromAnkiCard(card)]])
+        })
+      }
+    }
+
+    return { cards, skipped }
+  }
+
+  /**
+   * Question and answer text of one standard-template card: the fields its front shows,
+   * and the fields its back adds
+   */
+  private templateText(note: AnkiNoteRecord, template?: { qfmt: string; afmt: string }): { question: string; answer: string } {
+    const referenced = (format: string) => Array.from(format.matchAll(/\{\{([^#^\/!}][^}]*)\}\}/g))
+      .map(match => match[1].split(':').pop()!.trim())
+      .filter(name => name !== 'FrontSide' && note.fieldNames.includes(name))
+
+    let questionFields = template ? referenced(template.qfmt) : []
+    let answerFields = template ? referenced(template.afmt).filter(name => !questionFields.includes(name)) : []
+    if (questionFields.length === 0 || answerFields.length === 0) {
+      questionFields = note.fieldNames.slice(0, 1)
+      answerFields = note.fieldNames.slice(1, 2)
+    }
+
+    const text = (fields: string[]) => fields
+      .map(name => stripHtml(note.fields[name] || ''))
+      .filter(Boolean)
+      .join('\n')
+    return { question: text(questionFields), answer: text(answerFields) }
+  }
+
+  /**
+   * The field holding Anki's built-in image occlusion shapes, if this is an occlusion note
+   */
+  private findOcclusionField(note: AnkiNoteRecord): string | null {
+    return note.fieldNames.find(name => (note.fields[name] || '').includes('image-occlusion:')) || null
+  }
+
+  /**
+   * Convert an Anki image occlusion note. Each cloze number becomes one mask covering all its shapes;
+   * the image is copied to Blob storage.
+   */
+  private async readOcclusionNote(
+    userId: string,
+    note: AnkiNoteRecord,
+    occlusionField: string,
+    readMedia: (name: string) => Promise<Uint8Array | null>
+  ): Promise<ImportedCard | null> {
+    const shapes = new Map<number, OcclusionMask[]>()
+    for (const match of Array.from(note.fields[occlusionField].matchAll(/\{\{c(\d+)::image-occlusion:(\w+):([^}]*)\}\}/g))) {
+      const props: Record<string, string> = {}
+      for (const part of match[3].split(':')) {
+        const [key, value] = part.split('=')
+        if (key && value !== undefined) props[key] = value
+      }
+
+      let box: OcclusionMask | null = null
+      if (match[2] === 'polygon' && props.points) {
+        const points = props.points.trim().split(/\s+/).map(point => point.split(',').map(parseFloat))
+        const xs = points.map(point => point[0])
+        const ys = points.map(point => point[1])
+        box = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+      } else if (props.left !== undefined && props.top !== undefined && props.width !== undefined && props.height !== undefined) {
+        box = { x: parseFloat(props.left), y: parseFloat(props.top), width: parseFloat(props.width), height: parseFloat(props.height) }
+      }
+
+      // Only shapes in image-relative coordinates (0-1) can be placed; older add-on notes used pixels
+      if (!box || [box.x, box.y, box.width, box.height].some(value => isNaN(value) || value < 0 || value > 1)) continue
+      const ordinal = parseInt(match[1])
+      shapes.set(ordinal, [...(shapes.get(ordinal) || []), box])
+    }
+    if (shapes.size === 0 || shapes.size > MAX_MASKS) return null
+
+    const imageName = note.fieldNames
+      .map(name => (note.fields[name] || '').match(/<img[^>]+src="([^"]+)"/i)?.[1])
+      .find(Boolean)
+    const image = imageName ? await readMedia(imageName) : null
+    if (!imageName || !image) return null
+
+    const blob = await put(`${flashcardImagePath(userId)}${Date.now()}-${imageName}`, Buffer.from(image), {
+      access: 'public',
+      token: process.env.BLOB_READ_WRITE_TOKEN,
+    })
+
+    const ordinals = Array.from(shapes.keys()).sort((a, b) => a - b)
+    const masks = ordinals.map(ordinal => {
+      const boxes = shapes.get(ordinal)!
+      const x = Math.min(...boxes.map(box => box.x))
+      const y = Math.min(...boxes.map(box => box.y))
+      return {
+        x,
+        y,
+        width: Math.min(1 - x, Math.max(...boxes.map(box => box.x + box.width)) - x),
+        height: Math.min(1 - y, Math.max(...boxes.map(box => box.y + box.height)) - y),
+        label: ''
+      }
+    })
+
+    const headerField = note.fieldNames.find(name => name === 'Header')
+    const cardByOrd = new Map(note.cards.map(card => [card.ord, card]))
+    const schedules = new Map<number, ImportedSchedule>()
+    ordinals.forEach((ordinal, index) => {
+      const card = cardByOrd.get(ordinal - 1)
+      if (card) schedules.set(index + 1, this.fromAnkiCard(card))
+    })
+
+    return {
+      deck: note.cards[0].deck,
+      draft: {
+        type: 'image_occlusion',
+        question: (headerField && stripHtml(note.fields[headerField])) || DEFAULT_OCCLUSION_PROMPT,
+        answer: '',
+        image_url: blob.url,
+        masks
+      },
+      schedules
+    }
+  }
+
+  private fromAnkiCard(card: AnkiCardRecord): ImportedSchedule {
+    return {
+      state: ANKI_TO_CARD_STATE[card.type] || 'new',
+      dueAt: card.dueAt,
+      intervalDays: card.intervalDays,
+      // DECIMAL(3,2) column; Anki's minimum ease is 130%
+      easinessFactor: card.factor > 0 ? Math.min(9.99, Math.max(1.3, card.factor / 1000)) : 2.5,
+      reviews: card.reviews
+        // Manual reschedules and cram reviews aren't recalls
+        .filter(review => review.ease > 0 && review.type <= 2)
+        .map(review => ({
+          quality: [1, 3, 4, 5][review.ease - 1] ?? 4,
+          reviewedAt: review.reviewedAt,
+          responseTimeMs: review.timeMs
+        }))
+    }
+  }
+
+  /**
+   * Read CSV rows. With a header, columns are matched by name (the columns our export writes);
+   * without one, the first two columns are question and answer.
+   */
+  private readCsv(text: string, defaultDeck: string): { cards: ImportedCard[]; skipped: number } {
+    const rows = parseCsv(text).filter(row => row.some(cell => cell.trim()))
+    if (rows.length === 0) return { cards: [], skipped: 0 }
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase())
+    const hasHeader = header.includes('question') && header.includes('answer')
+    const column = (name: string) => hasHeader ? header.indexOf(name) : ['question', 'answer'].indexOf(name)
+
+    const cards: ImportedCard[] = []
+    let skipped = 0
+    // Cloze siblings are exported one row each; keep the first and collect the others' scheduling
+    const clozeByKey = new Map<string, ImportedCard>()
+
+    for (const row of rows.slice(hasHeader ? 1 : 0)) {
+      const cell = (name: string) => {
+        const index = column(name)
+        return index >= 0 ? (row[index] || '').trim() : ''
+      }
+
+      const type = (cell('type') || 'basic') as FlashcardType
+      const question = cell('question')
+      const answer = cell('answer')
+      const deck = cell('note') || defaultDeck
+      const validCloze = type === 'cloze' && getClozeOrdinals(question).length > 0
+      if (!question || (type === 'basic' && !answer) || (type !== 'basic' && !validCloze)) {
+        // Occlusion rows can't be rebuilt without their masks
+        skipped++
+        continue
+      }
+
+      const state = cell('card_state') as CardState
+      const schedule: ImportedSchedule | null = state in CARD_STATE_TO_ANKI ? {
+        state,
+        dueAt: cell('next_review_date') ? new Date(cell('next_review_date')) : null,
+        intervalDays: parseInt(cell('interval_days')) || 1,
+        easinessFactor: Math.min(9.99, Math.max(1.3, parseFloat(cell('easiness_factor')) || 2.5)),
+        reviews: []
+      } : null
+      if (schedule?.dueAt && isNaN(schedule.dueAt.getTime())) schedule.dueAt = null
+
+      if (type === 'cloze') {
+        const key = `${deck}\x1f${question}`
+        const existing = clozeByKey.get(key)
+        const ordinal = parseInt(cell('ordinal')) || 1
+        if (existing) {
+          if (schedule) existing.schedules.set(ordinal, schedule)
+          continue
+        }
+        const card: ImportedCard = {
+          deck,
+          draft: { type: 'cloze', question, answer },
+          schedules: new Map(schedule ? [[ordinal, schedule]] : [])
+        }
+        clozeByKey.set(key, card)
+        cards.push(card)
+      } else {
+        cards.push({
+          deck,
+          draft: { type: 'basic', question, answer },
+          schedules: new Map(schedule ? [[0, schedule]] : [])
+        })
+      }
+    }
+
+    return { cards, skipped }
+  }
+
+  private async loadExportRows(userId: string, condition: string, params: any[]): Promise<ExportRow[]> {
+    const cards = await query(`
+      SELECT
+        f.id, f.note_id, n.title AS note_title, f.card_type, f.question, f.answer,
+        f.sibling_group, f.ordinal, f.media,
+        sr.card_state, sr.next_review_date, sr.interval_days, sr.easiness_factor::float AS easiness_factor
+      FROM flashcards f
+      JOIN notes n ON n.id = f.note_id
+      LEFT JOIN spaced_repetition sr ON sr.flashcard_id = f.id AND sr.user_id = f.user_id
+      WHERE f.user_id = $1 AND ${condition}
+      ORDER BY n.title, f.created_at, f.ordinal
+    `, [userId, ...params])
+
+    const ids = cards.rows.map((card: any) => card.id)
+    const reviews = ids.length === 0 ? { rows: [] } : await query(`
+      SELECT rs.flashcard_id, rs.quality, rs.response_time_ms, rs.reviewed_at
+      FROM review_sessions rs
+      LEFT JOIN spaced_repetition sr ON sr.flashcard_id = rs.flashcard_id AND sr.user_id = rs.user_id
+      WHERE rs.user_id = $1 AND rs.flashcard_id = ANY($2::uuid[])
+        AND rs.reviewed_at > COALESCE(sr.reset_at, '-infinity'::timestamptz)
+      ORDER BY rs.reviewed_at ASC
+    `, [userId, ids])
+
+    const reviewsByCard = new Map<string, ExportRow['reviews']>()
+    for (const review of reviews.rows) {
+      const list = reviewsByCard.get(review.flashcard_id) || []
+      list.push(review)
+      reviewsByCard.set(review.flashcard_id, list)
+    }
+
+    return cards.rows.map((card: any) => ({ ...card, reviews: reviewsByCard.get(card.id) || [] }))
+  }
+
+  private async buildExport(
+    userId: string,
+    rows: ExportRow[],
+    title: string,
+    format: FlashcardExportFormat,
+    deckFor: (row: ExportRow) => string
+  ): Promise<FlashcardExportFile> {
+    const baseName = title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').trim() || 'flashcards'
+
+    if (format === 'csv') {
+      const lines = [CSV_COLUMNS.join(',')]
+      for (const row of rows) {
+        lines.push([
+          row.question,
+          row.answer,
+          row.card_type,
+          row.note_title,
+          row.ordinal ?? '',
+          row.media?.image_url ?? '',
+          row.card_state ?? 'new',
+          row.next_review_date ? new Date(row.next_review_date).toISOString() : '',
+          row.interval_days ?? '',
+          row.easiness_factor ?? '',
+          row.reviews.length
+        ].map(value => csvCell(String(value))).join(','))
+      }
+      return {
+        fileName: `${baseName}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        // Byte order mark so spreadsheet apps read the file as UTF-8
+        data: new TextEncoder().encode('﻿' + lines.join('\r\n') + '\r\n')
+      }
+    }
+
+    const notes: AnkiExportNote[] = []
+    const clozeNotes = new Map<string, AnkiExportNote>()
+    const media = new Map<string, AnkiMediaFile>()
+
+    for (const row of rows) {
+      const card = this.toAnkiCard(row)
+
+      if (row.card_type === 'cloze') {
+        const key = row.sibling_group || row.id
+        const existing = clozeNotes.get(key)
+        if (existing) {
+          existing.cards.push(card)
+          continue
+        }
+        const note: AnkiExportNote = {
+          guid: ankiGuid(key),
+          kind: 'cloze',
+          deck: deckFor(row),
+          fields: [textToHtml(row.question), textToHtml(row.answer)],
+          tags: ['mangonote'],
+          cards: [card]
+        }
+        clozeNotes.set(key, note)
+        notes.push(note)
+      } else if (row.card_type === 'image_occlusion' && row.media) {
+        // Each mask is its own Basic note; the masks are drawn with HTML so no add-on is needed
+        const imageSource = await this.exportImage(userId, row.media.image_url, media)
+        notes.push({
+          guid: ankiGuid(row.id),
+          kind: 'standard',
+          deck: deckFor(row),
+          fields: [
+            `${textToHtml(row.question)}<br>${occlusionHtml(imageSource, row.media, (row.ordinal || 1) - 1, false)}`,
+            `${occlusionHtml(imageSource, row.media, (row.ordinal || 1) - 1, true)}${row.answer ? `<br><b>${textToHtml(row.answer)}</b>` : ''}`
+          ],
+          tags: ['mangonote'],
+          cards: [card]
+        })
+      } else {
+        notes.push({
+          guid: ankiGuid(row.id),
+          kind: 'standard',
+          deck: deckFor(row),
+          fields: [textToHtml(row.question), textToHtml(row.answer)],
+          tags: ['mangonote'],
+          cards: [card]
+        })
+      }
+    }
+
+    return {
+      fileName: `${baseName}.apkg`,
+      contentType: 'application/octet-stream',
+      data: await writeAnkiPackage(notes, Array.from(media.values()))
+    }
+  }
+
+  private toAnkiCard(row: ExportRow): AnkiExportCard {
+    const state = row.card_state || 'new'
+    const factor = Math.round((row.easiness_factor || 2.5) * 1000)
+    const lastIndex = row.reviews.length - 1
+
+    let lapses = 0
+    let hasPassed = false
+    const reviews: AnkiReviewLog[] = row.reviews.map((review, index) => {
+      const passed = review.quality >= 3
+      if (!passed && hasPassed) lapses++
+      const log: AnkiReviewLog = {
+        reviewedAt: new Date(review.reviewed_at),
+        ease: review.quality <= 2 ? 1 : review.quality - 1,
+        // Only the current interval is stored, so only the latest review can carry it
+        intervalDays: index === lastIndex && state === 'review' ? row.interval_days || 0 : 0,
+        factor,
+        timeMs: review.response_time_ms || 0,
+        type: hasPassed ? (passed ? 1 : 2) : 0
+      }
+      hasPassed = hasPassed || passed
+      return log
+    })
+
+    return {
+      ord: row.card_type === 'cloze' ? (row.ordinal || 1) - 1 : 0,
+      type: CARD_STATE_TO_ANKI[state],
+      dueAt: state === 'new' || !row.next_review_date ? null : new Date(row.next_review_date),
+      intervalDays: state === 'review' ? row.interval_days || 1 : 0,
+      factor,
+      reps: row.reviews.length,
+      lapses,
+      reviews
+    }
+  }
+
+  /**
+   * Add an occlusion image to the package's media, once per URL. Only the user's own uploads are
+   * fetched, so a card can't make the server download from anywhere else.
+   * @returns What the card's img tag should point at; the original URL if the image couldn't be fetched
+   */
+  private async exportImage(userId: string, imageUrl: string, media: Map<string, AnkiMediaFile>): Promise<string> {
+    const existing = media.get(imageUrl)
+    if (existing) return existing.name
+    if (!isFlashcardImageUrl(imageUrl, userId)) return imageUrl
+
+    try {
+      const response = await fetch(imageUrl, { redirect: 'error' })
+      if (!response.ok) throw new Error(`Image download failed (${response.status})`)
+      const data = await readLimited(response, MAX_IMAGE_BYTES)
+      const extension = imageUrl.split('?')[0].split('.').pop()?.toLowerCase() || 'png'
+      const name = `mangonote-${createHash('sha1').update(imageUrl).digest('hex').slice(0, 16)}.${extension}`
+      media.set(imageUrl, { name, data })
+      return name
+    } catch (error) {
+      console.error('Failed to fetch occlusion image for export:', error)
+      return imageUrl
+    }
+  }
+
+  /**
+   * Anki uses "::" to nest decks, so it can't appear inside a single deck name
+   */
+  private deckName(title: string): string {
+    return title.split('::').join(':').trim() || 'MangoNote'
+  }
+}
+
+/**
+ * Read a response body, giving up once it is larger than maxBytes
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    throw new Error('Image is too large to export')
+  }
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  if (response.body) {
+    const reader = response.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      size += value.length
+      if (size > maxBytes) {
+        await reader.cancel()
+        throw new Error('Image is too large to export')
+      }
+      chunks.push(value)
+    }
+  }
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+/**
+ * An image with absolutely positioned boxes over its masks; the asked-about mask is highlighted,
+ * and on the back it is uncovered
+ */
+function occlusionHtml(imageSource: string, media: ImageOcclusionMedia, activeIndex: number, revealed: boolean): string {
+  const boxes = media.masks.map((mask, index) => {
+    const isActive = index === activeIndex
+    if (isActive && revealed) {
+      return maskDiv(mask, 'border:2px solid #f59e0b')
+    }
+    return maskDiv(mask, isActive ? 'background:#f59e0b;border:2px solid #fbbf24' : 'background:#6b7280;border:1px solid #9ca3af')
+  })
+  return `<div style="position:relative;display:inline-block"><img src="${imageSource.replace(/"/g, '&quot;')}" style="max-width:100%">${boxes.join('')}</div>`
+}
+
+function maskDiv(mask: OcclusionMask, style: string): string {
+  const percent = (value: number) => `${(value * 100).toFixed(3)}%`
+  return `<div style="position:absolute;left:${percent(mask.x)};top:${percent(mask.y)};width:${percent(mask.width)};height:${percent(mask.height)};border-radius:4px;${style}"></div>`
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * RFC 4180 CSV: quoted cells may contain commas, quotes ("") and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  const input = text.replace(/^﻿/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Export singleton instance
+export const flashcardTransferService = new FlashcardTransferService();
@@ -0,0 +1,209 @@
+/**
+ * Flashcard types and the sibling cards each one expands into
+ * Shared by the server, which stores one row per sibling, and the review UI, which renders them
+ *
+ *   basic            question on the front, answer on the back
+ *   cloze            question holds text with {{c1::hidden}} or {{c1::hidden::hint}} deletions;
+ *                    one sibling per cloze number, answer holds optional extra notes for the back
+ *   image_occlusion  question is the prompt, media holds the image and its masks;
+ *                    one sibling per mask, answer is that mask's label
+ */
+
+export type FlashcardType = 'basic' | 'cloze' | 'image_occlusion'
+
+export const FLASHCARD_TYPES: FlashcardType[] = ['basic', 'cloze', 'image_occlusion']
+
+// A rectangle over the image, as fractions (0-1) of its width and height so it scales with the image
+export interface OcclusionMask {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Occlusion images are the user's own uploads to Blob storage, under this path
+const BLOB_HOST_SUFFIX = '.public.blob.vercel-storage.com'
+
+export function flashcardImagePath(userId: string): string {
+  return `${userId}/flashcards/`
+}
+
+/**
+ * Whether a URL is an occlusion image the user uploaded, so the server never stores or fetches anything else
+ */
+export function isFlashcardImageUrl(value: string, userId: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' &&
+      url.hostname.endsWith(BLOB_HOST_SUFFIX) &&
+      !url.username && !url.password && !url.port &&
+      url.pathname.startsWith(`/${flashcardImagePath(userId)}`)
+  } catch {
+    return false
+  }
+}
+
+export interface ImageOcclusionMedia {
+  image_url: string
+  masks: OcclusionMask[]
+}
+
+// A card as written by the user or the AI, before it is split into siblings
+export interface FlashcardDraft {
+  type?: FlashcardType
+  question: string
+  answer: string
+  image_url?: string
+  masks?: Array<OcclusionMask & { label: string }> // Image occlusion only
+}
+
+// One stored card; ordinal is the cloze number or 1-based mask number, null for basic cards
+export interface FlashcardSibling {
+  question: string
+  answer: string
+  ordinal: number | null
+  media: ImageOcclusionMedia | null
+}
+
+export interface ClozeSegment {
+  text: string
+  active: boolean // Part of the cloze this sibling asks about
+  hint?: string
+}
+
+export const MAX_MASKS = 20
+
+/**
+ * Matches {{cN::text}} and {{cN::text::hint}}; deletions can't contain braces
+ */
+function clozePattern(): RegExp {
+  return /\{\{c(\d+)::([^{}]*?)(?:::([^{}]*?))?\}\}/g
+}
+
+/**
+ * The distinct cloze numbers used in a text, ascending
+ */
+export function getClozeOrdinals(text: string): number[] {
+  const ordinals = new Set<number>()
+  const pattern = clozePattern()
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const ordinal = parseInt(match[1])
+    if (ordinal > 0) ordinals.add(ordinal)
+  }
+  return Array.from(ordinals).sort((a, b) => a - b)
+}
+
+/**
+ * Split cloze text into runs, marking the deletions one sibling asks about.
+ * Other siblings' deletions become plain text, since only the active ones are hidden.
+ */
+export function renderCloze(text: string, ordinal: number): ClozeSegment[] {
+  const segments: ClozeSegment[] = []
+  const pattern = clozePattern()
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), active: false })
+    }
+    if (parseInt(match[1]) === ordinal) {
+      segments.push({ text: match[2], active: true, hint: match[3] })
+    } else {
+      segments.push({ text: match[2], active: false })
+    }
+    lastIndex = match.index + match[0].length
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), active: false })
+  }
+
+  return segments
+}
+
+/**
+ * Plain text of a cloze card with every deletion filled in, for search and listings
+ */
+export function stripCloze(text: string): string {
+  return fillCloze(text, answer => answer)
+}
+
+/**
+ * Fill in every deletion of a cloze card, formatted, e.g. emphasised in an export
+ */
+export function fillCloze(text: string, format: (answer: string) => string): string {
+  return text.replace(clozePattern(), (_match, _ordinal, answer: string) => format(answer))
+}
+
+/**
+ * Check a draft can be stored
+ * @param userId Owner of the card; the server passes it so an occlusion image must be one of their uploads
+ * @returns What is wrong with it, or null if it is valid
+ */
+export function validateFlashcardDraft(draft: FlashcardDraft, userId?: string): string | null {
+  const type = draft.type || 'basic'
+  if (!FLASHCARD_TYPES.includes(type)) {
+    return `type must be one of: ${FLASHCARD_TYPES.join(', ')}`
+  }
+
+  if (typeof draft.question !== 'string' || !draft.question.trim()) {
+    return type === 'cloze' ? 'Cloze text is required' : 'question is required'
+  }
+
+  switch (type) {
+    case 'basic':
+      return typeof draft.answer === 'string' && draft.answer.trim() ? null : 'answer is required'
+
+    case 'cloze':
+      return getClozeOrdinals(draft.question).length > 0
+        ? null
+        : 'Cloze text must contain at least one deletion like {{c1::text}}'
+
+    case 'image_occlusion': {
+      if (typeof draft.image_url !== 'string' || !draft.image_url) return 'image_url is required'
+      if (userId && !isFlashcardImageUrl(draft.image_url, userId)) return 'image_url must be an image uploaded with /api/flashcards/images'
+      if (!Array.isArray(draft.masks) || draft.masks.length === 0) return 'At least one mask is required'
+      if (draft.masks.length > MAX_MASKS) return `At most ${MAX_MASKS} masks are allowed`
+      const inBounds = draft.masks.every(mask =>
+        [mask.x, mask.y, mask.width, mask.height].every(value => typeof value === 'number' && value >= 0 && value <= 1) &&
+        mask.width > 0 && mask.height > 0 &&
+        // Allow for rounding in the fractions the browser sends
+        mask.x + mask.width <= 1 + 1e-6 && mask.y + mask.height <= 1 + 1e-6
+      )
+      return inBounds ? null : 'Masks must lie within the image'
+    }
+  }
+}
+
+/**
+ * Expand a valid draft into the cards that are stored and reviewed
+ */
+export function expandFlashcardDraft(draft: FlashcardDraft): FlashcardSibling[] {
+  switch (draft.type || 'basic') {
+    case 'cloze':
+      return getClozeOrdinals(draft.question).map(ordinal => ({
+        question: draft.question,
+        answer: draft.answer || '',
+        ordinal,
+        media: null
+      }))
+
+    case 'image_occlusion': {
+      const masks = draft.masks || []
+      const media: ImageOcclusionMedia = {
+        image_url: draft.image_url!,
+        masks: masks.map(({ x, y, width, height }) => ({ x, y, width, height }))
+      }
+      return masks.map((mask, index) => ({
+        question: draft.question,
+        answer: mask.label || '',
+        ordinal: index + 1,
+        media
+      }))
+    }
+
+    default:
+      return [{ question: draft.question, answer: draft.answer, ordinal: null, media: null }]
+  }
+}
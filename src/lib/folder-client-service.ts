@@ -0,0 +1,154 @@
+/**
+ * Client-side Folder Service
+ * Uses API routes instead of direct database access to avoid build issues
+ */
+
+import type { NoteExportFormat } from './note-client-service'
+
+export interface FolderItem {
+  id: string
+  parent_id: string | null
+  name: string
+  color?: string
+  icon?: string
+  note_count: number
+  created_at: string
+}
+
+export interface FolderTreeNode extends FolderItem {
+  children: FolderTreeNode[]
+}
+
+export const FOLDER_COLORS = ['#FFC300', '#F97316', '#EF4444', '#10B981', '#3B82F6', '#8B5CF6', '#6B7280']
+
+// dataTransfer types used for drag-to-move between the dashboard and the folder tree
+export const NOTE_DRAG_TYPE = 'application/x-mango-note'
+export const FOLDER_DRAG_TYPE = 'application/x-mango-folder'
+
+/**
+ * Build a nested tree from the flat folder list returned by the API
+ */
+export function buildFolderTree(folders: FolderItem[]): FolderTreeNode[] {
+  const nodes = new Map<string, FolderTreeNode>()
+  folders.forEach(folder => nodes.set(folder.id, { ...folder, children: [] }))
+
+  const roots: FolderTreeNode[] = []
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  return roots
+}
+
+export class FolderClientService {
+  /**
+   * Get all folders for the current user
+   */
+  async getFolders(): Promise<FolderItem[]> {
+    try {
+      const response = await fetch('/api/folders')
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data
+      } else {
+        throw new Error(result.error || 'Failed to load folders')
+      }
+    } catch (error) {
+      console.error('Failed to fetch folders:', error)
+      return []
+    }
+  }
+
+  /**
+   * Create a folder, optionally nested under a parent
+   */
+  async createFolder(name: string, parentId?: string | null, color?: string): Promise<FolderItem | null> {
+    try {
+      const response = await fetch('/api/folders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, parentId, color }),
+      })
+
+      const result = await response.json()
+      return result.success ? result.data : null
+    } catch (error) {
+      console.error('Failed to create folder:', error)
+      return null
+    }
+  }
+
+  /**
+   * Rename, recolor or re-parent a folder
+   */
+  async updateFolder(
+    folderId: string,
+    updates: { name?: string; color?: string | null; parentId?: string | null }
+  ): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/folders/${folderId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      })
+
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to update folder:', error)
+      return false
+    }
+  }
+
+  /**
+   * Delete a folder and its subfolders; their notes become unfiled
+   */
+  async deleteFolder(folderId: string): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/folders/${folderId}`, { method: 'DELETE' })
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to delete folder:', error)
+      return false
+    }
+  }
+
+  /**
+   * Move a note into a folder, or out of all folders when folderId is null
+   */
+  async moveNote(noteId: string, folderId: string | null): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/notes/${noteId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ folderId }),
+      })
+
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to move note:', error)
+      return false
+    }
+  }
+
+  /**
+   * Download link for a zip of every note in a folder and its subfolders
+   */
+  getExportUrl(folderId: string, format: NoteExportFormat): string {
+    return `/api/folders/${folderId}/export?${new URLSearchParams({ format })}`
+  }
+}
@@ -0,0 +1,228 @@
+import { queryOne, queryMany, transaction } from '@/lib/database'
+
+export interface Folder {
+  id: string
+  user_id: string
+  parent_id: string | null
+  name: string
+  color?: string
+  icon?: string
+  created_at: string
+}
+
+export interface FolderWithCounts extends Folder {
+  note_count: number
+}
+
+export interface CreateFolderParams {
+  name: string
+  parentId?: string | null
+  color?: string
+  icon?: string
+}
+
+export interface UpdateFolderParams {
+  name?: string
+  parentId?: string | null
+  color?: string | null
+  icon?: string | null
+}
+
+export class FoldersService {
+  /**
+   * Get every folder for the user as a flat list; the client builds the tree
+   */
+  async getFolders(userId: string): Promise<FolderWithCounts[]> {
+    try {
+      const folders = await queryMany(`
+        SELECT
+          f.*,
+          COALESCE(n_count.count, 0)::int as note_count
+        FROM folders f
+        LEFT JOIN (
+          SELECT folder_id, COUNT(*) as count
+          FROM notes
+          WHERE user_id = $1 AND content_status = 'completed'
+          GROUP BY folder_id
+        ) n_count ON f.id = n_count.folder_id
+        WHERE f.user_id = $1
+        ORDER BY f.name ASC
+      `, [userId])
+
+      return folders as FolderWithCounts[]
+    } catch (error) {
+      console.error('Failed to fetch folders:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get a single folder owned by the user
+   */
+  async getFolderById(userId: string, folderId: string): Promise<Folder | null> {
+    try {
+      const folder = await queryOne(`
+        SELECT * FROM folders
+        WHERE id = $1 AND user_id = $2
+      `, [folderId, userId])
+
+      return folder || null
+    } catch (error) {
+      console.error('Failed to fetch folder by ID:', error)
+      return null
+    }
+  }
+
+  /**
+   * Path of every folder below a root, like "Parent/Child/", for exports that mirror the tree as directories
+   * @param rootId Folder the paths start from (its own path is ''); null for the whole library
+   * @param toSegment Turns a folder name into a path segment
+   */
+  async getFolderPaths(
+    userId: string,
+    rootId: string | null,
+    toSegment: (name: string) => string
+  ): Promise<Map<string, string>> {
+    const folders = await this.getFolders(userId)
+    const paths = new Map<string, string>(rootId ? [[rootId, '']] : [])
+
+    let added = true
+    while (added) {
+      added = false
+      for (const folder of folders) {
+        if (paths.has(folder.id)) continue
+
+        const parentPath = folder.parent_id ? paths.get(folder.parent_id) : rootId ? undefined : ''
+        if (parentPath !== undefined) {
+          paths.set(folder.id, `${parentPath}${toSegment(folder.name)}/`)
+          added = true
+        }
+      }
+    }
+
+    return paths
+  }
+
+  /**
+   * Create a folder, optionally nested under a parent
+   */
+  async createFolder(userId: string, params: CreateFolderParams): Promise<Folder> {
+    try {
+      const folder = await queryOne(`
+        INSERT INTO folders (user_id, parent_id, name, color, icon)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `, [
+        userId,
+        params.parentId || null,
+        params.name,
+        params.color || null,
+        params.icon || null
+      ])
+
+      if (!folder) {
+        throw new Error('Failed to create folder')
+      }
+
+      return folder
+    } catch (error) {
+      console.error('Failed to create folder:', error)
+      throw new Error('Failed to create folder')
+    }
+  }
+
+  /**
+   * Rename, recolor or re-parent a folder. Omitted fields are left unchanged.
+   */
+  async updateFolder(userId: string, folderId: string, updates: UpdateFolderParams): Promise<Folder | null> {
+    try {
+      const folder = await queryOne(`
+        UPDATE folders
+        SET
+          name = COALESCE($3, name),
+          color = CASE WHEN $4 THEN $5 ELSE color END,
+          icon = CASE WHEN $6 THEN $7 ELSE icon END,
+          parent_id = CASE WHEN $8 THEN $9::uuid ELSE parent_id END
+        WHERE id = $1 AND user_id = $2
+        RETURNING *
+      `, [
+        folderId,
+        userId,
+        updates.name ?? null,
+        updates.color !== undefined,
+        updates.color ?? null,
+        updates.icon !== undefined,
+        updates.icon ?? null,
+        updates.parentId !== undefined,
+        updates.parentId ?? null
+      ])
+
+      return folder || null
+    } catch (error) {
+      console.error('Failed to update folder:', error)
+      throw new Error('Failed to update folder')
+    }
+  }
+
+  /**
+   * Check whether candidateId is folderId itself or one of its descendants.
+   * Used to reject moves that would create a cycle.
+   */
+  async isSelfOrDescendant(userId: string, folderId: string, candidateId: string): Promise<boolean> {
+    try {
+      const match = await queryOne(`
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM folders WHERE id = $1 AND user_id = $2
+          UNION ALL
+          SELECT f.id FROM folders f
+          JOIN subtree s ON f.parent_id = s.id
+        )
+        SELECT id FROM subtree WHERE id = $3
+      `, [folderId, userId, candidateId])
+
+      return !!match
+    } catch (error) {
+      console.error('Failed to check folder ancestry:', error)
+      return true
+    }
+  }
+
+  /**
+   * Delete a folder and its subfolders. Notes inside them become unfiled.
+   */
+  async deleteFolder(userId: string, folderId: string): Promise<boolean> {
+    try {
+      const subtreeQuery = `
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM folders WHERE id = $1 AND user_id = $2
+          UNION ALL
+          SELECT f.id FROM folders f
+          JOIN subtree s ON f.parent_id = s.id
+        )
+      `
+
+      return await transaction(async (client) => {
+        await client.query(`
+          ${subtreeQuery}
+          UPDATE notes SET folder_id = NULL
+          WHERE user_id = $2 AND folder_id IN (SELECT id FROM subtree)
+        `, [folderId, userId])
+
+        const deleted = await client.query(`
+          ${subtreeQuery}
+          DELETE FROM folders
+          WHERE user_id = $2 AND id IN (SELECT id FROM subtree)
+          RETURNING id
+        `, [folderId, userId])
+
+        return deleted.rows.length > 0
+      })
+    } catch (error) {
+      console.error('Failed to delete folder:', error)
+      return false
+    }
+  }
+}
+
+// Export singleton instance
+export const foldersService = new FoldersService();
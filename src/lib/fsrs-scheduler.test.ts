@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { FSRSScheduler } from '@/lib/fsrs-scheduler'
+import { SpacedRepetitionEngine, SpacedRepetitionData, ReviewGrade } from '@/lib/spaced-repetition-engine'
+
+const scheduler = new FSRSScheduler()
+const engine = new SpacedRepetitionEngine()
+const REVIEWED_AT = new Date('2026-01-12T09:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function review(card: SpacedRepetitionData, grade: ReviewGrade, reviewedAt: Date = REVIEWED_AT): SpacedRepetitionData {
+  return scheduler.processReview(card, engine.gradeToQuality(grade), reviewedAt)
+}
+
+// Values below follow from the published FSRS-4.5 default weights
+describe('FSRSScheduler first review', () => {
+  it.each([
+    ['again', 0.4872, 7.6214, 1],
+    ['hard', 1.4003, 6.3916, 1],
+    ['good', 3.7145, 5.1618, 4],
+    ['easy', 13.8206, 3.932, 14]
+  ] as const)('starts %s with stability %f and difficulty %f', (grade, stability, difficulty, interval) => {
+    const card = review(engine.initializeFlashcard('card-1', 'user-1'), grade)
+
+    expect(card.stability).toBeCloseTo(stability, 4)
+    expect(card.difficulty).toBeCloseTo(difficulty, 4)
+    expect(card.interval).toBe(interval)
+  })
+})
+
+describe('FSRSScheduler later reviews', () => {
+  // A card first answered Good, reviewed again exactly when its recall probability has fallen to 90%
+  const learned = review(engine.initializeFlashcard('card-1', 'user-1'), 'good')
+  const dueAt = new Date(REVIEWED_AT.getTime() + 3.7145 * DAY_MS)
+
+  it('is 90% likely to recall a card after `stability` days', () => {
+    expect(scheduler.retrievability(3.7145, 3.7145)).toBeCloseTo(0.9, 10)
+  })
+
+  it.each([
+    ['hard', 6.0729, 6.0315, 6],
+    ['good', 14.0950, 5.1618, 14],
+    ['easy', 33.5636, 4.2921, 34]
+  ] as const)('grows stability on a %s recall', (grade, stability, difficulty, interval) => {
+    const card = review(learned, grade, dueAt)
+
+    expect(card.stability).toBeCloseTo(stability, 3)
+    expect(card.difficulty).toBeCloseTo(difficulty, 3)
+    expect(card.interval).toBe(interval)
+    expect(card.repetitions).toBe(2)
+  })
+
+  it('shrinks stability and raises difficulty after a lapse', () => {
+    const card = review(learned, 'again', dueAt)
+
+    expect(card.stability).toBeCloseTo(1.4185, 3)
+    expect(card.difficulty).toBeCloseTo(6.9012, 3)
+    expect(card.interval).toBe(1)
+    expect(card.repetitions).toBe(0)
+  })
+})
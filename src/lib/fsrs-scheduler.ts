@@ -0,0 +1,146 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler) v4.5
+ * Models each card's memory with stability (days until recall probability falls to 90%),
+ * difficulty (1-10) and retrievability (current probability of recall)
+ */
+
+import type { ReviewScheduler, SpacedRepetitionData } from './spaced-repetition-engine'
+
+// Again / Hard / Good / Easy
+export type FSRSRating = 1 | 2 | 3 | 4
+
+// Default FSRS-4.5 parameters, fitted on a large set of Anki review logs
+const DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031,
+  1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+]
+
+const DECAY = -0.5
+const FACTOR = 19 / 81 // Makes retrievability exactly 90% after `stability` days
+const DEFAULT_RETENTION = 0.9
+const MAX_INTERVAL_DAYS = 36500
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export class FSRSScheduler implements ReviewScheduler {
+  readonly name = 'fsrs' as const
+
+  constructor(
+    private readonly weights: number[] = DEFAULT_WEIGHTS,
+    private readonly requestRetention: number = DEFAULT_RETENTION
+  ) {}
+
+  processReview(currentData: SpacedRepetitionData, quality: number, reviewedAt: Date = new Date()): SpacedRepetitionData {
+    if (quality < 0 || quality > 5) {
+      throw new Error('Quality must be between 0 and 5')
+    }
+
+    const rating = this.qualityToRating(quality)
+    let { repetitions } = currentData
+    let stability: number
+    let difficulty: number
+
+    if (currentData.stability === null || currentData.difficulty === null) {
+      // First review: parameters depend only on the rating
+      stability = this.initialStability(rating)
+      difficulty = this.initialDifficulty(rating)
+    } else {
+      const elapsedDays = currentData.lastReviewedAt
+        ? Math.max(0, (reviewedAt.getTime() - currentData.lastReviewedAt.getTime()) / DAY_MS)
+        : 0
+      const retrievability = this.retrievability(elapsedDays, currentData.stability)
+
+      difficulty = this.nextDifficulty(currentData.difficulty, rating)
+      stability = rating === 1
+        ? this.forgetStability(currentData.difficulty, currentData.stability, retrievability)
+        : this.recallStability(currentData.difficulty, currentData.stability, retrievability, rating)
+    }
+
+    repetitions = rating === 1 ? 0 : repetitions + 1
+    const interval = this.nextInterval(stability)
+
+    const nextReviewDate = new Date(reviewedAt)
+    nextReviewDate.setDate(nextReviewDate.getDate() + interval)
+
+    return {
+      ...currentData,
+      repetitions,
+      interval,
+      stability,
+      difficulty,
+      nextReviewDate,
+      lastReviewedAt: reviewedAt,
+      lastQuality: quality,
+      isNew: false
+    }
+  }
+
+  /**
+   * Probability (0-1) that the card is recalled after elapsedDays
+   */
+  retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + FACTOR * elapsedDays / stability, DECAY)
+  }
+
+  /**
+   * Map the 0-5 review quality onto FSRS's four ratings
+   */
+  qualityToRating(quality: number): FSRSRating {
+    if (quality < 3) return 1
+    if (quality === 3) return 2
+    if (quality === 4) return 3
+    return 4
+  }
+
+  private initialStability(rating: FSRSRating): number {
+    return Math.max(this.weights[rating - 1], 0.1)
+  }
+
+  private initialDifficulty(rating: FSRSRating): number {
+    return this.clampDifficulty(this.weights[4] - (rating - 3) * this.weights[5])
+  }
+
+  private nextDifficulty(difficulty: number, rating: FSRSRating): number {
+    const next = difficulty - this.weights[6] * (rating - 3)
+    // Mean reversion towards the difficulty of a card first rated Good
+    return this.clampDifficulty(this.weights[7] * this.initialDifficulty(3) + (1 - this.weights[7]) * next)
+  }
+
+  private recallStability(difficulty: number, stability: number, retrievability: number, rating: FSRSRating): number {
+    const w = this.weights
+    const hardPenalty = rating === 2 ? w[15] : 1
+    const easyBonus = rating === 4 ? w[16] : 1
+
+    return stability * (
+      1 +
+      Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp(w[10] * (1 - retrievability)) - 1) *
+      hardPenalty *
+      easyBonus
+    )
+  }
+
+  private forgetStability(difficulty: number, stability: number, retrievability: number): number {
+    const w = this.weights
+    const next = w[11] *
+      Math.pow(difficulty, -w[12]) *
+      (Math.pow(stability + 1, w[13]) - 1) *
+      Math.exp(w[14] * (1 - retrievability))
+
+    // A lapse never makes the memory more stable than it was
+    return Math.min(next, stability)
+  }
+
+  /**
+   * Days until retrievability drops to the requested retention
+   */
+  private nextInterval(stability: number): number {
+    const interval = stability / FACTOR * (Math.pow(this.requestRetention, 1 / DECAY) - 1)
+    return Math.min(Math.max(Math.round(interval), 1), MAX_INTERVAL_DAYS)
+  }
+
+  private clampDifficulty(difficulty: number): number {
+    return Math.min(Math.max(difficulty, 1), 10)
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Markdown to a standalone HTML page: styles inline, math as MathML,
+ * so the file displays the same offline and without the app
+ */
+
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import remarkRehype from 'remark-rehype'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeStringify from 'rehype-stringify'
+
+export interface HtmlExportOptions {
+  title: string
+}
+
+// Raw HTML in the Markdown is dropped by remark-rehype, as in the app's renderer
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkMath)
+  .use(remarkRehype)
+  .use(rehypeKatex, { output: 'mathml' })
+  .use(rehypeHighlight)
+  .use(rehypeStringify)
+
+const STYLES = `
+  body { max-width: 46rem; margin: 2.5rem auto; padding: 0 1.25rem; font: 16px/1.65 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, "Noto Sans", "PingFang SC", "Microsoft YaHei", sans-serif; color: #1A1F2C; }
+  h1, h2, h3, h4 { line-height: 1.3; margin: 1.8em 0 0.6em; }
+  h1 { font-size: 2rem; margin-top: 0; padding-bottom: 0.3em; border-bottom: 3px solid #FFD84D; }
+  h2 { font-size: 1.45rem; padding-bottom: 0.2em; border-bottom: 1px solid #E5E7EB; }
+  a { color: #B8590C; }
+  img { max-width: 100%; height: auto; }
+  blockquote { margin: 1em 0; padding: 0 1em; color: #4C5464; border-left: 4px solid #FFD84D; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; background: #F3F4F6; padding: 0.15em 0.35em; border-radius: 4px; }
+  pre { background: #F6F8FA; padding: 1em; border-radius: 8px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+  th, td { border: 1px solid #D1D5DB; padding: 0.45em 0.75em; text-align: left; }
+  th { background: #F9F7F0; }
+  hr { border: none; border-top: 1px solid #E5E7EB; margin: 2em 0; }
+  .contains-task-list { list-style: none; padding-left: 1.2em; }
+  math[display="block"] { margin: 1em 0; overflow-x: auto; }
+  .hljs-comment, .hljs-quote { color: #6A737D; font-style: italic; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-type { color: #D73A49; }
+  .hljs-string, .hljs-regexp, .hljs-addition { color: #032F62; }
+  .hljs-number, .hljs-literal, .hljs-symbol, .hljs-variable, .hljs-template-variable { color: #005CC5; }
+  .hljs-title, .hljs-section, .hljs-function .hljs-title { color: #6F42C1; }
+  .hljs-attr, .hljs-attribute, .hljs-name, .hljs-tag { color: #22863A; }
+  .hljs-built_in, .hljs-meta { color: #E36209; }
+  .hljs-deletion { color: #B31D28; background: #FFEEF0; }
+  @media print { body { margin: 0; max-width: none; } pre { white-space: pre-wrap; } }
+`
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char] as string))
+}
+
+/**
+ * Render a Markdown document to a complete HTML file
+ */
+export async function markdownToHtml(markdown: string, options: HtmlExportOptions): Promise<string> {
+  const body = String(await processor.process(markdown))
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="MangoNote">
+<title>${escapeHtml(options.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
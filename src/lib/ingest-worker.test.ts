@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest'
+import { memoryDb, createTestUser } from '@/lib/testing/memory-database'
+import type { LLMTask, MockLLMProvider } from '@/lib/llm-provider'
+import { jobQueue } from '@/lib/job-queue'
+import { ingestWorker } from '@/lib/ingest-worker'
+import mockFixtures from '@/lib/fixtures/llm-mock.json'
+
+vi.mock('pg', async () => (await import('@/lib/testing/memory-database')).pgModule)
+
+// pg-mem can't run the LATERAL join behind version snapshots
+vi.mock('@/lib/note-versions-service', () => ({
+  noteVersionsService: { captureVersion: vi.fn() }
+}))
+
+// Audio isn't ingested here, and the real service needs an API key to load
+vi.mock('@/lib/whisper-service', () => ({ whisperService: {} }))
+
+// Every task gets one shared mock provider, so the test can read the prompts it was sent
+const providers = vi.hoisted(() => ({}) as Partial<Record<LLMTask, MockLLMProvider>>)
+vi.mock('@/lib/llm-provider', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/llm-provider')>()
+  return {
+    ...actual,
+    createLLMProvider: (task: LLMTask) => (providers[task] ??= new actual.MockLLMProvider(task))
+  }
+})
+
+const TEXT = [
+  'Spaced repetition reviews material at increasing intervals.',
+  'Each successful recall pushes the next review further out, while a forgotten card comes back sooner.',
+  'Answering from memory before checking the answer is called active recall.'
+].join('\n\n')
+
+describe('ingestWorker', () => {
+  it('analyzes a text note and adds its flashcards offline', async () => {
+    const userId = createTestUser(`ingest-${Date.now()}-${Math.random()}@example.com`)
+    const noteId = memoryDb.public.one(`
+      INSERT INTO notes (user_id, title, source_type, transcription, content_status)
+      VALUES ('${userId}', 'Study notes', 'text', '${TEXT}', 'processing')
+      RETURNING id
+    `).id
+    const job = await jobQueue.enqueue({ userId, noteId, type: 'ingest', payload: { source: 'text', title: 'Study notes' } })
+
+    expect(await ingestWorker.processQueue()).toBe(1)
+
+    expect(providers.analysis!.prompts).toHaveLength(1)
+    expect(providers.analysis!.prompts[0]).toContain(TEXT)
+    expect(providers.flashcards!.prompts).toHaveLength(1)
+    expect(providers.flashcards!.prompts[0]).toContain(TEXT)
+
+    const blocks = memoryDb.public.many(`
+      SELECT type, content FROM content_blocks WHERE note_id = '${noteId}' ORDER BY sort_order
+    `)
+    expect(blocks.map(block => block.type)).toEqual(['summary', 'key_points', 'questions'])
+    expect(blocks[0].content.text).toBe(mockFixtures.analysis.summary)
+    expect(blocks[1].content.points).toEqual(mockFixtures.analysis.key_points)
+
+    // Five question/answer cards plus one per cloze deletion, each scheduled as new
+    const cards = memoryDb.public.many(`
+      SELECT f.card_type, f.question, sr.is_new
+      FROM flashcards f JOIN spaced_repetition sr ON sr.flashcard_id = f.id
+      WHERE f.note_id = '${noteId}'
+    `)
+    expect(cards).toHaveLength(7)
+    expect(cards.filter(card => card.card_type === 'cloze')).toHaveLength(2)
+    expect(cards.map(card => card.question)).toContain(mockFixtures.flashcards[0].question)
+    expect(cards.every(card => card.is_new)).toBe(true)
+
+    const note = memoryDb.public.one(`SELECT title, markdown, content_status FROM notes WHERE id = '${noteId}'`)
+    expect(note.title).toBe('Study notes')
+    expect(note.markdown).toContain(mockFixtures.analysis.key_points[0])
+    expect(note.content_status).toBe('completed')
+
+    const finished = memoryDb.public.one(`SELECT status, state FROM jobs WHERE id = '${job.id}'`)
+    expect(finished.status).toBe('completed')
+    expect(finished.state.completedStages).toEqual(['extract', 'analyze', 'flashcards'])
+  })
+})
@@ -0,0 +1,510 @@
+import { query, transaction } from '@/lib/database'
+import { Job, JobStatus, jobQueue } from '@/lib/job-queue'
+import { Note } from '@/lib/notes-service'
+import { PERSONAL_NOTES_TYPE } from '@/lib/content-block-types'
+import { blocksToMarkdown } from '@/lib/note-markdown'
+import { noteVersionsService } from '@/lib/note-versions-service'
+import { AIService } from '@/lib/ai-service'
+import { flashcardService } from '@/lib/flashcard-service'
+import { LLMService } from '@/lib/llm-service'
+import { YouTubeTranscriptService } from '@/lib/youtube-transcript-service'
+import { whisperService } from '@/lib/whisper-service'
+import { webArticleService } from '@/lib/web-article-service'
+import { DocumentFormatError, getDocumentExtractor } from '@/lib/document-extractor'
+import { AIError, ErrorHandler } from '@/lib/error-handler'
+
+// 'pdf' is kept for jobs queued before other document formats were accepted
+export type IngestSource = 'pdf' | 'document' | 'youtube' | 'audio' | 'text' | 'web'
+export type IngestStage = 'extract' | 'analyze' | 'flashcards'
+
+export interface IngestPayload {
+  source: IngestSource
+  fileUrl?: string // Blob storage URL for document and audio sources
+  fileName?: string
+  mimeType?: string
+  url?: string // YouTube video or web article URL
+  language?: string
+  title?: string // Title chosen by the user; takes precedence over the AI title
+  generateFlashcards?: boolean
+}
+
+export interface IngestState {
+  completedStages: IngestStage[]
+  text?: string
+  title?: string // Title found in the source itself, e.g. an article headline; kept over the AI title
+}
+
+export interface IngestProgress {
+  noteId: string
+  jobId: string | null
+  source: IngestSource | null
+  status: JobStatus
+  stage: IngestStage | null
+  completedStages: IngestStage[]
+  progress: number
+  message: string | null
+  error: string | null // User-facing failure reason once status is 'failed'
+  attempts: number
+  maxAttempts: number
+}
+
+// Reports progress within a stage, 0-100
+type StageProgressCallback = (percent: number, message: string) => void
+
+interface StageDefinition {
+  name: IngestStage
+  // Optional stages don't fail the note once their retries run out
+  optional: boolean
+  // Share of the overall progress bar covered by this stage
+  progressRange: [number, number]
+  run: (job: Job<IngestPayload, IngestState>, state: IngestState, onProgress: StageProgressCallback) => Promise<void>
+}
+
+const EXTRACT_MESSAGES: Record<IngestSource, string> = {
+  pdf: 'Extracting text from PDF...',
+  document: 'Extracting text from document...',
+  youtube: 'Fetching video transcript...',
+  audio: 'Transcribing audio...',
+  text: 'Reading text...',
+  web: 'Fetching article...'
+}
+
+const RETRY_BASE_DELAY_MS = 30 * 1000
+
+export class IngestWorker {
+  private draining = false
+
+  private readonly stages: StageDefinition[] = [
+    {
+      name: 'extract',
+      optional: false,
+      progressRange: [5, 40],
+      run: (job, state, onProgress) => this.extractText(job, state, onProgress)
+    },
+    {
+      name: 'analyze',
+      optional: false,
+      progressRange: [40, 80],
+      run: (job, state, onProgress) => this.analyzeContent(job, state, onProgress)
+    },
+    {
+      name: 'flashcards',
+      optional: true,
+      progressRange: [80, 100],
+      run: (job, state, onProgress) => this.generateFlashcards(job, state, onProgress)
+    }
+  ]
+
+  /**
+   * Start draining the queue in the background without blocking the caller.
+   * Deployments without a long-lived server should also call /api/jobs/run on a schedule.
+   */
+  kick(): void {
+    if (this.draining) return
+
+    this.draining = true
+    this.processQueue()
+      .catch(error => console.error('Job worker stopped unexpectedly:', error))
+      .finally(() => {
+        this.draining = false
+      })
+  }
+
+  /**
+   * Run queued jobs one at a time until the queue is empty or maxJobs is reached
+   */
+  async processQueue(maxJobs: number = 10): Promise<number> {
+    let processed = 0
+
+    for (const job of await jobQueue.failStaleJobs()) {
+      await this.markNoteFailed(job.note_id, 'Processing stopped unexpectedly too many times. Please try again.')
+    }
+
+    while (processed < maxJobs) {
+      const job = await jobQueue.claimNext()
+      if (!job) break
+
+      await this.runJob(job)
+      processed++
+    }
+
+    return processed
+  }
+
+  /**
+   * Run the remaining stages of a job, resuming after the last completed one
+   */
+  private async runJob(job: Job<IngestPayload, IngestState>): Promise<void> {
+    if (job.type !== 'ingest') {
+      await jobQueue.fail(job.id, job.stage || 'start', `Unknown job type: ${job.type}`)
+      return
+    }
+
+    const state: IngestState = {
+      ...job.state,
+      completedStages: job.state?.completedStages || []
+    }
+
+    console.log('Running ingest job:', {
+      jobId: job.id,
+      noteId: job.note_id,
+      source: job.payload.source,
+      resumeAfter: state.completedStages
+    })
+
+    for (const stage of this.stages) {
+      if (state.completedStages.includes(stage.name)) continue
+
+      const [rangeStart, rangeEnd] = stage.progressRange
+      const reportProgress: StageProgressCallback = (percent, message) => {
+        const overall = rangeStart + (rangeEnd - rangeStart) * Math.min(percent, 100) / 100
+        jobQueue.updateProgress(job.id, stage.name, overall, message)
+          .catch(error => console.error('Failed to record job progress:', error))
+      }
+
+      try {
+        await jobQueue.updateProgress(job.id, stage.name, rangeStart, this.stageMessage(stage.name, job.payload))
+        await stage.run(job, state, reportProgress)
+      } catch (error) {
+        const stageError = error as Error
+        ErrorHandler.logError(stageError, `ingest_${stage.name}`, {
+          jobId: job.id,
+          noteId: job.note_id,
+          attempt: job.attempts + 1
+        })
+
+        if (ErrorHandler.isRetryable(stageError) && job.attempts + 1 < job.max_attempts) {
+          const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts)
+          await jobQueue.scheduleRetry(job.id, stage.name, stageError.message, delayMs)
+          // Best effort for long-lived servers; the scheduled /api/jobs/run call also picks it up
+          setTimeout(() => this.kick(), delayMs)
+          return
+        }
+
+        if (!stage.optional) {
+          await jobQueue.fail(job.id, stage.name, stageError.message)
+          await this.markNoteFailed(job.note_id, ErrorHandler.getUserFriendlyMessage(stageError))
+          return
+        }
+
+        console.warn(`Skipping optional stage "${stage.name}" after repeated failures`)
+      }
+
+      state.completedStages.push(stage.name)
+      await jobQueue.saveProgress(job.id, stage.name, state)
+      // Each stage starts with a fresh retry budget
+      job.attempts = 0
+    }
+
+    await query(`
+      UPDATE notes SET content_status = 'completed', failure_reason = NULL
+      WHERE id = $1
+    `, [job.note_id])
+    await jobQueue.complete(job.id)
+
+    console.log('Ingest job completed:', { jobId: job.id, noteId: job.note_id })
+  }
+
+  /**
+   * Put a failed ingest job back in the queue and mark its note as processing again
+   */
+  async retry(job: Job<IngestPayload, IngestState>): Promise<Job | null> {
+    const requeued = await jobQueue.requeue(job.id)
+    if (!requeued) return null
+
+    await query(`
+      UPDATE notes SET content_status = 'processing', failure_reason = NULL
+      WHERE id = $1
+    `, [job.note_id])
+
+    this.kick()
+    return requeued
+  }
+
+  /**
+   * Snapshot of where a note's ingestion is, for the progress stream
+   */
+  async getProgress(userId: string, note: Note): Promise<IngestProgress> {
+    const job = await jobQueue.getLatestJobForNote(userId, note.id) as Job<IngestPayload, IngestState> | null
+
+    // Notes created before the job pipeline, or without ingestion, only have their own status
+    if (!job) {
+      const status: JobStatus = note.content_status === 'completed' || note.content_status === 'failed'
+        ? note.content_status
+        : 'queued'
+
+      return {
+        noteId: note.id,
+        jobId: null,
+        source: null,
+        status,
+        stage: null,
+        completedStages: [],
+        progress: status === 'completed' ? 100 : 0,
+        message: null,
+        error: status === 'failed' ? note.failure_reason || 'Processing failed' : null,
+        attempts: 0,
+        maxAttempts: 0
+      }
+    }
+
+    let message = job.message
+    if (job.status === 'queued' && job.attempts > 0) {
+      message = `Retrying after an error (attempt ${job.attempts + 1} of ${job.max_attempts})...`
+    } else if (job.status === 'queued') {
+      message = 'Waiting to start...'
+    }
+
+    return {
+      noteId: note.id,
+      jobId: job.id,
+      source: job.payload.source,
+      status: job.status,
+      stage: job.stage as IngestStage | null,
+      completedStages: job.state?.completedStages || [],
+      progress: job.progress,
+      message,
+      error: job.status === 'failed' ? note.failure_reason || 'Processing failed' : null,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts
+    }
+  }
+
+  private stageMessage(stage: IngestStage, payload: IngestPayload): string {
+    switch (stage) {
+      case 'extract': {
+        const extractor = payload.source === 'document' ? getDocumentExtractor(payload.fileName, payload.mimeType) : null
+        return extractor ? `Extracting text from ${extractor.label}...` : EXTRACT_MESSAGES[payload.source] || 'Extracting text...'
+      }
+      case 'analyze':
+        return 'AI is generating note...'
+      case 'flashcards':
+        return 'Generating flashcards...'
+    }
+  }
+
+  /**
+   * Stage 1: get plain text out of the source
+   */
+  private async extractText(
+    job: Job<IngestPayload, IngestState>,
+    state: IngestState,
+    onProgress: StageProgressCallback
+  ): Promise<void> {
+    const payload = job.payload
+    let text: string
+
+    switch (payload.source) {
+      case 'pdf':
+      case 'document': {
+        const extractor = getDocumentExtractor(payload.fileName, payload.mimeType || (payload.source === 'pdf' ? 'application/pdf' : null))
+        if (!extractor) {
+          throw new DocumentFormatError('This file type is not supported.')
+        }
+
+        const fileData = await this.downloadFile(payload.fileUrl)
+        const extracted = await extractor.extract(new Uint8Array(fileData))
+        text = extracted.text
+        if (extracted.title) {
+          await this.useSourceTitle(job, state, extracted.title)
+        }
+        break
+      }
+
+      case 'youtube': {
+        const transcriptService = new YouTubeTranscriptService()
+        const transcriptResult = await transcriptService.getTranscript(payload.url || '', payload.language)
+        text = transcriptResult.fullText
+        break
+      }
+
+      case 'audio': {
+        const fileData = await this.downloadFile(payload.fileUrl)
+        const audioFile = new File([fileData], payload.fileName || 'audio', { type: payload.mimeType })
+        const transcriptionResult = await whisperService.processAudioAdvanced(
+          audioFile,
+          {
+            language: payload.language || undefined,
+            response_format: 'verbose_json',
+            usage: { userId: job.user_id, noteId: job.note_id }
+          },
+          (progress) => onProgress(progress.progress, progress.message)
+        )
+        text = transcriptionResult.transcription.text
+        break
+      }
+
+      case 'text': {
+        // Pasted and uploaded text is stored with the note when it's created
+        const note = await query('SELECT transcription FROM notes WHERE id = $1', [job.note_id])
+        text = note.rows[0]?.transcription || ''
+        break
+      }
+
+      case 'web': {
+        const article = await webArticleService.fetchArticle(payload.url || '')
+        text = article.text
+        if (article.title) {
+          await this.useSourceTitle(job, state, article.title)
+        }
+        break
+      }
+
+      default:
+        throw new Error(`Unsupported ingest source: ${payload.source}`)
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new AIError(
+        'No text extracted from source',
+        'NO_CONTENT',
+        'No readable text could be extracted from this source.',
+        false
+      )
+    }
+
+    await query(`
+      UPDATE notes SET transcription = $2
+      WHERE id = $1
+    `, [job.note_id, text])
+
+    state.text = text
+  }
+
+  /**
+   * Name the note after a title found in the source, unless the user chose one
+   */
+  private async useSourceTitle(job: Job<IngestPayload, IngestState>, state: IngestState, title: string): Promise<void> {
+    if (job.payload.title) return
+
+    state.title = title
+    await query('UPDATE notes SET title = $2 WHERE id = $1', [job.note_id, title.slice(0, 500)])
+  }
+
+  /**
+   * Stage 2: AI analysis into content blocks and a title
+   */
+  private async analyzeContent(
+    job: Job<IngestPayload, IngestState>,
+    state: IngestState,
+    onProgress: StageProgressCallback
+  ): Promise<void> {
+    const aiService = this.aiFor(job)
+    const analysisResult = await aiService.analyzeContent(state.text || '', onProgress)
+
+    const titleItem = analysisResult.find((item) => item.type === 'title')
+    const contentBlocks = analysisResult.filter((item) => item.type !== 'title')
+
+    await transaction(async (client) => {
+      // Re-analysis replaces the AI blocks, so keep what's there in the note's history
+      await noteVersionsService.captureVersion(job.user_id, job.note_id!, 'regenerate', client)
+
+      // A retry after a partial write replaces the earlier blocks; the user's own notes are kept
+      await client.query(
+        'DELETE FROM content_blocks WHERE note_id = $1 AND type <> $2',
+        [job.note_id, PERSONAL_NOTES_TYPE]
+      )
+
+      for (let i = 0; i < contentBlocks.length; i++) {
+        const block = contentBlocks[i]
+        await client.query(`
+          INSERT INTO content_blocks (note_id, type, icon, icon_color, title, content, sort_order)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `, [
+          job.note_id,
+          block.type,
+          block.icon || null,
+          block.icon_color || null,
+          block.title,
+          JSON.stringify(block.content),
+          block.sort_order || i
+        ])
+      }
+
+      // Seed the editable body; a body the user has already written is left alone
+      await client.query(
+        'UPDATE notes SET markdown = $2 WHERE id = $1 AND markdown IS NULL',
+        [job.note_id, blocksToMarkdown(contentBlocks)]
+      )
+
+      if (!job.payload.title && !state.title && titleItem?.content?.title) {
+        await client.query('UPDATE notes SET title = $2 WHERE id = $1', [job.note_id, titleItem.content.title])
+      }
+    })
+  }
+
+  /**
+   * Stage 3: flashcards, registered for spaced repetition
+   */
+  private async generateFlashcards(
+    job: Job<IngestPayload, IngestState>,
+    state: IngestState,
+    onProgress: StageProgressCallback
+  ): Promise<void> {
+    if (job.payload.generateFlashcards === false) return
+
+    const aiService = this.aiFor(job)
+    const flashcards = await aiService.generateFlashcards(state.text || '', onProgress)
+
+    // The stage is recorded with its cards, so a retry can never add them twice.
+    // Cards already on the note, such as ones the user made, are left alone.
+    await transaction(async (client) => {
+      for (const flashcard of flashcards) {
+        await flashcardService.insertFlashcardDraft(job.note_id!, job.user_id, flashcard, client)
+      }
+
+      await jobQueue.saveProgress(job.id, 'flashcards', {
+        ...state,
+        completedStages: [...state.completedStages, 'flashcards']
+      }, client)
+    })
+  }
+
+  /**
+   * AI service without placeholder fallbacks, so AI errors are retried or fail the job with a reason
+   */
+  private aiFor(job: Job<IngestPayload, IngestState>): AIService {
+    return new AIService(this.llmFor(job), { fallback: false })
+  }
+
+  /**
+   * LLM service that bills the job's calls to its user and note
+   */
+  private llmFor(job: Job<IngestPayload, IngestState>): LLMService {
+    return new LLMService({}, { userId: job.user_id, noteId: job.note_id })
+  }
+
+  /**
+   * Fetch an uploaded file back from Blob storage
+   */
+  private async downloadFile(fileUrl?: string): Promise<ArrayBuffer> {
+    if (!fileUrl) {
+      throw new Error('Ingest job is missing its file URL')
+    }
+
+    const response = await fetch(fileUrl)
+    if (!response.ok) {
+      // 5xx from storage is worth retrying; anything else won't fix itself
+      throw new AIError(
+        `Failed to download uploaded file (HTTP ${response.status})`,
+        'DOWNLOAD_FAILED',
+        'The uploaded file could not be read back from storage. Please upload it again.',
+        response.status >= 500
+      )
+    }
+
+    return response.arrayBuffer()
+  }
+
+  private async markNoteFailed(noteId: string | null, reason: string): Promise<void> {
+    if (!noteId) return
+
+    await query(`
+      UPDATE notes SET content_status = 'failed', failure_reason = $2
+      WHERE id = $1
+    `, [noteId, reason])
+  }
+}
+
+// Export singleton instance
+export const ingestWorker = new IngestWorker();
@@ -0,0 +1,234 @@
+import { query, queryOne, queryMany } from '@/lib/database'
+
+export type JobType = 'ingest'
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export interface Job<TPayload = any, TState = any> {
+  id: string
+  user_id: string
+  note_id: string | null
+  type: JobType
+  status: JobStatus
+  payload: TPayload
+  state: TState
+  stage: string | null
+  progress: number
+  message: string | null
+  attempts: number
+  max_attempts: number
+  last_error: string | null
+  run_after: string
+  locked_at: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface EnqueueJobParams<TPayload = any> {
+  userId: string
+  noteId?: string | null
+  type: JobType
+  payload: TPayload
+  maxAttempts?: number
+}
+
+// A running job whose lock is older than this is assumed to belong to a crashed worker
+const STALE_LOCK_MINUTES = 15
+
+export class JobQueue {
+  /**
+   * Add a job to the queue; it becomes runnable immediately.
+   * Pass the caller's client to enqueue in the same transaction that creates the job's note.
+   */
+  async enqueue<TPayload>(
+    params: EnqueueJobParams<TPayload>,
+    client: { query: typeof query } = { query }
+  ): Promise<Job<TPayload>> {
+    try {
+      const result = await client.query(`
+        INSERT INTO jobs (user_id, note_id, type, payload, max_attempts)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `, [
+        params.userId,
+        params.noteId || null,
+        params.type,
+        JSON.stringify(params.payload),
+        params.maxAttempts || 3
+      ])
+
+      const job = result.rows[0]
+      if (!job) {
+        throw new Error('Failed to enqueue job')
+      }
+
+      return job
+    } catch (error) {
+      console.error('Failed to enqueue job:', error)
+      throw new Error('Failed to enqueue job')
+    }
+  }
+
+  /**
+   * Lock the next runnable job for this worker. SKIP LOCKED lets several workers drain the queue safely.
+   * Reclaiming a job from a crashed worker counts as a failed attempt; jobs out of attempts are
+   * left for failStaleJobs.
+   */
+  async claimNext(): Promise<Job | null> {
+    const job = await queryOne(`
+      UPDATE jobs
+      SET
+        status = 'running',
+        attempts = attempts + CASE WHEN status = 'running' THEN 1 ELSE 0 END,
+        locked_at = NOW()
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE (status = 'queued' AND run_after <= NOW())
+        OR (
+          status = 'running' AND locked_at < NOW() - INTERVAL '${STALE_LOCK_MINUTES} minutes'
+          AND attempts + 1 < max_attempts
+        )
+        ORDER BY run_after ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `)
+
+    return job || null
+  }
+
+  /**
+   * Fail running jobs whose worker crashed once too often to be reclaimed again
+   * @returns The jobs that were failed
+   */
+  async failStaleJobs(): Promise<Job[]> {
+    return queryMany(`
+      UPDATE jobs
+      SET
+        status = 'failed',
+        attempts = attempts + 1,
+        last_error = 'Worker stopped responding',
+        locked_at = NULL,
+        completed_at = NOW()
+      WHERE id IN (
+        SELECT id FROM jobs
+        WHERE status = 'running' AND locked_at < NOW() - INTERVAL '${STALE_LOCK_MINUTES} minutes'
+          AND attempts + 1 >= max_attempts
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `)
+  }
+
+  /**
+   * Record how far the running stage has got, for the progress stream
+   */
+  async updateProgress(jobId: string, stage: string, progress: number, message: string): Promise<void> {
+    await queryOne(`
+      UPDATE jobs
+      SET stage = $2, progress = $3, message = $4, locked_at = NOW()
+      WHERE id = $1
+    `, [jobId, stage, Math.round(progress), message])
+  }
+
+  /**
+   * Persist a finished stage's output so a retry resumes after it.
+   * Pass the stage's client to record it in the same transaction as the stage's writes.
+   */
+  async saveProgress(jobId: string, stage: string, state: any, client: { query: typeof query } = { query }): Promise<void> {
+    await client.query(`
+      UPDATE jobs
+      SET stage = $2, state = $3, attempts = 0, locked_at = NOW()
+      WHERE id = $1
+    `, [jobId, stage, JSON.stringify(state)])
+  }
+
+  /**
+   * Put a job back in the queue after a retryable failure
+   */
+  async scheduleRetry(jobId: string, stage: string, errorMessage: string, delayMs: number): Promise<void> {
+    await queryOne(`
+      UPDATE jobs
+      SET
+        status = 'queued',
+        stage = $2,
+        attempts = attempts + 1,
+        last_error = $3,
+        run_after = NOW() + ($4 || ' milliseconds')::interval,
+        locked_at = NULL
+      WHERE id = $1
+    `, [jobId, stage, errorMessage, delayMs])
+  }
+
+  /**
+   * Mark a job as finished
+   */
+  async complete(jobId: string): Promise<void> {
+    await queryOne(`
+      UPDATE jobs
+      SET status = 'completed', progress = 100, message = NULL, locked_at = NULL, completed_at = NOW()
+      WHERE id = $1
+    `, [jobId])
+  }
+
+  /**
+   * Mark a job as permanently failed
+   */
+  async fail(jobId: string, stage: string, errorMessage: string): Promise<void> {
+    await queryOne(`
+      UPDATE jobs
+      SET
+        status = 'failed',
+        stage = $2,
+        attempts = attempts + 1,
+        last_error = $3,
+        locked_at = NULL,
+        completed_at = NOW()
+      WHERE id = $1
+    `, [jobId, stage, errorMessage])
+  }
+
+  /**
+   * Requeue a failed job. Completed stages are kept, so it resumes at the stage that failed.
+   */
+  async requeue(jobId: string): Promise<Job | null> {
+    const job = await queryOne(`
+      UPDATE jobs
+      SET
+        status = 'queued',
+        attempts = 0,
+        last_error = NULL,
+        message = NULL,
+        run_after = NOW(),
+        locked_at = NULL,
+        completed_at = NULL
+      WHERE id = $1 AND status = 'failed'
+      RETURNING *
+    `, [jobId])
+
+    return job || null
+  }
+
+  /**
+   * Get the most recent job for a note owned by the user
+   */
+  async getLatestJobForNote(userId: string, noteId: string): Promise<Job | null> {
+    try {
+      const job = await queryOne(`
+        SELECT * FROM jobs
+        WHERE note_id = $1 AND user_id = $2
+        ORDER BY created_at DESC
+        LIMIT 1
+      `, [noteId, userId])
+
+      return job || null
+    } catch (error) {
+      console.error('Failed to fetch job for note:', error)
+      return null
+    }
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new JobQueue();
@@ -0,0 +1,369 @@
+/**
+ * LLM provider layer
+ * Each AI task (analysis, flashcards, mind map) can run on its own provider and model, chosen by config:
+ *
+ *   LLM_PROVIDER=openrouter|openai|ollama|mock     default for every task
+ *   LLM_MODEL=...                                  default model for tasks on LLM_PROVIDER
+ *   LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL         per-task overrides, e.g. LLM_MINDMAP_PROVIDER=ollama
+ *   LLM_CACHE_TTL_HOURS=168                        how long replies are cached; 0 turns the cache off
+ */
+
+import { AIError, AIErrors } from './error-handler'
+import mockFixtures from './fixtures/llm-mock.json'
+import { CachedLLMProvider } from './ai-cache'
+
+export type LLMTask = 'analysis' | 'flashcards' | 'mindmap' | 'quiz'
+export type LLMProviderName = 'openrouter' | 'openai' | 'ollama' | 'mock'
+
+export interface CompletionOptions {
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd?: number // Only when the provider reports it
+}
+
+export interface LLMCompletion {
+  text: string
+  usage: TokenUsage | null // null when the provider doesn't report usage
+  cached?: boolean // Served from the response cache without calling the model
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  /**
+   * Send a single-turn prompt and return the model's reply
+   */
+  complete(prompt: string, options?: CompletionOptions): Promise<LLMCompletion>
+  /**
+   * Drop a stored reply that turned out to be unusable (only caching providers store replies)
+   */
+  forget?(prompt: string, options?: CompletionOptions): Promise<void>
+}
+
+export interface HTTPProviderConfig {
+  baseUrl: string
+  model: string
+  apiKey?: string
+  timeoutMs?: number
+  headers?: Record<string, string>
+}
+
+export type MockFixtures = Record<LLMTask, unknown>
+
+const DEFAULT_TEMPERATURE = 0.7
+const DEFAULT_MAX_TOKENS = 4000
+const DEFAULT_TIMEOUT_MS = 30000 // 30 seconds
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openrouter: 'anthropic/claude-3.5-sonnet',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  mock: 'fixture'
+}
+
+/**
+ * fetch with an abort timeout; the error message matches what ErrorHandler treats as retryable
+ */
+async function fetchWithTimeout(
+  providerLabel: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`${providerLabel} request timed out after ${timeoutMs}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Turn a failed HTTP response into an error ErrorHandler can classify
+ */
+async function responseError(providerLabel: string, response: Response): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}))
+  const kind = response.status === 429
+    ? 'rate limit exceeded'
+    : response.status >= 500 ? 'server error' : 'request rejected'
+
+  return new Error(
+    `${providerLabel} API error: ${response.status} ${response.statusText} (${kind}) - ${JSON.stringify(errorData)}`
+  )
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI, Azure proxies, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai'
+  readonly model: string
+  protected readonly label: string = 'OpenAI-compatible'
+
+  constructor(protected readonly config: HTTPProviderConfig) {
+    this.model = config.model
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<LLMCompletion> {
+    const response = await fetchWithTimeout(this.label, `${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+        ...this.config.headers
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...this.extraRequestFields()
+      })
+    }, this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+
+    if (!response.ok) {
+      throw await responseError(this.label, response)
+    }
+
+    const data = await response.json()
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+      throw new Error(`Invalid response structure from ${this.label}`)
+    }
+
+    return {
+      text: data.choices[0].message.content,
+      usage: data.usage ? {
+        promptTokens: data.usage.prompt_tokens || 0,
+        completionTokens: data.usage.completion_tokens || 0,
+        totalTokens: data.usage.total_tokens || 0,
+        costUsd: typeof data.usage.cost === 'number' ? data.usage.cost : undefined
+      } : null
+    }
+  }
+
+  /**
+   * Provider-specific fields added to the request body
+   */
+  protected extraRequestFields(): Record<string, unknown> {
+    return {}
+  }
+}
+
+/**
+ * OpenRouter: OpenAI-compatible, plus the attribution headers it asks apps to send
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name: LLMProviderName = 'openrouter'
+  protected readonly label: string = 'OpenRouter'
+
+  constructor(config: HTTPProviderConfig) {
+    super({
+      ...config,
+      headers: {
+        'X-Title': 'MangoNote',
+        'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+        ...config.headers
+      }
+    })
+  }
+
+  protected extraRequestFields(): Record<string, unknown> {
+    // Asks OpenRouter to include the call's cost in the usage block
+    return { usage: { include: true } }
+  }
+}
+
+/**
+ * Ollama or another local model server exposing Ollama's /api/chat endpoint
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'ollama'
+  readonly model: string
+
+  constructor(private readonly config: HTTPProviderConfig) {
+    this.model = config.model
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<LLMCompletion> {
+    const response = await fetchWithTimeout('Ollama', `${this.config.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        stream: false,
+        options: {
+          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+          num_predict: options.maxTokens ?? DEFAULT_MAX_TOKENS
+        }
+      })
+    }, this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+
+    if (!response.ok) {
+      throw await responseError('Ollama', response)
+    }
+
+    const data = await response.json()
+
+    if (!data.message || typeof data.message.content !== 'string') {
+      throw new Error('Invalid response structure from Ollama')
+    }
+
+    const promptTokens = data.prompt_eval_count || 0
+    const completionTokens = data.eval_count || 0
+
+    return {
+      text: data.message.content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    }
+  }
+}
+
+/**
+ * Offline provider that answers every prompt for a task with the same fixture.
+ * Lets the whole ingest pipeline run without network access or API keys.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'mock'
+  readonly model: string = DEFAULT_MODELS.mock
+  readonly prompts: string[] = [] // Every prompt received, for assertions
+
+  constructor(
+    private readonly task: LLMTask,
+    private readonly fixtures: MockFixtures = mockFixtures as MockFixtures
+  ) {}
+
+  async complete(prompt: string): Promise<LLMCompletion> {
+    this.prompts.push(prompt)
+
+    const fixture = this.fixtures[this.task]
+    if (fixture === undefined) {
+      throw new Error(`No mock fixture for task: ${this.task}`)
+    }
+
+    const text = typeof fixture === 'string' ? fixture : JSON.stringify(fixture)
+
+    // Rough 4-characters-per-token estimate, so usage accounting can be exercised offline
+    const promptTokens = Math.ceil(prompt.length / 4)
+    const completionTokens = Math.ceil(text.length / 4)
+
+    return {
+      text,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        costUsd: 0
+      }
+    }
+  }
+}
+
+/**
+ * Build the provider configured for a task, behind the response cache
+ */
+export function createLLMProvider(task: LLMTask): LLMProvider {
+  const provider = createUncachedProvider(task)
+
+  const ttlHours = process.env.LLM_CACHE_TTL_HOURS !== undefined
+    ? parseFloat(process.env.LLM_CACHE_TTL_HOURS)
+    : undefined
+
+  // Fixture replies are free and must stay visible to tests, so the mock is never cached
+  if (provider.name === 'mock' || ttlHours === 0) {
+    return provider
+  }
+
+  const endpoint = provider.name === 'openai' ? process.env.OPENAI_BASE_URL
+    : provider.name === 'ollama' ? process.env.OLLAMA_BASE_URL
+    : undefined
+
+  return new CachedLLMProvider(provider, undefined, ttlHours, endpoint)
+}
+
+function createUncachedProvider(task: LLMTask): LLMProvider {
+  const taskKey = task.toUpperCase()
+  const defaultName = (process.env.LLM_PROVIDER || 'openrouter') as LLMProviderName
+  const name = (process.env[`LLM_${taskKey}_PROVIDER`] || defaultName) as LLMProviderName
+  // LLM_MODEL names a model of LLM_PROVIDER, so a task moved to another provider uses that provider's default
+  const defaultModel = (name === defaultName && process.env.LLM_MODEL) || DEFAULT_MODELS[name]
+  const model = process.env[`LLM_${taskKey}_MODEL`] || defaultModel
+  const timeoutMs = process.env.LLM_TIMEOUT_MS ? parseInt(process.env.LLM_TIMEOUT_MS) : undefined
+
+  switch (name) {
+    case 'openrouter':
+      return new OpenRouterProvider({
+        baseUrl: 'https://openrouter.ai/api/v1',
+        apiKey: requireEnv('OPENROUTER_API_KEY'),
+        model,
+        timeoutMs
+      })
+
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        // Self-hosted OpenAI-compatible servers often need no key
+        apiKey: process.env.OPENAI_BASE_URL ? process.env.OPENAI_API_KEY : requireEnv('OPENAI_API_KEY'),
+        model,
+        timeoutMs
+      })
+
+    case 'ollama':
+      return new OllamaProvider({
+        baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+        model,
+        // Local models are usually slower than hosted ones
+        timeoutMs: timeoutMs || 120000
+      })
+
+    case 'mock':
+      return new MockLLMProvider(task)
+
+    default:
+      throw new AIError(
+        `Unknown LLM provider "${name}" for task ${task}`,
+        'CONFIG_MISSING',
+        AIErrors.CONFIG_MISSING.userMessage,
+        false
+      )
+  }
+}
+
+function requireEnv(key: string): string {
+  const value = process.env[key]
+  if (!value) {
+    throw new AIError(`${key} not configured`, 'CONFIG_MISSING', AIErrors.CONFIG_MISSING.userMessage, false)
+  }
+  return value
+}
@@ -0,0 +1,381 @@
+/**
+ * LLM Service
+ * Builds the study-material prompts and parses the replies; the model behind each task comes from llm-provider
+ */
+
+import { z } from 'zod'
+import { AIError, AIErrors, AIValidationError, ErrorHandler } from './error-handler'
+import { LLMProvider, LLMTask, createLLMProvider } from './llm-provider'
+import { UsageContext, usageService } from './usage-service'
+import {
+  AnalysisResponse,
+  AnalysisResponseSchema,
+  FlashcardListSchema,
+  GeneratedFlashcard,
+  MergedAnalysis,
+  MergedAnalysisSchema,
+  QuizQuestionDraft,
+  QuizQuestionListSchema,
+  parseAIResponse
+} from './ai-schemas'
+
+export type { AnalysisResponse, GeneratedFlashcard, MergedAnalysis, QuizQuestionDraft } from './ai-schemas'
+
+// Where a chunk sits in a document analyzed in several parts
+export interface ChunkPosition {
+  index: number
+  total: number
+}
+
+export class LLMService {
+  private readonly MAX_RETRIES = 3
+  private readonly providers: Partial<Record<LLMTask, LLMProvider>>
+  private readonly usage: UsageContext | null
+
+  /**
+   * Providers not passed in are built from config on first use.
+   * With a usage context every call is checked against the user's quota and recorded in the usage ledger.
+   */
+  constructor(providers: Partial<Record<LLMTask, LLMProvider>> = {}, usage: UsageContext | null = null) {
+    this.providers = { ...providers }
+    this.usage = usage
+  }
+
+  /**
+   * Get the provider that handles a task
+   */
+  getProvider(task: LLMTask): LLMProvider {
+    if (!this.providers[task]) {
+      this.providers[task] = createLLMProvider(task)
+    }
+    return this.providers[task]!
+  }
+
+  /**
+   * Send a raw prompt to the task's provider (public method for mind map service)
+   */
+  async complete(task: LLMTask, prompt: string): Promise<string> {
+    const provider = this.getProvider(task)
+
+    if (this.usage) {
+      await usageService.assertWithinQuota(this.usage.userId, 'tokens')
+    }
+
+    const completion = await provider.complete(prompt)
+
+    if (this.usage) {
+      await usageService.record(this.usage, {
+        task,
+        provider: provider.name,
+        model: provider.model,
+        promptTokens: completion.usage?.promptTokens,
+        completionTokens: completion.usage?.completionTokens,
+        totalTokens: completion.usage?.totalTokens,
+        costUsd: completion.cached ? 0 : completion.usage?.costUsd,
+        cached: completion.cached
+      })
+    }
+
+    return completion.text
+  }
+
+  /**
+   * Analyze content and generate study materials.
+   * Long documents are split by AIService; part describes which piece of the document this is.
+   */
+  async analyzeContent(text: string, part?: ChunkPosition): Promise<AnalysisResponse> {
+    if (!text || text.trim().length === 0) {
+      throw new AIError('Empty content', 'EMPTY_CONTENT', 'Please provide content to analyze', false)
+    }
+
+    const prompt = this.buildAnalysisPrompt(text, part)
+    
+    const parsed = await this.completeStructured('analysis', prompt, AnalysisResponseSchema, 'analyzeContent', {
+      textLength: text.length,
+      part: part ? `${part.index + 1}/${part.total}` : undefined
+    })
+
+    console.log('LLM analysis successful:', {
+      summaryLength: parsed.summary.length,
+      keyPointsCount: parsed.key_points.length,
+      flashcardsCount: parsed.flashcards.length
+    })
+
+    return parsed
+  }
+
+  /**
+   * Combine the analyses of a document's parts into one summary and key point list
+   */
+  async mergeAnalyses(partials: AnalysisResponse[]): Promise<MergedAnalysis> {
+    const prompt = this.buildMergePrompt(partials)
+
+    return this.completeStructured('analysis', prompt, MergedAnalysisSchema, 'mergeAnalyses', {
+      partCount: partials.length
+    })
+  }
+
+  /**
+   * Call the task's provider and validate the JSON reply against a schema.
+   * An invalid reply gets one repair round-trip; transient failures are retried with exponential backoff.
+   */
+  async completeStructured<T>(
+    task: LLMTask,
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    context: string,
+    metadata: Record<string, any> = {}
+  ): Promise<T> {
+    let lastError: Error | null = null
+    
+    // Retry logic for reliability
+    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      try {
+        console.log(`LLM ${context} attempt ${attempt}/${this.MAX_RETRIES}`)
+        
+        const response = await this.complete(task, prompt)
+        return await this.parseWithRepair(task, prompt, response, schema, context)
+      } catch (error) {
+        lastError = error as Error
+        ErrorHandler.logError(error as Error, `${context}_attempt_${attempt}`, {
+          ...metadata,
+          attempt,
+          maxRetries: this.MAX_RETRIES
+        })
+        
+        if (attempt < this.MAX_RETRIES && ErrorHandler.isRetryable(error as Error)) {
+          // Exponential backoff
+          const delay = Math.pow(2, attempt) * 1000
+          console.log(`Waiting ${delay}ms before retry...`)
+          await new Promise(resolve => setTimeout(resolve, delay))
+        } else {
+          break
+        }
+      }
+    }
+    
+    // Convert the final error to an appropriate AI error
+    if (lastError) {
+      if (lastError instanceof AIError) {
+        throw lastError
+      } else if (lastError.message.includes('timed out')) {
+        throw AIErrors.TIMEOUT
+      } else if (lastError.message.includes('rate limit')) {
+        throw AIErrors.RATE_LIMITED
+      } else if (lastError.message.includes('parse') || lastError.message.includes('JSON')) {
+        throw AIErrors.PARSE_ERROR
+      } else {
+        throw AIErrors.API_ERROR
+      }
+    }
+    
+    throw AIErrors.API_ERROR
+  }
+
+  /**
+   * Validate a reply; if it is invalid, show the model its own reply and the error once and ask for a corrected one
+   */
+  private async parseWithRepair<T>(
+    task: LLMTask,
+    prompt: string,
+    response: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    context: string
+  ): Promise<T> {
+    try {
+      return parseAIResponse(response, schema)
+    } catch (error) {
+      if (!(error instanceof AIValidationError)) throw error
+
+      console.warn(`LLM ${context} returned invalid output, requesting a repair:`, {
+        field: error.field,
+        issues: error.issues
+      })
+
+      // Keep the invalid reply out of the cache so a later retry asks the model afresh
+      const provider = this.getProvider(task)
+      await provider.forget?.(prompt)
+
+      const repairPrompt = this.buildRepairPrompt(prompt, response, error)
+      const repaired = await this.complete(task, repairPrompt)
+      try {
+        return parseAIResponse(repaired, schema)
+      } catch (repairError) {
+        await provider.forget?.(repairPrompt)
+        throw repairError
+      }
+    }
+  }
+
+  /**
+   * Generate flashcards only (for existing content): a mix of question/answer cards
+   * and cloze cards made from the content's key sentences
+   */
+  async generateFlashcards(text: string, count: number = 5): Promise<GeneratedFlashcard[]> {
+    const prompt = `Generate ${count} educational flashcards from this content. Focus on key concepts and important facts.
+
+Use two kinds of card:
+- "basic": a question and its answer. Use these for explanations, causes and comparisons.
+- "cloze": a key sentence from the content, lightly edited to stand on its own, with its most important terms hidden as {{c1::term}}, {{c2::term}} and so on. Each number becomes a separate card that hides only that term, so hide one to three terms per sentence and give terms that only make sense together the same number. An optional hint goes after the term: {{c1::term::hint}}. Put any context that helps on the back in "answer", or leave it empty. Use these for definitions, names, dates and figures.
+
+About a third of the cards should be cloze cards when the content has sentences worth memorising.
+
+Content:
+${text}
+
+Return only a JSON array of flashcards:
+[
+  {"type": "basic", "question": "How does...", "answer": "..."},
+  {"type": "cloze", "question": "The {{c1::mitochondrion}} produces most of the cell's {{c2::ATP::energy molecule}}.", "answer": ""}
+]`
+
+    return this.completeStructured('flashcards', prompt, FlashcardListSchema, 'generateFlashcards', {
+      textLength: text.length,
+      count
+    })
+  }
+
+  /**
+   * Generate multiple-choice quiz questions, each with four options and an explanation
+   */
+  async generateQuizQuestions(text: string, count: number = 5): Promise<QuizQuestionDraft[]> {
+    const prompt = `Write ${count} multiple-choice quiz questions that test understanding of this content. Each question has exactly four options, only one of which is correct. Wrong options should be plausible to someone who skimmed the content. Prefer questions about concepts and their relationships over trivia.
+
+Content:
+${text}
+
+Return only a JSON array of questions, where correct_answer_index is the 0-based position of the correct option and explanation says why it is right:
+[
+  {
+    "question": "Why does...",
+    "options": ["...", "...", "...", "..."],
+    "correct_answer_index": 2,
+    "explanation": "..."
+  }
+]`
+
+    return this.completeStructured('quiz', prompt, QuizQuestionListSchema, 'generateQuizQuestions', {
+      textLength: text.length,
+      count
+    })
+  }
+
+  /**
+   * Build comprehensive analysis prompt with improved pedagogy
+   */
+  private buildAnalysisPrompt(text: string, part?: ChunkPosition): string {
+    const partNote = part && part.total > 1
+      ? `\n\n**NOTE:** This is part ${part.index + 1} of ${part.total} of a longer document. Parts overlap slightly at their edges. Analyze only this part; the parts will be combined afterwards.`
+      : ''
+    
+    return `You are an expert educational content analyzer and learning specialist. Transform this content into comprehensive, pedagogically sound study materials that maximize learning effectiveness.${partNote}
+
+**CONTENT TO ANALYZE:**
+${text}
+
+**YOUR MISSION:**
+Create study materials that help students:
+- **Understand** core concepts deeply
+- **Apply** knowledge practically  
+- **Remember** information long-term
+- **Succeed** in assessments
+
+**REQUIRED OUTPUT FORMAT:**
+Return ONLY valid JSON with no markdown formatting or extra text:
+
+{
+  "summary": "Write a comprehensive, well-structured summary that captures all major concepts, their relationships, and significance. Use clear topic sentences and logical flow. Make it digestible yet thorough (400-600 words).",
+  "key_points": [
+    "Specific, actionable insight with concrete details and context",
+    "Clear principle that students can apply immediately with examples", 
+    "Important concept with real-world relevance and implications",
+    "Critical understanding that connects to broader themes",
+    "Advanced insight for deeper comprehension (if applicable)",
+    "Practical takeaway with implementation guidance"
+  ],
+  "flashcards": [
+    {"question": "What is the primary concept or principle explained in this content?", "answer": "Provide a clear, complete answer that demonstrates understanding"},
+    {"question": "How would you apply this knowledge in a real-world scenario?", "answer": "Give specific, practical application examples"},
+    {"question": "What are the key relationships between the main concepts discussed?", "answer": "Explain how ideas connect and influence each other"},
+    {"question": "What potential challenges or limitations should be considered?", "answer": "Address critical thinking about constraints and edge cases"},
+    {"question": "Why is this information important or significant?", "answer": "Explain the broader context and implications"},
+    {"question": "What examples or analogies help explain this concept?", "answer": "Provide memorable comparisons or concrete examples"}
+  ],
+  "difficulty_level": "easy|medium|hard"
+}
+
+**QUALITY STANDARDS:**
+- **Clarity**: Use precise, accessible language
+- **Depth**: Go beyond surface-level to meaningful insights
+- **Structure**: Organize information logically
+- **Engagement**: Make content interesting and relevant
+- **Accuracy**: Ensure all information is factually correct
+- **Completeness**: Cover all significant topics without redundancy
+
+Generate materials that would help someone master this content efficiently and thoroughly. Focus on learning outcomes, not just information transfer.`
+  }
+
+  /**
+   * Build the reduce prompt that combines per-part analyses
+   */
+  private buildMergePrompt(partials: AnalysisResponse[]): string {
+    const parts = partials.map((partial, index) => `### Part ${index + 1}
+Summary: ${partial.summary}
+Key points:
+${partial.key_points.map(point => `- ${point}`).join('\n')}`).join('\n\n')
+
+    return `You are an expert educational content analyzer. A long document was analyzed in ${partials.length} consecutive parts. Combine the part analyses below into study materials for the document as a whole.
+
+**PART ANALYSES:**
+${parts}
+
+**REQUIRED OUTPUT FORMAT:**
+Return ONLY valid JSON with no markdown formatting or extra text:
+
+{
+  "summary": "One coherent, well-structured summary of the whole document that follows its overall progression (400-800 words). Do not describe it part by part.",
+  "key_points": [
+    "The 6-12 most important insights across the whole document, merging points that repeat across parts"
+  ],
+  "difficulty_level": "easy|medium|hard"
+}`
+  }
+
+  /**
+   * Build the follow-up prompt that asks the model to fix an invalid reply
+   */
+  private buildRepairPrompt(prompt: string, response: string, error: AIValidationError): string {
+    const problems = error.issues.length > 0 ? error.issues.map(issue => `- ${issue}`).join('\n') : `- ${error.message}`
+
+    return `Your previous reply to the request below could not be used because it did not match the required JSON format.
+
+**PROBLEMS:**
+${problems}
+
+**YOUR PREVIOUS REPLY:**
+${response}
+
+**ORIGINAL REQUEST:**
+${prompt}
+
+Return ONLY the corrected JSON, with no markdown formatting or extra text.`
+  }
+
+  /**
+   * Get service health status
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const provider = this.getProvider('analysis')
+      const testResponse = await provider.complete('Respond with "OK" if you receive this message.')
+      // The mock provider answers with its fixture; getting any reply is enough
+      return provider.name === 'mock' || testResponse.text.toLowerCase().includes('ok')
+    } catch (error) {
+      console.error('LLM health check failed:', error)
+      return false
+    }
+  }
+}
+
+// Export singleton instance
+export const llmService = new LLMService();
\ No newline at end of file
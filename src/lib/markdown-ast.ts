@@ -0,0 +1,80 @@
+/**
+ * Markdown syntax tree for exporters that lay out documents themselves (PDF, DOCX).
+ * Parses the same dialect the note editor renders: GFM tables and task lists plus $math$.
+ */
+
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import type { PhrasingContent, Root } from 'mdast'
+
+export type { Root as MarkdownRoot } from 'mdast'
+
+// Inline text with the formatting it carries
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  strike?: boolean
+  code?: boolean // Inline code, and inline math shown as its TeX source
+  link?: string
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath)
+
+export function parseMarkdown(markdown: string): Root {
+  return parser.parse(markdown) as Root
+}
+
+/**
+ * Flatten inline content into runs of uniformly formatted text
+ */
+export function toTextRuns(nodes: PhrasingContent[], style: Omit<TextRun, 'text'> = {}): TextRun[] {
+  const runs: TextRun[] = []
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        runs.push({ ...style, text: node.value })
+        break
+      case 'strong':
+        runs.push(...toTextRuns(node.children, { ...style, bold: true }))
+        break
+      case 'emphasis':
+        runs.push(...toTextRuns(node.children, { ...style, italic: true }))
+        break
+      case 'delete':
+        runs.push(...toTextRuns(node.children, { ...style, strike: true }))
+        break
+      case 'inlineCode':
+      case 'inlineMath':
+        runs.push({ ...style, code: true, text: node.value })
+        break
+      case 'link':
+        runs.push(...toTextRuns(node.children, { ...style, link: node.url }))
+        break
+      case 'image':
+        runs.push({ ...style, text: `[${node.alt || 'Image'}]`, link: node.url })
+        break
+      case 'break':
+        runs.push({ ...style, text: '\n' })
+        break
+      case 'html':
+        runs.push({ ...style, text: node.value })
+        break
+      case 'footnoteReference':
+        runs.push({ ...style, text: `[${node.label || node.identifier}]` })
+        break
+    }
+  }
+
+  return runs.filter(run => run.text !== '')
+}
+
+/**
+ * Plain text of inline content, for table cells and measuring
+ */
+export function toPlainText(nodes: PhrasingContent[]): string {
+  return toTextRuns(nodes).map(run => run.text).join('')
+}
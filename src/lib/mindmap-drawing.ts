@@ -0,0 +1,158 @@
+/**
+ * Static picture of a saved mind map, for exports that can't run React Flow.
+ * Laid out once from the stored node positions, then drawn as SVG or onto a PDF page.
+ */
+
+import type { MindMapEdge, MindMapNode } from './mindmap-types'
+
+export interface DrawingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+  label: string
+  fill: string
+  stroke: string
+  fontSize: number
+  bold: boolean
+}
+
+export interface DrawingLine {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  color: string
+}
+
+export interface MindMapDrawing {
+  width: number
+  height: number
+  boxes: DrawingBox[]
+  lines: DrawingLine[]
+}
+
+const PADDING = 24
+const DEFAULT_NODE_WIDTH = 160
+const DEFAULT_NODE_HEIGHT = 48
+const DEFAULT_FONT_SIZE = 13
+
+/**
+ * Lay out nodes where they were saved, shifted so the picture starts at the origin
+ * @returns The drawing, or null when there are no nodes to draw
+ */
+export function layoutMindMap(nodes: MindMapNode[], edges: MindMapEdge[]): MindMapDrawing | null {
+  if (nodes.length === 0) return null
+
+  const sized = nodes.map(node => ({
+    node,
+    width: node.style?.width || DEFAULT_NODE_WIDTH,
+    height: node.style?.height || DEFAULT_NODE_HEIGHT
+  }))
+
+  const minX = Math.min(...sized.map(({ node }) => node.position?.x || 0))
+  const minY = Math.min(...sized.map(({ node }) => node.position?.y || 0))
+
+  const boxes = new Map<string, DrawingBox>()
+  for (const { node, width, height } of sized) {
+    boxes.set(node.id, {
+      x: (node.position?.x || 0) - minX + PADDING,
+      y: (node.position?.y || 0) - minY + PADDING,
+      width,
+      height,
+      label: node.data?.label || '',
+      fill: node.style?.backgroundColor || node.data?.color || '#FFF8E1',
+      stroke: node.style?.borderColor || '#E78822',
+      fontSize: node.style?.fontSize || DEFAULT_FONT_SIZE,
+      bold: node.style?.fontWeight === 'bold' || node.type === 'root'
+    })
+  }
+
+  // Edges join box centres; boxes are drawn over them so only the gap shows
+  const lines: DrawingLine[] = []
+  for (const edge of edges) {
+    const source = boxes.get(edge.source)
+    const target = boxes.get(edge.target)
+    if (!source || !target) continue
+
+    lines.push({
+      x1: source.x + source.width / 2,
+      y1: source.y + source.height / 2,
+      x2: target.x + target.width / 2,
+      y2: target.y + target.height / 2,
+      color: edge.style?.stroke || '#9CA3AF'
+    })
+  }
+
+  const allBoxes = Array.from(boxes.values())
+  return {
+    width: Math.max(...allBoxes.map(box => box.x + box.width)) + PADDING,
+    height: Math.max(...allBoxes.map(box => box.y + box.height)) + PADDING,
+    boxes: allBoxes,
+    lines
+  }
+}
+
+/**
+ * Break a label into lines that roughly fit a box; SVG has no text wrapping of its own
+ */
+export function wrapLabel(label: string, width: number, fontSize: number): string[] {
+  // Average glyph width for sans-serif text; CJK characters are about twice as wide
+  const capacity = Math.max(4, Math.floor((width - 12) / (fontSize * 0.55)))
+  const textWidth = (text: string) =>
+    Array.from(text).reduce((sum, char) => sum + (char.charCodeAt(0) > 0x2e80 ? 2 : 1), 0)
+
+  // Words too long for a line, and scripts written without spaces, break between characters
+  const words = label.split(/(\s+)/).reduce<string[]>(
+    (all, word) => all.concat(textWidth(word) > capacity ? Array.from(word) : [word]),
+    []
+  )
+
+  const lines: string[] = []
+  let current = ''
+  let currentWidth = 0
+
+  for (const word of words) {
+    const wordWidth = textWidth(word)
+    if (currentWidth + wordWidth > capacity && current.trim()) {
+      lines.push(current.trim())
+      current = ''
+      currentWidth = 0
+    }
+    current += word
+    currentWidth += wordWidth
+  }
+  if (current.trim()) lines.push(current.trim())
+
+  return lines
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ({
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;'
+  }[char] as string))
+}
+
+/**
+ * Standalone SVG document of the drawing
+ */
+export function mindMapToSvg(drawing: MindMapDrawing): string {
+  const lines = drawing.lines.map(line =>
+    `<line x1="${line.x1}" y1="${line.y1}" x2="${line.x2}" y2="${line.y2}" stroke="${escapeXml(line.color)}" stroke-width="2"/>`
+  )
+
+  const boxes = drawing.boxes.map(box => {
+    const labelLines = wrapLabel(box.label, box.width, box.fontSize)
+    const lineHeight = box.fontSize * 1.2
+    const firstY = box.y + box.height / 2 - ((labelLines.length - 1) * lineHeight) / 2
+    const text = labelLines.map((line, index) =>
+      `<tspan x="${box.x + box.width / 2}" y="${firstY + index * lineHeight}">${escapeXml(line)}</tspan>`
+    ).join('')
+
+    return `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="10" fill="${escapeXml(box.fill)}" stroke="${escapeXml(box.stroke)}" stroke-width="2"/>` +
+      `<text font-family="Helvetica, Arial, sans-serif" font-size="${box.fontSize}" font-weight="${box.bold ? 'bold' : 'normal'}" fill="#1A1F2C" text-anchor="middle" dominant-baseline="middle">${text}</text>`
+  })
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}" height="${drawing.height}" viewBox="0 0 ${drawing.width} ${drawing.height}">` +
+    `<rect width="100%" height="100%" fill="#FFFFFF"/>${lines.join('')}${boxes.join('')}</svg>`
+}
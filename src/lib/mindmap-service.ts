@@ -1,6 +1,10 @@
 import { query, queryOne } from '@/lib/database'
-import { OpenRouterService } from '@/lib/openrouter-service'
-import { ErrorHandler, AIError } from '@/lib/error-handler'
+import { LLMService } from '@/lib/llm-service'
+import { AIService } from '@/lib/ai-service'
+import { DEFAULT_CHUNK_SIZE } from '@/lib/text-chunker'
+import { ErrorHandler, AIError, AIValidationError } from '@/lib/error-handler'
+import { MindMapSchema } from '@/lib/ai-schemas'
+import { noteVersionsService } from '@/lib/note-versions-service'
 import { 
   MindMapData, 
   MindMapNode, 
@@ -10,31 +14,39 @@ import {
   calculateNodeSize
 } from '@/lib/mindmap-types'
 
-// For demo purposes, we'll use a mock user ID
-const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440000'
+// pg already parses JSONB columns; values saved as JSON text still need parsing
+function parseJsonColumn(value: any): any {
+  return typeof value === 'string' ? JSON.parse(value) : value
+}
 
 export class MindMapService {
-  private openRouter: OpenRouterService
+  private llm: LLMService
 
-  constructor() {
-    this.openRouter = new OpenRouterService()
+  constructor(llm: LLMService = new LLMService()) {
+    this.llm = llm
   }
 
   /**
    * Generate mind map from content using AI
    */
-  async generateMindMap(content: string, noteId?: string): Promise<MindMapData> {
+  async generateMindMap(userId: string, content: string, noteId?: string): Promise<MindMapData> {
     try {
       console.log('Generating mind map with AI...', { contentLength: content.length })
       
+      // Content longer than one prompt is condensed first so the whole document is mapped
+      const source = content.length > DEFAULT_CHUNK_SIZE
+        ? await this.condenseContent(content)
+        : content
+
       // Create AI prompt for mind map generation
-      const aiResult = await this.generateMindMapWithAI(content)
+      const aiResult = await this.generateMindMapWithAI(source)
       
       // Convert AI result to React Flow format
-      const mindMapData = this.convertAIResultToMindMap(aiResult, noteId)
+      const mindMapData = this.convertAIResultToMindMap(aiResult, userId, noteId)
       
       // Save to database if noteId provided
       if (noteId) {
+        await noteVersionsService.captureVersion(userId, noteId, 'regenerate')
         const savedMindMap = await this.saveMindMap(mindMapData)
         return savedMindMap
       }
@@ -50,14 +62,24 @@ export class MindMapService {
   }
 
   /**
-   * AI-powered mind map generation using OpenRouter
+   * Reduce long content to its merged summary and key points
+   */
+  private async condenseContent(content: string): Promise<string> {
+    const analysis = await new AIService(this.llm).summarizeContent(content)
+    return `${analysis.summary}
+
+Key points:
+${analysis.key_points.map(point => `- ${point}`).join('\n')}`
+  }
+
+  /**
+   * AI-powered mind map generation using the configured LLM provider
    */
   private async generateMindMapWithAI(content: string): Promise<AIGeneratedMindMap> {
     const prompt = this.createMindMapPrompt(content)
     
     try {
-      const response = await this.openRouter.makeAPICall(prompt)
-      const parsed = this.parseMindMapResponse(response)
+      const parsed: AIGeneratedMindMap = await this.llm.completeStructured('mindmap', prompt, MindMapSchema, 'generateMindMap')
       
       console.log('AI mind map generated:', {
         title: parsed.title,
@@ -69,6 +91,10 @@ export class MindMapService {
       return parsed
     } catch (error) {
       console.error('AI mind map generation failed:', error)
+      // Keep the field-level detail when the model's output didn't match the schema
+      if (error instanceof AIValidationError || ErrorHandler.isQuotaExceeded(error)) {
+        throw error
+      }
       throw new AIError(
         'Failed to generate mind map',
         'MINDMAP_GENERATION_FAILED',
@@ -82,12 +108,10 @@ export class MindMapService {
    * Create optimized prompt for mind map generation
    */
   private createMindMapPrompt(content: string): string {
-    const truncatedContent = content.substring(0, 8000)
-    
     return `You are an expert knowledge visualization specialist. Create a comprehensive mind map structure from the provided content that maximizes learning and understanding.
 
 **CONTENT TO ANALYZE:**
-${truncatedContent}${content.length > 8000 ? '\n\n[Content continues - analyze full scope]' : ''}
+${content}
 
 **MIND MAP DESIGN PRINCIPLES:**
 - **Hierarchy**: Central concept with logical branching
@@ -158,38 +182,10 @@ ${truncatedContent}${content.length > 8000 ? '\n\n[Content continues - analyze f
 Generate a mind map that would help someone master this content efficiently and see the big picture clearly.`
   }
 
-  /**
-   * Parse AI response for mind map data
-   */
-  private parseMindMapResponse(response: string): AIGeneratedMindMap {
-    try {
-      // Clean response
-      let cleanContent = response.trim()
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/^```json\s*/i, '').replace(/\s*```$/, '')
-      }
-      if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
-      }
-
-      const parsed = JSON.parse(cleanContent) as AIGeneratedMindMap
-      
-      // Validate structure
-      if (!parsed.title || !parsed.central_concept || !Array.isArray(parsed.main_branches)) {
-        throw new Error('Invalid mind map structure')
-      }
-      
-      return parsed
-    } catch (error) {
-      console.error('Failed to parse mind map response:', response)
-      throw new Error(`Failed to parse AI mind map response: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
-  }
-
   /**
    * Convert AI result to React Flow mind map format
    */
-  private convertAIResultToMindMap(aiResult: AIGeneratedMindMap, noteId?: string): MindMapData {
+  private convertAIResultToMindMap(aiResult: AIGeneratedMindMap, userId: string, noteId?: string): MindMapData {
     const nodes: MindMapNode[] = []
     const edges: MindMapEdge[] = []
     const theme = MINDMAP_THEMES.default
@@ -342,7 +338,7 @@ Generate a mind map that would help someone master this content efficiently and
     return {
       id: `mindmap-${Date.now()}`,
       note_id: noteId || '',
-      user_id: DEMO_USER_ID,
+      user_id: userId,
       title: aiResult.title,
       description: `Mind map for: ${aiResult.central_concept}`,
       nodes,
@@ -404,22 +400,22 @@ Generate a mind map that would help someone master this content efficiently and
   /**
    * Get mind map by note ID
    */
-  async getMindMapByNoteId(noteId: string): Promise<MindMapData | null> {
+  async getMindMapByNoteId(userId: string, noteId: string): Promise<MindMapData | null> {
     try {
       const result = await queryOne(`
         SELECT * FROM mind_maps 
         WHERE note_id = $1 AND user_id = $2
         ORDER BY created_at DESC
         LIMIT 1
-      `, [noteId, DEMO_USER_ID])
+      `, [noteId, userId])
 
       if (!result) return null
 
       return {
         ...result,
-        nodes: JSON.parse(result.nodes),
-        edges: JSON.parse(result.edges),
-        metadata: JSON.parse(result.metadata)
+        nodes: parseJsonColumn(result.nodes),
+        edges: parseJsonColumn(result.edges),
+        metadata: parseJsonColumn(result.metadata)
       }
     } catch (error) {
       console.error('Failed to fetch mind map:', error)
@@ -430,20 +426,20 @@ Generate a mind map that would help someone master this content efficiently and
   /**
    * Get mind map by ID
    */
-  async getMindMapById(mindMapId: string): Promise<MindMapData | null> {
+  async getMindMapById(userId: string, mindMapId: string): Promise<MindMapData | null> {
     try {
       const result = await queryOne(`
         SELECT * FROM mind_maps 
         WHERE id = $1 AND user_id = $2
-      `, [mindMapId, DEMO_USER_ID])
+      `, [mindMapId, userId])
 
       if (!result) return null
 
       return {
         ...result,
-        nodes: JSON.parse(result.nodes),
-        edges: JSON.parse(result.edges),
-        metadata: JSON.parse(result.metadata)
+        nodes: parseJsonColumn(result.nodes),
+        edges: parseJsonColumn(result.edges),
+        metadata: parseJsonColumn(result.metadata)
       }
     } catch (error) {
       console.error('Failed to fetch mind map by ID:', error)
@@ -454,8 +450,18 @@ Generate a mind map that would help someone master this content efficiently and
   /**
    * Update mind map
    */
-  async updateMindMap(mindMapId: string, updates: Partial<MindMapData>): Promise<MindMapData | null> {
+  async updateMindMap(userId: string, mindMapId: string, updates: Partial<MindMapData>): Promise<MindMapData | null> {
     try {
+      // Snapshot the note first so the edit can be undone from its history
+      const existing = await queryOne(
+        'SELECT note_id FROM mind_maps WHERE id = $1 AND user_id = $2',
+        [mindMapId, userId]
+      )
+      if (!existing) return null
+      if (existing.note_id) {
+        await noteVersionsService.captureVersion(userId, existing.note_id, 'mind_map')
+      }
+
       const result = await queryOne(`
         UPDATE mind_maps 
         SET 
@@ -477,16 +483,16 @@ Generate a mind map that would help someone master this content efficiently and
         updates.layout,
         updates.theme,
         updates.metadata ? JSON.stringify(updates.metadata) : null,
-        DEMO_USER_ID
+        userId
       ])
 
       if (!result) return null
 
       return {
         ...result,
-        nodes: JSON.parse(result.nodes),
-        edges: JSON.parse(result.edges),
-        metadata: JSON.parse(result.metadata)
+        nodes: parseJsonColumn(result.nodes),
+        edges: parseJsonColumn(result.edges),
+        metadata: parseJsonColumn(result.metadata)
       }
     } catch (error) {
       ErrorHandler.logError(error as Error, 'update_mindmap', { mindMapId })
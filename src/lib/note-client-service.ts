@@ -0,0 +1,282 @@
+/**
+ * Client-side Note Service
+ * Uses API routes instead of direct database access to avoid build issues
+ */
+
+import type { ContentBlockType } from './content-block-types'
+import type { NoteVersionDiff, NoteVersionSummary } from './note-version-types'
+
+// Mirror the types in notes-service, which is server-only
+export interface NoteDetail {
+  id: string
+  folder_id?: string | null
+  title: string
+  source_type: string
+  content_status: string
+  failure_reason?: string | null
+  markdown?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type NoteExportFormat = 'md' | 'html' | 'pdf' | 'docx'
+
+// Formats in the order export menus list them; the names are the same in every language
+export const NOTE_EXPORT_OPTIONS: Array<{ format: NoteExportFormat; label: string }> = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word' }
+]
+
+// Documents /api/pdf/upload can extract text from (see document-extractor.ts)
+const DOCUMENT_EXTENSIONS = ['pdf', 'docx', 'pptx', 'epub']
+
+export const DOCUMENT_ACCEPT = DOCUMENT_EXTENSIONS.map(extension => `.${extension}`).join(',')
+
+export function isSupportedDocument(file: File): boolean {
+  return DOCUMENT_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() || '')
+}
+
+export interface VaultImportResult {
+  notes: Array<{ id: string; title: string }>
+  folders_created: number
+  cards_imported: number
+  skipped: number
+}
+
+export interface NoteContentBlock {
+  id: string
+  note_id: string
+  type: string
+  title: string
+  content: any
+  icon?: string
+  icon_color?: string
+  sort_order: number
+  updated_at?: string
+}
+
+export class NoteClientService {
+  /**
+   * Get a note
+   */
+  async getNote(noteId: string): Promise<NoteDetail | null> {
+    try {
+      const response = await fetch(`/api/notes/${noteId}`)
+      const result = await response.json()
+      return result.success ? result.data : null
+    } catch (error) {
+      console.error('Failed to fetch note:', error)
+      return null
+    }
+  }
+
+  /**
+   * Save a note's Markdown body
+   * @param keepalive Let the request finish after the page is closed, for a last save on leaving
+   */
+  async updateNoteMarkdown(noteId: string, markdown: string, keepalive: boolean = false): Promise<NoteDetail> {
+    const response = await fetch(`/api/notes/${noteId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ markdown }),
+      keepalive,
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save note')
+    }
+    return result.data
+  }
+
+  /**
+   * Get a note's content blocks in display order
+   */
+  async getContentBlocks(noteId: string): Promise<NoteContentBlock[]> {
+    try {
+      const response = await fetch(`/api/notes/${noteId}/blocks`)
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data.content_blocks
+      } else {
+        throw new Error(result.error || 'Failed to load content blocks')
+      }
+    } catch (error) {
+      console.error('Failed to fetch content blocks:', error)
+      return []
+    }
+  }
+
+  /**
+   * Add a block to the end of a note; content defaults to an empty block of the type
+   */
+  async addContentBlock(
+    noteId: string,
+    type: ContentBlockType,
+    title?: string,
+    content?: Record<string, unknown>
+  ): Promise<NoteContentBlock> {
+    const response = await fetch(`/api/notes/${noteId}/blocks`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type, title, content }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to add block')
+    }
+    return result.data
+  }
+
+  /**
+   * Edit a block's title and/or content
+   */
+  async updateContentBlock(
+    noteId: string,
+    blockId: string,
+    updates: { title?: string; content?: Record<string, unknown> }
+  ): Promise<NoteContentBlock> {
+    const response = await fetch(`/api/notes/${noteId}/blocks/${blockId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to update block')
+    }
+    return result.data
+  }
+
+  /**
+   * Delete a block
+   */
+  async deleteContentBlock(noteId: string, blockId: string): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/notes/${noteId}/blocks/${blockId}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+      return result.success
+    } catch (error) {
+      console.error('Failed to delete block:', error)
+      return false
+    }
+  }
+
+  /**
+   * Save a new block order; blockIds lists every block of the note
+   */
+  async reorderContentBlocks(noteId: string, blockIds: string[]): Promise<NoteContentBlock[]> {
+    const response = await fetch(`/api/notes/${noteId}/blocks`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ blockIds }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to reorder blocks')
+    }
+    return result.data.content_blocks
+  }
+
+  /**
+   * Get a note's saved versions, newest first
+   */
+  async getVersions(noteId: string): Promise<NoteVersionSummary[]> {
+    try {
+      const response = await fetch(`/api/notes/${noteId}/versions`)
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data.versions
+      } else {
+        throw new Error(result.error || 'Failed to load versions')
+      }
+    } catch (error) {
+      console.error('Failed to fetch note versions:', error)
+      return []
+    }
+  }
+
+  /**
+   * Compare a version with the current note, or with another version
+   */
+  async getVersionDiff(noteId: string, versionId: string, against?: string): Promise<NoteVersionDiff | null> {
+    try {
+      const params = against ? `?against=${encodeURIComponent(against)}` : ''
+      const response = await fetch(`/api/notes/${noteId}/versions/${versionId}/diff${params}`)
+      const result = await response.json()
+      return result.success ? result.data : null
+    } catch (error) {
+      console.error('Failed to fetch version diff:', error)
+      return null
+    }
+  }
+
+  /**
+   * Put the note back to a version; the replaced state becomes a new version
+   */
+  async restoreVersion(noteId: string, versionId: string): Promise<NoteDetail> {
+    const response = await fetch(`/api/notes/${noteId}/versions/${versionId}/restore`, {
+      method: 'POST',
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to restore version')
+    }
+    return result.data
+  }
+
+  /**
+   * Download link for a note as Markdown, HTML, PDF or Word
+   */
+  getExportUrl(noteId: string, format: NoteExportFormat, includeMindMap = true): string {
+    const params = new URLSearchParams({ format })
+    if (!includeMindMap) params.set('mindmap', '0')
+    return `/api/notes/${noteId}/export?${params}`
+  }
+
+  /**
+   * Download link for an Obsidian vault of one folder, or of every note when folderId is omitted
+   */
+  getVaultExportUrl(folderId?: string): string {
+    return folderId ? `/api/vault/export?${new URLSearchParams({ folderId })}` : '/api/vault/export'
+  }
+
+  /**
+   * Import a zipped Obsidian vault; its directories become folders
+   */
+  async importVault(file: File, folderId?: string): Promise<VaultImportResult> {
+    const formData = new FormData()
+    formData.append('file', file)
+    if (folderId) formData.append('folderId', folderId)
+
+    const response = await fetch('/api/vault/import', {
+      method: 'POST',
+      body: formData,
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to import vault')
+    }
+    return result.data
+  }
+}
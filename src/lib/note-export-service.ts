@@ -0,0 +1,286 @@
+import JSZip from 'jszip'
+import { query, queryOne } from '@/lib/database'
+import { notesService, Note, ContentBlock } from '@/lib/notes-service'
+import { foldersService } from '@/lib/folders-service'
+import { flashcardService, Flashcard } from '@/lib/flashcard-service'
+import { PERSONAL_NOTES_TYPE, blockListKey } from '@/lib/content-block-types'
+import { fillCloze } from '@/lib/flashcard-types'
+import { blocksToMarkdown } from '@/lib/note-markdown'
+import { layoutMindMap, mindMapToSvg, MindMapDrawing } from '@/lib/mindmap-drawing'
+import { markdownToHtml } from '@/lib/html-export'
+import { markdownToPdf } from '@/lib/pdf-export'
+import { markdownToDocx } from '@/lib/docx-export'
+
+export type NoteExportFormat = 'md' | 'html' | 'pdf' | 'docx'
+
+export const NOTE_EXPORT_FORMATS: NoteExportFormat[] = ['md', 'html', 'pdf', 'docx']
+
+export interface NoteExportOptions {
+  includeMindMap: boolean
+}
+
+export interface NoteExportFile {
+  fileName: string
+  contentType: string
+  data: Uint8Array
+}
+
+const CONTENT_TYPES: Record<NoteExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+}
+
+// Everything that goes into an exported note
+interface NoteExportData {
+  note: Note
+  blocks: ContentBlock[]
+  flashcards: Flashcard[]
+  mindMap: MindMapDrawing | null
+}
+
+export function safeFileName(name: string, fallback: string): string {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').trim().slice(0, 120) || fallback
+}
+
+/**
+ * Push headings down one level, skipping fenced code, so a nested body keeps its outline
+ */
+function demoteHeadings(markdown: string): string {
+  let inFence = false
+  return markdown.split('\n').map(line => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+    return !inFence && /^#{1,5} /.test(line) ? `#${line}` : line
+  }).join('\n')
+}
+
+export class NoteExportService {
+  /**
+   * Export one note with its content blocks, edited body, transcript, flashcards and, optionally, mind map
+   * @returns The file, or null if the note doesn't exist
+   */
+  async exportNote(
+    userId: string,
+    noteId: string,
+    format: NoteExportFormat,
+    options: NoteExportOptions
+  ): Promise<NoteExportFile | null> {
+    const data = await this.loadNote(userId, noteId, options)
+    if (!data) return null
+
+    return {
+      fileName: `${safeFileName(data.note.title, 'note')}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      data: await this.render(data, format)
+    }
+  }
+
+  /**
+   * Export every finished note in a folder and its subfolders as a zip,
+   * with subfolders as directories
+   * @returns The zip, or null if the folder doesn't exist
+   */
+  async exportFolder(
+    userId: string,
+    folderId: string,
+    format: NoteExportFormat,
+    options: NoteExportOptions
+  ): Promise<NoteExportFile | null> {
+    const folder = await foldersService.getFolderById(userId, folderId)
+    if (!folder) return null
+
+    const paths = await foldersService.getFolderPaths(userId, folder.id, name => safeFileName(name, 'folder'))
+
+    const notes = await query(`
+      SELECT id, folder_id, title FROM notes
+      WHERE user_id = $1 AND folder_id = ANY($2::uuid[]) AND content_status = 'completed'
+      ORDER BY created_at ASC
+    `, [userId, Array.from(paths.keys())])
+
+    const zip = new JSZip()
+    const usedNames = new Set<string>()
+
+    // One note at a time keeps memory flat for large folders
+    for (const row of notes.rows) {
+      const data = await this.loadNote(userId, row.id, options)
+      if (!data) continue
+
+      const directory = paths.get(row.folder_id) || ''
+      const baseName = safeFileName(data.note.title, 'note')
+      let fileName = `${directory}${baseName}.${format}`
+      for (let copy = 2; usedNames.has(fileName.toLowerCase()); copy++) {
+        fileName = `${directory}${baseName} (${copy}).${format}`
+      }
+      usedNames.add(fileName.toLowerCase())
+
+      zip.file(fileName, await this.render(data, format))
+    }
+
+    return {
+      fileName: `${safeFileName(folder.name, 'folder')}.zip`,
+      contentType: 'application/zip',
+      data: await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+    }
+  }
+
+  /**
+   * Gather a note and what belongs to it
+   */
+  private async loadNote(userId: string, noteId: string, options: NoteExportOptions): Promise<NoteExportData | null> {
+    const note = await notesService.getNoteById(userId, noteId)
+    if (!note) return null
+
+    const [blocks, flashcards, mindMap] = await Promise.all([
+      notesService.getContentBlocks(userId, noteId),
+      flashcardService.getFlashcardsByNoteId(userId, noteId),
+      options.includeMindMap ? this.loadMindMap(userId, noteId) : Promise.resolve(null)
+    ])
+
+    return { note, blocks, flashcards, mindMap }
+  }
+
+  /**
+   * The note's most recent mind map, laid out for drawing
+   */
+  private async loadMindMap(userId: string, noteId: string): Promise<MindMapDrawing | null> {
+    try {
+      const mindMap = await queryOne(`
+        SELECT nodes, edges FROM mind_maps
+        WHERE note_id = $1 AND user_id = $2
+        ORDER BY created_at DESC
+        LIMIT 1
+      `, [noteId, userId])
+
+      return mindMap ? layoutMindMap(mindMap.nodes || [], mindMap.edges || []) : null
+    } catch (error) {
+      console.error('Failed to load mind map for export:', error)
+      return null
+    }
+  }
+
+  private async render(data: NoteExportData, format: NoteExportFormat): Promise<Uint8Array> {
+    const title = data.note.title
+    // The mind map travels inside the Markdown as an SVG data URI; PDF and DOCX
+    // spot that image and draw the mind map natively instead
+    const mindMap = data.mindMap
+      ? {
+          src: `data:image/svg+xml;base64,${Buffer.from(mindMapToSvg(data.mindMap)).toString('base64')}`,
+          drawing: data.mindMap
+        }
+      : null
+    const markdown = this.composeMarkdown(data, mindMap?.src || null, format !== 'md')
+
+    switch (format) {
+      case 'md':
+        return new TextEncoder().encode(this.frontMatter(data) + markdown)
+      case 'html':
+        return new TextEncoder().encode(await markdownToHtml(markdown, { title }))
+      case 'pdf':
+        return await markdownToPdf(markdown, { title, mindMap })
+      case 'docx':
+        return await markdownToDocx(markdown, { title, mindMap })
+    }
+  }
+
+  /**
+   * YAML front matter for Markdown files; strings are JSON-quoted, which YAML accepts
+   */
+  private frontMatter({ note, flashcards }: NoteExportData): string {
+    const fields: Array<[string, string | number | null | undefined]> = [
+      ['title', JSON.stringify(note.title)],
+      ['source', note.source_type],
+      ['url', note.url ? JSON.stringify(note.url) : null],
+      ['created', new Date(note.created_at).toISOString()],
+      ['updated', new Date(note.updated_at).toISOString()],
+      ['flashcards', new Set(flashcards.map(card => card.sibling_group || card.id)).size]
+    ]
+
+    return [
+      '---',
+      ...fields.filter(([, value]) => value !== null && value !== undefined).map(([key, value]) => `${key}: ${value}`),
+      '---',
+      ''
+    ].join('\n') + '\n'
+  }
+
+  /**
+   * The whole note as one Markdown document, which every format is rendered from
+   * @param withMeta Add a created/source line under the title, for formats without front matter
+   */
+  private composeMarkdown(data: NoteExportData, mindMapSrc: string | null, withMeta: boolean): string {
+    const { note, blocks, flashcards } = data
+    const sections: string[] = [`# ${note.title}`]
+
+    if (withMeta) {
+      const created = new Date(note.created_at).toISOString().slice(0, 10)
+      sections.push(`*${[`Created ${created}`, note.url ? `<${note.url}>` : null].filter(Boolean).join(' · ')}*`)
+    }
+
+    // The body starts out as a copy of the blocks; it only adds something once edited
+    const body = (note.markdown || '').trim()
+    if (body && body !== blocksToMarkdown(blocks).trim()) {
+      sections.push(`## Note\n\n${demoteHeadings(body)}`)
+    }
+
+    for (const block of blocks) {
+      if (block.type === 'error') continue
+
+      const listKey = blockListKey(block.type)
+      const content = listKey
+        ? (block.content?.[listKey] || []).map((item: string) => `- ${item}`).join('\n')
+        : (block.content?.text || '').trim()
+
+      if (content) {
+        const title = block.type === PERSONAL_NOTES_TYPE ? block.title || 'My Notes' : block.title
+        sections.push(`## ${title}\n\n${content}`)
+      }
+    }
+
+    const transcript = (note.transcription || '').trim()
+    if (transcript && !blocks.some(block => (block.content?.text || '').trim() === transcript)) {
+      sections.push(`## Transcript\n\n${transcript}`)
+    }
+
+    const cards = this.flashcardsMarkdown(flashcards)
+    if (cards) {
+      sections.push(`## Flashcards\n\n${cards}`)
+    }
+
+    if (mindMapSrc) {
+      sections.push(`## Mind Map\n\n![Mind map](${mindMapSrc})`)
+    }
+
+    return sections.join('\n\n') + '\n'
+  }
+
+  /**
+   * Flashcards as question/answer pairs; siblings of a cloze or image occlusion card are written once
+   */
+  private flashcardsMarkdown(flashcards: Flashcard[]): string {
+    const groups = new Map<string, Flashcard[]>()
+    for (const card of flashcards) {
+      const key = card.sibling_group || card.id
+      groups.set(key, [...(groups.get(key) || []), card])
+    }
+
+    return Array.from(groups.values()).map((siblings, index) => {
+      const card = siblings[0]
+      let question = card.question
+      let answer = card.answer
+
+      if (card.card_type === 'cloze') {
+        question = fillCloze(card.question, hidden => `**${hidden}**`)
+      } else if (card.card_type === 'image_occlusion') {
+        const image = card.media?.image_url ? `\n\n![${question}](${card.media.image_url})` : ''
+        question = `${question}${image}`
+        answer = siblings.map(sibling => sibling.answer).filter(Boolean).join(', ')
+      }
+
+      return `**Q${index + 1}.** ${question}${answer ? `\n\n**A.** ${answer}` : ''}`
+    }).join('\n\n---\n\n')
+  }
+}
+
+// Export singleton instance
+export const noteExportService = new NoteExportService();
@@ -0,0 +1,40 @@
+/**
+ * A note's editable Markdown body
+ * Shared by the server, which seeds and stores it, and the editor, which seeds notes written before bodies existed
+ */
+
+import { PERSONAL_NOTES_TYPE, blockListKey } from './content-block-types'
+
+export const MAX_NOTE_MARKDOWN_LENGTH = 500000
+
+// Wait this long after the last keystroke before saving
+export const MARKDOWN_AUTOSAVE_DELAY_MS = 1000
+
+interface SeedBlock {
+  type: string
+  title: string
+  content: any
+}
+
+/**
+ * Starting body for a note: one section per AI content block, in display order.
+ * Personal notes and error notices stay out; the user keeps those separately.
+ */
+export function blocksToMarkdown(blocks: SeedBlock[]): string {
+  const sections: string[] = []
+
+  for (const block of blocks) {
+    if (block.type === PERSONAL_NOTES_TYPE || block.type === 'error') continue
+
+    const listKey = blockListKey(block.type)
+    const body = listKey
+      ? (block.content?.[listKey] || []).map((item: string) => `- ${item}`).join('\n')
+      : (block.content?.text || '').trim()
+
+    if (body) {
+      sections.push(`## ${block.title}\n\n${body}`)
+    }
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') + '\n' : ''
+}
@@ -0,0 +1,64 @@
+/**
+ * Note version history, shared by the versions API and the history drawer.
+ * A version holds the note as it was just before a save: its Markdown body,
+ * content blocks and mind maps.
+ */
+
+import type { DiffRow } from './text-diff'
+
+export type NoteVersionReason = 'markdown' | 'content_blocks' | 'mind_map' | 'regenerate' | 'restore'
+
+export const NOTE_VERSION_REASON_LABELS: Record<NoteVersionReason, string> = {
+  markdown: 'Before editing the note',
+  content_blocks: 'Before editing content blocks',
+  mind_map: 'Before editing the mind map',
+  regenerate: 'Before AI regeneration',
+  restore: 'Before restoring a version'
+}
+
+// Compare a version with the note as it is now
+export const CURRENT_VERSION = 'current'
+
+export interface NoteVersionSummary {
+  id: string
+  note_id: string
+  reason: NoteVersionReason
+  created_at: string
+}
+
+export interface VersionContentBlock {
+  id: string
+  type: string
+  title: string
+  content: any
+  icon?: string | null
+  icon_color?: string | null
+}
+
+export interface VersionMindMap {
+  id: string
+  title: string
+  nodes: any[]
+  edges: any[]
+}
+
+export interface NoteSnapshot {
+  markdown: string | null
+  content_blocks: VersionContentBlock[]
+  mind_maps: VersionMindMap[]
+}
+
+export interface NoteVersion extends NoteVersionSummary, NoteSnapshot {}
+
+export type NoteVersionSection = 'markdown' | 'content_blocks' | 'mind_maps'
+
+export interface NoteVersionDiff {
+  version_id: string
+  against: string // A later version's ID, or CURRENT_VERSION
+  sections: Array<{
+    section: NoteVersionSection
+    title: string
+    changed: boolean
+    rows: DiffRow[]
+  }>
+}
@@ -0,0 +1,289 @@
+import { query, queryOne, transaction } from '@/lib/database'
+import { blockListKey } from '@/lib/content-block-types'
+import { diffLines } from '@/lib/text-diff'
+import type { Note } from '@/lib/notes-service'
+import {
+  CURRENT_VERSION,
+  NoteSnapshot,
+  NoteVersion,
+  NoteVersionDiff,
+  NoteVersionReason,
+  NoteVersionSummary,
+  VersionContentBlock,
+  VersionMindMap
+} from '@/lib/note-version-types'
+
+// Saves of the same kind this close together (e.g. autosave while typing) keep the first snapshot
+const COALESCE_WINDOW_SECONDS = 600
+
+const COALESCED_REASONS: NoteVersionReason[] = ['markdown', 'content_blocks', 'mind_map']
+
+// Oldest versions beyond this are dropped
+const MAX_VERSIONS_PER_NOTE = 100
+
+// The note's current state, selected from notes n
+const SNAPSHOT_COLUMNS = `
+  n.markdown,
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', cb.id, 'type', cb.type, 'title', cb.title, 'content', cb.content,
+      'icon', cb.icon, 'icon_color', cb.icon_color
+    ) ORDER BY cb.sort_order)
+    FROM content_blocks cb WHERE cb.note_id = n.id
+  ), '[]'::jsonb) AS content_blocks,
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', m.id, 'title', m.title, 'nodes', m.nodes, 'edges', m.edges
+    ) ORDER BY m.created_at)
+    FROM mind_maps m WHERE m.note_id = n.id
+  ), '[]'::jsonb) AS mind_maps
+`
+
+export class NoteVersionsService {
+  /**
+   * Snapshot a note before it is changed. Takes the caller's client so the
+   * snapshot and the change can share a transaction.
+   * Empty notes, and repeat saves inside the coalescing window, are skipped.
+   */
+  async captureVersion(
+    userId: string,
+    noteId: string,
+    reason: NoteVersionReason,
+    client: { query: typeof query } = { query }
+  ): Promise<void> {
+    try {
+      const coalesceSeconds = COALESCED_REASONS.includes(reason) ? COALESCE_WINDOW_SECONDS : 0
+
+      const inserted = await client.query(`
+        INSERT INTO note_versions (note_id, user_id, reason, markdown, content_blocks, mind_maps)
+        SELECT n.id, n.user_id, $3, s.markdown, s.content_blocks, s.mind_maps
+        FROM notes n
+        CROSS JOIN LATERAL (SELECT ${SNAPSHOT_COLUMNS}) s
+        WHERE n.id = $1 AND n.user_id = $2
+          AND (s.markdown IS NOT NULL OR s.content_blocks <> '[]'::jsonb OR s.mind_maps <> '[]'::jsonb)
+          AND NOT COALESCE((
+            SELECT v.reason = $3 AND v.created_at > NOW() - make_interval(secs => $4)
+            FROM note_versions v
+            WHERE v.note_id = n.id
+            ORDER BY v.created_at DESC
+            LIMIT 1
+          ), false)
+        RETURNING id
+      `, [noteId, userId, reason, coalesceSeconds])
+
+      if (inserted.rows.length > 0) {
+        await client.query(`
+          DELETE FROM note_versions
+          WHERE note_id = $1 AND id NOT IN (
+            SELECT id FROM note_versions
+            WHERE note_id = $1
+            ORDER BY created_at DESC
+            LIMIT $2
+          )
+        `, [noteId, MAX_VERSIONS_PER_NOTE])
+      }
+    } catch (error) {
+      console.error('Failed to save note version:', error)
+      throw new Error('Failed to save note version')
+    }
+  }
+
+  /**
+   * List a note's versions, newest first
+   */
+  async getVersions(userId: string, noteId: string): Promise<NoteVersionSummary[]> {
+    try {
+      const result = await query(`
+        SELECT id, note_id, reason, created_at
+        FROM note_versions
+        WHERE note_id = $1 AND user_id = $2
+        ORDER BY created_at DESC
+      `, [noteId, userId])
+
+      return result.rows
+    } catch (error) {
+      console.error('Failed to fetch note versions:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get one version with its snapshot
+   */
+  async getVersion(userId: string, noteId: string, versionId: string): Promise<NoteVersion | null> {
+    try {
+      const version = await queryOne(`
+        SELECT * FROM note_versions
+        WHERE id = $1 AND note_id = $2 AND user_id = $3
+      `, [versionId, noteId, userId])
+
+      return version || null
+    } catch (error) {
+      console.error('Failed to fetch note version:', error)
+      return null
+    }
+  }
+
+  /**
+   * Compare a version with a later version, or with the note as it is now
+   * @returns The diff, or null if either side doesn't exist
+   */
+  async diffVersion(
+    userId: string,
+    noteId: string,
+    versionId: string,
+    against: string = CURRENT_VERSION
+  ): Promise<NoteVersionDiff | null> {
+    const version = await this.getVersion(userId, noteId, versionId)
+    if (!version) return null
+
+    const other = against === CURRENT_VERSION
+      ? await this.getCurrentSnapshot(userId, noteId)
+      : await this.getVersion(userId, noteId, against)
+    if (!other) return null
+
+    const sections = [
+      {
+        section: 'markdown' as const,
+        title: 'Note',
+        rows: diffLines(version.markdown || '', other.markdown || '')
+      },
+      {
+        section: 'content_blocks' as const,
+        title: 'Content blocks',
+        rows: diffLines(this.blocksToText(version.content_blocks), this.blocksToText(other.content_blocks))
+      },
+      {
+        section: 'mind_maps' as const,
+        title: 'Mind map',
+        rows: diffLines(this.mindMapsToText(version.mind_maps), this.mindMapsToText(other.mind_maps))
+      }
+    ]
+
+    return {
+      version_id: versionId,
+      against,
+      sections: sections.map(section => ({
+        ...section,
+        changed: section.rows.some(row => row.type !== 'equal')
+      }))
+    }
+  }
+
+  /**
+   * Put a note back to a version. The state being replaced is saved as a
+   * version first, so a restore can itself be undone.
+   * @returns The restored note, or null if the version doesn't exist
+   */
+  async restoreVersion(userId: string, noteId: string, versionId: string): Promise<Note | null> {
+    try {
+      return await transaction(async (client) => {
+        const version = await client.query(
+          'SELECT id FROM note_versions WHERE id = $1 AND note_id = $2 AND user_id = $3',
+          [versionId, noteId, userId]
+        )
+        if (version.rows.length === 0) return null
+
+        await this.captureVersion(userId, noteId, 'restore', client)
+
+        const note = await client.query(`
+          UPDATE notes n SET markdown = v.markdown
+          FROM note_versions v
+          WHERE v.id = $1 AND n.id = v.note_id
+          RETURNING n.*
+        `, [versionId])
+
+        // Blocks come back with their original IDs, in their original order
+        await client.query('DELETE FROM content_blocks WHERE note_id = $1', [noteId])
+        await client.query(`
+          INSERT INTO content_blocks (id, note_id, type, icon, icon_color, title, content, sort_order)
+          SELECT b.id, v.note_id, b.type, b.icon, b.icon_color, b.title, b.content, e.position - 1
+          FROM note_versions v
+          CROSS JOIN LATERAL jsonb_array_elements(v.content_blocks) WITH ORDINALITY AS e(block, position)
+          CROSS JOIN LATERAL jsonb_to_record(e.block)
+            AS b(id uuid, type text, icon text, icon_color text, title text, content jsonb)
+          WHERE v.id = $1
+        `, [versionId])
+
+        await client.query(`
+          DELETE FROM mind_maps
+          WHERE note_id = $1 AND id NOT IN (
+            SELECT (m->>'id')::uuid
+            FROM note_versions v, jsonb_array_elements(v.mind_maps) m
+            WHERE v.id = $2
+          )
+        `, [noteId, versionId])
+        await client.query(`
+          INSERT INTO mind_maps (id, note_id, user_id, title, nodes, edges)
+          SELECT m.id, v.note_id, v.user_id, m.title, m.nodes, m.edges
+          FROM note_versions v
+          CROSS JOIN LATERAL jsonb_to_recordset(v.mind_maps)
+            AS m(id uuid, title text, nodes jsonb, edges jsonb)
+          WHERE v.id = $1
+          ON CONFLICT (id) DO UPDATE
+          SET title = EXCLUDED.title, nodes = EXCLUDED.nodes, edges = EXCLUDED.edges
+        `, [versionId])
+
+        return note.rows[0] as Note
+      })
+    } catch (error) {
+      console.error('Failed to restore note version:', error)
+      throw new Error('Failed to restore note version')
+    }
+  }
+
+  /**
+   * The note as it is now, in the shape of a version
+   */
+  private async getCurrentSnapshot(userId: string, noteId: string): Promise<NoteSnapshot | null> {
+    try {
+      const snapshot = await queryOne(`
+        SELECT ${SNAPSHOT_COLUMNS}
+        FROM notes n
+        WHERE n.id = $1 AND n.user_id = $2
+      `, [noteId, userId])
+
+      return snapshot || null
+    } catch (error) {
+      console.error('Failed to fetch note snapshot:', error)
+      return null
+    }
+  }
+
+  /**
+   * Blocks as text for diffing: a heading per block, list items one per line
+   */
+  private blocksToText(blocks: VersionContentBlock[]): string {
+    return blocks.map(block => {
+      const listKey = blockListKey(block.type)
+      const body = listKey
+        ? (block.content?.[listKey] || []).map((item: string) => `- ${item}`).join('\n')
+        : typeof block.content?.text === 'string'
+          ? block.content.text
+          : JSON.stringify(block.content, null, 2)
+
+      return `## ${block.title} (${block.type})\n${body}`
+    }).join('\n\n')
+  }
+
+  /**
+   * Mind maps as text for diffing: node labels, then connections between them
+   */
+  private mindMapsToText(mindMaps: VersionMindMap[]): string {
+    return mindMaps.map(mindMap => {
+      const labels = new Map<string, string>()
+      mindMap.nodes.forEach(node => labels.set(node.id, node.data?.label || node.id))
+
+      const nodes = mindMap.nodes.map(node => `• ${labels.get(node.id)}`)
+      const edges = mindMap.edges.map(edge => {
+        const relation = edge.label || edge.data?.relationship
+        return `${labels.get(edge.source) || edge.source} → ${labels.get(edge.target) || edge.target}${relation ? ` (${relation})` : ''}`
+      })
+
+      return [`# ${mindMap.title}`, ...nodes, ...edges].join('\n')
+    }).join('\n\n')
+  }
+}
+
+// Export singleton instance
+export const noteVersionsService = new NoteVersionsService();
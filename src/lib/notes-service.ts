@@ -1,16 +1,20 @@
-import { query, queryOne } from '@/lib/database'
-
-// For demo purposes, we'll use a mock user ID
-const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440000'
+import { query, queryOne, transaction } from '@/lib/database'
+import { studyActivityService } from '@/lib/study-activity-service'
+import { noteVersionsService } from '@/lib/note-versions-service'
 
 export interface Note {
   id: string
   user_id: string
+  folder_id?: string | null
   title: string
-  source_type: 'import' | 'recording' | 'manual' | 'youtube'
+  source_type: 'import' | 'recording' | 'manual' | 'youtube' | 'text' | 'web'
   content_status: 'pending' | 'processing' | 'completed' | 'failed'
+  failure_reason?: string | null
   transcription?: string
+  markdown?: string | null // Editable body; null until seeded from the content blocks
   url?: string
+  source_hash?: string | null
+  tags?: string[]
   created_at: string
   updated_at: string
 }
@@ -30,6 +34,7 @@ export interface CreateNoteParams {
   audioUrl?: string | null
   url?: string
   imageUrl?: string
+  sourceHash?: string | null
   contentStatus?: 'processing' | 'completed' | 'failed' | 'draft'
 }
 
@@ -52,13 +57,19 @@ export interface ContentBlock {
   icon?: string
   icon_color?: string
   sort_order: number
+  updated_at?: string
+}
+
+export interface UpdateContentBlockParams {
+  title?: string
+  content?: Record<string, unknown> // Merged into the stored content so AI metadata is kept
 }
 
 export class NotesService {
   /**
    * Get recent notes for dashboard
    */
-  async getRecentNotes(limit: number = 10): Promise<NoteSummary[]> {
+  async getRecentNotes(userId: string, limit: number = 10): Promise<NoteSummary[]> {
     try {
       const notes = await query(`
         SELECT 
@@ -81,9 +92,9 @@ export class NotesService {
         AND n.content_status = 'completed'
         ORDER BY n.updated_at DESC 
         LIMIT $2
-      `, [DEMO_USER_ID, limit])
+      `, [userId, limit])
 
-      return (notes as unknown as any[]).map(note => ({
+      return notes.rows.map(note => ({
         ...note,
         preview: note.preview || 'No content available'
       }))
@@ -96,21 +107,34 @@ export class NotesService {
   /**
    * Get all notes with search and filtering
    */
-  async getAllNotes(searchQuery?: string, sourceType?: string): Promise<NoteSummary[]> {
+  async getAllNotes(
+    userId: string,
+    searchQuery?: string,
+    sourceType?: string,
+    folderId?: string
+  ): Promise<NoteSummary[]> {
     try {
       let whereClause = 'WHERE n.user_id = $1 AND n.content_status = $2'
-      const params: any[] = [DEMO_USER_ID, 'completed']
+      const params: any[] = [userId, 'completed']
       let paramIndex = 3
 
       if (searchQuery) {
-        whereClause += ` AND (n.title ILIKE $${paramIndex} OR n.transcription ILIKE $${paramIndex})`
-        params.push(`%${searchQuery}%`)
-        paramIndex++
+        // Word matches use the search_vector index; the trigram-indexed ILIKE covers CJK and partial words
+        whereClause += ` AND (n.search_vector @@ websearch_to_tsquery('simple', $${paramIndex})`
+        whereClause += ` OR n.title ILIKE $${paramIndex + 1} OR n.transcription ILIKE $${paramIndex + 1})`
+        params.push(searchQuery, `%${searchQuery.replace(/[\\%_]/g, '\\$&')}%`)
+        paramIndex += 2
       }
 
       if (sourceType) {
         whereClause += ` AND n.source_type = $${paramIndex}`
         params.push(sourceType)
+        paramIndex++
+      }
+
+      if (folderId) {
+        whereClause += ` AND n.folder_id = $${paramIndex}`
+        params.push(folderId)
       }
 
       const notes = await query(`
@@ -134,7 +158,7 @@ export class NotesService {
         ORDER BY n.updated_at DESC
       `, params)
 
-      return (notes as unknown as any[]).map(note => ({
+      return notes.rows.map(note => ({
         ...note,
         preview: note.preview || 'No content available'
       }))
@@ -147,12 +171,12 @@ export class NotesService {
   /**
    * Get note by ID with full details
    */
-  async getNoteById(noteId: string): Promise<Note | null> {
+  async getNoteById(userId: string, noteId: string): Promise<Note | null> {
     try {
       const note = await queryOne(`
         SELECT * FROM notes 
         WHERE id = $1 AND user_id = $2
-      `, [noteId, DEMO_USER_ID])
+      `, [noteId, userId])
 
       return note || null
     } catch (error) {
@@ -161,10 +185,138 @@ export class NotesService {
     }
   }
 
+  /**
+   * Find the user's most recent finished note imported from the same source
+   */
+  async findNoteBySourceHash(userId: string, sourceHash: string): Promise<Note | null> {
+    try {
+      const note = await queryOne(`
+        SELECT * FROM notes
+        WHERE user_id = $1 AND source_hash = $2 AND content_status = 'completed'
+        ORDER BY created_at DESC
+        LIMIT 1
+      `, [userId, sourceHash])
+
+      return note || null
+    } catch (error) {
+      console.error('Failed to look up note by source:', error)
+      return null
+    }
+  }
+
+  /**
+   * Copy a note with its content blocks, flashcards and mind maps.
+   * The copied flashcards start fresh in spaced repetition.
+   */
+  async cloneNote(userId: string, noteId: string, folderId?: string | null): Promise<Note | null> {
+    try {
+      return await transaction(async (client) => {
+        const noteResult = await client.query(`
+          INSERT INTO notes (
+            user_id, folder_id, title, source_type, content_status,
+            markdown, transcription, url, image_url, source_hash
+          )
+          SELECT
+            user_id, $3, title, source_type, content_status,
+            markdown, transcription, url, image_url, source_hash
+          FROM notes
+          WHERE id = $1 AND user_id = $2
+          RETURNING *
+        `, [noteId, userId, folderId === undefined ? null : folderId])
+
+        const clone = noteResult.rows[0]
+        if (!clone) return null
+
+        await client.query(`
+          INSERT INTO content_blocks (note_id, type, icon, icon_color, title, content, sort_order)
+          SELECT $2, type, icon, icon_color, title, content, sort_order
+          FROM content_blocks
+          WHERE note_id = $1
+        `, [noteId, clone.id])
+
+        // Siblings in the copy get their own group so edits don't reach back into the original
+        const flashcards = await client.query(`
+          INSERT INTO flashcards (note_id, user_id, card_type, question, answer, sibling_group, ordinal, media)
+          SELECT $2, f.user_id, f.card_type, f.question, f.answer, g.new_group, f.ordinal, f.media
+          FROM flashcards f
+          LEFT JOIN (
+            SELECT sibling_group, gen_random_uuid() AS new_group
+            FROM flashcards
+            WHERE note_id = $1 AND sibling_group IS NOT NULL
+            GROUP BY sibling_group
+          ) g ON g.sibling_group = f.sibling_group
+          WHERE f.note_id = $1
+          ORDER BY f.created_at, f.ordinal
+          RETURNING id
+        `, [noteId, clone.id])
+
+        for (const flashcard of flashcards.rows) {
+          await client.query(
+            'SELECT initialize_spaced_repetition_for_flashcard($1, $2)',
+            [flashcard.id, userId]
+          )
+        }
+
+        await client.query(`
+          INSERT INTO mind_maps (note_id, user_id, title, nodes, edges)
+          SELECT $2, user_id, title, nodes, edges
+          FROM mind_maps
+          WHERE note_id = $1
+        `, [noteId, clone.id])
+
+        return clone as Note
+      })
+    } catch (error) {
+      console.error('Failed to clone note:', error)
+      throw new Error('Failed to clone note')
+    }
+  }
+
+  /**
+   * Replace a note's Markdown body
+   * @returns The updated note, or null if it doesn't exist
+   */
+  async updateNoteMarkdown(userId: string, noteId: string, markdown: string): Promise<Note | null> {
+    try {
+      return await transaction(async (client) => {
+        await noteVersionsService.captureVersion(userId, noteId, 'markdown', client)
+
+        const note = await client.query(`
+          UPDATE notes SET markdown = $3
+          WHERE id = $1 AND user_id = $2
+          RETURNING *
+        `, [noteId, userId, markdown])
+
+        return note.rows[0] || null
+      })
+    } catch (error) {
+      console.error('Failed to update note body:', error)
+      throw new Error('Failed to update note body')
+    }
+  }
+
+  /**
+   * Move a note into a folder, or out of all folders when folderId is null
+   */
+  async moveNoteToFolder(userId: string, noteId: string, folderId: string | null): Promise<Note | null> {
+    try {
+      const note = await queryOne(`
+        UPDATE notes SET folder_id = $3
+        WHERE id = $1 AND user_id = $2
+        RETURNING *
+      `, [noteId, userId, folderId])
+
+      return note || null
+    } catch (error) {
+      console.error('Failed to move note:', error)
+      throw new Error('Failed to move note')
+    }
+  }
+
   /**
    * Get notes statistics for dashboard
    */
-  async getNotesStats(): Promise<{
+  async getNotesStats(userId: string): Promise<{
     total_notes: number
     total_flashcards: number
     notes_this_week: number
@@ -182,12 +334,12 @@ export class NotesService {
           ), 0) as notes_this_week
         FROM notes 
         WHERE user_id = $1 AND content_status = 'completed'
-      `, [DEMO_USER_ID])
+      `, [userId])
 
-      // TODO: Implement actual study streak calculation
-      const study_streak = 0
+      const timezone = await studyActivityService.resolveTimezone(userId)
+      const { current_streak: study_streak } = await studyActivityService.getStreak(userId, timezone)
 
-      const stats = (statsResult as unknown as any[])[0]
+      const stats = statsResult.rows[0]
       return {
         total_notes: parseInt(stats?.total_notes || '0'),
         total_flashcards: parseInt(stats?.total_flashcards || '0'),
@@ -208,39 +360,42 @@ export class NotesService {
   /**
    * Delete note and related content
    */
-  async deleteNote(noteId: string): Promise<boolean> {
+  async deleteNote(userId: string, noteId: string): Promise<boolean> {
     try {
-      // Start transaction
-      await query('BEGIN')
-
-      // Delete in order: flashcards, content_blocks, then note
-      await query('DELETE FROM flashcards WHERE note_id = $1', [noteId])
-      await query('DELETE FROM content_blocks WHERE note_id = $1', [noteId])
-      const result = await query(
-        'DELETE FROM notes WHERE id = $1 AND user_id = $2 RETURNING id', 
-        [noteId, DEMO_USER_ID]
-      )
-
-      await query('COMMIT')
-      
-      return (result as unknown as any[]).length > 0
+      return await transaction(async (client) => {
+        // Delete in order: flashcards, content_blocks, then note.
+        // Children are only touched when the note belongs to the user.
+        await client.query(`
+          DELETE FROM flashcards 
+          WHERE note_id IN (SELECT id FROM notes WHERE id = $1 AND user_id = $2)
+        `, [noteId, userId])
+        await client.query(`
+          DELETE FROM content_blocks 
+          WHERE note_id IN (SELECT id FROM notes WHERE id = $1 AND user_id = $2)
+        `, [noteId, userId])
+        const result = await client.query(
+          'DELETE FROM notes WHERE id = $1 AND user_id = $2 RETURNING id', 
+          [noteId, userId]
+        )
+
+        return result.rows.length > 0
+      })
     } catch (error) {
-      await query('ROLLBACK')
       console.error('Failed to delete note:', error)
       return false
     }
   }
 
   /**
-   * Create a new note
+   * Create a new note; pass the caller's client to create it inside a transaction
    */
-  async createNote(params: CreateNoteParams): Promise<Note> {
+  async createNote(params: CreateNoteParams, client: { query: typeof query } = { query }): Promise<Note> {
     try {
-      const result = await query(`
+      const result = await client.query(`
         INSERT INTO notes (
           title, user_id, folder_id, source_type, 
-          transcription, url, image_url, content_status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          transcription, url, image_url, content_status, source_hash
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING *
       `, [
         params.title,
@@ -250,10 +405,11 @@ export class NotesService {
         params.transcription || null,
         params.url || null,
         params.imageUrl || null,
-        params.contentStatus || 'completed'
+        params.contentStatus || 'completed',
+        params.sourceHash || null
       ])
 
-      const notes = result as unknown as any[]
+      const notes = result.rows
       if (notes.length === 0) {
         throw new Error('Failed to create note')
       }
@@ -266,6 +422,7 @@ export class NotesService {
         content_status: notes[0].content_status,
         transcription: notes[0].transcription,
         url: notes[0].url,
+        source_hash: notes[0].source_hash,
         created_at: notes[0].created_at,
         updated_at: notes[0].updated_at
       }
@@ -295,22 +452,12 @@ export class NotesService {
         params.sortOrder || 0
       ])
 
-      const blocks = result as unknown as any[]
+      const blocks = result.rows
       if (blocks.length === 0) {
         throw new Error('Failed to create content block')
       }
 
-      const block = blocks[0]
-      return {
-        id: block.id,
-        note_id: block.note_id,
-        type: block.type,
-        title: block.title,
-        content: typeof block.content === 'string' ? JSON.parse(block.content) : block.content,
-        icon: block.icon,
-        icon_color: block.icon_color,
-        sort_order: block.sort_order || 0
-      }
+      return this.toContentBlock(blocks[0])
     } catch (error) {
       console.error('Failed to create content block:', error)
       throw new Error('Failed to create content block')
@@ -320,30 +467,152 @@ export class NotesService {
   /**
    * Get content blocks for a note
    */
-  async getContentBlocks(noteId: string): Promise<ContentBlock[]> {
+  async getContentBlocks(userId: string, noteId: string): Promise<ContentBlock[]> {
     try {
       const result = await query(`
-        SELECT * FROM content_blocks 
-        WHERE note_id = $1 
-        ORDER BY sort_order ASC
-      `, [noteId])
-
-      const blocks = result as unknown as any[]
-      return blocks.map(block => ({
-        id: block.id,
-        note_id: block.note_id,
-        type: block.type,
-        title: block.title,
-        content: typeof block.content === 'string' ? JSON.parse(block.content) : block.content,
-        icon: block.icon,
-        icon_color: block.icon_color,
-        sort_order: block.sort_order || 0
-      }))
+        SELECT cb.* FROM content_blocks cb
+        JOIN notes n ON cb.note_id = n.id
+        WHERE cb.note_id = $1 AND n.user_id = $2
+        ORDER BY cb.sort_order ASC
+      `, [noteId, userId])
+
+      return result.rows.map(block => this.toContentBlock(block))
     } catch (error) {
       console.error('Failed to get content blocks:', error)
       return []
     }
   }
+
+  /**
+   * Add a block to the end of a note
+   * @returns The block, or null if the note doesn't exist
+   */
+  async appendContentBlock(
+    userId: string,
+    noteId: string,
+    params: Omit<CreateContentBlockParams, 'noteId' | 'sortOrder'>
+  ): Promise<ContentBlock | null> {
+    try {
+      return await transaction(async (client) => {
+        await noteVersionsService.captureVersion(userId, noteId, 'content_blocks', client)
+
+        const block = await client.query(`
+          INSERT INTO content_blocks (note_id, type, title, content, icon, icon_color, sort_order)
+          SELECT n.id, $3, $4, $5, $6, $7,
+            COALESCE((SELECT MAX(sort_order) + 1 FROM content_blocks WHERE note_id = n.id), 0)
+          FROM notes n
+          WHERE n.id = $1 AND n.user_id = $2
+          RETURNING *
+        `, [
+          noteId, userId, params.type, params.title,
+          JSON.stringify(params.content), params.icon || null, params.iconColor || null
+        ])
+
+        return block.rows[0] ? this.toContentBlock(block.rows[0]) : null
+      })
+    } catch (error) {
+      console.error('Failed to add content block:', error)
+      throw new Error('Failed to add content block')
+    }
+  }
+
+  /**
+   * Edit a block's title and/or content
+   * @returns The updated block, or null if it doesn't exist
+   */
+  async updateContentBlock(
+    userId: string,
+    noteId: string,
+    blockId: string,
+    updates: UpdateContentBlockParams
+  ): Promise<ContentBlock | null> {
+    try {
+      return await transaction(async (client) => {
+        await noteVersionsService.captureVersion(userId, noteId, 'content_blocks', client)
+
+        const block = await client.query(`
+          UPDATE content_blocks cb
+          SET title = COALESCE($4, cb.title),
+              content = cb.content || COALESCE($5::jsonb, '{}'::jsonb)
+          FROM notes n
+          WHERE cb.id = $3 AND cb.note_id = $1 AND n.id = cb.note_id AND n.user_id = $2
+          RETURNING cb.*
+        `, [
+          noteId, userId, blockId,
+          updates.title ?? null,
+          updates.content ? JSON.stringify(updates.content) : null
+        ])
+
+        return block.rows[0] ? this.toContentBlock(block.rows[0]) : null
+      })
+    } catch (error) {
+      console.error('Failed to update content block:', error)
+      throw new Error('Failed to update content block')
+    }
+  }
+
+  /**
+   * Delete a block from a note
+   */
+  async deleteContentBlock(userId: string, noteId: string, blockId: string): Promise<boolean> {
+    try {
+      return await transaction(async (client) => {
+        await noteVersionsService.captureVersion(userId, noteId, 'content_blocks', client)
+
+        const result = await client.query(`
+          DELETE FROM content_blocks cb
+          USING notes n
+          WHERE cb.id = $3 AND cb.note_id = $1 AND n.id = cb.note_id AND n.user_id = $2
+        `, [noteId, userId, blockId])
+
+        return (result.rowCount || 0) > 0
+      })
+    } catch (error) {
+      console.error('Failed to delete content block:', error)
+      throw new Error('Failed to delete content block')
+    }
+  }
+
+  /**
+   * Put a note's blocks in the given order; blockIds must list every block of the note
+   * @returns The blocks in their new order
+   */
+  async reorderContentBlocks(userId: string, noteId: string, blockIds: string[]): Promise<ContentBlock[]> {
+    try {
+      await transaction(async (client) => {
+        await noteVersionsService.captureVersion(userId, noteId, 'content_blocks', client)
+
+        await client.query(`
+          UPDATE content_blocks cb
+          SET sort_order = o.position - 1
+          FROM unnest($3::uuid[]) WITH ORDINALITY AS o(id, position), notes n
+          WHERE cb.id = o.id AND cb.note_id = $1 AND n.id = cb.note_id AND n.user_id = $2
+        `, [noteId, userId, blockIds])
+      })
+
+      return await this.getContentBlocks(userId, noteId)
+    } catch (error) {
+      console.error('Failed to reorder content blocks:', error)
+      throw new Error('Failed to reorder content blocks')
+    }
+  }
+
+  /**
+   * Convert a content_blocks row to a ContentBlock
+   */
+  private toContentBlock(block: any): ContentBlock {
+    return {
+      id: block.id,
+      note_id: block.note_id,
+      type: block.type,
+      title: block.title,
+      content: typeof block.content === 'string' ? JSON.parse(block.content) : block.content,
+      icon: block.icon,
+      icon_color: block.icon_color,
+      sort_order: block.sort_order || 0,
+      updated_at: block.updated_at
+    }
+  }
 }
 
 // Export singleton instance
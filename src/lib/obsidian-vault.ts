@@ -0,0 +1,357 @@
+/**
+ * Notes as files in an Obsidian vault: one Markdown file per note with YAML front matter.
+ *
+ * Content blocks are "## Title" sections followed by an Obsidian comment naming the block type
+ * (%% mangonote: key_points %%), which reading view hides, so they come back as blocks on import.
+ * Flashcards use the Spaced Repetition plugin's syntax: Question::Answer, a "?" line between the
+ * sides of multi-line cards, ==highlights== as cloze deletions, and <!--SR:...--> scheduling comments.
+ * Files without section comments, e.g. written in Obsidian, are read as a plain note body.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import {
+  BLOCK_DEFAULTS,
+  ContentBlockType,
+  EDITABLE_BLOCK_TYPES,
+  MAX_BLOCK_ITEMS,
+  MAX_BLOCK_TEXT_LENGTH,
+  MAX_BLOCK_TITLE_LENGTH,
+  blockListKey
+} from './content-block-types'
+import { FlashcardDraft, fillCloze } from './flashcard-types'
+
+export interface VaultBlock {
+  type: ContentBlockType
+  title: string
+  content: Record<string, unknown>
+}
+
+// Spaced Repetition plugin scheduling for one card
+export interface VaultSchedule {
+  dueDate: string // YYYY-MM-DD
+  intervalDays: number
+  ease: number // SM-2 easiness factor, e.g. 2.5
+}
+
+export interface VaultCard {
+  draft: FlashcardDraft
+  // One per stored sibling, in ordinal order; empty for cards that haven't been reviewed
+  schedules: VaultSchedule[]
+}
+
+export interface VaultNote {
+  title: string
+  sourceType: string
+  url: string | null
+  tags: string[]
+  createdAt: string | null
+  markdown: string | null // The edited body, if it says more than the blocks
+  blocks: VaultBlock[]
+  cards: VaultCard[]
+}
+
+/**
+ * A file that isn't a vault we can read
+ */
+export class VaultFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VaultFormatError'
+  }
+}
+
+const SECTION_MARKER = /^%% mangonote: ([a-z_]+) %%$/
+const BODY_SECTION = 'body'
+const FLASHCARDS_SECTION = 'flashcards'
+const FLASHCARDS_TAG = 'flashcards'
+const SCHEDULE_COMMENT = /<!--SR:((?:![^!>]*)+)-->/
+
+// A fresh regex each time, since global regexes keep state between calls
+function highlightPattern(): RegExp {
+  return /==([^=\n]+?)==/g
+}
+
+function section(title: string, kind: string, body: string): string {
+  return `## ${title}\n%% mangonote: ${kind} %%\n\n${body}`
+}
+
+// Blank lines end a card in the plugin's syntax, so they are squeezed out of card text
+function squeeze(text: string): string {
+  return text.trim().replace(/\n\s*\n/g, '\n')
+}
+
+function writeCard({ draft, schedules }: VaultCard): string {
+  let text: string
+  let siblings: number
+
+  switch (draft.type || 'basic') {
+    case 'cloze':
+      // Hints and extra text have no place in the plugin's syntax
+      text = squeeze(fillCloze(draft.question, answer => `==${answer}==`))
+      siblings = (draft.question.match(/\{\{c\d+::/g) || []).length
+      break
+
+    case 'image_occlusion': {
+      // Written as a question/answer card showing the image; masks can't be expressed
+      const answer = (draft.masks || []).map(mask => mask.label).filter(Boolean).join(', ')
+      text = `${squeeze(draft.question)}\n![](${draft.image_url})\n?\n${squeeze(answer) || '-'}`
+      siblings = 0
+      break
+    }
+
+    default: {
+      const question = squeeze(draft.question)
+      const answer = squeeze(draft.answer)
+      text = !question.includes('\n') && !answer.includes('\n') && !question.includes('::')
+        ? `${question}::${answer}`
+        : `${question}\n?\n${answer}`
+      siblings = 1
+    }
+  }
+
+  if (schedules.length > 0 && schedules.length === siblings) {
+    const entries = schedules.map(schedule => `!${schedule.dueDate},${schedule.intervalDays},${Math.round(schedule.ease * 100)}`)
+    text += `\n<!--SR:${entries.join('')}-->`
+  }
+
+  return text
+}
+
+/**
+ * Write a note as the contents of a vault Markdown file
+ */
+export function writeVaultNote(note: VaultNote): string {
+  const frontMatter: Record<string, unknown> = {
+    title: note.title,
+    source_type: note.sourceType,
+    ...(note.url ? { url: note.url } : {}),
+    tags: note.tags,
+    ...(note.createdAt ? { created_at: note.createdAt } : {})
+  }
+
+  const sections: string[] = []
+  if (note.markdown && note.markdown.trim()) {
+    sections.push(section('Note', BODY_SECTION, note.markdown.trim()))
+  }
+
+  for (const block of note.blocks) {
+    const listKey = blockListKey(block.type)
+    const body = listKey
+      ? ((block.content[listKey] as string[]) || []).map(item => `- ${item.trim().replace(/\n/g, '\n  ')}`).join('\n')
+      : String(block.content.text || '').trim()
+
+    if (body) {
+      sections.push(section(block.title || BLOCK_DEFAULTS[block.type].title, block.type, body))
+    }
+  }
+
+  if (note.cards.length > 0) {
+    sections.push(section('Flashcards', FLASHCARDS_SECTION, `#${FLASHCARDS_TAG}\n\n${note.cards.map(writeCard).join('\n\n')}`))
+  }
+
+  return `---\n${stringifyYaml(frontMatter, { lineWidth: 0 }).trimEnd()}\n---\n\n${sections.join('\n\n')}\n`
+}
+
+function splitFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const match = text.match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/)
+  if (!match) return { data: {}, body: text }
+
+  try {
+    const data = parseYaml(match[1])
+    return {
+      data: data && typeof data === 'object' && !Array.isArray(data) ? data : {},
+      body: text.slice(match[0].length)
+    }
+  } catch {
+    // Obsidian shows broken properties as text too
+    return { data: {}, body: text.slice(match[0].length) }
+  }
+}
+
+function readTags(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : []
+  const tags = raw
+    .filter(tag => typeof tag === 'string' || typeof tag === 'number')
+    .map(tag => String(tag).trim().replace(/^#/, ''))
+    .filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
+function readString(value: unknown): string | null {
+  if (value instanceof Date) return value.toISOString()
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || null : null
+}
+
+/**
+ * Split a body at "## Title" headings that carry a section comment; other headings stay in their section
+ */
+function splitSections(body: string): { preamble: string; sections: Array<{ title: string; kind: string; text: string }> } {
+  const lines = body.split('\n')
+  const preamble: string[] = []
+  const sections: Array<{ title: string; kind: string; lines: string[] }> = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const heading = lines[i].match(/^## (.*)$/)
+    const marker = heading && i + 1 < lines.length ? lines[i + 1].trim().match(SECTION_MARKER) : null
+
+    if (heading && marker) {
+      sections.push({ title: heading[1].trim(), kind: marker[1], lines: [] })
+      i++
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(lines[i])
+    } else {
+      preamble.push(lines[i])
+    }
+  }
+
+  return {
+    preamble: preamble.join('\n').trim(),
+    sections: sections.map(({ title, kind, lines }) => ({ title, kind, text: lines.join('\n').trim() }))
+  }
+}
+
+function readBlock(type: ContentBlockType, title: string, text: string): VaultBlock {
+  const listKey = blockListKey(type)
+  const blockTitle = (title || BLOCK_DEFAULTS[type].title).slice(0, MAX_BLOCK_TITLE_LENGTH)
+
+  if (!listKey) {
+    return { type, title: blockTitle, content: { text: text.slice(0, MAX_BLOCK_TEXT_LENGTH) } }
+  }
+
+  const items: string[] = []
+  for (const line of text.split('\n')) {
+    const bullet = line.match(/^[-*+] (.*)$/)
+    if (bullet) {
+      items.push(bullet[1].trim())
+    } else if (line.trim() && items.length > 0 && /^\s/.test(line)) {
+      items[items.length - 1] += `\n${line.trim()}`
+    } else if (line.trim()) {
+      items.push(line.trim())
+    }
+  }
+
+  return {
+    type,
+    title: blockTitle,
+    content: { [listKey]: items.slice(0, MAX_BLOCK_ITEMS).map(item => item.slice(0, MAX_BLOCK_TEXT_LENGTH)) }
+  }
+}
+
+/**
+ * Blank-line separated paragraphs outside code fences, without headings and tag-only lines
+ */
+function cardParagraphs(text: string): string[] {
+  const paragraphs: string[] = []
+  let current: string[] = []
+  let inFence = false
+
+  const flush = () => {
+    if (current.length > 0) paragraphs.push(current.join('\n'))
+    current = []
+  }
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+      flush()
+      continue
+    }
+    if (inFence) continue
+
+    if (!line.trim()) {
+      flush()
+    } else if (!/^#{1,6} /.test(line) && !/^(#[^\s#]+\s*)+$/.test(line.trim()) && !SECTION_MARKER.test(line.trim())) {
+      current.push(line)
+    }
+  }
+  flush()
+
+  return paragraphs
+}
+
+function readSchedules(comment: string): VaultSchedule[] {
+  const schedules: VaultSchedule[] = []
+
+  for (const entry of comment.split('!').filter(Boolean)) {
+    const [dueDate, interval, ease] = entry.split(',').map(part => part.trim())
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate) || !/^\d+$/.test(interval) || !/^\d+$/.test(ease)) {
+      return []
+    }
+    schedules.push({ dueDate, intervalDays: parseInt(interval), ease: parseInt(ease) / 100 })
+  }
+
+  return schedules
+}
+
+function readCard(paragraph: string): VaultCard | null {
+  const scheduleMatch = paragraph.match(SCHEDULE_COMMENT)
+  const schedules = scheduleMatch ? readSchedules(scheduleMatch[1]) : []
+  const text = paragraph.replace(SCHEDULE_COMMENT, '').trim()
+  const lines = text.split('\n')
+
+  // Multi-line card: "?" (or "??" for reversed cards) on a line of its own
+  const separator = lines.findIndex(line => /^\?{1,2}$/.test(line.trim()))
+  if (separator > 0 && separator < lines.length - 1) {
+    return {
+      draft: { question: lines.slice(0, separator).join('\n').trim(), answer: lines.slice(separator + 1).join('\n').trim() },
+      schedules: schedules.slice(0, 1)
+    }
+  }
+
+  // Single-line card: Question::Answer, or Question:::Answer for reversed cards
+  const inline = lines.length === 1 ? text.match(/^(.+?):{2,3}(.+)$/) : null
+  if (inline) {
+    return { draft: { question: inline[1].trim(), answer: inline[2].trim() }, schedules: schedules.slice(0, 1) }
+  }
+
+  if (highlightPattern().test(text)) {
+    let ordinal = 0
+    return {
+      draft: { type: 'cloze', question: text.replace(highlightPattern(), (_match, answer: string) => `{{c${++ordinal}::${answer}}}`), answer: '' },
+      schedules
+    }
+  }
+
+  return /\{\{c\d+::/.test(text) ? { draft: { type: 'cloze', question: text, answer: '' }, schedules } : null
+}
+
+/**
+ * Read a vault Markdown file
+ * @param fallbackTitle Used when the front matter has no title, normally the file name
+ */
+export function readVaultNote(text: string, fallbackTitle: string): VaultNote {
+  const { data, body } = splitFrontMatter(text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'))
+  const tags = readTags(data.tags ?? data.tag)
+  const { preamble, sections } = splitSections(body)
+
+  let markdown: string | null
+  let blocks: VaultBlock[] = []
+  let cardText = ''
+
+  if (sections.length > 0) {
+    markdown = [preamble, ...sections.filter(({ kind }) => kind === BODY_SECTION).map(({ text }) => text)]
+      .filter(Boolean)
+      .join('\n\n') || null
+    blocks = sections
+      .filter(({ kind }) => EDITABLE_BLOCK_TYPES.includes(kind as ContentBlockType))
+      .map(({ kind, title, text }) => readBlock(kind as ContentBlockType, title, text))
+    cardText = sections.filter(({ kind }) => kind === FLASHCARDS_SECTION).map(({ text }) => text).join('\n\n')
+  } else {
+    markdown = body.trim() || null
+    // The plugin only looks for cards in notes tagged #flashcards
+    const tagged = tags.some(tag => tag === FLASHCARDS_TAG || tag.startsWith(`${FLASHCARDS_TAG}/`)) ||
+      new RegExp(`(^|\\s)#${FLASHCARDS_TAG}(/\\S*)?(\\s|$)`).test(body)
+    cardText = tagged ? body : ''
+  }
+
+  return {
+    title: readString(data.title) || fallbackTitle,
+    sourceType: readString(data.source_type) || 'import',
+    url: readString(data.url ?? data.source),
+    tags,
+    createdAt: readString(data.created_at ?? data.created),
+    markdown,
+    blocks,
+    cards: cardParagraphs(cardText).map(readCard).filter((card): card is VaultCard => card !== null)
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Markdown to PDF, laid out with pdfkit
+ *
+ * The built-in PDF fonts only cover Western European text. Set EXPORT_PDF_FONT to a
+ * TrueType/OpenType font file (e.g. Noto Sans CJK) to export notes in other scripts;
+ * it then replaces every font, so bold and italic are not distinguished.
+ */
+
+import PDFDocument from 'pdfkit'
+import type { List, RootContent, Table } from 'mdast'
+import { parseMarkdown, toPlainText, toTextRuns, TextRun } from '@/lib/markdown-ast'
+import { MindMapDrawing } from '@/lib/mindmap-drawing'
+
+export interface PdfExportOptions {
+  title: string
+  // Drawn wherever the Markdown has an image with this src
+  mindMap?: { src: string; drawing: MindMapDrawing } | null
+}
+
+const BODY_SIZE = 11
+const CODE_SIZE = 9
+const HEADING_SIZES = [20, 16, 14, 12, 12, 12]
+const LIST_INDENT = 18
+const TEXT_COLOR = '#1A1F2C'
+const MUTED_COLOR = '#4C5464'
+const LINK_COLOR = '#B8590C'
+const RULE_COLOR = '#D1D5DB'
+const CODE_BACKGROUND = '#F3F4F6'
+
+type PdfDoc = InstanceType<typeof PDFDocument>
+
+interface Layout {
+  doc: PdfDoc
+  left: number
+  width: number
+  customFont: boolean
+  mindMap: PdfExportOptions['mindMap']
+}
+
+function fontFor(layout: Layout, run: Partial<TextRun>): string {
+  if (layout.customFont) return 'body'
+  if (run.code) return 'Courier'
+  if (run.bold && run.italic) return 'Helvetica-BoldOblique'
+  if (run.bold) return 'Helvetica-Bold'
+  if (run.italic) return 'Helvetica-Oblique'
+  return 'Helvetica'
+}
+
+/**
+ * Write runs as one paragraph starting at the given indent
+ */
+function writeRuns(
+  layout: Layout,
+  runs: TextRun[],
+  indent: number,
+  options: { size?: number; color?: string; align?: 'left' | 'center' } = {}
+) {
+  const { doc } = layout
+  if (runs.length === 0) return
+
+  runs.forEach((run, index) => {
+    doc
+      .font(fontFor(layout, run))
+      .fontSize(run.code ? (options.size || BODY_SIZE) - 1 : options.size || BODY_SIZE)
+      .fillColor(run.link ? LINK_COLOR : options.color || TEXT_COLOR)
+
+    const textOptions = {
+      width: layout.width - indent,
+      continued: index < runs.length - 1,
+      link: run.link || undefined,
+      underline: !!run.link,
+      strike: !!run.strike,
+      align: options.align || 'left'
+    }
+
+    if (index === 0) {
+      doc.text(run.text, layout.left + indent, doc.y, textOptions)
+    } else {
+      doc.text(run.text, textOptions)
+    }
+  })
+}
+
+/**
+ * Start a new page unless the next `height` points fit on this one
+ */
+function ensureSpace(doc: PdfDoc, height: number) {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage()
+  }
+}
+
+function drawMindMap(layout: Layout, drawing: MindMapDrawing) {
+  const { doc } = layout
+  const maxHeight = doc.page.height - doc.page.margins.top - doc.page.margins.bottom
+  const scale = Math.min(1, layout.width / drawing.width, maxHeight / drawing.height)
+
+  ensureSpace(doc, drawing.height * scale)
+  const originX = layout.left + (layout.width - drawing.width * scale) / 2
+  const originY = doc.y
+
+  for (const line of drawing.lines) {
+    doc
+      .moveTo(originX + line.x1 * scale, originY + line.y1 * scale)
+      .lineTo(originX + line.x2 * scale, originY + line.y2 * scale)
+      .lineWidth(1.5 * scale)
+      .strokeColor(line.color)
+      .stroke()
+  }
+
+  for (const box of drawing.boxes) {
+    const x = originX + box.x * scale
+    const y = originY + box.y * scale
+    const width = box.width * scale
+    const height = box.height * scale
+    const fontSize = Math.max(5, box.fontSize * scale)
+
+    doc
+      .roundedRect(x, y, width, height, 8 * scale)
+      .lineWidth(1.5 * scale)
+      .fillAndStroke(box.fill, box.stroke)
+
+    doc.font(fontFor(layout, { bold: box.bold })).fontSize(fontSize).fillColor(TEXT_COLOR)
+    const textHeight = Math.min(height, doc.heightOfString(box.label, { width: width - 8, align: 'center' }))
+    // A fixed height keeps labels inside their box instead of flowing onto a new page
+    doc.text(box.label, x + 4, y + (height - textHeight) / 2, {
+      width: width - 8,
+      height,
+      align: 'center',
+      ellipsis: true
+    })
+  }
+
+  doc.x = layout.left
+  doc.y = originY + drawing.height * scale
+  doc.moveDown(0.5)
+}
+
+function drawTable(layout: Layout, table: Table, indent: number) {
+  const { doc } = layout
+  const columns = Math.max(...table.children.map(row => row.children.length))
+  if (columns === 0) return
+
+  const tableWidth = layout.width - indent
+  const columnWidth = tableWidth / columns
+  const padding = 4
+
+  table.children.forEach((row, rowIndex) => {
+    const header = rowIndex === 0
+    const cells = Array.from({ length: columns }, (_, column) =>
+      row.children[column] ? toPlainText(row.children[column].children) : ''
+    )
+
+    doc.font(fontFor(layout, { bold: header })).fontSize(BODY_SIZE - 1)
+    const rowHeight = Math.max(
+      ...cells.map(cell => doc.heightOfString(cell || ' ', { width: columnWidth - padding * 2 }))
+    ) + padding * 2
+
+    ensureSpace(doc, rowHeight)
+    const y = doc.y
+
+    cells.forEach((cell, column) => {
+      const x = layout.left + indent + column * columnWidth
+      if (header) {
+        doc.rect(x, y, columnWidth, rowHeight).fillAndStroke(CODE_BACKGROUND, RULE_COLOR)
+      } else {
+        doc.rect(x, y, columnWidth, rowHeight).lineWidth(0.5).strokeColor(RULE_COLOR).stroke()
+      }
+      doc.fillColor(TEXT_COLOR).text(cell, x + padding, y + padding, { width: columnWidth - padding * 2 })
+    })
+
+    doc.x = layout.left
+    doc.y = y + rowHeight
+  })
+
+  doc.moveDown(0.5)
+}
+
+function drawList(layout: Layout, list: List, indent: number) {
+  list.children.forEach((item, index) => {
+    const marker = item.checked === true || item.checked === false
+      ? (item.checked ? '[x] ' : '[ ] ')
+      : list.ordered ? `${(list.start ?? 1) + index}. ` : '• '
+
+    item.children.forEach((child, childIndex) => {
+      if (childIndex === 0 && child.type === 'paragraph') {
+        writeRuns(layout, [{ text: marker }, ...toTextRuns(child.children)], indent)
+        layout.doc.moveDown(0.2)
+      } else {
+        drawBlock(layout, child, indent + LIST_INDENT)
+      }
+    })
+  })
+
+  layout.doc.moveDown(0.3)
+}
+
+function drawBlock(layout: Layout, node: RootContent, indent: number) {
+  const { doc } = layout
+
+  switch (node.type) {
+    case 'heading': {
+      const size = HEADING_SIZES[node.depth - 1]
+      ensureSpace(doc, size * 3)
+      doc.moveDown(0.4)
+      writeRuns(layout, toTextRuns(node.children, { bold: true }), indent, { size })
+      doc.moveDown(0.3)
+      break
+    }
+
+    case 'paragraph': {
+      const image = node.children.length === 1 && node.children[0].type === 'image' ? node.children[0] : null
+      if (image && layout.mindMap && image.url === layout.mindMap.src) {
+        drawMindMap(layout, layout.mindMap.drawing)
+        break
+      }
+      writeRuns(layout, toTextRuns(node.children), indent)
+      doc.moveDown(0.5)
+      break
+    }
+
+    case 'list':
+      drawList(layout, node, indent)
+      break
+
+    case 'blockquote':
+      node.children.forEach(child => {
+        if (child.type === 'paragraph') {
+          writeRuns(layout, toTextRuns(child.children, { italic: true }), indent + LIST_INDENT, { color: MUTED_COLOR })
+          doc.moveDown(0.3)
+        } else {
+          drawBlock(layout, child, indent + LIST_INDENT)
+        }
+      })
+      break
+
+    case 'code':
+    case 'math': {
+      doc.font(fontFor(layout, { code: true })).fontSize(CODE_SIZE)
+      const boxWidth = layout.width - indent
+      const textHeight = doc.heightOfString(node.value || ' ', { width: boxWidth - 16 })
+      const pageHeight = doc.page.height - doc.page.margins.top - doc.page.margins.bottom
+
+      // Blocks longer than a page flow across pages without a background
+      if (textHeight + 16 < pageHeight) {
+        ensureSpace(doc, textHeight + 16)
+        doc.rect(layout.left + indent, doc.y, boxWidth, textHeight + 16).fill(CODE_BACKGROUND)
+      }
+      doc.fillColor(TEXT_COLOR).text(node.value || ' ', layout.left + indent + 8, doc.y + 8, {
+        width: boxWidth - 16,
+        align: node.type === 'math' ? 'center' : 'left'
+      })
+      doc.x = layout.left
+      doc.moveDown(1)
+      break
+    }
+
+    case 'table':
+      drawTable(layout, node, indent)
+      break
+
+    case 'thematicBreak':
+      ensureSpace(doc, 12)
+      doc
+        .moveTo(layout.left + indent, doc.y + 4)
+        .lineTo(layout.left + layout.width, doc.y + 4)
+        .lineWidth(0.5)
+        .strokeColor(RULE_COLOR)
+        .stroke()
+      doc.moveDown(1)
+      break
+  }
+}
+
+/**
+ * Render a Markdown document to a PDF file
+ */
+export function markdownToPdf(markdown: string, options: PdfExportOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 56, info: { Title: options.title } })
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    try {
+      const fontPath = process.env.EXPORT_PDF_FONT
+      if (fontPath) {
+        doc.registerFont('body', fontPath)
+      }
+
+      const layout: Layout = {
+        doc,
+        left: doc.page.margins.left,
+        width: doc.page.width - doc.page.margins.left - doc.page.margins.right,
+        customFont: !!fontPath,
+        mindMap: options.mindMap
+      }
+
+      for (const node of parseMarkdown(markdown).children) {
+        drawBlock(layout, node, 0)
+      }
+
+      doc.end()
+    } catch (error) {
+      reject(error)
+    }
+  })
+}
@@ -0,0 +1,141 @@
+/**
+ * Client-side Quiz Service
+ * Uses API routes instead of direct database access to avoid build issues
+ */
+
+// Mirror the types in quiz-service, which is server-only
+export interface QuizQuestionPrompt {
+  id: string
+  question: string
+  options: string[]
+  sort_order: number
+}
+
+export interface QuizSummary {
+  id: string
+  note_id: string
+  title: string
+  total_questions: number
+  created_at: string
+  attempts: number
+  best_score: number | null
+  last_attempt_at: string | null
+}
+
+export interface QuizWithQuestions {
+  id: string
+  note_id: string
+  title: string
+  total_questions: number
+  created_at: string
+  questions: QuizQuestionPrompt[]
+}
+
+export interface QuizQuestionResult {
+  question_id: string
+  user_answer_index: number | null
+  correct_answer_index: number
+  is_correct: boolean
+  explanation: string | null
+}
+
+export interface QuizAttemptResult {
+  session_id: string
+  quiz_id: string
+  score: number
+  total_questions: number
+  completed_at: string
+  results: QuizQuestionResult[]
+}
+
+export class QuizClientService {
+  /**
+   * Get the quizzes generated for a note
+   */
+  async getQuizzesForNote(noteId: string): Promise<QuizSummary[]> {
+    try {
+      const url = new URL('/api/quizzes', window.location.origin)
+      url.searchParams.append('noteId', noteId)
+
+      const response = await fetch(url.toString())
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data
+      } else {
+        throw new Error(result.error || 'Failed to load quizzes')
+      }
+    } catch (error) {
+      console.error('Failed to fetch quizzes:', error)
+      return []
+    }
+  }
+
+  /**
+   * Generate a new quiz from a note's content
+   */
+  async generateQuiz(noteId: string, questionCount: number): Promise<QuizWithQuestions> {
+    const response = await fetch('/api/quizzes', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        note_id: noteId,
+        question_count: questionCount
+      }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to generate quiz')
+    }
+    return result.data
+  }
+
+  /**
+   * Get a quiz's questions for taking it
+   */
+  async getQuiz(quizId: string): Promise<QuizWithQuestions | null> {
+    try {
+      const response = await fetch(`/api/quizzes/${quizId}`)
+      const result = await response.json()
+
+      if (result.success) {
+        return result.data
+      } else {
+        throw new Error(result.error || 'Failed to load quiz')
+      }
+    } catch (error) {
+      console.error('Failed to fetch quiz:', error)
+      return null
+    }
+  }
+
+  /**
+   * Submit answers (question id -> chosen option index) and get the scored attempt
+   */
+  async submitAttempt(quizId: string, answers: Record<string, number>, startedAt: Date): Promise<QuizAttemptResult | null> {
+    try {
+      const response = await fetch(`/api/quizzes/${quizId}/submit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          answers: Object.keys(answers).map(questionId => ({
+            question_id: questionId,
+            answer_index: answers[questionId]
+          })),
+          started_at: startedAt.toISOString()
+        }),
+      })
+
+      const result = await response.json()
+      return result.success ? result.data : null
+    } catch (error) {
+      console.error('Failed to submit quiz attempt:', error)
+      return null
+    }
+  }
+}
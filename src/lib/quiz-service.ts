@@ -0,0 +1,209 @@
+import { queryOne, queryMany, transaction } from '@/lib/database'
+import type { QuizQuestion } from '@/lib/ai-service'
+
+export interface Quiz {
+  id: string
+  note_id: string
+  user_id: string
+  title: string
+  total_questions: number
+  created_at: string
+}
+
+// A question as shown while the quiz is being taken; answers stay on the server until submission
+export interface QuizQuestionPrompt {
+  id: string
+  question: string
+  options: string[]
+  sort_order: number
+}
+
+export interface QuizWithQuestions extends Quiz {
+  questions: QuizQuestionPrompt[]
+}
+
+export interface QuizSummary extends Quiz {
+  attempts: number
+  best_score: number | null
+  last_attempt_at: string | null
+}
+
+export interface QuizAnswerInput {
+  question_id: string
+  answer_index: number
+}
+
+export interface QuizQuestionResult {
+  question_id: string
+  user_answer_index: number | null // null when the question was skipped
+  correct_answer_index: number
+  is_correct: boolean
+  explanation: string | null
+}
+
+export interface QuizAttemptResult {
+  session_id: string
+  quiz_id: string
+  score: number
+  total_questions: number
+  completed_at: string
+  results: QuizQuestionResult[]
+}
+
+export class QuizService {
+  /**
+   * Save a generated quiz and its questions for a note
+   */
+  async createQuiz(userId: string, noteId: string, title: string, questions: QuizQuestion[]): Promise<QuizWithQuestions> {
+    try {
+      return await transaction(async (client) => {
+        const quizResult = await client.query(`
+          INSERT INTO quizzes (note_id, user_id, title, total_questions)
+          VALUES ($1, $2, $3, $4)
+          RETURNING *
+        `, [noteId, userId, title, questions.length])
+        const quiz: Quiz = quizResult.rows[0]
+
+        const saved: QuizQuestionPrompt[] = []
+        for (let i = 0; i < questions.length; i++) {
+          const questionResult = await client.query(`
+            INSERT INTO quiz_questions (quiz_id, question, options, correct_answer_index, explanation, sort_order)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING id, question, options, sort_order
+          `, [
+            quiz.id,
+            questions[i].question,
+            JSON.stringify(questions[i].options),
+            questions[i].correct_answer_index,
+            questions[i].explanation,
+            i
+          ])
+          saved.push(questionResult.rows[0])
+        }
+
+        return { ...quiz, questions: saved }
+      })
+    } catch (error) {
+      console.error('Failed to create quiz:', error)
+      throw new Error('Failed to create quiz')
+    }
+  }
+
+  /**
+   * Get a note's quizzes, newest first, with the user's attempt history
+   */
+  async getQuizzesForNote(userId: string, noteId: string): Promise<QuizSummary[]> {
+    try {
+      return await queryMany(`
+        SELECT
+          q.*,
+          COUNT(s.id)::int AS attempts,
+          MAX(s.score) AS best_score,
+          MAX(s.completed_at) AS last_attempt_at
+        FROM quizzes q
+        LEFT JOIN study_sessions s
+          ON s.content_type = 'quiz' AND s.content_id = q.id AND s.user_id = q.user_id AND s.completed_at IS NOT NULL
+        WHERE q.note_id = $1 AND q.user_id = $2
+        GROUP BY q.id
+        ORDER BY q.created_at DESC
+      `, [noteId, userId])
+    } catch (error) {
+      console.error('Failed to fetch quizzes:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get a quiz with its questions, without the answers
+   */
+  async getQuiz(userId: string, quizId: string): Promise<QuizWithQuestions | null> {
+    try {
+      const quiz = await queryOne(`
+        SELECT * FROM quizzes WHERE id = $1 AND user_id = $2
+      `, [quizId, userId])
+      if (!quiz) return null
+
+      const questions = await queryMany(`
+        SELECT id, question, options, sort_order
+        FROM quiz_questions
+        WHERE quiz_id = $1
+        ORDER BY sort_order ASC
+      `, [quizId])
+
+      return { ...quiz, questions }
+    } catch (error) {
+      console.error('Failed to fetch quiz:', error)
+      return null
+    }
+  }
+
+  /**
+   * Score an attempt and record it as a completed quiz study session with one answer row per answered question
+   * @returns The score with each question's correct answer and explanation, or null if the quiz doesn't exist
+   */
+  async submitAttempt(
+    userId: string,
+    quizId: string,
+    answers: QuizAnswerInput[],
+    startedAt?: Date
+  ): Promise<QuizAttemptResult | null> {
+    try {
+      const quiz = await queryOne(`
+        SELECT id FROM quizzes WHERE id = $1 AND user_id = $2
+      `, [quizId, userId])
+      if (!quiz) return null
+
+      const questions = await queryMany(`
+        SELECT id, correct_answer_index, explanation
+        FROM quiz_questions
+        WHERE quiz_id = $1
+        ORDER BY sort_order ASC
+      `, [quizId])
+
+      const answerByQuestion = new Map(answers.map(answer => [answer.question_id, answer.answer_index]))
+      const results: QuizQuestionResult[] = questions.map((question: any) => {
+        const userAnswer = answerByQuestion.has(question.id) ? answerByQuestion.get(question.id)! : null
+        return {
+          question_id: question.id,
+          user_answer_index: userAnswer,
+          correct_answer_index: question.correct_answer_index,
+          is_correct: userAnswer === question.correct_answer_index,
+          explanation: question.explanation
+        }
+      })
+      const score = results.filter(result => result.is_correct).length
+
+      return await transaction(async (client) => {
+        const sessionResult = await client.query(`
+          INSERT INTO study_sessions (user_id, content_type, content_id, score, total_questions, started_at, completed_at)
+          VALUES ($1, 'quiz', $2, $3, $4, COALESCE($5, NOW()), NOW())
+          RETURNING id, completed_at
+        `, [userId, quizId, score, results.length, startedAt || null])
+        const session = sessionResult.rows[0]
+
+        for (const result of results) {
+          if (result.user_answer_index === null) continue
+          await client.query(`
+            INSERT INTO quiz_answers (study_session_id, quiz_question_id, user_answer_index, is_correct)
+            VALUES ($1, $2, $3, $4)
+          `, [session.id, result.question_id, result.user_answer_index, result.is_correct])
+        }
+
+        return {
+          session_id: session.id,
+          quiz_id: quizId,
+          score,
+          total_questions: results.length,
+          completed_at: new Date(session.completed_at).toISOString(),
+          results
+        }
+      })
+    } catch (error) {
+      console.error('Failed to submit quiz attempt:', error)
+      throw new Error('Failed to submit quiz attempt')
+    }
+  }
+}
+
+// Export singleton instance
+export const quizService = new QuizService();
@@ -0,0 +1,260 @@
+import { queryMany } from '@/lib/database'
+
+export type SearchResultType = 'note' | 'content_block' | 'flashcard'
+
+export interface SearchResult {
+  type: SearchResultType
+  id: string
+  note_id: string
+  note_title: string
+  title: string
+  snippet: string // HTML-escaped, matches wrapped in <mark>
+  rank: number
+}
+
+export interface SearchOptions {
+  locale?: string
+  limit?: number
+  types?: SearchResultType[]
+}
+
+export interface SearchResponse {
+  mode: 'fulltext' | 'trigram'
+  results: SearchResult[]
+}
+
+// Postgres' text search parsers don't segment CJK text, so these queries use trigram matching instead
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/
+
+// ts_headline markers; swapped for <mark> after the snippet has been escaped
+const MARK_START = '⟦'
+const MARK_END = '⟧'
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`
+
+const SNIPPET_RADIUS = 80
+
+// Plain text of a content block: every string value in its JSON content
+const CONTENT_BLOCK_TEXT = `
+  COALESCE((
+    SELECT string_agg(v #>> '{}', ' ')
+    FROM jsonb_path_query(cb.content, 'strict $.** ? (@.type() == "string")') AS v
+  ), '')
+`
+
+const ALL_TYPES: SearchResultType[] = ['note', 'content_block', 'flashcard']
+
+export class SearchService {
+  /**
+   * Search the user's notes, content blocks and flashcards, best matches first
+   */
+  async search(userId: string, searchQuery: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const trimmed = searchQuery.trim()
+    const limit = options.limit || 20
+    const types = options.types?.length ? options.types : ALL_TYPES
+
+    if (!trimmed) {
+      return { mode: 'fulltext', results: [] }
+    }
+
+    try {
+      if (options.locale !== 'zh' && !CJK_PATTERN.test(trimmed)) {
+        const results = await this.fullTextSearch(userId, trimmed, limit, types)
+        if (results.length > 0) {
+          return { mode: 'fulltext', results }
+        }
+        // Nothing matched whole words; partial words may still match by substring
+      }
+
+      const results = await this.trigramSearch(userId, trimmed, limit, types)
+      return { mode: 'trigram', results }
+    } catch (error) {
+      console.error('Failed to search notes:', error)
+      return { mode: 'fulltext', results: [] }
+    }
+  }
+
+  /**
+   * Ranked tsvector search with ts_headline snippets
+   */
+  private async fullTextSearch(
+    userId: string,
+    searchQuery: string,
+    limit: number,
+    types: SearchResultType[]
+  ): Promise<SearchResult[]> {
+    const branches: string[] = []
+
+    if (types.includes('note')) {
+      branches.push(`
+        SELECT 'note' AS type, n.id, n.id AS note_id, n.title AS note_title, n.title,
+          COALESCE(n.transcription, n.markdown, n.title) AS body,
+          ts_rank(n.search_vector, q.query) AS rank
+        FROM notes n, q
+        WHERE n.user_id = $1 AND n.content_status = 'completed'
+        AND n.search_vector @@ q.query
+      `)
+    }
+
+    if (types.includes('content_block')) {
+      branches.push(`
+        SELECT 'content_block' AS type, cb.id, n.id AS note_id, n.title AS note_title, cb.title,
+          ${CONTENT_BLOCK_TEXT} AS body,
+          ts_rank(cb.search_vector, q.query) AS rank
+        FROM content_blocks cb
+        JOIN notes n ON cb.note_id = n.id, q
+        WHERE n.user_id = $1 AND n.content_status = 'completed'
+        AND cb.search_vector @@ q.query
+      `)
+    }
+
+    if (types.includes('flashcard')) {
+      branches.push(`
+        SELECT 'flashcard' AS type, f.id, n.id AS note_id, n.title AS note_title, f.question AS title,
+          f.question || ' — ' || f.answer AS body,
+          ts_rank(f.search_vector, q.query) AS rank
+        FROM flashcards f
+        JOIN notes n ON f.note_id = n.id, q
+        WHERE f.user_id = $1
+        AND f.search_vector @@ q.query
+      `)
+    }
+
+    // Headlines are expensive, so they are only built for the rows we return
+    const rows = await queryMany(`
+      WITH q AS (SELECT websearch_to_tsquery('simple', $2) AS query),
+      matches AS (
+        ${branches.join(' UNION ALL ')}
+      )
+      SELECT
+        m.type, m.id, m.note_id, m.note_title, m.title, m.rank,
+        ts_headline('simple', m.body, q.query, $4) AS snippet
+      FROM (
+        SELECT * FROM matches
+        ORDER BY rank DESC
+        LIMIT $3
+      ) m, q
+      ORDER BY m.rank DESC
+    `, [userId, searchQuery, limit, HEADLINE_OPTIONS])
+
+    return rows.map(row => ({
+      type: row.type,
+      id: row.id,
+      note_id: row.note_id,
+      note_title: row.note_title,
+      title: row.title,
+      snippet: this.renderMarkers(row.snippet || ''),
+      rank: parseFloat(row.rank)
+    }))
+  }
+
+  /**
+   * Substring search backed by pg_trgm indexes, for text the tsvector parser can't split into words
+   */
+  private async trigramSearch(
+    userId: string,
+    searchQuery: string,
+    limit: number,
+    types: SearchResultType[]
+  ): Promise<SearchResult[]> {
+    const pattern = `%${searchQuery.replace(/[\\%_]/g, '\\$&')}%`
+    const branches: string[] = []
+
+    if (types.includes('note')) {
+      branches.push(`
+        SELECT 'note' AS type, n.id, n.id AS note_id, n.title AS note_title, n.title,
+          COALESCE(n.transcription, n.markdown, n.title) AS body,
+          GREATEST(
+            word_similarity($3, n.title),
+            0.8 * word_similarity($3, COALESCE(n.transcription, ''))
+          ) AS rank
+        FROM notes n
+        WHERE n.user_id = $1 AND n.content_status = 'completed'
+        AND (n.title ILIKE $2 OR n.transcription ILIKE $2)
+      `)
+    }
+
+    if (types.includes('content_block')) {
+      branches.push(`
+        SELECT 'content_block' AS type, cb.id, n.id AS note_id, n.title AS note_title, cb.title,
+          ${CONTENT_BLOCK_TEXT} AS body,
+          0.6 * word_similarity($3, cb.content::text) AS rank
+        FROM content_blocks cb
+        JOIN notes n ON cb.note_id = n.id
+        WHERE n.user_id = $1 AND n.content_status = 'completed'
+        AND (cb.title ILIKE $2 OR cb.content::text ILIKE $2)
+      `)
+    }
+
+    if (types.includes('flashcard')) {
+      branches.push(`
+        SELECT 'flashcard' AS type, f.id, n.id AS note_id, n.title AS note_title, f.question AS title,
+          f.question || ' — ' || f.answer AS body,
+          GREATEST(
+            word_similarity($3, f.question),
+            0.8 * word_similarity($3, f.answer)
+          ) AS rank
+        FROM flashcards f
+        JOIN notes n ON f.note_id = n.id
+        WHERE f.user_id = $1
+        AND (f.question ILIKE $2 OR f.answer ILIKE $2)
+      `)
+    }
+
+    const rows = await queryMany(`
+      SELECT * FROM (
+        ${branches.join(' UNION ALL ')}
+      ) matches
+      ORDER BY rank DESC
+      LIMIT $4
+    `, [userId, pattern, searchQuery, limit])
+
+    return rows.map(row => ({
+      type: row.type,
+      id: row.id,
+      note_id: row.note_id,
+      note_title: row.note_title,
+      title: row.title,
+      snippet: this.highlightSubstring(row.body || '', searchQuery),
+      rank: parseFloat(row.rank)
+    }))
+  }
+
+  /**
+   * Cut a window around the first match and wrap every occurrence in <mark>
+   */
+  private highlightSubstring(text: string, searchQuery: string): string {
+    const matchIndex = text.toLowerCase().indexOf(searchQuery.toLowerCase())
+    const start = Math.max(0, matchIndex - SNIPPET_RADIUS)
+    const end = matchIndex === -1
+      ? SNIPPET_RADIUS * 2
+      : matchIndex + searchQuery.length + SNIPPET_RADIUS
+
+    let snippet = text.slice(start, end)
+    if (start > 0) snippet = '…' + snippet
+    if (end < text.length) snippet = snippet + '…'
+
+    const escapedQuery = searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const marked = snippet.replace(
+      new RegExp(escapedQuery, 'gi'),
+      match => `${MARK_START}${match}${MARK_END}`
+    )
+
+    return this.renderMarkers(marked)
+  }
+
+  /**
+   * Escape the snippet for HTML, then turn the highlight markers into <mark> tags
+   */
+  private renderMarkers(snippet: string): string {
+    return snippet
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(new RegExp(MARK_START, 'g'), '<mark>')
+      .replace(new RegExp(MARK_END, 'g'), '</mark>')
+  }
+}
+
+// Export singleton instance
+export const searchService = new SearchService();
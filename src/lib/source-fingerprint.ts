@@ -0,0 +1,94 @@
+/**
+ * Source fingerprints for spotting repeat imports
+ * A note stores the fingerprint of what it was imported from, so uploading the same
+ * file or video again can offer a copy of the existing note instead of reprocessing it.
+ */
+
+import { createHash } from 'crypto'
+import { notesService, Note } from '@/lib/notes-service'
+
+// 'clone' copies the existing note; 'reprocess' imports again anyway
+export type DuplicateAction = 'clone' | 'reprocess'
+
+export type DuplicateResolution =
+  | { status: 'new' }
+  | { status: 'duplicate'; existingNote: Note }
+  | { status: 'cloned'; note: Note; sourceNoteId: string }
+
+/**
+ * SHA-256 of an uploaded file's bytes
+ */
+export async function fileFingerprint(file: File): Promise<string> {
+  const bytes = Buffer.from(await file.arrayBuffer())
+  return createHash('sha256').update(bytes).digest('hex')
+}
+
+export function youtubeFingerprint(videoId: string): string {
+  return `youtube:${videoId}`
+}
+
+/**
+ * SHA-256 of pasted or uploaded text, ignoring line-ending and surrounding whitespace differences
+ */
+export function textFingerprint(text: string): string {
+  const normalized = text.replace(/\r\n?/g, '\n').trim()
+  return `text:${createHash('sha256').update(normalized).digest('hex')}`
+}
+
+/**
+ * Web pages are matched on their address without the fragment, so #section links count as the same article
+ */
+export function webFingerprint(url: URL): string {
+  return `web:${url.origin}${url.pathname}${url.search}`
+}
+
+export function parseDuplicateAction(value: unknown): DuplicateAction | null {
+  return value === 'clone' || value === 'reprocess' ? value : null
+}
+
+/**
+ * Decide what to do when the user imports a source they have imported before.
+ * Without an explicit action the caller should ask the user to choose.
+ */
+export async function resolveDuplicateSource(
+  userId: string,
+  fingerprint: string,
+  action: DuplicateAction | null,
+  folderId?: string | null
+): Promise<DuplicateResolution> {
+  if (action === 'reprocess') {
+    return { status: 'new' }
+  }
+
+  const existingNote = await notesService.findNoteBySourceHash(userId, fingerprint)
+  if (!existingNote) {
+    return { status: 'new' }
+  }
+
+  if (action === 'clone') {
+    const note = await notesService.cloneNote(userId, existingNote.id, folderId)
+    if (note) {
+      return { status: 'cloned', note, sourceNoteId: existingNote.id }
+    }
+  }
+
+  return { status: 'duplicate', existingNote }
+}
+
+/**
+ * Response body telling the client an earlier note exists for this source
+ */
+export function duplicateSourceBody(existingNote: Note) {
+  return {
+    success: false,
+    error: 'You have already imported this source',
+    code: 'DUPLICATE_SOURCE',
+    data: {
+      existing_note: {
+        id: existingNote.id,
+        title: existingNote.title,
+        created_at: existingNote.created_at
+      }
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SM2Scheduler,
+  SpacedRepetitionEngine,
+  SpacedRepetitionData,
+  ReviewGrade,
+  ReviewOptions,
+  ReviewHistoryEntry
+} from '@/lib/spaced-repetition-engine'
+
+const engine = new SpacedRepetitionEngine()
+const START = new Date('2026-01-12T09:00:00Z')
+const MINUTE_MS = 60 * 1000
+const DAY_MINUTES = 24 * 60
+
+function minutesBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / MINUTE_MS
+}
+
+/**
+ * Answer a card with each grade in turn, each one right when the card comes due
+ */
+function answer(card: SpacedRepetitionData, grades: ReviewGrade[], options: ReviewOptions = {}): SpacedRepetitionData {
+  return grades.reduce(
+    (data, grade) => engine.processReview(data, engine.gradeToQuality(grade), { ...options, reviewedAt: data.nextReviewDate }),
+    card
+  )
+}
+
+function newCard(): SpacedRepetitionData {
+  return { ...engine.initializeFlashcard('card-1', 'user-1'), nextReviewDate: START }
+}
+
+describe('SM2Scheduler', () => {
+  const sm2 = new SM2Scheduler()
+  const reviewCard: SpacedRepetitionData = { ...newCard(), state: 'review', isNew: false, repetitions: 2, interval: 6 }
+
+  it.each([
+    ['hard', 1, 2, 7, 2.36],
+    ['good', 1, 6, 15, 2.5],
+    ['easy', 4, 8, 20, 2.6]
+  ] as const)('schedules %s at 1st, 2nd and later reviews', (grade, first, second, later, easinessFactor) => {
+    const quality = engine.gradeToQuality(grade)
+
+    expect(sm2.processReview(newCard(), quality, START).interval).toBe(first)
+    expect(sm2.processReview({ ...reviewCard, repetitions: 1, interval: 1 }, quality, START).interval).toBe(second)
+
+    const reviewed = sm2.processReview(reviewCard, quality, START)
+    expect(reviewed.interval).toBe(later)
+    expect(reviewed.easinessFactor).toBeCloseTo(easinessFactor, 10)
+    expect(minutesBetween(START, reviewed.nextReviewDate)).toBe(later * DAY_MINUTES)
+  })
+
+  it('starts over after Again', () => {
+    const reviewed = sm2.processReview(reviewCard, engine.gradeToQuality('again'), START)
+    expect(reviewed).toMatchObject({ repetitions: 0, interval: 1 })
+    expect(reviewed.easinessFactor).toBeCloseTo(1.96, 10)
+  })
+})
+
+describe('learning steps', () => {
+  it('walks a new card through its learning steps before it graduates', () => {
+    const first = engine.processReview(newCard(), engine.gradeToQuality('good'), { reviewedAt: START })
+    expect(first).toMatchObject({ state: 'learning', learningStep: 1, isNew: false, repetitions: 0 })
+    expect(minutesBetween(START, first.nextReviewDate)).toBe(10)
+
+    const graduated = answer(first, ['good'])
+    expect(graduated).toMatchObject({ state: 'review', learningStep: null, repetitions: 1, interval: 1 })
+    expect(minutesBetween(first.nextReviewDate, graduated.nextReviewDate)).toBe(DAY_MINUTES)
+  })
+
+  it('restarts the steps on Again and repeats the step on Hard', () => {
+    const failed = answer(answer(newCard(), ['good']), ['again'])
+    expect(failed).toMatchObject({ state: 'learning', learningStep: 0 })
+
+    const hard = engine.processReview(failed, engine.gradeToQuality('hard'), { reviewedAt: failed.nextReviewDate })
+    expect(hard.learningStep).toBe(0)
+    // Halfway between the 1 and 10 minute steps
+    expect(minutesBetween(failed.nextReviewDate, hard.nextReviewDate)).toBe(6)
+  })
+
+  it('graduates at once on Easy', () => {
+    const easy = engine.processReview(newCard(), engine.gradeToQuality('easy'), { reviewedAt: START })
+    expect(easy).toMatchObject({ state: 'review', learningStep: null, interval: 4 })
+  })
+
+  it('sends a lapsed card through relearning and back to review', () => {
+    const review = answer(newCard(), ['good', 'good', 'good'])
+    expect(review).toMatchObject({ state: 'review', repetitions: 2, interval: 6 })
+
+    const lapsed = answer(review, ['again'])
+    expect(lapsed).toMatchObject({ state: 'relearning', learningStep: 0, repetitions: 0, interval: 1 })
+    expect(lapsed.easinessFactor).toBeLessThan(review.easinessFactor)
+    expect(minutesBetween(review.nextReviewDate, lapsed.nextReviewDate)).toBe(10)
+
+    const relearned = answer(lapsed, ['good'])
+    expect(relearned).toMatchObject({ state: 'review', learningStep: null, interval: 1 })
+    expect(minutesBetween(lapsed.nextReviewDate, relearned.nextReviewDate)).toBe(DAY_MINUTES)
+  })
+
+  it('schedules custom steps in minutes', () => {
+    const learningSteps = { learning: [5, 30, 120], relearning: [15, 60] }
+
+    const steps = [newCard()]
+    for (let i = 0; i < 3; i++) {
+      steps.push(answer(steps[i], ['good'], { learningSteps }))
+    }
+
+    expect(steps.slice(1).map(card => card.learningStep)).toEqual([1, 2, null])
+    expect(minutesBetween(steps[0].nextReviewDate, steps[1].nextReviewDate)).toBe(30)
+    expect(minutesBetween(steps[1].nextReviewDate, steps[2].nextReviewDate)).toBe(120)
+    expect(steps[3].state).toBe('review')
+
+    const lapsed = answer(steps[3], ['again'], { learningSteps })
+    expect(minutesBetween(steps[3].nextReviewDate, lapsed.nextReviewDate)).toBe(15)
+    expect(answer(lapsed, ['good'], { learningSteps })).toMatchObject({ state: 'relearning', learningStep: 1 })
+  })
+})
+
+describe('previewIntervals', () => {
+  it('shows minutes for a new card under the default steps', () => {
+    expect(engine.previewIntervals(newCard(), {}, START)).toEqual({
+      again: 1,
+      hard: 6,
+      good: 10,
+      easy: 4 * DAY_MINUTES
+    })
+  })
+
+  it('follows the given steps', () => {
+    const learningSteps = { learning: [5, 30, 120], relearning: [15] }
+    expect(engine.previewIntervals(newCard(), { learningSteps }, START)).toEqual({
+      again: 5,
+      hard: 18,
+      good: 30,
+      easy: 4 * DAY_MINUTES
+    })
+  })
+
+  it('shows the relearning step for Again on a card in review', () => {
+    const review = answer(newCard(), ['good', 'good', 'good'])
+    const previews = engine.previewIntervals(review, {}, review.nextReviewDate)
+
+    expect(previews.again).toBe(10)
+    expect(previews.hard).toBe(7 * DAY_MINUTES)
+    expect(previews.good).toBe(15 * DAY_MINUTES)
+    expect(previews.easy).toBe(20 * DAY_MINUTES)
+  })
+})
+
+describe('replayReviews', () => {
+  it('rebuilds the same state as answering live, whatever order the history comes in', () => {
+    const grades: ReviewGrade[] = ['good', 'good', 'good', 'again', 'hard', 'good']
+    const history: ReviewHistoryEntry[] = []
+    const live = grades.reduce((data, grade) => {
+      history.push({ quality: engine.gradeToQuality(grade), reviewedAt: data.nextReviewDate })
+      return answer(data, [grade])
+    }, newCard())
+
+    const replayed = engine.replayReviews('card-1', 'user-1', [...history].reverse())
+    expect(replayed).toEqual(live)
+  })
+
+  it('leaves a card without history new', () => {
+    const replayed = engine.replayReviews('card-1', 'user-1', [])
+    expect(replayed).toMatchObject({ state: 'new', isNew: true, repetitions: 0 })
+  })
+})
@@ -1,8 +1,58 @@
 /**
- * SM-2 Spaced Repetition Algorithm Implementation
- * Based on SuperMemo-2 algorithm for optimal learning intervals
+ * Spaced Repetition Engine
+ * Card scheduling is pluggable: SM-2 (SuperMemo-2) or FSRS, chosen per user
  */
 
+import { FSRSScheduler } from './fsrs-scheduler'
+
+export type SchedulerName = 'sm2' | 'fsrs'
+export const SCHEDULER_NAMES: SchedulerName[] = ['sm2', 'fsrs']
+
+// The four buttons shown after revealing an answer
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+// Grades for the old two-button difficulty field: Hard was scored as a lapse, Easy as a correct answer
+export const LEGACY_DIFFICULTY_GRADES: Record<'easy' | 'hard', ReviewGrade> = {
+  easy: 'good',
+  hard: 'again'
+}
+
+// Quality (0-5) stored in review_sessions for each grade; only Again counts as a lapse
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+}
+
+// new -> learning -> review, and review -> relearning -> review after a lapse
+export type CardState = 'new' | 'learning' | 'review' | 'relearning'
+
+// Intra-day steps, in minutes, a card goes through before (re)entering day-based scheduling
+export interface LearningSteps {
+  learning: number[] // New cards
+  relearning: number[] // Cards answered Again during review
+}
+
+export const DEFAULT_LEARNING_STEPS: LearningSteps = {
+  learning: [1, 10],
+  relearning: [10]
+}
+
+export interface ReviewOptions {
+  scheduler?: SchedulerName
+  learningSteps?: LearningSteps
+  reviewedAt?: Date
+}
+
+const MINUTE_MS = 60 * 1000
+
+// SM-2 interval modifiers so Hard and Easy schedule differently from Good
+const SM2_HARD_MULTIPLIER = 1.2
+const SM2_EASY_BONUS = 1.3
+const SM2_EASY_FIRST_INTERVAL = 4
+
 export interface ReviewSession {
   flashcardId: string
   userId: string
@@ -21,6 +71,26 @@ export interface SpacedRepetitionData {
   lastReviewedAt: Date | null
   lastQuality: number | null
   isNew: boolean
+  state: CardState
+  learningStep: number | null // Index into the learning or relearning steps; null outside them
+  // FSRS memory state; null until the card is first reviewed under FSRS
+  stability: number | null
+  difficulty: number | null
+}
+
+// One past review, as stored in review_sessions
+export interface ReviewHistoryEntry {
+  quality: number
+  reviewedAt: Date
+}
+
+/**
+ * Decides a card's next state and review date from a graded review.
+ * Learning steps are handled by SpacedRepetitionEngine; schedulers only see graduating and review answers.
+ */
+export interface ReviewScheduler {
+  readonly name: SchedulerName
+  processReview(currentData: SpacedRepetitionData, quality: number, reviewedAt?: Date): SpacedRepetitionData
 }
 
 export interface ReviewQueueItem {
@@ -33,21 +103,25 @@ export interface ReviewQueueItem {
   daysSinceLastReview: number
 }
 
-export class SpacedRepetitionEngine {
-  
+/**
+ * SuperMemo-2: interval grows by the card's easiness factor after each successful review
+ */
+export class SM2Scheduler implements ReviewScheduler {
+  readonly name = 'sm2' as const
+
   /**
    * Process a review session using SM-2 algorithm
    * @param currentData Current spaced repetition data for the flashcard
    * @param quality Quality of response (0-5)
+   * @param reviewedAt When the review happened (past reviews are replayed when switching schedulers)
    * @returns Updated spaced repetition data
    */
-  processReview(currentData: SpacedRepetitionData, quality: number): SpacedRepetitionData {
+  processReview(currentData: SpacedRepetitionData, quality: number, reviewedAt: Date = new Date()): SpacedRepetitionData {
     // Validate quality input
     if (quality < 0 || quality > 5) {
       throw new Error('Quality must be between 0 and 5')
     }
 
-    const now = new Date()
     let { repetitions, easinessFactor, interval } = currentData
 
     // If quality < 3, restart the learning process
@@ -59,12 +133,15 @@ export class SpacedRepetitionEngine {
       repetitions++
 
       // Calculate new interval based on SM-2 algorithm
-      if (repetitions === 1) {
-        interval = 1
+      if (quality === 3) {
+        // Hard: recalled, but grow the interval only slightly
+        interval = repetitions === 1 ? 1 : Math.max(Math.round(interval * SM2_HARD_MULTIPLIER), interval + 1)
+      } else if (repetitions === 1) {
+        interval = quality === 5 ? SM2_EASY_FIRST_INTERVAL : 1
       } else if (repetitions === 2) {
-        interval = 6
+        interval = quality === 5 ? Math.round(6 * SM2_EASY_BONUS) : 6
       } else {
-        interval = Math.round(interval * easinessFactor)
+        interval = Math.round(interval * easinessFactor * (quality === 5 ? SM2_EASY_BONUS : 1))
       }
     }
 
@@ -75,7 +152,7 @@ export class SpacedRepetitionEngine {
     )
 
     // Calculate next review date
-    const nextReviewDate = new Date(now)
+    const nextReviewDate = new Date(reviewedAt)
     nextReviewDate.setDate(nextReviewDate.getDate() + interval)
 
     return {
@@ -84,11 +161,146 @@ export class SpacedRepetitionEngine {
       easinessFactor,
       interval,
       nextReviewDate,
-      lastReviewedAt: now,
+      lastReviewedAt: reviewedAt,
       lastQuality: quality,
       isNew: false
     }
   }
+}
+
+export class SpacedRepetitionEngine {
+  private readonly schedulers: Record<SchedulerName, ReviewScheduler> = {
+    sm2: new SM2Scheduler(),
+    fsrs: new FSRSScheduler()
+  }
+
+  /**
+   * Get the scheduler implementation by name
+   */
+  getScheduler(name: SchedulerName = 'sm2'): ReviewScheduler {
+    return this.schedulers[name] || this.schedulers.sm2
+  }
+
+  /**
+   * Process a review: new and lapsed cards go through the intra-day learning steps,
+   * everything else is scheduled in days by the chosen scheduler
+   * @param currentData Current spaced repetition data for the flashcard
+   * @param quality Quality of response (0-5)
+   * @returns Updated spaced repetition data
+   */
+  processReview(currentData: SpacedRepetitionData, quality: number, options: ReviewOptions = {}): SpacedRepetitionData {
+    if (quality < 0 || quality > 5) {
+      throw new Error('Quality must be between 0 and 5')
+    }
+
+    const scheduler = this.getScheduler(options.scheduler)
+    const steps = options.learningSteps || DEFAULT_LEARNING_STEPS
+    const reviewedAt = options.reviewedAt || new Date()
+
+    switch (currentData.state) {
+      case 'new':
+      case 'learning':
+        return this.processStep(currentData, quality, steps.learning, 'learning', reviewedAt, () => ({
+          ...scheduler.processReview(currentData, quality, reviewedAt),
+          state: 'review',
+          learningStep: null
+        }))
+
+      case 'relearning':
+        // The lapse was already scheduled when the card was failed; graduating only restores its interval
+        return this.processStep(currentData, quality, steps.relearning, 'relearning', reviewedAt, () => ({
+          ...currentData,
+          nextReviewDate: this.addMinutes(reviewedAt, currentData.interval * 24 * 60),
+          lastReviewedAt: reviewedAt,
+          lastQuality: quality,
+          isNew: false,
+          state: 'review',
+          learningStep: null
+        }))
+
+      default: {
+        const reviewed = scheduler.processReview(currentData, quality, reviewedAt)
+        if (quality < 3 && steps.relearning.length > 0) {
+          return {
+            ...reviewed,
+            nextReviewDate: this.addMinutes(reviewedAt, steps.relearning[0]),
+            state: 'relearning',
+            learningStep: 0
+          }
+        }
+        return { ...reviewed, state: 'review', learningStep: null }
+      }
+    }
+  }
+
+  /**
+   * Move a card through its learning or relearning steps, graduating it past the last step.
+   * Again restarts the steps, Hard repeats the current one, Good advances and Easy graduates at once.
+   */
+  private processStep(
+    currentData: SpacedRepetitionData,
+    quality: number,
+    steps: number[],
+    state: CardState,
+    reviewedAt: Date,
+    graduate: () => SpacedRepetitionData
+  ): SpacedRepetitionData {
+    const currentStep = currentData.learningStep ?? 0
+    let nextStep: number
+    let delayMinutes: number
+
+    if (quality < 3) {
+      nextStep = 0
+      delayMinutes = steps[0]
+    } else if (quality === 3) {
+      nextStep = currentStep
+      // On the first step Hard falls between the first two steps, as in Anki
+      delayMinutes = currentStep === 0 && steps.length > 1
+        ? Math.round((steps[0] + steps[1]) / 2)
+        : steps[currentStep]
+    } else if (quality === 4) {
+      nextStep = currentStep + 1
+      delayMinutes = steps[nextStep]
+    } else {
+      nextStep = steps.length
+      delayMinutes = 0
+    }
+
+    if (nextStep >= steps.length) {
+      return graduate()
+    }
+
+    return {
+      ...currentData,
+      nextReviewDate: this.addMinutes(reviewedAt, delayMinutes),
+      lastReviewedAt: reviewedAt,
+      lastQuality: quality,
+      isNew: false,
+      state,
+      learningStep: nextStep
+    }
+  }
+
+  private addMinutes(date: Date, minutes: number): Date {
+    return new Date(date.getTime() + minutes * MINUTE_MS)
+  }
+
+  /**
+   * Rebuild a card's state by replaying its review history, oldest first, under a scheduler
+   */
+  replayReviews(
+    flashcardId: string,
+    userId: string,
+    history: ReviewHistoryEntry[],
+    options: Omit<ReviewOptions, 'reviewedAt'> = {}
+  ): SpacedRepetitionData {
+    const ordered = [...history].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+
+    return ordered.reduce(
+      (data, review) => this.processReview(data, review.quality, { ...options, reviewedAt: review.reviewedAt }),
+      this.initializeFlashcard(flashcardId, userId)
+    )
+  }
 
   /**
    * Create initial spaced repetition data for a new flashcard
@@ -103,7 +315,11 @@ export class SpacedRepetitionEngine {
       nextReviewDate: new Date(), // Available for immediate review
       lastReviewedAt: null,
       lastQuality: null,
-      isNew: true
+      isNew: true,
+      state: 'new',
+      learningStep: null,
+      stability: null,
+      difficulty: null
     }
   }
 
@@ -136,21 +352,26 @@ export class SpacedRepetitionEngine {
   }
 
   /**
-   * Convert quality score from simple Easy/Hard to SM-2 quality scale
-   * @param isEasy true for "Easy" button, false for "Hard" button
-   * @param responseTime optional response time in milliseconds
+   * Convert a review button to the 0-5 quality scale both schedulers use
    */
-  convertToQualityScore(isEasy: boolean, responseTime?: number): number {
-    if (isEasy) {
-      // Easy responses get quality 4-5 based on response time
-      if (responseTime && responseTime < 3000) { // Less than 3 seconds
-        return 5 // Perfect response
-      }
-      return 4 // Correct response with some hesitation
-    } else {
-      // Hard responses get quality 2-3 (still correct but difficult)
-      return 2 // Incorrect response, but remembered with serious difficulty
+  gradeToQuality(grade: ReviewGrade): number {
+    return GRADE_QUALITY[grade]
+  }
+
+  /**
+   * Minutes until the next review for each grade, shown on the buttons before the user answers
+   */
+  previewIntervals(
+    currentData: SpacedRepetitionData,
+    options: Omit<ReviewOptions, 'reviewedAt'> = {},
+    now: Date = new Date()
+  ): Record<ReviewGrade, number> {
+    const previews = {} as Record<ReviewGrade, number>
+    for (const grade of REVIEW_GRADES) {
+      const next = this.processReview(currentData, this.gradeToQuality(grade), { ...options, reviewedAt: now })
+      previews[grade] = Math.round((next.nextReviewDate.getTime() - now.getTime()) / MINUTE_MS)
     }
+    return previews
   }
 
   /**
@@ -207,7 +428,7 @@ export class SpacedRepetitionEngine {
 
       if (data.isNew) {
         newCards++
-      } else if (data.repetitions < 2) {
+      } else if (data.state === 'learning' || data.state === 'relearning' || data.repetitions < 2) {
         learningCards++
       } else if (data.interval >= 21) { // Mastered after 3+ weeks interval
         masteredCards++
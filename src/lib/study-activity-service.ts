@@ -0,0 +1,161 @@
+/**
+ * Study activity
+ * Streaks, the review heatmap and the due-card forecast, all bucketed by calendar day
+ * in the user's timezone so a late-evening review counts for the day it happened locally.
+ */
+
+import { query, queryOne, queryMany } from '@/lib/database'
+
+const DEFAULT_TIMEZONE = 'UTC'
+
+export interface StudyStreak {
+  current_streak: number // Consecutive days up to today, or yesterday if nothing has been reviewed yet today
+  longest_streak: number
+  last_study_date: string | null // YYYY-MM-DD
+}
+
+export interface ActivityDay {
+  date: string // YYYY-MM-DD
+  reviews: number
+  correct: number // Anything but Again
+}
+
+export interface ForecastDay {
+  date: string // YYYY-MM-DD
+  due: number // Overdue cards are counted on the first day
+}
+
+/**
+ * Whether the runtime recognises an IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+export class StudyActivityService {
+  /**
+   * Pick the timezone to bucket days in. A valid zone reported by the browser wins for
+   * this request only; otherwise the zone saved in the user's settings is used.
+   */
+  async resolveTimezone(userId: string, requested?: string | null): Promise<string> {
+    if (requested && isValidTimezone(requested)) {
+      return requested
+    }
+
+    try {
+      const user = await queryOne('SELECT timezone FROM users WHERE id = $1', [userId])
+      return user?.timezone || DEFAULT_TIMEZONE
+    } catch (error) {
+      console.error('Failed to resolve user timezone:', error)
+      return DEFAULT_TIMEZONE
+    }
+  }
+
+  /**
+   * Save the timezone used when a request doesn't send one, e.g. for the dashboard streak
+   */
+  async setTimezone(userId: string, timezone: string): Promise<void> {
+    try {
+      await query('UPDATE users SET timezone = $2 WHERE id = $1', [userId, timezone])
+    } catch (error) {
+      console.error('Failed to update user timezone:', error)
+      throw new Error('Failed to update timezone')
+    }
+  }
+
+  /**
+   * Current and longest run of consecutive days with at least one review
+   */
+  async getStreak(userId: string, timezone: string): Promise<StudyStreak> {
+    try {
+      const streak = await queryOne(`
+        WITH study_days AS (
+          SELECT DISTINCT (reviewed_at AT TIME ZONE $2)::date AS day
+          FROM review_sessions
+          WHERE user_id = $1
+        ),
+        runs AS (
+          -- Consecutive days share the same anchor
+          SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::int AS anchor
+          FROM study_days
+        ),
+        streaks AS (
+          SELECT MAX(day) AS end_day, COUNT(*)::int AS length
+          FROM runs
+          GROUP BY anchor
+        )
+        SELECT
+          COALESCE(MAX(length) FILTER (
+            WHERE end_day >= (NOW() AT TIME ZONE $2)::date - 1
+          ), 0)::int AS current_streak,
+          COALESCE(MAX(length), 0)::int AS longest_streak,
+          to_char(MAX(end_day), 'YYYY-MM-DD') AS last_study_date
+        FROM streaks
+      `, [userId, timezone])
+
+      return streak || { current_streak: 0, longest_streak: 0, last_study_date: null }
+    } catch (error) {
+      console.error('Failed to calculate study streak:', error)
+      return { current_streak: 0, longest_streak: 0, last_study_date: null }
+    }
+  }
+
+  /**
+   * Reviews per day over the last `days` days, including today; days without reviews are omitted
+   */
+  async getHeatmap(userId: string, timezone: string, days: number = 365): Promise<ActivityDay[]> {
+    try {
+      return await queryMany(`
+        SELECT
+          to_char((reviewed_at AT TIME ZONE $2)::date, 'YYYY-MM-DD') AS date,
+          COUNT(*)::int AS reviews,
+          COUNT(*) FILTER (WHERE quality >= 3)::int AS correct
+        FROM review_sessions
+        WHERE user_id = $1
+          AND reviewed_at >= ((NOW() AT TIME ZONE $2)::date - ($3::int - 1))::timestamp AT TIME ZONE $2
+        GROUP BY 1
+        ORDER BY 1
+      `, [userId, timezone, days])
+    } catch (error) {
+      console.error('Failed to fetch review heatmap:', error)
+      return []
+    }
+  }
+
+  /**
+   * Cards coming due on each of the next `days` days, starting today
+   */
+  async getForecast(userId: string, timezone: string, days: number = 30): Promise<ForecastDay[]> {
+    try {
+      return await queryMany(`
+        WITH today AS (
+          SELECT (NOW() AT TIME ZONE $2)::date AS day
+        ),
+        due_days AS (
+          SELECT GREATEST((sr.next_review_date AT TIME ZONE $2)::date, today.day) AS day
+          FROM spaced_repetition sr, today
+          WHERE sr.user_id = $1
+        )
+        SELECT
+          to_char(today.day + offset_days, 'YYYY-MM-DD') AS date,
+          COUNT(due_days.day)::int AS due
+        FROM today
+        CROSS JOIN generate_series(0, $3::int - 1) AS offset_days
+        LEFT JOIN due_days ON due_days.day = today.day + offset_days
+        GROUP BY today.day, offset_days
+        ORDER BY offset_days
+      `, [userId, timezone, days])
+    } catch (error) {
+      console.error('Failed to fetch review forecast:', error)
+      return []
+    }
+  }
+}
+
+// Export singleton instance
+export const studyActivityService = new StudyActivityService();
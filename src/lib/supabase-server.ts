@@ -61,6 +61,30 @@ export async function getUser() {
   }
 }
 
+/**
+ * Resolve the signed-in user to their row in our users table.
+ * Returns null when the request has no valid session.
+ */
+export async function getCurrentUserId(): Promise<string | null> {
+  const authUser = await getUser()
+  if (!authUser?.email) {
+    return null
+  }
+
+  const { user } = await getUserByEmail(authUser.email)
+  if (user) {
+    return user.id
+  }
+
+  // First request after sign-up can arrive before the client-side sync has run
+  const { user: createdUser } = await createUser(
+    authUser.email,
+    authUser.user_metadata?.full_name || authUser.user_metadata?.name,
+    authUser.user_metadata?.avatar_url
+  )
+  return createdUser?.id ?? null
+}
+
 export async function getSession() {
   const supabase = createServerSupabase()
   try {
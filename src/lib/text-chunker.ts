@@ -0,0 +1,74 @@
+/**
+ * Text chunking for map-reduce AI analysis
+ * Splits long documents into overlapping pieces that each fit comfortably in one prompt
+ */
+
+export interface ChunkOptions {
+  chunkSize?: number // Maximum characters per chunk
+  overlap?: number // Characters repeated from the end of the previous chunk
+}
+
+export const DEFAULT_CHUNK_SIZE = 12000
+export const DEFAULT_CHUNK_OVERLAP = 800
+
+// Preferred places to end a chunk, best first
+const BREAK_PATTERNS = ['\n\n', '\n', '. ', '? ', '! ', '。', '？', '！', ' ']
+
+// A chunk may end early to land on a break, but not before this share of its maximum size
+const MIN_CHUNK_RATIO = 0.6
+
+/**
+ * Split text into chunks of at most chunkSize characters, ending on paragraph or sentence
+ * boundaries where possible. Consecutive chunks overlap so an idea spanning a boundary
+ * is seen whole by at least one of them.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(chunkSize / 2))
+  const content = text.trim()
+
+  if (content.length <= chunkSize) {
+    return content ? [content] : []
+  }
+
+  const chunks: string[] = []
+  let start = 0
+
+  while (start < content.length) {
+    let end = Math.min(start + chunkSize, content.length)
+    if (end < content.length) {
+      end = findBreak(content, start + Math.floor(chunkSize * MIN_CHUNK_RATIO), end)
+    }
+
+    const chunk = content.slice(start, end).trim()
+    if (chunk) {
+      chunks.push(chunk)
+    }
+
+    if (end >= content.length) break
+
+    // Step back by the overlap, then forward to the next word so no chunk starts mid-word
+    let next = end - overlap
+    const wordStart = content.indexOf(' ', next)
+    if (wordStart !== -1 && wordStart < end) {
+      next = wordStart + 1
+    }
+    start = next
+  }
+
+  return chunks
+}
+
+/**
+ * Position just after the best break point in [min, max], or max if there is none
+ */
+function findBreak(text: string, min: number, max: number): number {
+  for (const pattern of BREAK_PATTERNS) {
+    const index = text.lastIndexOf(pattern, max - pattern.length)
+    if (index >= min) {
+      return index + pattern.length
+    }
+  }
+
+  return max
+}
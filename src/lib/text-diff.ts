@@ -0,0 +1,132 @@
+/**
+ * Line-by-line text diff laid out for side-by-side display
+ */
+
+export type DiffRowType = 'equal' | 'removed' | 'added' | 'changed'
+
+export interface DiffRow {
+  type: DiffRowType
+  left?: string // Absent when the row only has a line on the right
+  right?: string
+  leftNumber?: number
+  rightNumber?: number
+}
+
+// Past this many LCS cells (~16MB) the changed middle is shown as replaced outright
+const MAX_LCS_CELLS = 4000000
+
+type LineOp = { op: 'equal' | 'removed' | 'added'; line: string }
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n')
+}
+
+/**
+ * Edit script for two line lists with the common start and end trimmed first,
+ * so small edits to long texts stay cheap
+ */
+function lineOps(before: string[], after: string[]): LineOp[] {
+  let prefix = 0
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = before.slice(prefix, before.length - suffix)
+  const b = after.slice(prefix, after.length - suffix)
+  const ops: LineOp[] = before.slice(0, prefix).map(line => ({ op: 'equal' as const, line }))
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    a.forEach(line => ops.push({ op: 'removed', line }))
+    b.forEach(line => ops.push({ op: 'added', line }))
+  } else {
+    // lcs[i * width + j] = longest common subsequence of a[i..] and b[j..]
+    const width = b.length + 1
+    const lcs = new Uint32Array((a.length + 1) * width)
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push({ op: 'equal', line: a[i] })
+        i++
+        j++
+      } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        ops.push({ op: 'added', line: b[j] })
+        j++
+      } else {
+        ops.push({ op: 'removed', line: a[i] })
+        i++
+      }
+    }
+  }
+
+  before.slice(before.length - suffix).forEach(line => ops.push({ op: 'equal', line }))
+  return ops
+}
+
+/**
+ * Compare two texts line by line. Removed lines are paired with the added lines
+ * that replace them so a changed line sits next to its new version.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const ops = lineOps(splitLines(before), splitLines(after))
+  const rows: DiffRow[] = []
+  let leftNumber = 0
+  let rightNumber = 0
+  let index = 0
+
+  while (index < ops.length) {
+    if (ops[index].op === 'equal') {
+      leftNumber++
+      rightNumber++
+      rows.push({ type: 'equal', left: ops[index].line, right: ops[index].line, leftNumber, rightNumber })
+      index++
+      continue
+    }
+
+    // Collect one run of changes between unchanged lines
+    const removed: string[] = []
+    const added: string[] = []
+    while (index < ops.length && ops[index].op !== 'equal') {
+      if (ops[index].op === 'removed') {
+        removed.push(ops[index].line)
+      } else {
+        added.push(ops[index].line)
+      }
+      index++
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const row: DiffRow = {
+        type: k >= added.length ? 'removed' : k >= removed.length ? 'added' : 'changed'
+      }
+      if (k < removed.length) {
+        row.left = removed[k]
+        row.leftNumber = ++leftNumber
+      }
+      if (k < added.length) {
+        row.right = added[k]
+        row.rightNumber = ++rightNumber
+      }
+      rows.push(row)
+    }
+  }
+
+  return rows
+}
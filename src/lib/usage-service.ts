@@ -0,0 +1,241 @@
+/**
+ * AI usage accounting
+ * Every model and transcription call is written to a ledger tied to the user, note and task,
+ * which backs the usage summary and the monthly quotas:
+ *
+ *   USAGE_MONTHLY_TOKEN_LIMIT=...       default monthly token allowance; unset means unlimited
+ *   USAGE_MONTHLY_AUDIO_MINUTES=...     default monthly transcription minutes; unset means unlimited
+ *
+ * Rows in usage_quotas override the defaults for individual users.
+ */
+
+import { query, queryOne, queryMany } from '@/lib/database'
+import { AIErrors } from '@/lib/error-handler'
+import type { LLMTask } from '@/lib/llm-provider'
+
+export type UsageTask = LLMTask | 'transcription'
+export type QuotaKind = 'tokens' | 'audio'
+
+// Who a call is made on behalf of
+export interface UsageContext {
+  userId: string
+  noteId?: string | null
+}
+
+export interface UsageEventInput {
+  task: UsageTask
+  provider: string
+  model: string
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+  audioSeconds?: number
+  costUsd?: number | null
+  cached?: boolean
+}
+
+export interface UsageQuota {
+  monthly_token_limit: number | null // null means unlimited
+  monthly_audio_minutes_limit: number | null
+}
+
+export interface UsageTotals {
+  calls: number
+  cached_calls: number
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+  audio_minutes: number
+  cost_usd: number
+}
+
+export interface UsageSummary {
+  period: {
+    start: string
+    end: string
+  }
+  totals: UsageTotals
+  by_task: Array<UsageTotals & { task: UsageTask }>
+  quota: UsageQuota & {
+    tokens_remaining: number | null
+    audio_minutes_remaining: number | null
+  }
+}
+
+const TOTALS_COLUMNS = `
+  COUNT(*)::int AS calls,
+  COUNT(*) FILTER (WHERE cached)::int AS cached_calls,
+  COALESCE(SUM(prompt_tokens), 0)::int AS prompt_tokens,
+  COALESCE(SUM(completion_tokens), 0)::int AS completion_tokens,
+  COALESCE(SUM(total_tokens), 0)::int AS total_tokens,
+  ROUND(COALESCE(SUM(audio_seconds), 0) / 60.0, 2)::float AS audio_minutes,
+  COALESCE(SUM(cost_usd), 0)::float AS cost_usd
+`
+
+// Calendar month (UTC) containing $2
+const MONTH_FILTER = `
+  user_id = $1
+  AND created_at >= date_trunc('month', $2::timestamptz AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  AND created_at < (date_trunc('month', $2::timestamptz AT TIME ZONE 'UTC') + INTERVAL '1 month') AT TIME ZONE 'UTC'
+`
+
+export class UsageService {
+  /**
+   * Add a call to the ledger. Accounting must never break the request it describes, so failures are only logged.
+   */
+  async record(context: UsageContext, event: UsageEventInput): Promise<void> {
+    const promptTokens = event.promptTokens || 0
+    const completionTokens = event.completionTokens || 0
+
+    try {
+      await query(`
+        INSERT INTO usage_events (
+          user_id, note_id, task, provider, model,
+          prompt_tokens, completion_tokens, total_tokens, audio_seconds, cost_usd, cached
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `, [
+        context.userId,
+        context.noteId || null,
+        event.task,
+        event.provider,
+        event.model,
+        promptTokens,
+        completionTokens,
+        event.totalTokens ?? promptTokens + completionTokens,
+        event.audioSeconds || 0,
+        event.costUsd ?? null,
+        event.cached || false
+      ])
+    } catch (error) {
+      console.error('Failed to record AI usage:', error)
+    }
+  }
+
+  /**
+   * Get a user's monthly quota, falling back to the configured defaults
+   */
+  async getQuota(userId: string): Promise<UsageQuota> {
+    const defaults: UsageQuota = {
+      monthly_token_limit: parseLimit(process.env.USAGE_MONTHLY_TOKEN_LIMIT),
+      monthly_audio_minutes_limit: parseLimit(process.env.USAGE_MONTHLY_AUDIO_MINUTES)
+    }
+
+    try {
+      const override = await queryOne(`
+        SELECT monthly_token_limit, monthly_audio_minutes_limit
+        FROM usage_quotas
+        WHERE user_id = $1
+      `, [userId])
+
+      return {
+        monthly_token_limit: override?.monthly_token_limit ?? defaults.monthly_token_limit,
+        monthly_audio_minutes_limit: override?.monthly_audio_minutes_limit ?? defaults.monthly_audio_minutes_limit
+      }
+    } catch (error) {
+      console.error('Error fetching usage quota:', error)
+      return defaults
+    }
+  }
+
+  /**
+   * Get a user's usage totals for the calendar month containing the given date
+   */
+  async getMonthlyTotals(userId: string, month: Date = new Date()): Promise<UsageTotals> {
+    try {
+      const totals = await queryOne(`
+        SELECT ${TOTALS_COLUMNS}
+        FROM usage_events
+        WHERE ${MONTH_FILTER}
+      `, [userId, month.toISOString()])
+
+      return totals || emptyTotals()
+    } catch (error) {
+      console.error('Error fetching monthly usage:', error)
+      return emptyTotals()
+    }
+  }
+
+  /**
+   * Throw QUOTA_EXCEEDED when the user has used up this month's allowance.
+   * The check runs before each call, so the call that crosses the limit still completes.
+   */
+  async assertWithinQuota(userId: string, kind: QuotaKind): Promise<void> {
+    const quota = await this.getQuota(userId)
+    const limit = kind === 'tokens' ? quota.monthly_token_limit : quota.monthly_audio_minutes_limit
+    if (limit === null) return
+
+    const totals = await this.getMonthlyTotals(userId)
+    const used = kind === 'tokens' ? totals.total_tokens : totals.audio_minutes
+
+    if (used >= limit) {
+      console.warn('Usage quota exceeded:', { userId, kind, used, limit })
+      throw AIErrors.QUOTA_EXCEEDED
+    }
+  }
+
+  /**
+   * Usage for one calendar month, broken down by task, with the remaining allowance
+   */
+  async getMonthlySummary(userId: string, month: Date = new Date()): Promise<UsageSummary> {
+    const [totals, quota] = await Promise.all([
+      this.getMonthlyTotals(userId, month),
+      this.getQuota(userId)
+    ])
+
+    let byTask: Array<UsageTotals & { task: UsageTask }> = []
+    try {
+      byTask = await queryMany(`
+        SELECT task, ${TOTALS_COLUMNS}
+        FROM usage_events
+        WHERE ${MONTH_FILTER}
+        GROUP BY task
+        ORDER BY total_tokens DESC, task
+      `, [userId, month.toISOString()])
+    } catch (error) {
+      console.error('Error fetching usage by task:', error)
+    }
+
+    const start = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), 1))
+    const end = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1))
+
+    return {
+      period: {
+        start: start.toISOString(),
+        end: end.toISOString()
+      },
+      totals,
+      by_task: byTask,
+      quota: {
+        ...quota,
+        tokens_remaining: quota.monthly_token_limit === null
+          ? null
+          : Math.max(0, quota.monthly_token_limit - totals.total_tokens),
+        audio_minutes_remaining: quota.monthly_audio_minutes_limit === null
+          ? null
+          : Math.max(0, Math.round((quota.monthly_audio_minutes_limit - totals.audio_minutes) * 100) / 100)
+      }
+    }
+  }
+}
+
+function parseLimit(value: string | undefined): number | null {
+  if (!value) return null
+  const limit = parseFloat(value)
+  return isNaN(limit) ? null : limit
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    cached_calls: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    audio_minutes: 0,
+    cost_usd: 0
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { memoryDb, createTestUser } from '@/lib/testing/memory-database'
+import { notesService } from '@/lib/notes-service'
+import { flashcardService } from '@/lib/flashcard-service'
+import { MindMapService } from '@/lib/mindmap-service'
+
+vi.mock('pg', async () => (await import('@/lib/testing/memory-database')).pgModule)
+// Version snapshots use LATERAL joins, which pg-mem can't run
+vi.mock('@/lib/note-versions-service', () => ({
+  noteVersionsService: { captureVersion: vi.fn() }
+}))
+
+const mindMapService = new MindMapService()
+
+function insertRow(sql: string): string {
+  return memoryDb.public.one(`${sql} RETURNING id`).id
+}
+
+function countRows(table: string, where: string): number {
+  return memoryDb.public.many(`SELECT id FROM ${table} WHERE ${where}`).length
+}
+
+describe('user isolation', () => {
+  let owner: string
+  let other: string
+  let noteId: string
+
+  beforeEach(() => {
+    owner = createTestUser(`owner-${Date.now()}-${Math.random()}@example.com`)
+    other = createTestUser(`other-${Date.now()}-${Math.random()}@example.com`)
+    noteId = insertRow(`
+      INSERT INTO notes (user_id, title, source_type, markdown)
+      VALUES ('${owner}', 'Private note', 'text', 'Original body')
+    `)
+    insertRow(`
+      INSERT INTO content_blocks (note_id, type, title, content, sort_order)
+      VALUES ('${noteId}', 'summary', 'Summary', '{"text": "Secret"}', 0)
+    `)
+  })
+
+  describe('notes', () => {
+    it('does not let another user read a note', async () => {
+      expect(await notesService.getNoteById(owner, noteId)).not.toBeNull()
+      expect(await notesService.getNoteById(other, noteId)).toBeNull()
+      expect(await notesService.getContentBlocks(other, noteId)).toEqual([])
+    })
+
+    it('does not let another user edit or move a note', async () => {
+      expect(await notesService.updateNoteMarkdown(other, noteId, 'Overwritten')).toBeNull()
+      expect(await notesService.moveNoteToFolder(other, noteId, null)).toBeNull()
+
+      const note = await notesService.getNoteById(owner, noteId)
+      expect(note?.markdown).toBe('Original body')
+    })
+
+    it('does not let another user delete a note or its content', async () => {
+      expect(await notesService.deleteNote(other, noteId)).toBe(false)
+
+      expect(countRows('notes', `id = '${noteId}'`)).toBe(1)
+      expect(countRows('content_blocks', `note_id = '${noteId}'`)).toBe(1)
+    })
+
+    it('lets the owner delete a note with its content', async () => {
+      expect(await notesService.deleteNote(owner, noteId)).toBe(true)
+
+      expect(countRows('notes', `id = '${noteId}'`)).toBe(0)
+      expect(countRows('content_blocks', `note_id = '${noteId}'`)).toBe(0)
+    })
+  })
+
+  describe('flashcards', () => {
+    let flashcardId: string
+
+    beforeEach(() => {
+      flashcardId = insertRow(`
+        INSERT INTO flashcards (note_id, user_id, question, answer)
+        VALUES ('${noteId}', '${owner}', 'Question?', 'Answer')
+      `)
+    })
+
+    it('does not let another user read flashcards', async () => {
+      expect(await flashcardService.getFlashcardsByNoteId(owner, noteId)).toHaveLength(1)
+      expect(await flashcardService.getFlashcardsByNoteId(other, noteId)).toEqual([])
+      expect(await flashcardService.getFlashcardById(other, flashcardId)).toBeNull()
+    })
+
+    it('does not let another user edit a flashcard', async () => {
+      expect(await flashcardService.updateFlashcard(other, flashcardId, { question: 'Changed?' })).toBeNull()
+
+      const card = await flashcardService.getFlashcardById(owner, flashcardId)
+      expect(card?.question).toBe('Question?')
+    })
+
+    it('does not let another user delete a flashcard', async () => {
+      expect(await flashcardService.deleteFlashcard(other, flashcardId)).toBe(false)
+      expect(countRows('flashcards', `id = '${flashcardId}'`)).toBe(1)
+    })
+  })
+
+  describe('mind maps', () => {
+    let mindMapId: string
+
+    beforeEach(() => {
+      mindMapId = insertRow(`
+        INSERT INTO mind_maps (note_id, user_id, title, nodes, edges)
+        VALUES ('${noteId}', '${owner}', 'Private map', '[{"id": "root"}]', '[]')
+      `)
+    })
+
+    it('does not let another user read a mind map', async () => {
+      expect(await mindMapService.getMindMapById(owner, mindMapId)).not.toBeNull()
+      expect(await mindMapService.getMindMapById(other, mindMapId)).toBeNull()
+      expect(await mindMapService.getMindMapByNoteId(other, noteId)).toBeNull()
+    })
+
+    it('does not let another user edit a mind map', async () => {
+      expect(await mindMapService.updateMindMap(other, mindMapId, { title: 'Changed' })).toBeNull()
+
+      const mindMap = await mindMapService.getMindMapById(owner, mindMapId)
+      expect(mindMap?.title).toBe('Private map')
+      expect(mindMap?.nodes).toEqual([{ id: 'root' }])
+    })
+  })
+})
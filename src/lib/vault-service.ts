@@ -0,0 +1,290 @@
+import JSZip from 'jszip'
+import { query, transaction } from '@/lib/database'
+import { notesService } from '@/lib/notes-service'
+import { foldersService } from '@/lib/folders-service'
+import { flashcardService, FlashcardWithProgress } from '@/lib/flashcard-service'
+import { SpacedRepetitionData } from '@/lib/spaced-repetition-engine'
+import { BLOCK_DEFAULTS, ContentBlockType, EDITABLE_BLOCK_TYPES, validateBlockContent } from '@/lib/content-block-types'
+import { FlashcardDraft, expandFlashcardDraft, validateFlashcardDraft } from '@/lib/flashcard-types'
+import { MAX_NOTE_MARKDOWN_LENGTH, blocksToMarkdown } from '@/lib/note-markdown'
+import { safeFileName } from '@/lib/note-export-service'
+import { VaultCard, VaultFormatError, VaultNote, VaultSchedule, readVaultNote, writeVaultNote } from '@/lib/obsidian-vault'
+import { uncompressedSize } from '@/lib/zip-limits'
+
+export interface VaultExportFile {
+  fileName: string
+  contentType: string
+  data: Uint8Array
+}
+
+export interface VaultImportResult {
+  notes: Array<{ id: string; title: string }>
+  folders_created: number
+  cards_imported: number
+  skipped: number // Flashcards with nothing we can store, e.g. an empty answer
+}
+
+const NOTE_SOURCE_TYPES = ['pdf', 'audio', 'text', 'youtube', 'web', 'import', 'recording', 'manual']
+const MAX_VAULT_NOTES = 2000
+const MAX_VAULT_BYTES = 200 * 1024 * 1024 // Uncompressed, across every note in the zip
+const MAX_TITLE_LENGTH = 500
+const MIN_EASE = 1.3
+
+export class VaultService {
+  /**
+   * Export notes as an Obsidian vault: one Markdown file per note, folders as directories
+   * @param folderId Export this folder and its subfolders; null for every note
+   * @returns The zip, or null if the folder doesn't exist
+   */
+  async exportVault(userId: string, folderId: string | null): Promise<VaultExportFile | null> {
+    const folder = folderId ? await foldersService.getFolderById(userId, folderId) : null
+    if (folderId && !folder) return null
+
+    const paths = await foldersService.getFolderPaths(userId, folderId, name => safeFileName(name, 'folder'))
+    const notes = folderId
+      ? await query(`
+          SELECT id, folder_id FROM notes
+          WHERE user_id = $1 AND folder_id = ANY($2::uuid[]) AND content_status = 'completed'
+          ORDER BY created_at ASC
+        `, [userId, Array.from(paths.keys())])
+      : await query(`
+          SELECT id, folder_id FROM notes
+          WHERE user_id = $1 AND content_status = 'completed'
+          ORDER BY created_at ASC
+        `, [userId])
+
+    const zip = new JSZip()
+    const usedNames = new Set<string>()
+
+    for (const row of notes.rows) {
+      const note = await this.loadVaultNote(userId, row.id)
+      if (!note) continue
+
+      const directory = (row.folder_id && paths.get(row.folder_id)) || ''
+      const baseName = safeFileName(note.title, 'note')
+      let fileName = `${directory}${baseName}.md`
+      for (let copy = 2; usedNames.has(fileName.toLowerCase()); copy++) {
+        fileName = `${directory}${baseName} ${copy}.md`
+      }
+      usedNames.add(fileName.toLowerCase())
+
+      zip.file(fileName, writeVaultNote(note))
+    }
+
+    return {
+      fileName: `${folder ? safeFileName(folder.name, 'folder') : 'MangoNote vault'}.zip`,
+      contentType: 'application/zip',
+      data: await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+    }
+  }
+
+  /**
+   * Import a zipped vault: each Markdown file becomes a note, directories become folders
+   * (reusing folders that already have the same name and parent)
+   * @param folderId Folder the vault's top level goes into; null for the library root
+   */
+  async importVault(userId: string, data: Uint8Array, folderId: string | null): Promise<VaultImportResult> {
+    let zip: JSZip
+    try {
+      zip = await JSZip.loadAsync(data)
+    } catch {
+      throw new VaultFormatError('File is not a zip archive')
+    }
+
+    // Skip Obsidian's settings, trash and other hidden directories
+    const files = Object.values(zip.files)
+      .filter(file => !file.dir && /\.md$/i.test(file.name))
+      .filter(file => !file.name.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX'))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    if (files.length === 0) {
+      throw new VaultFormatError('No Markdown notes found in the zip')
+    }
+    if (files.length > MAX_VAULT_NOTES) {
+      throw new VaultFormatError(`A vault can have at most ${MAX_VAULT_NOTES} notes per import`)
+    }
+
+    // Check sizes before inflating anything, so a small zip can't expand into gigabytes
+    let totalSize = 0
+    for (const file of files) {
+      const size = uncompressedSize(file)
+      if (size > MAX_NOTE_MARKDOWN_LENGTH) {
+        throw new VaultFormatError(`${file.name} is too large to import`)
+      }
+      totalSize += size
+    }
+    if (totalSize > MAX_VAULT_BYTES) {
+      throw new VaultFormatError(`A vault can have at most ${MAX_VAULT_BYTES / 1024 / 1024}MB of notes per import`)
+    }
+
+    const result: VaultImportResult = { notes: [], folders_created: 0, cards_imported: 0, skipped: 0 }
+    const existingFolders = await foldersService.getFolders(userId)
+    const folderIds = new Map<string, string | null>([['', folderId]])
+    const folderKey = (parentId: string | null, name: string) => `${parentId || ''}/${name.toLowerCase()}`
+    const foldersByName = new Map(existingFolders.map(folder => [folderKey(folder.parent_id, folder.name), folder.id]))
+
+    const resolveFolder = async (directory: string): Promise<string | null> => {
+      const known = folderIds.get(directory)
+      if (known !== undefined) return known
+
+      const slash = directory.lastIndexOf('/')
+      const parentId = await resolveFolder(slash === -1 ? '' : directory.slice(0, slash))
+      const name = directory.slice(slash + 1).slice(0, 255)
+
+      let id = foldersByName.get(folderKey(parentId, name))
+      if (!id) {
+        id = (await foldersService.createFolder(userId, { name, parentId })).id
+        foldersByName.set(folderKey(parentId, name), id)
+        result.folders_created++
+      }
+      folderIds.set(directory, id)
+      return id
+    }
+
+    for (const file of files) {
+      const slash = file.name.lastIndexOf('/')
+      const fileTitle = file.name.slice(slash + 1).replace(/\.md$/i, '')
+      const note = readVaultNote(await file.async('string'), fileTitle)
+      const noteFolderId = await resolveFolder(slash === -1 ? '' : file.name.slice(0, slash))
+
+      const cards = note.cards.filter(card => !validateFlashcardDraft(card.draft, userId))
+      const blocks = note.blocks.filter(block => !validateBlockContent(block.type, block.content))
+      result.skipped += note.cards.length - cards.length
+
+      const imported = await transaction(async (client) => {
+        const created = note.createdAt && !isNaN(Date.parse(note.createdAt)) ? new Date(note.createdAt) : null
+        const noteResult = await client.query(`
+          INSERT INTO notes (user_id, folder_id, title, source_type, content_status, markdown, url, tags, created_at, updated_at)
+          VALUES ($1, $2, $3, $4, 'completed', $5, $6, $7::text[], COALESCE($8, CURRENT_TIMESTAMP), CURRENT_TIMESTAMP)
+          RETURNING id, title
+        `, [
+          userId,
+          noteFolderId,
+          note.title.slice(0, MAX_TITLE_LENGTH),
+          NOTE_SOURCE_TYPES.includes(note.sourceType) ? note.sourceType : 'import',
+          note.markdown ? note.markdown.slice(0, MAX_NOTE_MARKDOWN_LENGTH) : null,
+          note.url,
+          note.tags,
+          created
+        ])
+        const noteId = noteResult.rows[0].id
+
+        for (let i = 0; i < blocks.length; i++) {
+          const defaults = BLOCK_DEFAULTS[blocks[i].type]
+          await client.query(`
+            INSERT INTO content_blocks (note_id, type, title, content, icon, icon_color, sort_order)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+          `, [noteId, blocks[i].type, blocks[i].title, JSON.stringify(blocks[i].content), defaults.icon, defaults.icon_color, i])
+        }
+
+        let cardCount = 0
+        for (const card of cards) {
+          const ids = await flashcardService.insertFlashcardDraft(noteId, userId, card.draft, client)
+          cardCount += ids.length
+
+          // Scheduling is positional, one entry per sibling; anything else can't be matched up
+          if (card.schedules.length !== ids.length) continue
+          for (let i = 0; i < ids.length; i++) {
+            await flashcardService.restoreReviewState(this.toSpacedRepetitionData(ids[i], userId, card.schedules[i]), [], client)
+          }
+        }
+
+        return { id: noteId as string, title: noteResult.rows[0].title as string, cardCount }
+      })
+
+      result.notes.push({ id: imported.id, title: imported.title })
+      result.cards_imported += imported.cardCount
+    }
+
+    return result
+  }
+
+  /**
+   * A note with its blocks and flashcards, as written to the vault
+   */
+  private async loadVaultNote(userId: string, noteId: string): Promise<VaultNote | null> {
+    const note = await notesService.getNoteById(userId, noteId)
+    if (!note) return null
+
+    const [blocks, flashcards] = await Promise.all([
+      notesService.getContentBlocks(userId, noteId),
+      flashcardService.getFlashcardsByNoteId(userId, noteId)
+    ])
+
+    // The body starts out as a copy of the blocks; only an edited one is worth writing out
+    const body = (note.markdown || '').trim()
+
+    return {
+      title: note.title,
+      sourceType: note.source_type,
+      url: note.url || null,
+      tags: note.tags || [],
+      createdAt: new Date(note.created_at).toISOString(),
+      markdown: body && body !== blocksToMarkdown(blocks).trim() ? body : null,
+      blocks: blocks
+        .filter(block => EDITABLE_BLOCK_TYPES.includes(block.type as ContentBlockType))
+        .map(block => ({ type: block.type as ContentBlockType, title: block.title, content: block.content || {} })),
+      cards: this.toVaultCards(flashcards)
+    }
+  }
+
+  /**
+   * One vault card per sibling group, scheduled only if every sibling has been reviewed
+   */
+  private toVaultCards(flashcards: FlashcardWithProgress[]): VaultCard[] {
+    const groups = new Map<string, FlashcardWithProgress[]>()
+    for (const card of flashcards) {
+      const key = card.sibling_group || card.id
+      groups.set(key, [...(groups.get(key) || []), card])
+    }
+
+    return Array.from(groups.values()).map(group => {
+      const siblings = group.slice().sort((a, b) => (a.ordinal ?? 0) - (b.ordinal ?? 0))
+      const first = siblings[0]
+
+      let draft: FlashcardDraft
+      if (first.card_type === 'image_occlusion' && first.media) {
+        draft = {
+          type: 'image_occlusion',
+          question: first.question,
+          answer: '',
+          image_url: first.media.image_url,
+          masks: siblings.map(sibling => ({ ...first.media!.masks[(sibling.ordinal ?? 1) - 1], label: sibling.answer }))
+        }
+      } else {
+        draft = { type: first.card_type, question: first.question, answer: first.answer }
+      }
+
+      const schedules: VaultSchedule[] = siblings
+        .filter(sibling => sibling.card_state && sibling.card_state !== 'new' && sibling.next_review_date)
+        .map(sibling => ({
+          dueDate: new Date(sibling.next_review_date!).toISOString().slice(0, 10),
+          intervalDays: Math.max(1, Math.round(sibling.interval_days || 1)),
+          ease: sibling.easiness_factor || 2.5
+        }))
+
+      return { draft, schedules: schedules.length === expandFlashcardDraft(draft).length ? schedules : [] }
+    })
+  }
+
+  private toSpacedRepetitionData(flashcardId: string, userId: string, schedule: VaultSchedule): SpacedRepetitionData {
+    return {
+      flashcardId,
+      userId,
+      repetitions: 1,
+      easinessFactor: Math.max(MIN_EASE, schedule.ease),
+      interval: Math.max(1, schedule.intervalDays),
+      nextReviewDate: new Date(`${schedule.dueDate}T00:00:00Z`),
+      lastReviewedAt: null,
+      lastQuality: null,
+      isNew: false,
+      state: 'review',
+      learningStep: null,
+      stability: null,
+      difficulty: null
+    }
+  }
+}
+
+// Export singleton instance
+export const vaultService = new VaultService();
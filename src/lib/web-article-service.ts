@@ -0,0 +1,256 @@
+import { lookup } from 'dns/promises'
+import { IncomingMessage, request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { LookupFunction, isIP } from 'net'
+import { parseHTML } from 'linkedom'
+import { Readability } from '@mozilla/readability'
+import { AIError } from './error-handler'
+import { htmlToText } from './document-extractor'
+
+export interface WebArticle {
+  url: string // Final URL, after redirects
+  title: string | null
+  byline: string | null
+  siteName: string | null
+  text: string
+}
+
+const FETCH_TIMEOUT_MS = 20000
+const MAX_PAGE_BYTES = 5 * 1024 * 1024
+const MAX_REDIRECTS = 5
+const USER_AGENT = 'Mozilla/5.0 (compatible; MangoNote article reader)'
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups, including a trailing dotted IPv4 part
+ */
+function ipv6Groups(address: string): number[] {
+  const expand = (part: string) => (part ? part.split(':') : []).flatMap(group => {
+    if (!group.includes('.')) return [parseInt(group, 16)]
+    const [a, b, c, d] = group.split('.').map(Number)
+    return [(a << 8) | b, (c << 8) | d]
+  })
+  const [head, tail] = address.toLowerCase().split('::').map(expand)
+  return tail ? [...head, ...new Array(8 - head.length - tail.length).fill(0), ...tail] : head
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const groups = ipv6Groups(address)
+    if (groups.slice(0, 5).every(group => group === 0)) {
+      // ::ffff:0:0/96 is an IPv4 address in IPv6 form, however it's written; the rest of ::/96
+      // is unspecified, loopback or deprecated IPv4-compatible
+      if (groups[5] !== 0xffff) return true
+      return isPrivateAddress([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.'))
+    }
+    if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+      return true // NAT64, which can reach any IPv4 address
+    }
+    return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00
+  }
+
+  const [a, b] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses private addresses. The socket connects to exactly
+ * the addresses checked here, so a host can't pass the check and then resolve somewhere else.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, family: options.family }).then(addresses => {
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(new AIError(`Refusing to fetch private address ${hostname}`, 'INVALID_URL', 'Only public web pages can be imported.', false), [])
+    } else if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  }, () => {
+    callback(new AIError(`Could not resolve ${hostname}`, 'FETCH_FAILED', `The site ${hostname} could not be found.`, false), [])
+  })
+}
+
+export class WebArticleService {
+  /**
+   * Check a URL the user pasted; only http(s) links are accepted
+   * @returns The parsed URL, or null if it isn't a web link
+   */
+  parseUrl(input: string): URL | null {
+    try {
+      const url = new URL(input.trim())
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Download a page and keep only its readable article text, without navigation, ads and other boilerplate
+   */
+  async fetchArticle(input: string): Promise<WebArticle> {
+    const url = this.parseUrl(input)
+    if (!url) {
+      throw new AIError('Invalid article URL', 'INVALID_URL', 'Please provide a valid web page URL.', false)
+    }
+
+    const page = await this.fetchPage(url)
+
+    if (page.contentType === 'text/plain' || page.contentType === 'text/markdown') {
+      return { url: page.url, title: null, byline: null, siteName: null, text: page.body.trim() }
+    }
+
+    return this.extractArticle(page.body, page.url)
+  }
+
+  /**
+   * Pick the article out of an HTML page, falling back to the whole body when no article stands out
+   */
+  extractArticle(html: string, pageUrl: string): WebArticle {
+    const { document } = parseHTML(html)
+    const pageTitle = document.querySelector('title')?.textContent?.trim() || null
+    // Readability modifies the document it reads, so it gets its own copy
+    const article = new Readability(parseHTML(html).document as unknown as Document).parse()
+
+    let text = ''
+    if (article?.content) {
+      text = htmlToText(parseHTML(`<html><body>${article.content}</body></html>`).document.body)
+    }
+    if (!text) {
+      document.querySelectorAll('script, style, noscript, nav, header, footer, aside, form').forEach(node => node.remove())
+      text = htmlToText(document.body)
+    }
+
+    return {
+      url: pageUrl,
+      title: article?.title?.trim() || pageTitle,
+      byline: article?.byline?.trim() || null,
+      siteName: article?.siteName?.trim() || null,
+      text
+    }
+  }
+
+  /**
+   * Fetch a page, following redirects by hand so every hop is checked against private addresses
+   */
+  private async fetchPage(start: URL): Promise<{ url: string; contentType: string; body: string }> {
+    let url = start
+
+    for (let redirects = 0; ; redirects++) {
+      this.assertPublicHost(url)
+
+      const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+      let response: IncomingMessage
+      try {
+        response = await this.request(url, signal)
+      } catch (error) {
+        if (error instanceof AIError) throw error
+        throw new Error(signal.aborted ? 'Fetching the article timed out' : `Network error fetching the article: ${(error as Error).message}`)
+      }
+
+      const status = response.statusCode || 0
+      const location = response.headers.location
+      if (status >= 300 && status < 400 && location) {
+        response.resume()
+        if (redirects >= MAX_REDIRECTS) {
+          throw new AIError('Too many redirects', 'FETCH_FAILED', 'The page redirects too many times to be loaded.', false)
+        }
+        url = new URL(location, url)
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          throw new AIError('Redirect to a non-web URL', 'FETCH_FAILED', 'The page could not be loaded.', false)
+        }
+        continue
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume()
+        if (status >= 500) {
+          throw new Error(`Article site returned a server error (${status})`)
+        }
+        throw new AIError(
+          `Article fetch failed with HTTP ${status}`,
+          'FETCH_FAILED',
+          `The page could not be loaded (HTTP ${status}). It may need a login or block automated access.`,
+          false
+        )
+      }
+
+      const [contentType, ...parameters] = (response.headers['content-type'] || 'text/html').split(';').map(part => part.trim().toLowerCase())
+      if (contentType === 'application/pdf') {
+        response.resume()
+        throw new AIError('Article URL is a PDF', 'UNSUPPORTED_CONTENT', 'This link is a PDF. Download it and use Upload document instead.', false)
+      }
+      if (!/^text\/|^application\/xhtml\+xml$/.test(contentType)) {
+        response.resume()
+        throw new AIError(`Unsupported content type ${contentType}`, 'UNSUPPORTED_CONTENT', 'This link is not a web page.', false)
+      }
+
+      const charset = parameters.find(parameter => parameter.startsWith('charset='))?.slice(8).replace(/"/g, '')
+      return { url: url.toString(), contentType, body: await this.readBody(response, signal, charset) }
+    }
+  }
+
+  /**
+   * Send a GET request whose connection only goes to addresses that pass the private address check
+   */
+  private request(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+    const options = {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5',
+        'Accept-Encoding': 'identity'
+      },
+      lookup: lookupPublicAddress,
+      signal
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = url.protocol === 'https:' ? httpsRequest(url, options, resolve) : httpRequest(url, options, resolve)
+      request.on('error', reject).end()
+    })
+  }
+
+  private async readBody(response: IncomingMessage, signal: AbortSignal, charset?: string): Promise<string> {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    try {
+      for await (const chunk of response) {
+        size += chunk.length
+        if (size > MAX_PAGE_BYTES) {
+          response.destroy()
+          throw new AIError('Article page too large', 'CONTENT_TOO_LARGE', 'This page is too large to import.', false)
+        }
+        chunks.push(chunk)
+      }
+    } catch (error) {
+      if (error instanceof AIError) throw error
+      throw new Error(signal.aborted ? 'Fetching the article timed out' : `Network error fetching the article: ${(error as Error).message}`)
+    }
+
+    const bytes = Buffer.concat(chunks)
+    try {
+      return new TextDecoder(charset || 'utf-8').decode(bytes)
+    } catch {
+      return new TextDecoder('utf-8').decode(bytes)
+    }
+  }
+
+  /**
+   * Refuse links straight to an address on the local network. Host names are checked when they're
+   * resolved for the connection, so article imports can't be used to reach internal services.
+   */
+  private assertPublicHost(url: URL): void {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '')
+    if ((isIP(hostname) && isPrivateAddress(hostname)) || hostname === 'localhost') {
+      throw new AIError(`Refusing to fetch private address ${hostname}`, 'INVALID_URL', 'Only public web pages can be imported.', false)
+    }
+  }
+}
+
+// Export singleton instance
+export const webArticleService = new WebArticleService();
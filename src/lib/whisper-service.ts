@@ -4,12 +4,14 @@
  */
 
 import OpenAI from 'openai';
+import { UsageContext, usageService } from './usage-service';
 
 interface TranscriptionOptions {
   language?: string; // 语言代码，如 'en', 'zh', 'ja' 等
   prompt?: string; // 提示文本，提高转录准确性
   response_format?: 'json' | 'text' | 'srt' | 'verbose_json' | 'vtt';
   temperature?: number; // 0-1，控制随机性
+  usage?: UsageContext; // 计费对象：检查月度额度并记录用量
 }
 
 interface TranscriptionResult {
@@ -45,6 +47,8 @@ export class WhisperService {
   private readonly SUPPORTED_FORMATS = [
     'mp3', 'mp4', 'mpeg', 'mpga', 'm4a', 'wav', 'webm'
   ];
+  private readonly PRICE_PER_MINUTE_USD = 0.006; // whisper-1 按音频分钟计费
+  private readonly ESTIMATED_BYTES_PER_SECOND = 16000; // 约 128kbps，响应中没有时长时用于估算
 
   constructor() {
     if (!process.env.OPENAI_API_KEY) {
@@ -57,9 +61,9 @@ export class WhisperService {
   }
 
   /**
-   * 验证音频文件
+   * 验证音频文件（上传时先行校验，避免任务入队后才失败）
    */
-  private validateAudioFile(file: File): void {
+  validateAudioFile(file: File): void {
     // 检查文件大小
     if (file.size > this.MAX_FILE_SIZE) {
       throw new Error(`File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds maximum limit of 25MB`);
@@ -106,6 +110,11 @@ export class WhisperService {
     file: File, 
     options: TranscriptionOptions = {}
   ): Promise<TranscriptionResult> {
+    // 额度检查放在 try 之外，保留 QUOTA_EXCEEDED 错误码
+    if (options.usage) {
+      await usageService.assertWithinQuota(options.usage.userId, 'audio');
+    }
+
     try {
       // 验证文件
       this.validateAudioFile(file);
@@ -142,20 +151,27 @@ export class WhisperService {
       });
 
       // 处理响应
+      let result: TranscriptionResult;
       if (options.response_format === 'verbose_json') {
         const verboseResponse = response as any;
-        return {
+        result = {
           text: verboseResponse.text,
           language: verboseResponse.language,
           duration: verboseResponse.duration,
           segments: verboseResponse.segments,
         };
       } else {
-        return {
+        result = {
           text: typeof response === 'string' ? response : response.text,
         };
       }
 
+      if (options.usage) {
+        await this.recordUsage(options.usage, file, result.duration);
+      }
+
+      return result;
+
     } catch (error) {
       console.error('Whisper transcription error:', error);
       
@@ -166,6 +182,21 @@ export class WhisperService {
     }
   }
 
+  /**
+   * 记录转录用量（按音频时长计费）
+   */
+  private async recordUsage(usage: UsageContext, file: File, duration?: number): Promise<void> {
+    const audioSeconds = duration ?? file.size / this.ESTIMATED_BYTES_PER_SECOND;
+
+    await usageService.record(usage, {
+      task: 'transcription',
+      provider: 'openai',
+      model: 'whisper-1',
+      audioSeconds,
+      costUsd: (audioSeconds / 60) * this.PRICE_PER_MINUTE_USD
+    });
+  }
+
   /**
    * 高级音频处理（带进度跟踪）
    */
@@ -0,0 +1,10 @@
+import JSZip from 'jszip'
+
+/**
+ * Size an entry says it inflates to, read from the zip's central directory without inflating it.
+ * JSZip keeps this on a private field; entries it can't size count as infinitely large.
+ */
+export function uncompressedSize(file: JSZip.JSZipObject): number {
+  const size = (file as unknown as { _data?: { uncompressedSize?: unknown } })._data?.uncompressedSize
+  return typeof size === 'number' && size >= 0 ? size : Infinity
+}